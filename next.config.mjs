@@ -61,6 +61,12 @@ const nextConfig = {
 
   // Explicitly tell Next.js to handle pdf-lib as a dependency
   transpilePackages: ['pdf-lib'],
+
+  // Load the PDF rasterizer and headless browser from node_modules at runtime instead of bundling their native bindings,
+  // and the MJML compiler, which loads its configuration and components at runtime
+  experimental: {
+    serverComponentsExternalPackages: ['@napi-rs/canvas', 'pdfjs-dist', 'puppeteer', 'mjml'],
+  },
 };
 
 export default nextConfig;
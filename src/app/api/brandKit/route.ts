@@ -0,0 +1,111 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  BrandKit,
+  getEmailBrandKit,
+  getWorkspaceBrandKit,
+  setWorkspaceBrandKit,
+  validateBrandKit
+} from '@/backend/services/brandKit';
+import { getConversion } from '@/backend/services/emailConversions';
+import { getWorkspaceId } from '@/backend/services/workspaceSettings';
+import { getAuth } from '@clerk/nextjs/server';
+
+// GET endpoint to retrieve the workspace brand kit, or the brand kit extracted from a conversion
+export async function GET(request: NextRequest) {
+  try {
+    const auth = getAuth(request);
+
+    if (!auth.userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const emailId = searchParams.get('emailId');
+
+    if (emailId) {
+      const conversion = await getConversion(emailId, auth.userId);
+      const record = conversion ? await getEmailBrandKit(emailId) : null;
+
+      if (!record) {
+        return NextResponse.json(
+          { error: 'Brand kit not found' },
+          { status: 404 }
+        );
+      }
+
+      return NextResponse.json({ brandKit: record.kit, emailId, updatedAt: record.updated_at });
+    }
+
+    const record = await getWorkspaceBrandKit(getWorkspaceId(auth));
+
+    return NextResponse.json({
+      brandKit: record ? record.kit : null,
+      updatedAt: record ? record.updated_at : null
+    });
+
+  } catch (error) {
+    console.error('Brand kit fetch error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch brand kit' },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT endpoint to replace the workspace brand kit, with an edited kit or the kit of a conversion
+export async function PUT(request: NextRequest) {
+  try {
+    const auth = getAuth(request);
+
+    if (!auth.userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { emailId, brandKit } = await request.json();
+
+    let kit: BrandKit;
+    if (emailId) {
+      const conversion = await getConversion(emailId, auth.userId);
+      const record = conversion ? await getEmailBrandKit(emailId) : null;
+
+      if (!record) {
+        return NextResponse.json(
+          { error: 'Brand kit not found' },
+          { status: 404 }
+        );
+      }
+
+      kit = record.kit;
+    } else {
+      try {
+        kit = validateBrandKit(brandKit);
+      } catch (error) {
+        return NextResponse.json(
+          { error: error instanceof Error ? error.message : 'Invalid brand kit' },
+          { status: 400 }
+        );
+      }
+    }
+
+    const record = await setWorkspaceBrandKit(getWorkspaceId(auth), kit);
+
+    return NextResponse.json({
+      success: true,
+      brandKit: record.kit,
+      updatedAt: record.updated_at
+    });
+
+  } catch (error) {
+    console.error('Brand kit update error:', error);
+    return NextResponse.json(
+      { error: 'Failed to update brand kit' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,9 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { Message, generateText } from 'ai';
 import { anthropic } from '@ai-sdk/anthropic';
+import { getAuth } from '@clerk/nextjs/server';
+import { getPromptTemplate, renderPromptTemplate, resolvePromptTemplates } from '@/backend/services/promptTemplates';
+import { recordModelUsage } from '@/backend/services/usageAccounting';
+import { getWorkspaceId } from '@/backend/services/workspaceSettings';
 
 export const runtime = 'edge';
 
+const CODE_ASSISTANT_MODEL = 'claude-3-7-sonnet-20250219';
+
 export async function POST(req: NextRequest) {
   try {
     const { messages, code } = await req.json();
@@ -15,84 +21,49 @@ export async function POST(req: NextRequest) {
       );
     }
 
+    // Use the system prompt version selected for the user's workspace
+    const auth = getAuth(req);
+    const templates = auth.userId ? await resolvePromptTemplates(getWorkspaceId(auth)) : undefined;
+
     // Create a system message that provides context about the assistant's role
     // and includes the current code if provided
     const systemMessage: Message = {
       id: 'system',
       role: 'system',
-      content: `You are an expert HTML email developer assistant that helps users write, improve, and debug HTML email templates. 
-      
-      Provide clear, concise guidance on:
-      - Email client compatibility 
-      - Responsive design best practices
-      - Accessibility improvements
-      - Code structure and optimization
-      - HTML/CSS techniques specific to email development
-      
-      ${code ? `Here is the current HTML code the user is working with:
-      \`\`\`html
-      ${code}
-      \`\`\`
-      Refer to this code when relevant to the user's questions.` : ''}
-      
-      IMPORTANT INSTRUCTIONS FOR ANSWERING:
-      1. Before providing a final answer, determine if you need additional information from the user
-      2. If you need clarification, ask 1-2 specific follow-up questions to better understand their needs
-      3. Don't list multiple possible approaches - focus on providing a single, best answer
-      4. Be direct and concise - avoid unnecessary explanations when a straightforward answer will suffice
-      5. For complex requests, prioritize the most relevant information rather than covering every edge case
-      
-      EMAIL CODING STRATEGY:
-      When suggesting or implementing code changes, follow these best practices:
-      1. Use table-based layouts for maximum email client compatibility
-      2. Always use inline CSS styles instead of style blocks or external CSS
-      3. Set exact pixel values for spacing, margins, and padding to ensure precise positioning
-      4. Use media queries to implement responsive design, hiding desktop elements and showing mobile ones
-      5. Set MSO conditional comments for Outlook compatibility when needed
-      6. Add proper HTML comments to clearly identify different sections of the email
-      7. Maintain precise line spacing, padding, and margins between elements
-      8. Ensure all elements maintain their relative positions at various screen sizes
-      9. Include proper meta tags for responsiveness
-      
-      CODE CHANGE INSTRUCTIONS:
-      1. NEVER provide code block snippets for the user to copy and apply manually
-      2. When suggesting code changes, ALWAYS RESPOND with something like: "I can modify the code to implement this. Would you like me to make this change for you?"
-      3. This will trigger the analyze-and-modify endpoint which will properly format the changes
-      4. The system will then show Apply/Reject buttons for the user, rather than code blocks they need to copy manually
-      5. For explanatory code examples that aren't meant to be directly applied, clearly state that these are just examples
-      
-      Keep your responses professional, helpful, and tailored to email development.
-      
-      When providing code examples or snippets:
-      1. Always wrap HTML code in triple backticks with the 'html' language identifier: \`\`\`html
-      2. Always wrap CSS code in triple backticks with the 'css' language identifier: \`\`\`css
-      3. Ensure code snippets are properly indented and formatted
-      4. Include comments explaining key parts of the code
-      5. For complex changes, break down the explanation into steps before showing the code
-      
-      Example format for code snippets:
-      Here's an example of a responsive email container:
-      
-      \`\`\`html
-      <!-- Main container with max-width -->
-      <div style="max-width: 600px; margin: 0 auto;">
-        <!-- Content here -->
-      </div>
-      \`\`\`
-      `
+      content: renderPromptTemplate(getPromptTemplate(templates, 'code-assistant-chat'), {
+        code: code || '',
+        codeContext: code ? `Here is the current HTML code the user is working with:
+\`\`\`html
+${code}
+\`\`\`
+Refer to this code when relevant to the user's questions.` : ''
+      })
     };
 
     // Combine system message with user messages
     const allMessages = [systemMessage, ...messages];
 
     // Generate the response text using AI SDK
-    const { text, reasoning } = await generateText({
-      model: anthropic('claude-3-7-sonnet-20250219'),
+    const startedAt = Date.now();
+    const { text, reasoning, usage } = await generateText({
+      model: anthropic(CODE_ASSISTANT_MODEL),
       messages: allMessages,
       temperature: 0.3,
       maxTokens: 1500,
     });
 
+    if (auth.userId) {
+      await recordModelUsage(
+        { clerkUserId: auth.userId, workspaceId: getWorkspaceId(auth), provider: 'claude', operation: 'code-assistant-chat' },
+        {
+          inputTokens: usage.promptTokens,
+          outputTokens: usage.completionTokens,
+          model: CODE_ASSISTANT_MODEL,
+          latencyMs: Date.now() - startedAt
+        }
+      );
+    }
+
     return NextResponse.json({
       text,
       reasoning: reasoning || null
@@ -0,0 +1,163 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { buildAmpMimeMessage, convertToAmpEmail, validateAmpEmail } from '@/backend/services/ampEmail';
+import { getConversion, updateConversionMetadata } from '@/backend/services/emailConversions';
+import { readJsonBody } from '@/lib/utils/json-body';
+import { getAuth } from '@clerk/nextjs/server';
+
+/**
+ * GET handler for the /api/convertEmail/:id/amp route
+ * Returns the AMP version of a conversion with its validation issues;
+ * with ?format=mime, the multipart message with the text, AMP and HTML parts
+ */
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const { userId: clerkUserId } = getAuth(request);
+
+    if (!clerkUserId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const conversion = await getConversion(params.id, clerkUserId);
+
+    if (!conversion) {
+      return NextResponse.json(
+        { error: 'Conversion not found' },
+        { status: 404 }
+      );
+    }
+
+    const amp = conversion.metadata?.ampHtml ?? null;
+
+    if (new URL(request.url).searchParams.get('format') === 'mime') {
+      if (!amp) {
+        return NextResponse.json(
+          { error: 'The conversion has no AMP version' },
+          { status: 404 }
+        );
+      }
+
+      const message = buildAmpMimeMessage({ subject: conversion.file_name, html: conversion.html_content, amp });
+
+      return new NextResponse(message, {
+        headers: {
+          'Content-Type': 'message/rfc822',
+          'Content-Disposition': `attachment; filename="${conversion.id}.eml"`
+        }
+      });
+    }
+
+    return NextResponse.json({
+      amp,
+      issues: amp ? validateAmpEmail(amp) : []
+    });
+
+  } catch (error) {
+    console.error('AMP fetch error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch the AMP version' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST handler for the /api/convertEmail/:id/amp route
+ * Generates the AMP version from the given HTML, e.g. the current editor content, and stores it
+ */
+export async function POST(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const { userId: clerkUserId } = getAuth(request);
+
+    if (!clerkUserId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const body = await readJsonBody(request);
+    if (body instanceof NextResponse) {
+      return body;
+    }
+
+    const { html } = body;
+
+    if (typeof html !== 'string' || !html.trim()) {
+      return NextResponse.json(
+        { error: 'The HTML of the email is required' },
+        { status: 400 }
+      );
+    }
+
+    const amp = convertToAmpEmail(html);
+    const conversion = await updateConversionMetadata(params.id, clerkUserId, { ampHtml: amp });
+
+    if (!conversion) {
+      return NextResponse.json(
+        { error: 'Conversion not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ amp, issues: validateAmpEmail(amp) });
+
+  } catch (error) {
+    console.error('AMP generation error:', error);
+    return NextResponse.json(
+      { error: 'Failed to generate the AMP version' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT handler for the /api/convertEmail/:id/amp route
+ * Stores an edited AMP version; it is stored even when invalid, with its issues returned
+ */
+export async function PUT(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const { userId: clerkUserId } = getAuth(request);
+
+    if (!clerkUserId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const body = await readJsonBody(request);
+    if (body instanceof NextResponse) {
+      return body;
+    }
+
+    const { amp } = body;
+
+    if (typeof amp !== 'string' || !amp.trim()) {
+      return NextResponse.json(
+        { error: 'The AMP version is required' },
+        { status: 400 }
+      );
+    }
+
+    const conversion = await updateConversionMetadata(params.id, clerkUserId, { ampHtml: amp });
+
+    if (!conversion) {
+      return NextResponse.json(
+        { error: 'Conversion not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ amp, issues: validateAmpEmail(amp) });
+
+  } catch (error) {
+    console.error('AMP update error:', error);
+    return NextResponse.json(
+      { error: 'Failed to save the AMP version' },
+      { status: 500 }
+    );
+  }
+}
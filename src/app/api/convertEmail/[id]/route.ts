@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getConversion } from '@/backend/services/emailConversions';
+import { getEmailBrandKit } from '@/backend/services/brandKit';
+import { getVersions } from '@/backend/services/versionControl';
+import { getAuth } from '@clerk/nextjs/server';
+
+// GET endpoint to load a stored conversion, with the HTML and MJML of its latest version
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const { userId: clerkUserId } = getAuth(request);
+    
+    if (!clerkUserId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    
+    const conversion = await getConversion(params.id, clerkUserId);
+    
+    if (!conversion) {
+      return NextResponse.json(
+        { error: 'Conversion not found' },
+        { status: 404 }
+      );
+    }
+    
+    // The conversion ID is the email ID of its versions; the newest version comes first
+    const { versions } = await getVersions(conversion.id);
+    const latestVersion = versions?.[0];
+    const brandKit = await getEmailBrandKit(conversion.id);
+    
+    return NextResponse.json({
+      id: conversion.id,
+      fileName: conversion.file_name,
+      html: latestVersion ? latestVersion.html_content : conversion.html_content,
+      // The MJML belongs to the version; a version without MJML has none, even if the conversion had some
+      mjml: latestVersion ? latestVersion.mjml_content ?? null : conversion.metadata?.mjmlSource ?? null,
+      version: latestVersion ? latestVersion.version : null,
+      metadata: conversion.metadata || {},
+      brandKit: brandKit ? brandKit.kit : null,
+      createdAt: conversion.created_at
+    });
+    
+  } catch (error) {
+    console.error('Conversion fetch error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch conversion' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getConversion } from '@/backend/services/emailConversions';
+import {
+  SectionTarget,
+  regenerateEmailSection,
+  resolveSectionTarget,
+  validateDesignRegion
+} from '@/backend/services/sectionRegeneration';
+import { getWorkspaceId } from '@/backend/services/workspaceSettings';
+import { readJsonBody } from '@/lib/utils/json-body';
+import { getAuth } from '@clerk/nextjs/server';
+
+// Design regions are cropped with the native canvas, which the Edge runtime does not provide
+export const runtime = 'nodejs';
+
+/**
+ * POST handler for the /api/convertEmail/:id/sections route
+ * Regenerates one section of a conversion with its provider and returns the merged HTML
+ * The section is picked by ID, by an editor selection or by an area of the design
+ */
+export async function POST(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const auth = getAuth(request);
+    const clerkUserId = auth.userId;
+
+    if (!clerkUserId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const conversion = await getConversion(params.id, clerkUserId);
+
+    if (!conversion) {
+      return NextResponse.json(
+        { error: 'Conversion not found' },
+        { status: 404 }
+      );
+    }
+
+    const body = await readJsonBody(request);
+    if (body instanceof NextResponse) {
+      return body;
+    }
+
+    const { html, sectionId, region, instructions } = body;
+    const selection = body.selection as { from: number; to: number } | null | undefined;
+
+    if (typeof html !== 'string' || !html.trim()) {
+      return NextResponse.json(
+        { error: 'The HTML of the email is required' },
+        { status: 400 }
+      );
+    }
+
+    // Reject targets that do not identify exactly one section before calling the model
+    let target: SectionTarget;
+    try {
+      target = {
+        sectionId: typeof sectionId === 'string' ? sectionId : undefined,
+        selection: selection && Number.isInteger(selection.from) && Number.isInteger(selection.to)
+          ? { from: selection.from, to: selection.to }
+          : undefined,
+        region: region ? validateDesignRegion(region) : undefined
+      };
+
+      const pageCount = conversion.metadata?.pageCount;
+      if (target.region && pageCount && target.region.pageNumber > pageCount) {
+        throw new Error(`The design has ${pageCount} pages`);
+      }
+
+      resolveSectionTarget(html, target);
+    } catch (error) {
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : 'Invalid section' },
+        { status: 400 }
+      );
+    }
+
+    const result = await regenerateEmailSection({
+      conversion,
+      clerkUserId,
+      workspaceId: getWorkspaceId(auth),
+      html,
+      target,
+      instructions: typeof instructions === 'string' && instructions.trim() ? instructions.trim() : undefined
+    });
+
+    return NextResponse.json(result);
+
+  } catch (error) {
+    console.error('Section regeneration error:', error);
+    return NextResponse.json(
+      { error: 'Failed to regenerate section' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,103 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { DEFAULT_CONVERSION_OPTIONS } from '@/backend/services/conversionProvider';
+import { getConversionJob } from '@/backend/services/conversionJobs';
+import { getConversion, updateConversionMetadata } from '@/backend/services/emailConversions';
+import { diffConversionHtml, loadHeatmaps } from '@/backend/services/visualDiff';
+import { getAuth } from '@clerk/nextjs/server';
+
+// The HTML is rendered in a headless browser, which the Edge runtime does not provide
+export const runtime = 'nodejs';
+
+/**
+ * GET handler for the /api/convertEmail/:id/visual-diff route
+ * Returns the stored visual diff of a conversion with its heatmaps as data URLs
+ */
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const { userId: clerkUserId } = getAuth(request);
+
+    if (!clerkUserId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const conversion = await getConversion(params.id, clerkUserId);
+
+    if (!conversion) {
+      return NextResponse.json(
+        { error: 'Conversion not found' },
+        { status: 404 }
+      );
+    }
+
+    const visualDiff = conversion.metadata?.visualDiff ?? null;
+
+    return NextResponse.json({
+      visualDiff,
+      heatmaps: visualDiff ? await loadHeatmaps(visualDiff) : {}
+    });
+
+  } catch (error) {
+    console.error('Visual diff fetch error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch visual diff' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST handler for the /api/convertEmail/:id/visual-diff route
+ * Compares the given HTML with the conversion's design and stores the result with the conversion
+ */
+export async function POST(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const { userId: clerkUserId } = getAuth(request);
+
+    if (!clerkUserId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const conversion = await getConversion(params.id, clerkUserId);
+
+    if (!conversion) {
+      return NextResponse.json(
+        { error: 'Conversion not found' },
+        { status: 404 }
+      );
+    }
+
+    const { html } = await request.json();
+
+    if (typeof html !== 'string' || !html.trim()) {
+      return NextResponse.json(
+        { error: 'The HTML of the email is required' },
+        { status: 400 }
+      );
+    }
+
+    // The conversion's job keeps the options its design was rasterized with
+    const job = await getConversionJob(conversion.id, clerkUserId);
+    const options = { ...DEFAULT_CONVERSION_OPTIONS, ...job?.options };
+
+    const visualDiff = await diffConversionHtml(conversion, clerkUserId, html, options);
+    await updateConversionMetadata(conversion.id, clerkUserId, { visualDiff });
+
+    return NextResponse.json({
+      visualDiff,
+      heatmaps: await loadHeatmaps(visualDiff)
+    });
+
+  } catch (error) {
+    console.error('Visual diff error:', error);
+    return NextResponse.json(
+      { error: 'Failed to compare the email with its design' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { purgeConversionCache } from '@/backend/services/conversionCache';
+import { getOrCreateUser } from '@/backend/services/users';
+import { getWorkspaceId } from '@/backend/services/workspaceSettings';
+import { getAuth } from '@clerk/nextjs/server';
+
+// DELETE endpoint to purge the cached conversions of the workspace (Administrators only)
+export async function DELETE(request: NextRequest) {
+  try {
+    const auth = getAuth(request);
+    const { userId: clerkUserId } = auth;
+
+    if (!clerkUserId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const user = await getOrCreateUser(clerkUserId);
+
+    if (user.role !== 'Administrator') {
+      return NextResponse.json(
+        { error: 'Only administrators can purge the conversion cache' },
+        { status: 403 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const fileHash = searchParams.get('fileHash') || undefined;
+    const createdBefore = searchParams.get('createdBefore');
+
+    if (createdBefore && isNaN(Date.parse(createdBefore))) {
+      return NextResponse.json(
+        { error: `Invalid date: ${createdBefore}` },
+        { status: 400 }
+      );
+    }
+
+    const purged = await purgeConversionCache(getWorkspaceId(auth), {
+      fileHash,
+      createdBefore: createdBefore ? new Date(createdBefore).toISOString() : undefined
+    });
+
+    return NextResponse.json({ success: true, purged });
+
+  } catch (error) {
+    console.error('Conversion cache purge error:', error);
+    return NextResponse.json(
+      { error: 'Failed to purge conversion cache' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { CandidateWithJob, getCandidateGroup, promoteCandidate } from '@/backend/services/conversionCandidates';
+import { readJsonBody } from '@/lib/utils/json-body';
+import { getAuth } from '@clerk/nextjs/server';
+
+/**
+ * Formats a candidate for the client
+ * @param candidate The candidate and the status of its job
+ * @param isSettled Whether a candidate of the group was chosen; the conversions of the others are deleted then
+ */
+function toCandidateResponse(candidate: CandidateWithJob, isSettled: boolean) {
+  return {
+    id: candidate.id,
+    provider: candidate.provider,
+    model: candidate.model,
+    temperature: candidate.temperature,
+    status: candidate.status,
+    error: candidate.error,
+    // The finished conversion can be loaded from /api/convertEmail/:id
+    conversionId: candidate.status === 'done' && (candidate.promoted || !isSettled) ? candidate.id : null,
+    qaPassRate: candidate.qa_pass_rate,
+    visualSimilarity: candidate.visual_similarity,
+    score: candidate.score,
+    promoted: candidate.promoted
+  };
+}
+
+// GET endpoint to load the candidates of a multi-candidate conversion, best score first
+export async function GET(request: NextRequest, { params }: { params: { groupId: string } }) {
+  try {
+    const { userId: clerkUserId } = getAuth(request);
+    
+    if (!clerkUserId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    
+    const candidates = await getCandidateGroup(params.groupId, clerkUserId);
+    
+    if (candidates.length === 0) {
+      return NextResponse.json(
+        { error: 'Conversion candidates not found' },
+        { status: 404 }
+      );
+    }
+    
+    return NextResponse.json({
+      groupId: params.groupId,
+      candidates: candidates.map(candidate => toCandidateResponse(candidate, candidates.some(other => other.promoted)))
+    });
+    
+  } catch (error) {
+    console.error('Conversion candidates fetch error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch conversion candidates' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST endpoint to promote the chosen candidate; the client then opens it in the editor
+export async function POST(request: NextRequest, { params }: { params: { groupId: string } }) {
+  try {
+    const { userId: clerkUserId } = getAuth(request);
+    
+    if (!clerkUserId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    
+    const body = await readJsonBody(request);
+    if (body instanceof NextResponse) {
+      return body;
+    }
+    
+    const { candidateId } = body;
+    
+    if (typeof candidateId !== 'string' || !candidateId) {
+      return NextResponse.json(
+        { error: 'Candidate ID is required' },
+        { status: 400 }
+      );
+    }
+    
+    const candidate = await promoteCandidate(params.groupId, candidateId, clerkUserId);
+    
+    if (!candidate) {
+      return NextResponse.json(
+        { error: 'Finished conversion candidate not found, or another candidate was chosen' },
+        { status: 404 }
+      );
+    }
+    
+    return NextResponse.json({ success: true, candidate: toCandidateResponse(candidate, true) });
+    
+  } catch (error) {
+    console.error('Conversion candidate promotion error:', error);
+    return NextResponse.json(
+      { error: 'Failed to promote conversion candidate' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getConversionJob, hasConversionJobEvents } from '@/backend/services/conversionJobs';
+import { createConversionStreamResponse } from '@/backend/services/conversionStream';
+import { getAuth } from '@clerk/nextjs/server';
+
+// Job events come from the server process that runs the job, or from the event table
+export const runtime = 'nodejs';
+
+// A stream that reaches this many seconds is closed, and the client resumes it
+export const maxDuration = 300;
+
+// GET endpoint to resume the event stream of a conversion job
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const { userId: clerkUserId } = getAuth(request);
+    
+    if (!clerkUserId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    
+    const job = await getConversionJob(params.id, clerkUserId);
+    
+    if (!job) {
+      return NextResponse.json(
+        { error: 'Conversion job not found' },
+        { status: 404 }
+      );
+    }
+    
+    // Only running and recently finished jobs can be resumed; clients fall back to the job status endpoint
+    if (!hasConversionJobEvents(job)) {
+      return NextResponse.json(
+        { error: 'The events of this conversion job are no longer available', status: job.status },
+        { status: 409 }
+      );
+    }
+    
+    // EventSource sends Last-Event-ID when it reconnects; fetch clients can use the query string
+    const { searchParams } = new URL(request.url);
+    const lastEventId = parseInt(
+      request.headers.get('Last-Event-ID') || searchParams.get('lastEventId') || '0',
+      10
+    ) || 0;
+    
+    return createConversionStreamResponse(job.id, lastEventId);
+    
+  } catch (error) {
+    console.error('Conversion job events error:', error);
+    return NextResponse.json(
+      { error: 'Failed to stream conversion job events' },
+      { status: 500 }
+    );
+  }
+}
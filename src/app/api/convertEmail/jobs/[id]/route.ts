@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getConversionJob } from '@/backend/services/conversionJobs';
+import { getAuth } from '@clerk/nextjs/server';
+
+// Job status checks must see jobs running in this server process
+export const runtime = 'nodejs';
+
+// GET endpoint to check on a conversion job
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const { userId: clerkUserId } = getAuth(request);
+    
+    if (!clerkUserId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    
+    const job = await getConversionJob(params.id, clerkUserId);
+    
+    if (!job) {
+      return NextResponse.json(
+        { error: 'Conversion job not found' },
+        { status: 404 }
+      );
+    }
+    
+    return NextResponse.json({
+      id: job.id,
+      status: job.status,
+      fileName: job.file_name,
+      provider: job.provider,
+      model: job.model,
+      error: job.error,
+      progress: job.progress,
+      // The finished conversion can be loaded from /api/convertEmail/:id
+      conversionId: job.status === 'done' ? job.id : null,
+      createdAt: job.created_at,
+      updatedAt: job.updated_at,
+      completedAt: job.completed_at
+    });
+    
+  } catch (error) {
+    console.error('Conversion job fetch error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch conversion job' },
+      { status: 500 }
+    );
+  }
+}
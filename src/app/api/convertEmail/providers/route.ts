@@ -0,0 +1,115 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  isConversionProviderId,
+  listConversionProviders,
+  resolveConversionProvider,
+  setWorkspaceConversionProvider
+} from '@/backend/services/conversionRegistry';
+import { getOrCreateUser } from '@/backend/services/users';
+import { getWorkspaceId, getWorkspaceSettings } from '@/backend/services/workspaceSettings';
+import { readJsonBody } from '@/lib/utils/json-body';
+import { getAuth } from '@clerk/nextjs/server';
+
+// GET endpoint to list the conversion providers, the workspace default and the provider and model stored for the workspace
+export async function GET(request: NextRequest) {
+  try {
+    const auth = getAuth(request);
+    
+    if (!auth.userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    
+    const workspaceId = getWorkspaceId(auth);
+    const [{ provider }, settings] = await Promise.all([
+      resolveConversionProvider(null, workspaceId),
+      getWorkspaceSettings(workspaceId)
+    ]);
+    
+    return NextResponse.json({
+      providers: listConversionProviders(),
+      defaultProvider: provider.id,
+      workspaceProvider: settings.conversion_provider,
+      workspaceModel: settings.conversion_model
+    });
+    
+  } catch (error) {
+    console.error('Conversion providers fetch error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch conversion providers' },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT endpoint to set the default conversion provider and model of the workspace (Administrators only)
+export async function PUT(request: NextRequest) {
+  try {
+    const auth = getAuth(request);
+
+    if (!auth.userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const user = await getOrCreateUser(auth.userId);
+
+    if (user.role !== 'Administrator') {
+      return NextResponse.json(
+        { error: 'Only administrators can change the conversion provider' },
+        { status: 403 }
+      );
+    }
+
+    const body = await readJsonBody(request);
+    if (body instanceof NextResponse) {
+      return body;
+    }
+
+    // Send null to fall back to DEFAULT_CONVERSION_PROVIDER
+    const { provider, model } = body;
+
+    if (provider === undefined) {
+      return NextResponse.json(
+        { error: 'A provider, or null for the server default, is required' },
+        { status: 400 }
+      );
+    }
+
+    if (provider !== null && !isConversionProviderId(provider)) {
+      return NextResponse.json(
+        { error: `Unknown conversion provider: ${provider}` },
+        { status: 400 }
+      );
+    }
+
+    if (model !== undefined && model !== null && typeof model !== 'string') {
+      return NextResponse.json(
+        { error: 'The model must be a string' },
+        { status: 400 }
+      );
+    }
+
+    const workspaceId = getWorkspaceId(auth);
+    const settings = await setWorkspaceConversionProvider(workspaceId, provider, model?.trim() || null);
+    const { provider: defaultProvider } = await resolveConversionProvider(null, workspaceId);
+
+    return NextResponse.json({
+      success: true,
+      defaultProvider: defaultProvider.id,
+      workspaceProvider: settings.conversion_provider,
+      workspaceModel: settings.conversion_model
+    });
+
+  } catch (error) {
+    console.error('Conversion provider update error:', error);
+    return NextResponse.json(
+      { error: 'Failed to update the conversion provider' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,19 +1,35 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { v4 as uuidv4 } from 'uuid';
-import { createGeminiConversionService } from '@/backend/services/geminiConversionService';
+import { getConversionProvider, resolveConversionProvider } from '@/backend/services/conversionRegistry';
+import { TARGET_PLATFORMS, TargetPlatform, parsePageRoles } from '@/backend/services/conversionProvider';
+import { parseRepairRounds } from '@/backend/services/conversionRepair';
+import { createConversionJob, enqueueConversionJob } from '@/backend/services/conversionJobs';
+import { CandidateSpec, createConversionCandidate, parseCandidateSpecs } from '@/backend/services/conversionCandidates';
+import { getWorkspaceId } from '@/backend/services/workspaceSettings';
+import { isSupportedDesignFile, uploadDesignFile } from '@/backend/services/designSource';
+import { clampRasterDpi } from '@/backend/services/pdfRasterizer';
 import { getAuth } from '@clerk/nextjs/server';
+import { waitUntil } from '@vercel/functions';
 
-// Initialize the conversion service
-const conversionService = createGeminiConversionService();
+// Conversion jobs run in the server process after the response is sent
+export const runtime = 'nodejs';
+
+// The function is kept alive for the jobs it queued, up to this many seconds
+export const maxDuration = 300;
 
 /**
  * POST handler for the /api/convertEmail route
- * Accepts a file upload and converts it to HTML using the GeminiConversionService
+ * Accepts a file upload and queues a job that converts it to HTML using the
+ * provider chosen for the request or workspace
+ * Poll /api/convertEmail/jobs/:id for the job status
+ * With a candidates field, one job per candidate is queued instead; load the
+ * candidates and their scores from /api/convertEmail/candidates/:groupId
  */
 export async function POST(request: NextRequest) {
   try {
     // Check authentication
-    const { userId } = getAuth(request);
+    const auth = getAuth(request);
+    const { userId } = auth;
     if (!userId) {
       return NextResponse.json(
         { error: 'Unauthorized. Please sign in to use this feature.' }, 
@@ -36,48 +52,197 @@ export async function POST(request: NextRequest) {
     }
     
     // Validate file type
-    const validTypes = ['.pdf'];
     const fileExt = '.' + file.name.split('.').pop()?.toLowerCase();
     
-    if (!validTypes.includes(fileExt)) {
+    if (!isSupportedDesignFile(file.name)) {
       return NextResponse.json(
-        { error: `Invalid file type. Only PDF files are supported.` }, 
+        { error: `Invalid file type. Only PDF, PNG, JPG, SVG and ZIP files are supported.` }, 
         { status: 400 }
       );
     }
     
-    // Upload the file to Supabase (simulated for this example)
-    // In a real implementation, this would save to Supabase storage
-    const filePath = `temp/${userId}/${conversionId}${fileExt}`;
-    
     // Convert the file to an ArrayBuffer
     const arrayBuffer = await file.arrayBuffer();
     
-    // For this example, we'll just use the file directly from memory
-    // In a real implementation, you would upload to Supabase first
+    // Get conversion options from the request
+    const makeResponsive = formData.get('makeResponsive') !== 'false'; // Default to true
+    const optimizeForEmail = formData.get('optimizeForEmail') !== 'false'; // Default to true
+    const targetPlatform = (formData.get('targetPlatform') as TargetPlatform) || 'sfmc';
     
-    // Convert the design to HTML using the service
-    const result = await conversionService.convertDesignToHtml(
-      filePath, 
-      file.name,
-      arrayBuffer
-    );
+    if (!TARGET_PLATFORMS.includes(targetPlatform)) {
+      return NextResponse.json(
+        { error: `Unknown target platform: ${targetPlatform}` }, 
+        { status: 400 }
+      );
+    }
+    
+    const rasterDpi = clampRasterDpi(parseInt(formData.get('rasterDpi') as string, 10));
+    
+    // Explicit desktop/mobile/dark/ignore role for each page, keyed by page number
+    let pageRoles;
+    try {
+      pageRoles = parsePageRoles(formData.get('pageRoles') as string | null);
+    } catch (error) {
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : 'Invalid page role map' }, 
+        { status: 400 }
+      );
+    }
+    
+    // Number of QA self-repair rounds, 0 disables self-repair
+    const repairRounds = parseRepairRounds(formData.get('repairRounds') as string | null);
+    
+    // Follow the workspace brand kit unless the form opts out
+    const useBrandKit = formData.get('useBrandKit') !== 'false'; // Default to true
     
-    // Add user ID to metadata
-    result.metadata = {
-      ...result.metadata,
-      userId,
-      conversionId
+    // Reuse an earlier conversion of the same file and settings unless the form bypasses the cache
+    const useCache = formData.get('useCache') !== 'false'; // Default to true
+    
+    // Add dark mode styles derived from the brand palette when the form asks for them
+    const darkMode = formData.get('darkMode') === 'true'; // Default to false
+    
+    // Add Outlook fallbacks unless the form opts out
+    const outlookFallbacks = formData.get('outlookFallbacks') !== 'false'; // Default to true
+    
+    // Emit the MJML source of the HTML when the form asks for it
+    const mjml = formData.get('mjml') === 'true'; // Default to false
+    
+    const options = {
+      makeResponsive,
+      optimizeForEmail,
+      targetPlatform,
+      rasterDpi,
+      pageRoles,
+      repairRounds,
+      useBrandKit,
+      useCache,
+      darkMode,
+      outlookFallbacks,
+      mjml
     };
+    const workspaceId = getWorkspaceId(auth);
+    
+    // Several providers, models or temperatures to convert with and compare
+    let candidates: CandidateSpec[];
+    try {
+      candidates = parseCandidateSpecs(formData.get('candidates') as string | null);
+    } catch (error) {
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : 'Invalid candidates' }, 
+        { status: 400 }
+      );
+    }
+    
+    if (candidates.length > 0) {
+      // The generated ID groups the candidates, which share the uploaded file
+      const groupId = conversionId;
+      const filePath = await uploadDesignFile(`${userId}/${groupId}${fileExt}`, arrayBuffer);
+      const jobs = [];
+      
+      for (const candidate of candidates) {
+        const provider = getConversionProvider(candidate.provider);
+        const model = candidate.model;
+        const candidateOptions = { ...options, model, temperature: candidate.temperature };
+        const jobId = uuidv4();
+        
+        const job = await createConversionJob({
+          jobId,
+          clerkUserId: userId,
+          fileName: file.name,
+          storagePath: filePath,
+          provider: provider.id,
+          model,
+          options: candidateOptions
+        });
+        await createConversionCandidate({
+          jobId,
+          groupId,
+          clerkUserId: userId,
+          provider: provider.id,
+          model,
+          temperature: candidate.temperature
+        });
+        
+        waitUntil(enqueueConversionJob({
+          jobId,
+          clerkUserId: userId,
+          workspaceId,
+          provider,
+          request: {
+            filePath,
+            fileName: file.name,
+            fileBuffer: arrayBuffer,
+            options: candidateOptions
+          },
+          candidateGroupId: groupId
+        }));
+        
+        jobs.push({ jobId: job.id, provider: provider.id, model: model || null, temperature: candidate.temperature ?? null, status: job.status });
+      }
+      
+      return NextResponse.json(
+        {
+          success: true,
+          candidateGroupId: groupId,
+          jobs
+        },
+        { status: 202 }
+      );
+    }
+    
+    // Pick the provider for this request or workspace
+    let resolved;
+    try {
+      resolved = await resolveConversionProvider(
+        formData.get('provider') as string | null,
+        workspaceId
+      );
+    } catch (error) {
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : 'Invalid conversion provider' }, 
+        { status: 400 }
+      );
+    }
+    
+    // Keep the original design file with the conversion
+    const filePath = await uploadDesignFile(`${userId}/${conversionId}${fileExt}`, arrayBuffer);
     
-    // Return the HTML and metadata
-    return NextResponse.json({
-      success: true,
-      html: result.html,
-      metadata: result.metadata,
-      conversionId
+    const model = (formData.get('model') as string) || resolved.model;
+    
+    // Record the job, then run it in the background
+    const job = await createConversionJob({
+      jobId: conversionId,
+      clerkUserId: userId,
+      fileName: file.name,
+      storagePath: filePath,
+      provider: resolved.provider.id,
+      model,
+      options
     });
     
+    waitUntil(enqueueConversionJob({
+      jobId: conversionId,
+      clerkUserId: userId,
+      workspaceId,
+      provider: resolved.provider,
+      request: {
+        filePath,
+        fileName: file.name,
+        fileBuffer: arrayBuffer,
+        options: { ...options, model }
+      }
+    }));
+    
+    // Return the job; its ID is also the ID of the conversion once it is done
+    return NextResponse.json(
+      {
+        success: true,
+        jobId: job.id,
+        status: job.status
+      },
+      { status: 202 }
+    );
+    
   } catch (error) {
     console.error('Error converting email:', error);
     return NextResponse.json(
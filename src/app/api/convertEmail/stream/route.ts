@@ -1,22 +1,28 @@
 import { NextRequest } from 'next/server';
-import { createGeminiConversionService } from '@/backend/services/geminiConversionService';
+import { v4 as uuidv4 } from 'uuid';
+import { resolveConversionProvider } from '@/backend/services/conversionRegistry';
+import { TARGET_PLATFORMS, TargetPlatform, parsePageRoles } from '@/backend/services/conversionProvider';
+import { parseRepairRounds } from '@/backend/services/conversionRepair';
+import { createConversionJob, enqueueConversionJob } from '@/backend/services/conversionJobs';
+import { createConversionStreamResponse } from '@/backend/services/conversionStream';
+import { getWorkspaceId } from '@/backend/services/workspaceSettings';
+import { isSupportedDesignFile, uploadDesignFile } from '@/backend/services/designSource';
+import { clampRasterDpi } from '@/backend/services/pdfRasterizer';
 import { getAuth } from '@clerk/nextjs/server';
-import { createClient } from '@supabase/supabase-js';
+import { waitUntil } from '@vercel/functions';
 
-// Explicitly set Edge runtime
-export const runtime = 'edge';
+// Rasterizing PDF pages and images needs the native canvas bindings, and conversion
+// jobs run in the server process, neither of which is available on the Edge runtime
+export const runtime = 'nodejs';
 
-// Initialize Supabase client directly in the route handler
-const createSupabaseClient = () => {
-  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || '';
-  const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY || '';
-  return createClient(supabaseUrl, supabaseKey);
-};
+// The function is kept alive for the job it queued, up to this many seconds
+export const maxDuration = 300;
 
 export async function POST(request: NextRequest) {
   try {
     // Check authentication
-    const { userId: clerkUserId } = getAuth(request);
+    const auth = getAuth(request);
+    const { userId: clerkUserId } = auth;
     
     if (!clerkUserId) {
       return new Response(
@@ -37,54 +43,130 @@ export async function POST(request: NextRequest) {
     }
     
     // Check file type
-    const validTypes = ['.pdf'];
     const fileType = '.' + file.name.split('.').pop()?.toLowerCase();
     
-    if (!validTypes.includes(fileType)) {
+    if (!isSupportedDesignFile(file.name)) {
       return new Response(
-        JSON.stringify({ error: 'Invalid file type. Only PDF files are supported.' }),
+        JSON.stringify({ error: 'Invalid file type. Only PDF, PNG, JPG, SVG and ZIP files are supported.' }),
         { status: 400, headers: { 'Content-Type': 'application/json' } }
       );
     }
     
     // Convert file to array buffer
     const buffer = await file.arrayBuffer();
-    const fileName = `${Date.now()}_${file.name}`;
+    const conversionId = uuidv4();
     
-    // Create Supabase client
-    const supabase = createSupabaseClient();
+    // Get conversion options from the request
+    const makeResponsive = formData.get('makeResponsive') !== 'false'; // Default to true
+    const optimizeForEmail = formData.get('optimizeForEmail') !== 'false'; // Default to true
+    const targetPlatform = (formData.get('targetPlatform') as TargetPlatform) || 'sfmc';
+    
+    if (!TARGET_PLATFORMS.includes(targetPlatform)) {
+      return new Response(
+        JSON.stringify({ error: `Unknown target platform: ${targetPlatform}` }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+    
+    const rasterDpi = clampRasterDpi(parseInt(formData.get('rasterDpi') as string, 10));
+    
+    // Explicit desktop/mobile/dark/ignore role for each page, keyed by page number
+    let pageRoles;
+    try {
+      pageRoles = parsePageRoles(formData.get('pageRoles') as string | null);
+    } catch (error) {
+      return new Response(
+        JSON.stringify({ error: error instanceof Error ? error.message : 'Invalid page role map' }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+    
+    // Number of QA self-repair rounds, 0 disables self-repair
+    const repairRounds = parseRepairRounds(formData.get('repairRounds') as string | null);
+    
+    // Follow the workspace brand kit unless the form opts out
+    const useBrandKit = formData.get('useBrandKit') !== 'false'; // Default to true
+    
+    // Reuse an earlier conversion of the same file and settings unless the form bypasses the cache
+    const useCache = formData.get('useCache') !== 'false'; // Default to true
+    
+    // Add dark mode styles derived from the brand palette when the form asks for them
+    const darkMode = formData.get('darkMode') === 'true'; // Default to false
+    
+    // Add Outlook fallbacks unless the form opts out
+    const outlookFallbacks = formData.get('outlookFallbacks') !== 'false'; // Default to true
+    
+    // Emit the MJML source of the HTML when the form asks for it
+    const mjml = formData.get('mjml') === 'true'; // Default to false
+    
+    const options = {
+      makeResponsive,
+      optimizeForEmail,
+      targetPlatform,
+      rasterDpi,
+      pageRoles,
+      repairRounds,
+      useBrandKit,
+      useCache,
+      darkMode,
+      outlookFallbacks,
+      mjml
+    };
+    const workspaceId = getWorkspaceId(auth);
+    
+    // Pick the provider for this request or workspace
+    let resolved;
+    try {
+      resolved = await resolveConversionProvider(
+        formData.get('provider') as string | null,
+        workspaceId
+      );
+    } catch (error) {
+      return new Response(
+        JSON.stringify({ error: error instanceof Error ? error.message : 'Invalid conversion provider' }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
     
     // Upload file to Supabase Storage
-    const { data: uploadData, error: uploadError } = await supabase
-      .storage
-      .from('design-files')
-      .upload(fileName, buffer);
-      
-    if (uploadError) {
+    let storagePath: string;
+    try {
+      storagePath = await uploadDesignFile(`${clerkUserId}/${conversionId}${fileType}`, buffer);
+    } catch (error) {
       return new Response(
-        JSON.stringify({ error: `Failed to upload file: ${uploadError.message}` }),
+        JSON.stringify({ error: error instanceof Error ? error.message : 'Failed to upload file' }),
         { status: 500, headers: { 'Content-Type': 'application/json' } }
       );
     }
     
-    // Initialize the Gemini conversion service
-    const geminiConversionService = createGeminiConversionService();
+    const model = (formData.get('model') as string) || resolved.model;
     
-    // Get conversion options from the request
-    const makeResponsive = formData.get('makeResponsive') !== 'false'; // Default to true
-    const optimizeForEmail = formData.get('optimizeForEmail') !== 'false'; // Default to true
-    const targetPlatform = (formData.get('targetPlatform') as 'sfmc' | 'generic') || 'sfmc';
-    
-    // Stream the conversion process
-    return geminiConversionService.streamConversion(
-      uploadData.path,
-      file.name,
-      {
-        makeResponsive,
-        optimizeForEmail,
-        targetPlatform
+    // Record the job so the client can check on it after a reload
+    await createConversionJob({
+      jobId: conversionId,
+      clerkUserId,
+      fileName: file.name,
+      storagePath,
+      provider: resolved.provider.id,
+      model,
+      options
+    });
+    
+    // Queue the job, then stream its progress from its first event
+    waitUntil(enqueueConversionJob({
+      jobId: conversionId,
+      clerkUserId,
+      workspaceId,
+      provider: resolved.provider,
+      request: {
+        filePath: storagePath,
+        fileName: file.name,
+        fileBuffer: buffer,
+        options: { ...options, model }
       }
-    );
+    }));
+    
+    return createConversionStreamResponse(conversionId);
   } catch (error) {
     console.error('Streaming conversion error:', error);
     return new Response(
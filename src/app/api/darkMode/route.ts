@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { BrandColor, getEmailBrandKit, getWorkspaceBrandKit } from '@/backend/services/brandKit';
+import { applyDarkMode } from '@/backend/services/darkMode';
+import { getConversion } from '@/backend/services/emailConversions';
+import { getWorkspaceId } from '@/backend/services/workspaceSettings';
+import { getAuth } from '@clerk/nextjs/server';
+
+// POST endpoint to add dark mode styles to email HTML
+// Colors follow the workspace brand kit, or the brand kit extracted from the conversion
+export async function POST(request: NextRequest) {
+  try {
+    const auth = getAuth(request);
+
+    if (!auth.userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { html, emailId } = await request.json();
+
+    if (typeof html !== 'string' || !html.trim()) {
+      return NextResponse.json(
+        { error: 'The HTML of the email is required' },
+        { status: 400 }
+      );
+    }
+
+    let palette: BrandColor[] = [];
+    const workspaceKit = await getWorkspaceBrandKit(getWorkspaceId(auth));
+
+    if (workspaceKit) {
+      palette = workspaceKit.kit.palette;
+    } else if (emailId) {
+      const conversion = await getConversion(emailId, auth.userId);
+      const emailKit = conversion ? await getEmailBrandKit(emailId) : null;
+      palette = emailKit?.kit.palette ?? [];
+    }
+
+    return NextResponse.json({ html: applyDarkMode(html, palette) });
+
+  } catch (error) {
+    console.error('Dark mode error:', error);
+    return NextResponse.json(
+      { error: 'Failed to generate dark mode styles' },
+      { status: 500 }
+    );
+  }
+}
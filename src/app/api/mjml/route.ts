@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { compileMjml, convertHtmlToMjml } from '@/backend/services/mjmlEmail';
+import { getAuth } from '@clerk/nextjs/server';
+
+// POST endpoint to compile MJML to email HTML ({ mjml }), or to convert email HTML to MJML ({ html })
+// Compile errors in the MJML are returned with the HTML rendered despite them
+export async function POST(request: NextRequest) {
+  try {
+    const { userId } = getAuth(request);
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { mjml, html } = await request.json();
+
+    if (typeof mjml === 'string' && mjml.trim()) {
+      return NextResponse.json(compileMjml(mjml));
+    }
+
+    if (typeof html === 'string' && html.trim()) {
+      return NextResponse.json({ mjml: convertHtmlToMjml(html) });
+    }
+
+    return NextResponse.json(
+      { error: 'The MJML or HTML of the email is required' },
+      { status: 400 }
+    );
+
+  } catch (error) {
+    console.error('MJML error:', error);
+    return NextResponse.json(
+      { error: 'Failed to process MJML' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,161 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  createPromptTemplateVersion,
+  isPromptTemplateName,
+  listPromptTemplateVersions,
+  selectWorkspacePromptTemplate,
+  validatePromptTemplateBody
+} from '@/backend/services/promptTemplates';
+import { getOrCreateUser } from '@/backend/services/users';
+import { getWorkspaceId, getWorkspaceSettings } from '@/backend/services/workspaceSettings';
+import { getAuth } from '@clerk/nextjs/server';
+
+// GET endpoint to list the prompt template versions and the versions selected for the workspace
+export async function GET(request: NextRequest) {
+  try {
+    const auth = getAuth(request);
+
+    if (!auth.userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const name = searchParams.get('name');
+
+    if (name && !isPromptTemplateName(name)) {
+      return NextResponse.json(
+        { error: `Unknown prompt template: ${name}` },
+        { status: 400 }
+      );
+    }
+
+    const [templates, settings] = await Promise.all([
+      listPromptTemplateVersions(isPromptTemplateName(name) ? name : undefined),
+      getWorkspaceSettings(getWorkspaceId(auth))
+    ]);
+
+    return NextResponse.json({
+      templates,
+      selectedVersions: settings.settings.promptTemplateVersions || {}
+    });
+
+  } catch (error) {
+    console.error('Prompt templates fetch error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch prompt templates' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST endpoint to create a new version of a prompt template (Administrators only)
+export async function POST(request: NextRequest) {
+  try {
+    const { userId: clerkUserId } = getAuth(request);
+
+    if (!clerkUserId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const user = await getOrCreateUser(clerkUserId);
+
+    if (user.role !== 'Administrator') {
+      return NextResponse.json(
+        { error: 'Only administrators can change prompt templates' },
+        { status: 403 }
+      );
+    }
+
+    const { name, body, description } = await request.json();
+
+    if (!isPromptTemplateName(name) || typeof body !== 'string') {
+      return NextResponse.json(
+        { error: 'A known template name and a template body are required' },
+        { status: 400 }
+      );
+    }
+
+    // Reject bodies that use variables the template does not provide
+    try {
+      validatePromptTemplateBody(name, body);
+    } catch (error) {
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : 'Invalid prompt template' },
+        { status: 400 }
+      );
+    }
+
+    const template = await createPromptTemplateVersion(name, body, description, user.id);
+
+    return NextResponse.json(
+      { success: true, template },
+      { status: 201 }
+    );
+
+  } catch (error) {
+    console.error('Prompt template create error:', error);
+    return NextResponse.json(
+      { error: 'Failed to create prompt template' },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT endpoint to pin the workspace to a template version, or back to the latest (Administrators only)
+export async function PUT(request: NextRequest) {
+  try {
+    const auth = getAuth(request);
+
+    if (!auth.userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const user = await getOrCreateUser(auth.userId);
+
+    if (user.role !== 'Administrator') {
+      return NextResponse.json(
+        { error: 'Only administrators can change prompt templates' },
+        { status: 403 }
+      );
+    }
+
+    const { name, version } = await request.json();
+
+    if (!isPromptTemplateName(name) || (version !== null && !Number.isInteger(version))) {
+      return NextResponse.json(
+        { error: 'A known template name and a version number (or null for the latest version) are required' },
+        { status: 400 }
+      );
+    }
+
+    if (version !== null) {
+      const versions = await listPromptTemplateVersions(name);
+      if (!versions.some(template => template.version === version)) {
+        return NextResponse.json(
+          { error: `Version ${version} of ${name} does not exist` },
+          { status: 404 }
+        );
+      }
+    }
+
+    const selectedVersions = await selectWorkspacePromptTemplate(getWorkspaceId(auth), name, version);
+
+    return NextResponse.json({ success: true, selectedVersions });
+
+  } catch (error) {
+    console.error('Prompt template select error:', error);
+    return NextResponse.json(
+      { error: 'Failed to select prompt template' },
+      { status: 500 }
+    );
+  }
+}
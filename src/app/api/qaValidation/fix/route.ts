@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuth } from '@clerk/nextjs/server';
+import { fetchActiveQARules, fixQAFailures } from '@/backend/services/qaValidation';
+import { saveVersion } from '@/backend/services/versionControl';
+import { getWorkspaceId } from '@/backend/services/workspaceSettings';
+
+// POST endpoint to fix the failures of QA rules that declare a fix and save the result as a new version
+export async function POST(request: NextRequest) {
+  try {
+    const auth = getAuth(request);
+
+    if (!auth.userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { html, emailId, ruleIds, baseUrl } = await request.json();
+
+    if (!html || !emailId) {
+      return NextResponse.json(
+        { error: 'HTML and an email ID are required' },
+        { status: 400 }
+      );
+    }
+
+    if (ruleIds !== undefined && !Array.isArray(ruleIds)) {
+      return NextResponse.json(
+        { error: 'ruleIds must be an array' },
+        { status: 400 }
+      );
+    }
+
+    // Without ruleIds, every active rule with a fix is fixed ("Fix all")
+    const rules = await fetchActiveQARules(ruleIds, getWorkspaceId(auth));
+    const fixed = fixQAFailures(html, rules, { baseUrl: typeof baseUrl === 'string' ? baseUrl : undefined });
+
+    const applied = rules
+      .filter(rule => fixed.applied[rule.id])
+      .map(rule => ({ ruleId: rule.id, ruleName: rule.rule_name, count: fixed.applied[rule.id] }));
+
+    if (applied.length === 0) {
+      return NextResponse.json(
+        { error: 'None of the QA failures can be fixed automatically' },
+        { status: 400 }
+      );
+    }
+
+    const comment = `QA fixes: ${applied.map(fix => `${fix.ruleName} (${fix.count})`).join(', ')}`;
+    const version = await saveVersion(emailId, fixed.html, {
+      userId: auth.userId,
+      comment
+    });
+
+    return NextResponse.json({
+      success: true,
+      html: fixed.html,
+      applied,
+      versionNumber: version.versionNumber
+    });
+
+  } catch (error) {
+    console.error('QA fix error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fix QA failures' },
+      { status: 500 }
+    );
+  }
+}
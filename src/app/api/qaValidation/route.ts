@@ -1,22 +1,22 @@
 import { NextRequest, NextResponse } from 'next/server';
 import supabase from '@/backend/config/supabaseConfig';
 import { getAuth } from '@clerk/nextjs/server';
-
-// Define QA rules interface
-interface QARule {
-  id: string;
-  rule_name: string;
-  description: string;
-  rule_type: string;
-  rule_pattern: string;
-  severity: 'error' | 'warning' | 'info';
-  is_active: boolean;
-}
+import {
+  QARule,
+  fetchActiveQARules,
+  getErrorFailures,
+  validateHtml
+} from '@/backend/services/qaValidation';
+import { getWorkspaceBrandKit } from '@/backend/services/brandKit';
+import { QA_RULE_PACK_VERSION } from '@/backend/services/builtInQARules';
+import { resolveBuiltInQARules } from '@/backend/services/qaRulePack';
+import { getWorkspaceId } from '@/backend/services/workspaceSettings';
 
 export async function POST(request: NextRequest) {
   try {
     // Check authentication using getAuth instead of auth
-    const { userId: clerkUserId } = getAuth(request);
+    const auth = getAuth(request);
+    const { userId: clerkUserId } = auth;
     
     if (!clerkUserId) {
       return NextResponse.json(
@@ -75,7 +75,7 @@ export async function POST(request: NextRequest) {
     
     const userId = userData.id;
     
-    const { html, ruleIds } = await request.json();
+    const { html, ruleIds, baseUrl } = await request.json();
     
     if (!html) {
       return NextResponse.json(
@@ -84,76 +84,34 @@ export async function POST(request: NextRequest) {
       );
     }
     
-    // Fetch QA rules from Supabase
-    let query = supabase.from('qa_rules').select('*').eq('is_active', true);
-    
-    // If specific rule IDs are provided, filter by them
-    if (ruleIds && ruleIds.length > 0) {
-      query = query.in('id', ruleIds);
-    }
-    
-    const { data: rules, error: rulesError } = await query;
-    
-    if (rulesError) {
-      console.error('Rules fetch error:', rulesError);
+    // Fetch the QA rules from Supabase and the built-in rules the workspace uses
+    let rules: QARule[];
+    try {
+      rules = await fetchActiveQARules(ruleIds, getWorkspaceId(auth));
+    } catch (error) {
       return NextResponse.json(
         { error: 'Failed to fetch QA rules' },
         { status: 500 }
       );
     }
     
-    // Validate HTML against each rule
-    const validationResults = rules.map((rule: QARule) => {
-      let isPassing = true;
-      let message = '';
-      
-      try {
-        // Different validation logic based on rule type
-        switch (rule.rule_type) {
-          case 'regex':
-            const regex = new RegExp(rule.rule_pattern, 'i');
-            isPassing = regex.test(html);
-            message = isPassing ? 'Rule passed' : `Failed to match pattern: ${rule.rule_pattern}`;
-            break;
-            
-          case 'attribute':
-            // Check for required attributes
-            const attributeRegex = new RegExp(`<[^>]*${rule.rule_pattern}[^>]*>`, 'i');
-            isPassing = attributeRegex.test(html);
-            message = isPassing ? 'Rule passed' : `Missing required attribute: ${rule.rule_pattern}`;
-            break;
-            
-          case 'tag':
-            // Check for required tags
-            const tagRegex = new RegExp(`<${rule.rule_pattern}[^>]*>`, 'i');
-            isPassing = tagRegex.test(html);
-            message = isPassing ? 'Rule passed' : `Missing required tag: ${rule.rule_pattern}`;
-            break;
-            
-          default:
-            message = 'Unknown rule type';
-            isPassing = false;
-        }
-      } catch (error) {
-        console.error(`Rule validation error for rule ${rule.id}:`, error);
-        isPassing = false;
-        message = 'Error validating rule';
-      }
-      
-      return {
-        ruleId: rule.id,
-        ruleName: rule.rule_name,
-        description: rule.description,
-        severity: rule.severity,
-        isPassing,
-        message
-      };
+    // Brand rules check against the workspace brand kit
+    let brandKit = null;
+    try {
+      brandKit = (await getWorkspaceBrandKit(getWorkspaceId(auth)))?.kit || null;
+    } catch (error) {
+      console.error('Brand kit fetch error:', error);
+      // Continue without a brand kit, brand rules pass
+    }
+    
+    // Validate HTML against each rule; failures of rules with a fix carry the patches that fix them
+    const validationResults = validateHtml(html, rules, {
+      brandKit,
+      baseUrl: typeof baseUrl === 'string' ? baseUrl : undefined
     });
     
     // Calculate overall pass/fail
-    const hasErrors = validationResults.some(
-      result => !result.isPassing && result.severity === 'error'
-    );
+    const hasErrors = getErrorFailures(validationResults).length > 0;
     
     // Store validation result in Supabase
     const { error: resultError } = await supabase
@@ -176,7 +134,8 @@ export async function POST(request: NextRequest) {
     return NextResponse.json({
       success: true,
       passed: !hasErrors,
-      results: validationResults
+      results: validationResults,
+      rulePackVersion: QA_RULE_PACK_VERSION
     });
     
   } catch (error) {
@@ -188,11 +147,12 @@ export async function POST(request: NextRequest) {
   }
 }
 
-// GET endpoint to retrieve QA rules
+// GET endpoint to retrieve QA rules, including the built-in rules
 export async function GET(request: NextRequest) {
   try {
     // Check authentication using getAuth instead of auth
-    const { userId: clerkUserId } = getAuth(request);
+    const auth = getAuth(request);
+    const { userId: clerkUserId } = auth;
     
     if (!clerkUserId) {
       return NextResponse.json(
@@ -235,8 +195,13 @@ export async function GET(request: NextRequest) {
       );
     }
     
+    // Built-in rules the workspace turned off are inactive
+    const builtInRules = (await resolveBuiltInQARules(getWorkspaceId(auth)))
+      .filter(rule => !activeOnly || rule.is_active);
+    
     return NextResponse.json({ 
-      rules,
+      rules: [...(rules || []), ...builtInRules],
+      rulePackVersion: QA_RULE_PACK_VERSION,
       userRole: userData.role // Include the user's role for client-side permission checks
     });
     
@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { BUILT_IN_QA_RULES, QA_RULE_PACK_VERSION } from '@/backend/services/builtInQARules';
+import {
+  getQARuleOverrides,
+  resolveBuiltInQARules,
+  setQARuleOverride,
+  validateQARuleOverride
+} from '@/backend/services/qaRulePack';
+import { getOrCreateUser } from '@/backend/services/users';
+import { getWorkspaceId } from '@/backend/services/workspaceSettings';
+import { getAuth } from '@clerk/nextjs/server';
+
+// GET endpoint to list the built-in QA rules as the workspace uses them, and its overrides
+export async function GET(request: NextRequest) {
+  try {
+    const auth = getAuth(request);
+
+    if (!auth.userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const workspaceId = getWorkspaceId(auth);
+    const [rules, overrides] = await Promise.all([
+      resolveBuiltInQARules(workspaceId),
+      getQARuleOverrides(workspaceId)
+    ]);
+
+    return NextResponse.json({
+      version: QA_RULE_PACK_VERSION,
+      rules,
+      overrides
+    });
+
+  } catch (error) {
+    console.error('QA rule pack fetch error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch the QA rule pack' },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT endpoint to enable, disable or change the severity of a built-in rule for the workspace (Administrators only)
+export async function PUT(request: NextRequest) {
+  try {
+    const auth = getAuth(request);
+
+    if (!auth.userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const user = await getOrCreateUser(auth.userId);
+
+    if (user.role !== 'Administrator') {
+      return NextResponse.json(
+        { error: 'Only administrators can change the QA rule pack' },
+        { status: 403 }
+      );
+    }
+
+    const { ruleId, override } = await request.json();
+
+    if (!BUILT_IN_QA_RULES.some(rule => rule.id === ruleId)) {
+      return NextResponse.json(
+        { error: `Unknown built-in rule: ${ruleId}` },
+        { status: 404 }
+      );
+    }
+
+    // Send null to restore the shipped rule
+    let validOverride = null;
+    if (override !== null) {
+      try {
+        validOverride = validateQARuleOverride(override);
+      } catch (error) {
+        return NextResponse.json(
+          { error: error instanceof Error ? error.message : 'Invalid override' },
+          { status: 400 }
+        );
+      }
+    }
+
+    const overrides = await setQARuleOverride(getWorkspaceId(auth), ruleId, validOverride);
+
+    return NextResponse.json({ success: true, overrides });
+
+  } catch (error) {
+    console.error('QA rule pack update error:', error);
+    return NextResponse.json(
+      { error: 'Failed to update the QA rule pack' },
+      { status: 500 }
+    );
+  }
+}
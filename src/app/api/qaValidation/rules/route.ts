@@ -0,0 +1,190 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isBuiltInQARuleId } from '@/backend/services/qaRulePack';
+import {
+  QARuleInput,
+  createQARule,
+  deleteQARule,
+  updateQARule,
+  validateQARuleInput
+} from '@/backend/services/qaRules';
+import { getOrCreateUser } from '@/backend/services/users';
+import { readJsonBody } from '@/lib/utils/json-body';
+import { getAuth } from '@clerk/nextjs/server';
+
+/**
+ * Checks that the request comes from an administrator
+ * @param request The request
+ * @returns A response to send instead when it does not
+ */
+async function requireAdministrator(request: NextRequest): Promise<NextResponse | null> {
+  const auth = getAuth(request);
+
+  if (!auth.userId) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  const user = await getOrCreateUser(auth.userId);
+
+  if (user.role !== 'Administrator') {
+    return NextResponse.json(
+      { error: 'Only administrators can change QA rules' },
+      { status: 403 }
+    );
+  }
+
+  return null;
+}
+
+/**
+ * Parses the ID of a qa_rules row
+ * @param value The ID sent by the client
+ * @returns The ID, or a response to send when it is not the ID of a stored rule
+ */
+function parseRuleId(value: unknown): number | NextResponse {
+  if (value !== undefined && value !== null && isBuiltInQARuleId(value as string | number)) {
+    return NextResponse.json(
+      { error: 'Built-in rules are changed through /api/qaValidation/rulePack' },
+      { status: 400 }
+    );
+  }
+
+  const id = Number(value);
+
+  if (value === null || value === '' || !Number.isInteger(id) || id <= 0) {
+    return NextResponse.json(
+      { error: 'A rule ID is required' },
+      { status: 400 }
+    );
+  }
+
+  return id;
+}
+
+/**
+ * Validates the rule in a request body
+ * @param body The request body
+ * @returns The rule, or a response to send when it is invalid
+ */
+function parseRuleInput(body: unknown): QARuleInput | NextResponse {
+  try {
+    return validateQARuleInput(body);
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Invalid rule' },
+      { status: 400 }
+    );
+  }
+}
+
+// POST endpoint to create a QA rule (Administrators only)
+export async function POST(request: NextRequest) {
+  try {
+    const denied = await requireAdministrator(request);
+    if (denied) {
+      return denied;
+    }
+
+    const body = await readJsonBody(request);
+    if (body instanceof NextResponse) {
+      return body;
+    }
+
+    const input = parseRuleInput(body);
+    if (input instanceof NextResponse) {
+      return input;
+    }
+
+    const rule = await createQARule(input);
+
+    return NextResponse.json({ success: true, rule }, { status: 201 });
+
+  } catch (error) {
+    console.error('QA rule create error:', error);
+    return NextResponse.json(
+      { error: 'Failed to create QA rule' },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT endpoint to replace a QA rule (Administrators only)
+export async function PUT(request: NextRequest) {
+  try {
+    const denied = await requireAdministrator(request);
+    if (denied) {
+      return denied;
+    }
+
+    const json = await readJsonBody(request);
+    if (json instanceof NextResponse) {
+      return json;
+    }
+
+    const { id, ...body } = json;
+
+    const ruleId = parseRuleId(id);
+    if (ruleId instanceof NextResponse) {
+      return ruleId;
+    }
+
+    const input = parseRuleInput(body);
+    if (input instanceof NextResponse) {
+      return input;
+    }
+
+    const rule = await updateQARule(ruleId, input);
+
+    if (!rule) {
+      return NextResponse.json(
+        { error: 'QA rule not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, rule });
+
+  } catch (error) {
+    console.error('QA rule update error:', error);
+    return NextResponse.json(
+      { error: 'Failed to update QA rule' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE endpoint to delete a QA rule (Administrators only)
+export async function DELETE(request: NextRequest) {
+  try {
+    const denied = await requireAdministrator(request);
+    if (denied) {
+      return denied;
+    }
+
+    const { searchParams } = new URL(request.url);
+    const ruleId = parseRuleId(searchParams.get('id'));
+    if (ruleId instanceof NextResponse) {
+      return ruleId;
+    }
+
+    const deleted = await deleteQARule(ruleId);
+
+    if (!deleted) {
+      return NextResponse.json(
+        { error: 'QA rule not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+
+  } catch (error) {
+    console.error('QA rule delete error:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete QA rule' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getWorkspaceBrandKit } from '@/backend/services/brandKit';
+import { QARuleInput, validateQARuleInput } from '@/backend/services/qaRules';
+import { evaluateQARule } from '@/backend/services/qaValidation';
+import { getOrCreateUser } from '@/backend/services/users';
+import { getWorkspaceId } from '@/backend/services/workspaceSettings';
+import { getAuth } from '@clerk/nextjs/server';
+
+// POST endpoint to evaluate a draft QA rule against sample HTML without saving it (Administrators only)
+export async function POST(request: NextRequest) {
+  try {
+    const auth = getAuth(request);
+
+    if (!auth.userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const user = await getOrCreateUser(auth.userId);
+
+    if (user.role !== 'Administrator') {
+      return NextResponse.json(
+        { error: 'Only administrators can test QA rules' },
+        { status: 403 }
+      );
+    }
+
+    let body;
+    try {
+      body = await request.json();
+    } catch (error) {
+      return NextResponse.json(
+        { error: 'Invalid JSON body' },
+        { status: 400 }
+      );
+    }
+
+    const { rule, html, baseUrl } = body || {};
+
+    if (typeof html !== 'string' || !html) {
+      return NextResponse.json(
+        { error: 'No HTML content provided' },
+        { status: 400 }
+      );
+    }
+
+    // A draft may not be named yet
+    let input: QARuleInput;
+    try {
+      input = validateQARuleInput({ rule_name: 'Draft rule', ...rule });
+    } catch (error) {
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : 'Invalid rule' },
+        { status: 400 }
+      );
+    }
+
+    // Brand rules check against the workspace brand kit
+    let brandKit = null;
+    try {
+      brandKit = (await getWorkspaceBrandKit(getWorkspaceId(auth)))?.kit || null;
+    } catch (error) {
+      console.error('Brand kit fetch error:', error);
+      // Continue without a brand kit, brand rules pass
+    }
+
+    const result = evaluateQARule({ id: 'draft', ...input }, html, {
+      brandKit,
+      baseUrl: typeof baseUrl === 'string' ? baseUrl : undefined
+    });
+
+    return NextResponse.json({ success: true, result });
+
+  } catch (error) {
+    console.error('QA rule test error:', error);
+    return NextResponse.json(
+      { error: 'Failed to test QA rule' },
+      { status: 500 }
+    );
+  }
+}
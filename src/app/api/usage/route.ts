@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getMonthlyUsage, parseUsageMonth } from '@/backend/services/usageAccounting';
+import { getOrCreateUser } from '@/backend/services/users';
+import { getWorkspaceId } from '@/backend/services/workspaceSettings';
+import { getAuth } from '@clerk/nextjs/server';
+
+// GET endpoint to retrieve the model usage of the workspace and the current user for a month
+export async function GET(request: NextRequest) {
+  try {
+    const auth = getAuth(request);
+
+    if (!auth.userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const month = searchParams.get('month');
+
+    try {
+      parseUsageMonth(month);
+    } catch (error) {
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : 'Invalid month' },
+        { status: 400 }
+      );
+    }
+
+    const [user, usage] = await Promise.all([
+      getOrCreateUser(auth.userId),
+      getMonthlyUsage(getWorkspaceId(auth), month)
+    ]);
+
+    const ownUsage = usage.byUser.find(entry => entry.userId === user.id);
+
+    return NextResponse.json({
+      month: usage.month,
+      workspace: usage.workspace,
+      user: ownUsage || { calls: 0, inputTokens: 0, outputTokens: 0, estimatedCost: 0, averageLatencyMs: 0 },
+      byModel: usage.byModel,
+      byOperation: usage.byOperation,
+      // Only administrators see the usage of other members
+      byUser: user.role === 'Administrator' ? usage.byUser : undefined
+    });
+
+  } catch (error) {
+    console.error('Usage fetch error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch usage' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,176 @@
+"use client";
+
+import React, { useState, useEffect } from 'react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { getConversion, getConversionCandidates, promoteConversionCandidate } from '@/lib/api-service';
+
+// How often the candidates are checked while some are still converting
+const CANDIDATE_POLL_INTERVAL_MS = 3000;
+
+interface Candidate {
+  id: string;
+  provider: string;
+  model: string | null;
+  temperature: number | null;
+  status: string;
+  error: string | null;
+  conversionId: string | null;
+  qaPassRate: number | null;
+  visualSimilarity: number | null;
+  score: number | null;
+  promoted: boolean;
+}
+
+// Scores are shown as percentages; a score that could not be measured as a dash
+const formatScore = (value: number | null) => (value === null ? '–' : `${Math.round(value * 100)}%`);
+
+export default function CandidatesPage() {
+  const router = useRouter();
+  const [groupId, setGroupId] = useState<string | null>(null);
+  const [candidates, setCandidates] = useState<Candidate[]>([]);
+  const [previews, setPreviews] = useState<Record<string, string>>({});
+  const [error, setError] = useState<string | null>(null);
+  const [promotingId, setPromotingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    setGroupId(new URLSearchParams(window.location.search).get('group'));
+  }, []);
+
+  // Poll the candidates until every conversion has finished
+  useEffect(() => {
+    if (!groupId) {
+      return;
+    }
+
+    let timeout: ReturnType<typeof setTimeout> | undefined;
+    let isCancelled = false;
+
+    const loadCandidates = async () => {
+      try {
+        const data = await getConversionCandidates(groupId);
+        if (isCancelled) {
+          return;
+        }
+
+        setCandidates(data.candidates);
+        if (data.candidates.some((candidate: Candidate) => candidate.status !== 'done' && candidate.status !== 'failed')) {
+          timeout = setTimeout(loadCandidates, CANDIDATE_POLL_INTERVAL_MS);
+        }
+      } catch (err) {
+        console.error('Error loading conversion candidates:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load conversion candidates');
+      }
+    };
+
+    loadCandidates();
+    return () => {
+      isCancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [groupId]);
+
+  // Load the HTML of each finished candidate once, for its preview
+  useEffect(() => {
+    for (const candidate of candidates) {
+      if (candidate.conversionId && previews[candidate.id] === undefined) {
+        const candidateId = candidate.id;
+        setPreviews((current) => ({ ...current, [candidateId]: '' }));
+        getConversion(candidate.conversionId)
+          .then((conversion) => setPreviews((current) => ({ ...current, [candidateId]: conversion.html })))
+          .catch((err) => console.error('Error loading candidate preview:', err));
+      }
+    }
+  }, [candidates]);
+
+  const handlePromote = async (candidate: Candidate) => {
+    if (!groupId || !candidate.conversionId) {
+      return;
+    }
+
+    try {
+      setPromotingId(candidate.id);
+      setError(null);
+      await promoteConversionCandidate(groupId, candidate.id);
+      router.push(`/editor?id=${candidate.conversionId}`);
+    } catch (err) {
+      console.error('Error promoting candidate:', err);
+      setError(err instanceof Error ? err.message : 'Failed to open candidate');
+      setPromotingId(null);
+    }
+  };
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <h1 className="text-2xl font-bold mb-2">Compare Conversions</h1>
+      <p className="text-sm text-zinc-600 dark:text-zinc-400 mb-6">
+        Each candidate is scored by the share of QA rules it passes and its visual similarity to the design.
+        Open the one you like best in the editor.
+      </p>
+
+      {!groupId && (
+        <div className="p-4 bg-zinc-100 dark:bg-zinc-800 rounded-md">
+          No conversions to compare. <Link href="/upload" className="underline">Upload a design</Link> and choose to compare several conversions.
+        </div>
+      )}
+
+      {error && (
+        <div className="p-3 mb-6 bg-red-100 text-red-700 rounded-md dark:bg-red-900/30 dark:text-red-400">
+          {error}
+        </div>
+      )}
+
+      <div className={`grid grid-cols-1 gap-6 ${candidates.length > 2 ? 'lg:grid-cols-3 xl:grid-cols-4' : 'lg:grid-cols-2'}`}>
+        {candidates.map((candidate, index) => (
+          <div key={candidate.id} className="border rounded-lg overflow-hidden flex flex-col">
+            <div className="bg-zinc-100 dark:bg-zinc-800 px-4 py-2 border-b">
+              <div className="flex justify-between items-center">
+                <h2 className="font-medium">
+                  {candidate.provider}
+                  {index === 0 && candidate.score !== null && (
+                    <span className="ml-2 text-xs bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400 px-1.5 py-0.5 rounded">Best score</span>
+                  )}
+                </h2>
+                <span className="text-sm font-medium">{formatScore(candidate.score)}</span>
+              </div>
+              <p className="text-xs text-zinc-500 dark:text-zinc-400">
+                {candidate.model || 'Default model'} · temperature {candidate.temperature ?? 'default'}
+              </p>
+              <p className="text-xs text-zinc-500 dark:text-zinc-400">
+                QA passed: {formatScore(candidate.qaPassRate)} · Visual similarity: {formatScore(candidate.visualSimilarity)}
+              </p>
+            </div>
+
+            <div className="bg-white flex-grow" style={{ height: '480px' }}>
+              {candidate.status === 'failed' ? (
+                <div className="p-4 text-sm text-red-700">{candidate.error || 'Conversion failed'}</div>
+              ) : previews[candidate.id] ? (
+                <iframe
+                  srcDoc={previews[candidate.id]}
+                  title={`Candidate ${index + 1} preview`}
+                  className="w-full h-full border-0"
+                  sandbox=""
+                />
+              ) : (
+                <div className="flex flex-col justify-center items-center h-full text-sm text-zinc-500">
+                  <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-zinc-900 mb-3"></div>
+                  {candidate.status === 'done' ? 'Loading preview...' : `Converting (${candidate.status})...`}
+                </div>
+              )}
+            </div>
+
+            <div className="p-3 border-t flex justify-end">
+              <button
+                onClick={() => handlePromote(candidate)}
+                disabled={!candidate.conversionId || promotingId !== null}
+                className="px-3 py-1 text-sm bg-zinc-900 text-white rounded-md hover:bg-zinc-800 dark:bg-zinc-50 dark:text-zinc-900 dark:hover:bg-zinc-200 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {promotingId === candidate.id ? 'Opening...' : 'Open in Editor'}
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -3,16 +3,45 @@
 import React, { useState, useEffect } from "react";
 import { UserProfile, useUser } from "@clerk/nextjs";
 import Link from "next/link";
+import { getUsage } from "@/lib/api-service";
+import ConversionProviderSettings from "@/components/ConversionProviderSettings";
+
+interface UsageTotals {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  estimatedCost: number;
+  averageLatencyMs: number;
+}
+
+interface UsageSummary {
+  month: string;
+  workspace: UsageTotals;
+  user: UsageTotals;
+  byModel: Array<UsageTotals & { provider: string; model: string }>;
+}
+
+const formatCost = (cost: number) => `$${cost.toFixed(2)}`;
+const formatTokens = (usage: UsageTotals) => (usage.inputTokens + usage.outputTokens).toLocaleString();
 
 export default function DashboardPage() {
   const [mounted, setMounted] = useState(false);
   const { user, isLoaded } = useUser();
+  const [usage, setUsage] = useState<UsageSummary | null>(null);
+  const [usageError, setUsageError] = useState<string | null>(null);
   
   // useEffect only runs on the client, so now we can safely show the UI
   useEffect(() => {
     setMounted(true);
   }, []);
 
+  // Load this month's model usage for the workspace
+  useEffect(() => {
+    getUsage()
+      .then(setUsage)
+      .catch(error => setUsageError(error instanceof Error ? error.message : 'Failed to load usage'));
+  }, []);
+
   if (!mounted || !isLoaded) {
     return (
       <div>
@@ -65,6 +94,16 @@ export default function DashboardPage() {
           </div>
         )}
         
+        {userRole === "Administrator" && (
+          <div className="p-6 border rounded-lg">
+            <h2 className="text-xl font-semibold mb-2">Conversion Provider</h2>
+            <p className="text-zinc-600 dark:text-zinc-400 mb-4">
+              The provider and model uploads use unless they pick one.
+            </p>
+            <ConversionProviderSettings />
+          </div>
+        )}
+        
         {userRole === "Developer" && (
           <div className="p-6 border rounded-lg">
             <h2 className="text-xl font-semibold mb-2">Code Editor</h2>
@@ -92,6 +131,37 @@ export default function DashboardPage() {
           </div>
         )}
         
+        <div className="p-6 border rounded-lg">
+          <h2 className="text-xl font-semibold mb-2">AI Usage This Month</h2>
+          {usageError ? (
+            <p className="text-zinc-600 dark:text-zinc-400">{usageError}</p>
+          ) : !usage ? (
+            <div className="h-20 animate-pulse bg-gray-100 rounded"></div>
+          ) : (
+            <div className="text-sm text-zinc-600 dark:text-zinc-400 space-y-1">
+              <p>
+                Workspace: <span className="font-semibold">{formatCost(usage.workspace.estimatedCost)}</span>
+                {" "}for {usage.workspace.calls} model calls ({formatTokens(usage.workspace)} tokens)
+              </p>
+              <p>
+                You: <span className="font-semibold">{formatCost(usage.user.estimatedCost)}</span>
+                {" "}for {usage.user.calls} model calls ({formatTokens(usage.user)} tokens)
+              </p>
+              <p>Average response time: {(usage.workspace.averageLatencyMs / 1000).toFixed(1)}s</p>
+              {usage.byModel.length > 0 && (
+                <ul className="pt-2">
+                  {usage.byModel.map(entry => (
+                    <li key={`${entry.provider}/${entry.model}`} className="flex justify-between">
+                      <span>{entry.model}</span>
+                      <span>{formatCost(entry.estimatedCost)}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+        </div>
+        
         <div className="p-6 border rounded-lg">
           <h2 className="text-xl font-semibold mb-2">SFMC Status</h2>
           <div className="flex items-center mb-4">
@@ -4,9 +4,12 @@ import React, { useState, useEffect } from "react";
 import CodeMirror from "@uiw/react-codemirror";
 import { html } from "@codemirror/lang-html";
 import { oneDark } from "@codemirror/theme-one-dark";
-import { EditorView } from "@uiw/react-codemirror";
+import { EditorView, ViewUpdate } from "@codemirror/view";
+import { lintGutter, setDiagnostics } from "@codemirror/lint";
 import Link from "next/link";
-import { saveEmailVersion, getEmailVersions } from "@/lib/api-service";
+import { saveEmailVersion, getEmailVersions, getConversion, generateDarkMode, validateEmail } from "@/lib/api-service";
+import { forceDarkScheme } from "@/lib/dark-mode-preview";
+import { QAFailure, findFailureRange, getLineDiagnostics, toDiagnostics } from "@/lib/qa-diagnostics";
 import { useUser } from "@clerk/nextjs";
 import { v4 as uuidv4 } from 'uuid';
 import { useTheme } from 'next-themes';
@@ -14,6 +17,14 @@ import CodeAssistant from "@/components/CodeAssistant";
 import CommandPalette from "@/components/CommandPalette";
 import CodeTooltip from "@/components/CodeTooltip";
 import VersionHistory from "@/components/VersionHistory";
+import SectionRegenerator from "@/components/SectionRegenerator";
+import VisualDiffViewer from "@/components/VisualDiffViewer";
+import AmpEditor from "@/components/AmpEditor";
+import MjmlEditor from "@/components/MjmlEditor";
+import QAProblems from "@/components/QAProblems";
+
+// Gutter markers open a CodeTooltip on click instead of CodeMirror's hover tooltip
+const QA_GUTTER = lintGutter({ tooltipFilter: () => [] });
 
 // Default HTML to use if no uploaded HTML is available
 const DEFAULT_HTML = `<!DOCTYPE html>
@@ -32,6 +43,9 @@ export default function EditorPage() {
   const [htmlContent, setHtmlContent] = useState<string | null>(null);
   const [code, setCode] = useState(DEFAULT_HTML);
   const [isMobileView, setIsMobileView] = useState(false);
+  // Preview the email as a client in dark mode shows it
+  const [isDarkPreview, setIsDarkPreview] = useState(false);
+  const [isAddingDarkMode, setIsAddingDarkMode] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
   const [saveError, setSaveError] = useState<string | null>(null);
   const [saveSuccess, setSaveSuccess] = useState(false);
@@ -53,8 +67,25 @@ export default function EditorPage() {
   const isDarkMode = theme === 'dark';
   const [isLoading, setIsLoading] = useState(false);
   const [isVersionHistoryOpen, setIsVersionHistoryOpen] = useState(false);
+  const [isSectionRegeneratorOpen, setIsSectionRegeneratorOpen] = useState(false);
+  const [isVisualDiffOpen, setIsVisualDiffOpen] = useState(false);
+  // The HTML or, for conversions, the AMP for Email version being edited
+  const [editorTab, setEditorTab] = useState<'html' | 'mjml' | 'amp'>('html');
+  // The MJML source of the email and the HTML it belongs to; the HTML may have been edited since
+  const [mjmlSource, setMjmlSource] = useState<string | null>(null);
+  const [mjmlHtml, setMjmlHtml] = useState<string | null>(null);
+  const isMjmlInSync = mjmlSource !== null && code === mjmlHtml;
+  // The conversion the email came from; sections can only be regenerated for conversions
+  const [conversion, setConversion] = useState<{ id: string; pageCount?: number } | null>(null);
+  // Latest selection in the editor, used to pick the section to regenerate
+  const [editorSelection, setEditorSelection] = useState({ from: 0, to: 0 });
   // Reference to store the CodeMirror editor instance
   const editorRef = { current: { editor: null as any } };
+  // The HTML editor's view, kept in state so QA diagnostics can be applied to it
+  const [editorView, setEditorView] = useState<EditorView | null>(null);
+  // Failing QA rules of the last run; their locations are shown in the editor gutter
+  const [qaFailures, setQaFailures] = useState<QAFailure[] | null>(null);
+  const [isCheckingQA, setIsCheckingQA] = useState(false);
 
   // Add keyboard event listener within the useEffect
   useEffect(() => {
@@ -74,82 +105,20 @@ export default function EditorPage() {
   }, []);
 
   useEffect(() => {
-    // Function to load HTML content
-    const loadHtml = () => {
+    // Load the conversion named in the URL from the database
+    const loadHtml = async (conversionId: string) => {
       try {
         setLoadingState('loading');
         
-        // Check URL for conversion ID
-        const urlParams = new URLSearchParams(window.location.search);
-        const conversionId = urlParams.get('id');
-        
-        // Try multiple methods to get the HTML
-        
-        // 1. ID-based approach (primary method)
-        let idBasedHtml = null;
-        if (conversionId) {
-          idBasedHtml = sessionStorage.getItem(`html_${conversionId}`);
-        } else {
-          // Try to get conversion ID from cookie
-          const cookies = document.cookie.split(';');
-          let cookieId = null;
-          for (const cookie of cookies) {
-            const [name, value] = cookie.trim().split('=');
-            if (name === 'emailConversionId') {
-              cookieId = value;
-              break;
-            }
-          }
-          
-          if (cookieId) {
-            idBasedHtml = sessionStorage.getItem(`html_${cookieId}`);
-          }
-        }
-        
-        // 2. Check for HTML in global variable
-        const globalHtml = typeof window !== 'undefined' ? (window as any).__EMAIL_HTML_CONTENT__ : null;
-        
-        // 3. Check fixed key in sessionStorage
-        const fixedKeyHtml = sessionStorage.getItem('emailHtml');
+        const conversion = await getConversion(conversionId);
         
-        // 4. Check localStorage transport
-        let transportHtml = null;
-        try {
-          const transportData = localStorage.getItem('emailHtmlTransport');
-          if (transportData) {
-            const parsed = JSON.parse(transportData);
-            transportHtml = parsed.html;
-          }
-        } catch (e) {
-          console.error('Failed to parse transport data:', e);
-        }
-        
-        // Select HTML source in order of preference
-        let selectedHtml: string | null = null;
-        
-        if (idBasedHtml) {
-          selectedHtml = idBasedHtml;
-        } else if (globalHtml) {
-          selectedHtml = globalHtml;
-          // Clean up
-          (window as any).__EMAIL_HTML_CONTENT__ = null;
-        } else if (fixedKeyHtml) {
-          selectedHtml = fixedKeyHtml;
-          // Clean up
-          sessionStorage.removeItem('emailHtml');
-        } else if (transportHtml) {
-          selectedHtml = transportHtml;
-          // Clean up
-          localStorage.removeItem('emailHtmlTransport');
-        }
-        
-        // Set the HTML
-        if (selectedHtml) {
-          setCode(selectedHtml);
-          setLoadingState('success');
-        } else {
-          setLoadingState('no-data');
-        }
+        // Versions saved from the editor belong to the conversion
+        setEmailId(conversion.id);
+        setConversion({ id: conversion.id, pageCount: conversion.metadata?.pageCount });
+        setCode(conversion.html);
+        setMjmlSource(conversion.mjml);
+        setMjmlHtml(conversion.html);
+        setLoadingState('success');
       } catch (error) {
         console.error('Error loading HTML:', error);
         setLoadingState('error');
@@ -157,10 +126,15 @@ export default function EditorPage() {
       }
     };
     
-    // Load HTML with a small delay to ensure storage is settled
-    setTimeout(loadHtml, 100);
+    const conversionId = new URLSearchParams(window.location.search).get('id');
+    if (conversionId) {
+      loadHtml(conversionId);
+      return;
+    }
+    
+    setLoadingState('no-data');
     
-    // Generate or retrieve an email ID
+    // Without a conversion, generate or retrieve an email ID for standalone drafts
     const storedEmailId = localStorage.getItem('emailId');
     if (storedEmailId) {
       setEmailId(storedEmailId);
@@ -189,7 +163,8 @@ export default function EditorPage() {
       const metadata = {
         author: user?.fullName || user?.username || 'Anonymous',
         comment: 'Draft saved from editor',
-        timestamp: new Date().toISOString()
+        timestamp: new Date().toISOString(),
+        mjmlContent: isMjmlInSync ? mjmlSource : undefined
       };
       
       await saveEmailVersion(emailId, code, metadata);
@@ -226,6 +201,8 @@ export default function EditorPage() {
         
         // Update the code editor with the content
         setCode(latestVersion.html_content);
+        setMjmlSource(latestVersion.mjml_content ?? null);
+        setMjmlHtml(latestVersion.html_content);
         
         // Show a success message
         setSaveSuccess(true);
@@ -243,6 +220,22 @@ export default function EditorPage() {
     }
   };
 
+  // Add dark mode styles derived from the brand colors, replacing earlier ones
+  const handleAddDarkMode = async () => {
+    try {
+      setIsAddingDarkMode(true);
+      setSaveError(null);
+      const { html } = await generateDarkMode(code, conversion?.id);
+      handleCodeChange(html);
+      setIsDarkPreview(true);
+    } catch (error) {
+      console.error('Error adding dark mode:', error);
+      setSaveError(error instanceof Error ? error.message : 'Failed to add dark mode styles');
+    } finally {
+      setIsAddingDarkMode(false);
+    }
+  };
+
   // Handle command execution from command palette
   const handleExecuteCommand = (command: string) => {
     console.log(`Executing command: ${command}`);
@@ -310,14 +303,93 @@ export default function EditorPage() {
   };
 
   // Add function to handle loading a specific version
-  const handleLoadVersionFromHistory = (htmlContent: string) => {
+  const handleLoadVersionFromHistory = (htmlContent: string, mjmlContent: string | null) => {
     setCode(htmlContent);
+    setMjmlSource(mjmlContent);
+    setMjmlHtml(htmlContent);
     setSaveSuccess(true);
     setTimeout(() => {
       setSaveSuccess(false);
     }, 3000);
   };
 
+  // Show the HTML compiled from the MJML as it is edited
+  const handleMjmlCompiled = (compiledHtml: string) => {
+    setCode(compiledHtml);
+    setMjmlHtml(compiledHtml);
+    setSaveSuccess(false);
+  };
+
+  // MJML generated from the HTML belongs to the HTML as it is
+  const handleMjmlGenerated = (mjml: string) => {
+    setMjmlSource(mjml);
+    setMjmlHtml(code);
+  };
+
+  // Validate the HTML and mark the failures in the editor
+  const handleRunQA = async () => {
+    try {
+      setIsCheckingQA(true);
+      setSaveError(null);
+      setTooltip(null);
+      const result = await validateEmail(code);
+      setQaFailures((result.results || []).filter((failure: QAFailure) => !failure.isPassing));
+    } catch (error) {
+      console.error('QA error:', error);
+      setSaveError(error instanceof Error ? error.message : 'Failed to run QA');
+    } finally {
+      setIsCheckingQA(false);
+    }
+  };
+
+  // Show the failures as diagnostics; CodeMirror keeps them in place as the HTML is edited
+  useEffect(() => {
+    if (editorView) {
+      editorView.dispatch(setDiagnostics(editorView.state, toDiagnostics(qaFailures || [], editorView.state.doc.length)));
+    }
+  }, [editorView, qaFailures]);
+
+  const showQATooltip = (title: string, description: string, snippet: string, severity: QAFailure['severity'], position: { x: number; y: number }) => {
+    setTooltip({ title, description, code: snippet, position, type: severity });
+  };
+
+  // Jump to a failure picked in the problems list and show its details
+  const handleSelectFailure = (failure: QAFailure, locationIndex: number | null, position: { x: number; y: number }) => {
+    const range = editorView && locationIndex !== null ? findFailureRange(editorView.state, failure, locationIndex) : null;
+    if (editorView && range) {
+      editorView.dispatch({ selection: { anchor: range.from, head: range.to }, scrollIntoView: true });
+      editorView.focus();
+    }
+
+    const location = locationIndex !== null ? failure.locations?.[locationIndex] : undefined;
+    showQATooltip(failure.ruleName, failure.message, location?.snippet || failure.snippet || '', failure.severity, position);
+  };
+
+  // A click on a gutter marker jumps to the first problem on its line and shows the line's problems
+  const handleEditorClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    if (!editorView || !(e.target as Element).closest('.cm-lint-marker')) {
+      return;
+    }
+
+    const block = editorView.lineBlockAtHeight(e.clientY - editorView.documentTop);
+    const problems = getLineDiagnostics(editorView.state, editorView.state.doc.lineAt(block.from).number);
+    if (problems.length === 0) {
+      return;
+    }
+
+    const [first] = problems;
+    editorView.dispatch({ selection: { anchor: first.from, head: first.to }, scrollIntoView: true });
+    showQATooltip(
+      problems.map(({ diagnostic }) => diagnostic.source).join(', '),
+      problems.map(({ diagnostic }) => diagnostic.message).join(' '),
+      editorView.state.sliceDoc(first.from, first.to),
+      first.diagnostic.severity === 'hint' ? 'info' : first.diagnostic.severity,
+      { x: e.pageX + 12, y: e.pageY }
+    );
+  };
+
+  const previewCode = isDarkPreview ? forceDarkScheme(code) : code;
+
   return (
     <div className="container mx-auto px-4 py-8">
       <h1 className="text-2xl font-bold mb-6">HTML Email Editor</h1>
@@ -350,6 +422,29 @@ export default function EditorPage() {
             </button>
 
             <div className="flex items-center space-x-2">
+              {conversion && (
+                <button
+                  onClick={() => setIsSectionRegeneratorOpen(true)}
+                  className="px-3 py-1 text-sm border rounded-md hover:bg-zinc-50 dark:hover:bg-zinc-800"
+                >
+                  Regenerate Section
+                </button>
+              )}
+              {conversion && (
+                <button
+                  onClick={() => setIsVisualDiffOpen(true)}
+                  className="px-3 py-1 text-sm border rounded-md hover:bg-zinc-50 dark:hover:bg-zinc-800"
+                >
+                  Visual Diff
+                </button>
+              )}
+              <button
+                onClick={handleAddDarkMode}
+                disabled={isAddingDarkMode}
+                className="px-3 py-1 text-sm border rounded-md hover:bg-zinc-50 dark:hover:bg-zinc-800 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isAddingDarkMode ? "Adding..." : "Add Dark Mode"}
+              </button>
               <button
                 onClick={openVersionHistory}
                 className="px-3 py-1 text-sm border rounded-md hover:bg-zinc-50 dark:hover:bg-zinc-800"
@@ -373,15 +468,35 @@ export default function EditorPage() {
             </div>
           </div>
           
+          {/* HTML, MJML and AMP tabs; the AMP version belongs to a conversion */}
+          <div className="mb-4 flex items-center space-x-2">
+            {(['html', 'mjml', 'amp'] as const).filter((tab) => tab !== 'amp' || conversion).map((tab) => (
+              <button
+                key={tab}
+                onClick={() => setEditorTab(tab)}
+                className={`px-3 py-1 text-sm rounded ${
+                  editorTab === tab
+                    ? "bg-zinc-300 dark:bg-zinc-600 font-medium"
+                    : "bg-zinc-200 dark:bg-zinc-700"
+                }`}
+              >
+                {tab.toUpperCase()}
+              </button>
+            ))}
+          </div>
+
           {/* Main content area */}
           <div className="space-y-6">
-            {/* Editor and Preview Grid */}
+            {editorTab === 'amp' && conversion ? (
+              <AmpEditor conversionId={conversion.id} code={code} isDarkMode={isDarkMode} />
+            ) : (
+            /* Editor and Preview Grid */
             <div className={`grid ${!isEditorFullscreen && !isPreviewFullscreen ? 'grid-cols-1 lg:grid-cols-2' : 'grid-cols-1'} gap-6`}>
               {/* Show editor if not in preview fullscreen mode */}
               {!isPreviewFullscreen && (
                 <div className={`border rounded-lg overflow-hidden ${isEditorFullscreen ? 'col-span-full' : ''}`}>
                   <div className="bg-zinc-100 dark:bg-zinc-800 px-4 py-2 border-b flex justify-between items-center">
-            <h2 className="font-medium">HTML Editor</h2>
+            <h2 className="font-medium">{editorTab === 'mjml' ? 'MJML Editor' : 'HTML Editor'}</h2>
                     <button
                       onClick={toggleEditorFullscreen}
                       className="p-1 rounded hover:bg-zinc-200 dark:hover:bg-zinc-700"
@@ -398,17 +513,39 @@ export default function EditorPage() {
                       )}
                     </button>
           </div>
+          {editorTab === 'mjml' ? (
+            <MjmlEditor
+              mjml={mjmlSource}
+              code={code}
+              isInSync={isMjmlInSync}
+              isDarkMode={isDarkMode}
+              height={isEditorFullscreen ? "calc(100vh - 250px)" : "450px"}
+              onSourceChange={setMjmlSource}
+              onCompiled={handleMjmlCompiled}
+              onGenerated={handleMjmlGenerated}
+            />
+          ) : (
+          <div onClick={handleEditorClick}>
           <CodeMirror
             value={code}
                     height={isEditorFullscreen ? "calc(100vh - 200px)" : "500px"}
-                    extensions={[html(), EditorView.lineWrapping]}
+                    extensions={[html(), EditorView.lineWrapping, QA_GUTTER]}
             onChange={handleCodeChange}
+                    onUpdate={(update: ViewUpdate) => {
+                      if (update.selectionSet) {
+                        const { from, to } = update.state.selection.main;
+                        setEditorSelection({ from, to });
+                      }
+                    }}
                     theme={isDarkMode ? oneDark : undefined}
             className="text-sm"
             onCreateEditor={(editor: any) => {
               editorRef.current.editor = editor;
+              setEditorView(editor);
             }}
           />
+          </div>
+          )}
         </div>
               )}
         
@@ -437,6 +574,17 @@ export default function EditorPage() {
                         }`}
               >
                 Mobile
+              </button>
+              <button
+                        onClick={() => setIsDarkPreview(!isDarkPreview)}
+                        className={`px-2 py-1 text-xs rounded ${
+                          isDarkPreview 
+                            ? "bg-zinc-300 dark:bg-zinc-600 font-medium" 
+                            : "bg-zinc-200 dark:bg-zinc-700"
+                        }`}
+                        title="Preview the email in dark mode"
+              >
+                Dark
               </button>
                       <button
                         onClick={togglePreviewFullscreen}
@@ -479,7 +627,7 @@ export default function EditorPage() {
                     >
             <iframe
                         srcDoc={isMobileView ? 
-                          code.replace(
+                          previewCode.replace(
                             '</head>',
                             `<style>
                               /* Force mobile view regardless of media queries */
@@ -508,7 +656,7 @@ export default function EditorPage() {
                             </script>
                             </head>`
                           ) : 
-                          code.replace(
+                          previewCode.replace(
                             '</head>',
                             `<style>
                               /* Force desktop view regardless of media queries */
@@ -551,7 +699,18 @@ export default function EditorPage() {
       </div>
               )}
               </div>
-              
+            )}
+
+            {/* QA failures, marked in the HTML editor's gutter */}
+            {editorTab === 'html' && (
+              <QAProblems
+                failures={qaFailures}
+                isChecking={isCheckingQA}
+                onRun={handleRunQA}
+                onSelect={handleSelectFailure}
+              />
+            )}
+
             {/* Error and Success Messages */}
               {saveError && (
               <div className="p-3 bg-red-100 text-red-700 rounded-md dark:bg-red-900/30 dark:text-red-400">
@@ -628,7 +787,13 @@ export default function EditorPage() {
             <Link
               href="/qa"
               className="px-4 py-2 bg-zinc-900 text-white rounded-md hover:bg-zinc-800 dark:bg-zinc-50 dark:text-zinc-900 dark:hover:bg-zinc-200"
-              onClick={() => localStorage.setItem('qaHtml', code)}
+              onClick={() => {
+                localStorage.setItem('qaHtml', code);
+                // QA fixes are saved as versions of this email
+                if (emailId) {
+                  localStorage.setItem('qaEmailId', emailId);
+                }
+              }}
             >
               Proceed to QA
             </Link>
@@ -642,6 +807,27 @@ export default function EditorPage() {
               onClose={() => setIsVersionHistoryOpen(false)}
             />
           )}
+
+          {/* Section Regeneration Modal */}
+          {isSectionRegeneratorOpen && conversion && (
+            <SectionRegenerator
+              conversionId={conversion.id}
+              code={code}
+              selection={editorSelection}
+              pageCount={conversion.pageCount}
+              onApply={handleCodeChange}
+              onClose={() => setIsSectionRegeneratorOpen(false)}
+            />
+          )}
+
+          {/* Visual Diff Modal */}
+          {isVisualDiffOpen && conversion && (
+            <VisualDiffViewer
+              conversionId={conversion.id}
+              code={code}
+              onClose={() => setIsVisualDiffOpen(false)}
+            />
+          )}
         </>
       )}
     </div>
@@ -2,7 +2,15 @@
 
 import React, { useState, useEffect } from "react";
 import Link from "next/link";
-import { validateEmail, getQARules } from "@/lib/api-service";
+import { validateEmail, getQARules, getQARulePack, updateQARuleOverride, fixQAFailures } from "@/lib/api-service";
+
+type SourceLocation = {
+  line: number;
+  column: number;
+  endLine: number;
+  endColumn: number;
+  snippet: string;
+};
 
 type ValidationRule = {
   id: string;
@@ -10,16 +18,34 @@ type ValidationRule = {
   description: string;
   status: "passed" | "failed" | "pending";
   details?: string;
+  locations?: SourceLocation[];
+  fixes?: string[]; // What "Fix" changes, one entry per patch
+};
+
+type QAPatch = {
+  description: string;
 };
 
 type QARule = {
   id: string;
-  name: string;
+  rule_name: string;
   description: string;
   rule_type: string;
   rule_pattern: string;
   severity: 'error' | 'warning' | 'info';
   is_active: boolean;
+  built_in?: boolean;
+};
+
+type QARuleOverride = {
+  enabled?: boolean;
+  severity?: QARule['severity'];
+};
+
+type QARulePack = {
+  version: number;
+  rules: QARule[];
+  overrides: Record<string, QARuleOverride>;
 };
 
 type ValidationResult = {
@@ -29,6 +55,8 @@ type ValidationResult = {
   severity: string;
   isPassing: boolean;
   message: string;
+  locations?: SourceLocation[];
+  patches?: QAPatch[];
 };
 
 export default function QAPage() {
@@ -38,6 +66,13 @@ export default function QAPage() {
   const [error, setError] = useState<string | null>(null);
   const [html, setHtml] = useState<string | null>(null);
   const [isTestingEmail, setIsTestingEmail] = useState(false);
+  const [rulePack, setRulePack] = useState<QARulePack | null>(null);
+  const [userRole, setUserRole] = useState<string | null>(null);
+  const [updatingRuleId, setUpdatingRuleId] = useState<string | null>(null);
+  // The email QA fixes are saved as versions of, set by the editor
+  const [emailId, setEmailId] = useState<string | null>(null);
+  const [fixingRuleId, setFixingRuleId] = useState<string | null>(null);
+  const [fixMessage, setFixMessage] = useState<string | null>(null);
 
   useEffect(() => {
     // Load the HTML from localStorage
@@ -45,68 +80,34 @@ export default function QAPage() {
     if (emailHtml) {
       setHtml(emailHtml);
     }
+    setEmailId(localStorage.getItem('qaEmailId'));
     
     // Load QA rules
-    loadQARules();
+    loadQARules(emailHtml);
   }, []);
 
-  const loadQARules = async () => {
+  const loadQARules = async (emailHtml: string | null) => {
     try {
       setIsLoading(true);
       setError(null);
       
-      // Fetch QA rules from the API
-      const response = await getQARules(true);
+      // Fetch the active QA rules, built-in rules included, and the rule pack settings
+      const [response, pack] = await Promise.all([getQARules(true), getQARulePack()]);
+      setRulePack(pack);
+      setUserRole(response.userRole);
       
-      if (response.rules && response.rules.length > 0) {
-        // Convert API rules to the format used by the component
-        const initialRules: ValidationRule[] = response.rules.map((rule: QARule) => ({
-          id: rule.id,
-          name: rule.name,
-          description: rule.description,
-          status: "pending"
-        }));
-        
-        setValidationRules(initialRules);
-        
-        // If we have HTML, validate it immediately
-        if (html) {
-          validateHtml(html, response.rules);
-        }
-      } else {
-        // If no rules are returned, show some default rules
-        setValidationRules([
-          {
-            id: "1",
-            name: "Responsive Design",
-            description: "Email renders correctly on mobile, tablet, and desktop",
-            status: "pending",
-          },
-          {
-            id: "2",
-            name: "Image Alt Tags",
-            description: "All images have appropriate alt tags for accessibility",
-            status: "pending",
-          },
-          {
-            id: "3",
-            name: "CAN-SPAM Compliance",
-            description: "Email includes required unsubscribe link and physical address",
-            status: "pending",
-          },
-          {
-            id: "4",
-            name: "Link Validation",
-            description: "All links are valid and properly formatted",
-            status: "pending",
-          },
-          {
-            id: "5",
-            name: "Brand Guidelines",
-            description: "Email follows client brand guidelines for colors and fonts",
-            status: "pending",
-          },
-        ]);
+      // Convert API rules to the format used by the component
+      const rules: QARule[] = response.rules || [];
+      setValidationRules(rules.map(rule => ({
+        id: rule.id,
+        name: rule.rule_name,
+        description: rule.description,
+        status: "pending"
+      })));
+      
+      // If we have HTML, validate it immediately
+      if (emailHtml && rules.length > 0) {
+        validateHtml(emailHtml, rules);
       }
     } catch (error) {
       console.error('Error loading QA rules:', error);
@@ -131,21 +132,21 @@ export default function QAPage() {
       
       if (result.results && result.results.length > 0) {
         // Update the validation rules with the results
-        const updatedRules = validationRules.map(rule => {
+        setValidationRules(currentRules => currentRules.map(rule => {
           const matchingResult = result.results.find((r: ValidationResult) => r.ruleId === rule.id);
           
           if (matchingResult) {
             return {
               ...rule,
               status: matchingResult.isPassing ? "passed" as const : "failed" as const,
-              details: matchingResult.isPassing ? undefined : matchingResult.message
+              details: matchingResult.isPassing ? undefined : matchingResult.message,
+              locations: matchingResult.isPassing ? undefined : matchingResult.locations,
+              fixes: matchingResult.patches?.map((patch: QAPatch) => patch.description)
             };
           }
           
           return rule;
-        });
-        
-        setValidationRules(updatedRules);
+        }));
       }
     } catch (error) {
       console.error('Validation error:', error);
@@ -155,6 +156,43 @@ export default function QAPage() {
     }
   };
 
+  // Changes one field of a built-in rule's override; the rules are reloaded to apply it
+  const updateBuiltInRule = async (ruleId: string, change: QARuleOverride | null) => {
+    try {
+      setUpdatingRuleId(ruleId);
+      setError(null);
+      const override = change && { ...rulePack?.overrides[ruleId], ...change };
+      await updateQARuleOverride(ruleId, override);
+      await loadQARules(html);
+    } catch (error) {
+      console.error('Error updating built-in rule:', error);
+      setError(error instanceof Error ? error.message : 'Failed to update the built-in rule.');
+    } finally {
+      setUpdatingRuleId(null);
+    }
+  };
+
+  // Apply the fixes of one rule, or of every rule, save them as a new version and validate again
+  const handleFix = async (ruleId?: string) => {
+    if (!html || !emailId) return;
+
+    try {
+      setFixingRuleId(ruleId || 'all');
+      setError(null);
+      setFixMessage(null);
+      const result = await fixQAFailures(html, emailId, ruleId ? [ruleId] : undefined);
+      setHtml(result.html);
+      localStorage.setItem('qaHtml', result.html);
+      setFixMessage(`Saved version ${result.versionNumber} with ${result.applied.map((fix: { ruleName: string; count: number }) => `${fix.count} ${fix.ruleName} fix${fix.count === 1 ? '' : 'es'}`).join(', ')}.`);
+      await validateHtml(result.html);
+    } catch (error) {
+      console.error('Fix error:', error);
+      setError(error instanceof Error ? error.message : 'Failed to fix the QA failures.');
+    } finally {
+      setFixingRuleId(null);
+    }
+  };
+
   const runEmailTest = () => {
     setIsTestingEmail(true);
     // Simulate API call to email testing service
@@ -164,6 +202,7 @@ export default function QAPage() {
   };
 
   const hasFailedRules = validationRules.some(rule => rule.status === "failed");
+  const hasFixableRules = validationRules.some(rule => rule.status === "failed" && rule.fixes?.length);
 
   if (isLoading) {
     return (
@@ -186,21 +225,44 @@ export default function QAPage() {
         </div>
       )}
       
+      {fixMessage && (
+        <div className="mb-6 p-3 bg-green-100 text-green-700 rounded-md dark:bg-green-900/30 dark:text-green-400">
+          {fixMessage}
+        </div>
+      )}
+      
       <div className="mb-8 grid grid-cols-1 md:grid-cols-2 gap-6">
         <div className="border rounded-lg p-6">
           <div className="flex items-center justify-between mb-4">
             <h2 className="text-xl font-semibold">Validation Rules</h2>
             {html && (
-              <button
-                onClick={() => validateHtml(html)}
-                disabled={isValidating}
-                className="px-3 py-1 text-sm bg-zinc-900 text-white rounded-md hover:bg-zinc-800 dark:bg-zinc-50 dark:text-zinc-900 dark:hover:bg-zinc-200 disabled:opacity-50 disabled:cursor-not-allowed"
-              >
-                {isValidating ? "Validating..." : "Revalidate"}
-              </button>
+              <div className="flex items-center space-x-2">
+                {hasFixableRules && (
+                  <button
+                    onClick={() => handleFix()}
+                    disabled={!emailId || fixingRuleId !== null || isValidating}
+                    title={emailId ? "Fix every failure that can be fixed automatically" : "Open the email in the editor to save fixes"}
+                    className="px-3 py-1 text-sm border rounded-md hover:bg-zinc-50 dark:hover:bg-zinc-800 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {fixingRuleId === 'all' ? "Fixing..." : "Fix all"}
+                  </button>
+                )}
+                <button
+                  onClick={() => validateHtml(html)}
+                  disabled={isValidating}
+                  className="px-3 py-1 text-sm bg-zinc-900 text-white rounded-md hover:bg-zinc-800 dark:bg-zinc-50 dark:text-zinc-900 dark:hover:bg-zinc-200 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {isValidating ? "Validating..." : "Revalidate"}
+                </button>
+              </div>
             )}
           </div>
           <div className="space-y-4">
+            {validationRules.length === 0 && (
+              <p className="text-sm text-zinc-600 dark:text-zinc-400">
+                No QA rules are active. Enable built-in rules below or add rules to the workspace.
+              </p>
+            )}
             {validationRules.map((rule) => (
               <div key={rule.id} className="border-b pb-4">
                 <div className="flex items-center justify-between">
@@ -225,6 +287,33 @@ export default function QAPage() {
                     {rule.details}
                   </p>
                 )}
+                {rule.status === "failed" && rule.fixes && rule.fixes.length > 0 && (
+                  <div className="mt-2 flex items-center space-x-2">
+                    <button
+                      onClick={() => handleFix(rule.id)}
+                      disabled={!emailId || fixingRuleId !== null || isValidating}
+                      title={emailId ? undefined : "Open the email in the editor to save fixes"}
+                      className="px-2 py-1 text-xs border rounded hover:bg-zinc-50 dark:hover:bg-zinc-800 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      {fixingRuleId === rule.id ? "Fixing..." : "Fix"}
+                    </button>
+                    <span className="text-xs text-zinc-500 dark:text-zinc-400">
+                      {rule.fixes[0]} ({rule.fixes.length} {rule.fixes.length === 1 ? "change" : "changes"})
+                    </span>
+                  </div>
+                )}
+                {rule.locations && rule.locations.length > 0 && (
+                  <ul className="mt-2 space-y-1 text-xs">
+                    {rule.locations.map((location) => (
+                      <li key={`${location.line}:${location.column}`} className="flex items-baseline space-x-2">
+                        <span className="shrink-0 text-zinc-500 dark:text-zinc-400">
+                          Line {location.line}, column {location.column}{location.endLine !== location.line && ` to line ${location.endLine}`}
+                        </span>
+                        <code className="truncate bg-zinc-100 dark:bg-zinc-800 px-1 rounded">{location.snippet}</code>
+                      </li>
+                    ))}
+                  </ul>
+                )}
               </div>
             ))}
           </div>
@@ -245,7 +334,69 @@ export default function QAPage() {
         </div>
       </div>
       
+      {rulePack && (
+        <div className="border rounded-lg p-6">
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-xl font-semibold">Built-in Rules</h2>
+            <span className="text-sm text-zinc-500 dark:text-zinc-400">Rule pack version {rulePack.version}</span>
+          </div>
+          {userRole !== 'Administrator' && (
+            <p className="mb-4 text-sm text-zinc-600 dark:text-zinc-400">
+              Only administrators can change the built-in rules of the workspace.
+            </p>
+          )}
+          <div className="divide-y dark:divide-zinc-700">
+            {rulePack.rules.map((rule) => (
+              <div key={rule.id} className="py-3 flex items-center justify-between gap-4">
+                <label className="flex items-start gap-3">
+                  <input
+                    type="checkbox"
+                    checked={rule.is_active}
+                    disabled={userRole !== 'Administrator' || updatingRuleId === rule.id}
+                    onChange={(e: any) => updateBuiltInRule(rule.id, { enabled: e.target.checked })}
+                    className="mt-1"
+                  />
+                  <span>
+                    <span className="font-medium">{rule.rule_name}</span>
+                    <span className="block text-sm text-zinc-600 dark:text-zinc-400">{rule.description}</span>
+                  </span>
+                </label>
+                <div className="flex items-center gap-2 shrink-0">
+                  <select
+                    value={rule.severity}
+                    disabled={userRole !== 'Administrator' || updatingRuleId === rule.id}
+                    onChange={(e: any) => updateBuiltInRule(rule.id, { severity: e.target.value })}
+                    className="px-2 py-1 text-sm border rounded-md bg-transparent"
+                  >
+                    <option value="error">Error</option>
+                    <option value="warning">Warning</option>
+                    <option value="info">Info</option>
+                  </select>
+                  {userRole === 'Administrator' && rulePack.overrides[rule.id] && (
+                    <button
+                      onClick={() => updateBuiltInRule(rule.id, null)}
+                      disabled={updatingRuleId === rule.id}
+                      className="px-2 py-1 text-xs border rounded hover:bg-zinc-50 dark:hover:bg-zinc-800 disabled:opacity-50"
+                    >
+                      Reset
+                    </button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+      
       <div className="mt-6 flex justify-end space-x-4">
+        {userRole === 'Administrator' && (
+          <Link
+            href="/qa/rules"
+            className="px-4 py-2 border rounded-md hover:bg-zinc-50 dark:hover:bg-zinc-800"
+          >
+            Manage Rules
+          </Link>
+        )}
         <Link
           href="/editor"
           className="px-4 py-2 border rounded-md hover:bg-zinc-50 dark:hover:bg-zinc-800"
@@ -0,0 +1,431 @@
+"use client";
+
+import React, { useState, useEffect } from "react";
+import Link from "next/link";
+import { getQARules, createQARule, updateQARule, deleteQARule, testQARule } from "@/lib/api-service";
+
+// Wait for a pause in typing before testing the draft
+const TEST_DELAY_MS = 500;
+
+type Severity = 'error' | 'warning' | 'info';
+
+type QAFix = {
+  type: string;
+  attribute?: string;
+  value?: string;
+  description?: string;
+};
+
+type QARule = {
+  id: string;
+  rule_name: string;
+  description: string;
+  rule_type: string;
+  rule_pattern: string;
+  severity: Severity;
+  is_active: boolean;
+  built_in?: boolean;
+  fix?: QAFix | null;
+};
+
+type RuleDraft = {
+  rule_name: string;
+  description: string;
+  rule_type: string;
+  rule_pattern: string;
+  severity: Severity;
+  is_active: boolean;
+  fix: string; // JSON, empty for no fix
+};
+
+type TestResult = {
+  isPassing: boolean;
+  message: string;
+  locations?: { line: number; column: number; endLine: number; snippet: string }[];
+  patches?: { description: string }[];
+};
+
+// What the pattern of each rule type is, shown as its placeholder
+const RULE_TYPES: { value: string; label: string; placeholder: string }[] = [
+  { value: 'dom', label: 'DOM assertion', placeholder: '{"selector": "img", "expect": "all", "attribute": "alt"} or a selector no element may match' },
+  { value: 'regex', label: 'Regular expression', placeholder: 'A regular expression the HTML must match' },
+  { value: 'tag', label: 'Tag', placeholder: 'A tag name some start tag must begin with, e.g. title (a regular expression)' },
+  { value: 'attribute', label: 'Attribute', placeholder: 'Text some start tag must contain, e.g. lang= (a regular expression)' },
+  { value: 'max-width', label: 'Max width', placeholder: 'Width range such as 600-700, or a maximum width' },
+  { value: 'inline-styles', label: 'Inline styles', placeholder: 'No pattern' },
+  { value: 'max-size', label: 'Max size', placeholder: 'Maximum size in bytes (defaults to the Gmail clipping limit)' },
+  { value: 'font-fallbacks', label: 'Font fallbacks', placeholder: 'No pattern' },
+  { value: 'brand-colors', label: 'Brand colors', placeholder: 'Color tolerance (optional)' },
+  { value: 'brand-fonts', label: 'Brand fonts', placeholder: 'No pattern' },
+  { value: 'dark-mode', label: 'Dark mode', placeholder: 'Minimum contrast ratio (optional)' },
+  { value: 'outlook-fallbacks', label: 'Outlook fallbacks', placeholder: 'ghost-tables, vml-buttons, vml-backgrounds (defaults to all)' },
+  { value: 'amp', label: 'AMP', placeholder: 'No pattern' }
+];
+
+const EMPTY_DRAFT: RuleDraft = {
+  rule_name: '',
+  description: '',
+  rule_type: 'dom',
+  rule_pattern: '',
+  severity: 'error',
+  is_active: false, // New rules are tested before they are activated
+  fix: ''
+};
+
+/**
+ * Converts a draft into the rule the API expects
+ * @param draft The draft
+ * @throws Error if the fix is not valid JSON
+ */
+function toRuleFields(draft: RuleDraft) {
+  let fix: QAFix | null = null;
+  if (draft.fix.trim()) {
+    try {
+      fix = JSON.parse(draft.fix);
+    } catch {
+      throw new Error('The fix must be valid JSON');
+    }
+  }
+
+  return { ...draft, fix };
+}
+
+export default function QARulesPage() {
+  const [rules, setRules] = useState<QARule[]>([]);
+  const [userRole, setUserRole] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<RuleDraft>(EMPTY_DRAFT);
+  const [isSaving, setIsSaving] = useState(false);
+  const [sampleHtml, setSampleHtml] = useState('');
+  const [testResult, setTestResult] = useState<TestResult | null>(null);
+  const [testError, setTestError] = useState<string | null>(null);
+  const [isTesting, setIsTesting] = useState(false);
+
+  useEffect(() => {
+    // Test against the email being checked on the QA page
+    setSampleHtml(localStorage.getItem('qaHtml') || localStorage.getItem('emailHtml') || '');
+    loadRules();
+  }, []);
+
+  // Test the draft against the sample whenever either changes
+  useEffect(() => {
+    if (userRole !== 'Administrator' || !sampleHtml.trim() || (!draft.rule_pattern.trim() && ['dom', 'regex', 'tag', 'attribute'].includes(draft.rule_type))) {
+      setTestResult(null);
+      setTestError(null);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        setIsTesting(true);
+        const response = await testQARule(toRuleFields(draft), sampleHtml);
+        if (!cancelled) {
+          setTestResult(response.result);
+          setTestError(null);
+        }
+      } catch (err) {
+        if (!cancelled) {
+          setTestResult(null);
+          setTestError(err instanceof Error ? err.message : 'Failed to test the rule');
+        }
+      } finally {
+        if (!cancelled) {
+          setIsTesting(false);
+        }
+      }
+    }, TEST_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [draft, sampleHtml, userRole]);
+
+  const loadRules = async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      const response = await getQARules(false);
+      setUserRole(response.userRole);
+      // Built-in rules are managed on the QA page
+      setRules((response.rules || []).filter((rule: QARule) => !rule.built_in));
+    } catch (error) {
+      console.error('Error loading QA rules:', error);
+      setError('Failed to load QA rules. Please try again later.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const updateDraft = (change: Partial<RuleDraft>) => {
+    setDraft(current => ({ ...current, ...change }));
+  };
+
+  const startEditing = (rule: QARule) => {
+    setEditingId(rule.id);
+    setDraft({
+      rule_name: rule.rule_name,
+      description: rule.description || '',
+      rule_type: rule.rule_type,
+      rule_pattern: rule.rule_pattern || '',
+      severity: rule.severity,
+      is_active: rule.is_active,
+      fix: rule.fix ? JSON.stringify(rule.fix, null, 2) : ''
+    });
+  };
+
+  const resetForm = () => {
+    setEditingId(null);
+    setDraft(EMPTY_DRAFT);
+  };
+
+  const handleSave = async () => {
+    try {
+      setIsSaving(true);
+      setError(null);
+      const fields = toRuleFields(draft);
+      if (editingId) {
+        await updateQARule(editingId, fields);
+      } else {
+        await createQARule(fields);
+      }
+      resetForm();
+      await loadRules();
+    } catch (error) {
+      console.error('Error saving QA rule:', error);
+      setError(error instanceof Error ? error.message : 'Failed to save the rule.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (rule: QARule) => {
+    if (!confirm(`Delete the rule "${rule.rule_name}"?`)) return;
+
+    try {
+      setError(null);
+      await deleteQARule(rule.id);
+      if (editingId === rule.id) {
+        resetForm();
+      }
+      await loadRules();
+    } catch (error) {
+      console.error('Error deleting QA rule:', error);
+      setError(error instanceof Error ? error.message : 'Failed to delete the rule.');
+    }
+  };
+
+  const ruleType = RULE_TYPES.find(type => type.value === draft.rule_type);
+
+  if (isLoading) {
+    return (
+      <div>
+        <h1 className="text-3xl font-bold mb-6">QA Rules</h1>
+        <div className="flex items-center justify-center h-64">
+          <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-zinc-900 dark:border-zinc-100"></div>
+        </div>
+      </div>
+    );
+  }
+
+  if (userRole !== 'Administrator') {
+    return (
+      <div>
+        <h1 className="text-3xl font-bold mb-6">QA Rules</h1>
+        <p className="mb-6 text-zinc-600 dark:text-zinc-400">
+          Only administrators can create and edit QA rules.
+        </p>
+        <Link href="/qa" className="px-4 py-2 border rounded-md hover:bg-zinc-50 dark:hover:bg-zinc-800">
+          Back to QA
+        </Link>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <h1 className="text-3xl font-bold mb-6">QA Rules</h1>
+
+      {error && (
+        <div className="mb-6 p-3 bg-red-100 text-red-700 rounded-md dark:bg-red-900/30 dark:text-red-400">
+          {error}
+        </div>
+      )}
+
+      <div className="mb-8 grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div className="border rounded-lg p-6 space-y-4">
+          <h2 className="text-xl font-semibold">{editingId ? "Edit Rule" : "New Rule"}</h2>
+          <input
+            type="text"
+            value={draft.rule_name}
+            onChange={(e: any) => updateDraft({ rule_name: e.target.value })}
+            placeholder="Name"
+            className="w-full px-3 py-2 text-sm border rounded-md bg-transparent"
+          />
+          <input
+            type="text"
+            value={draft.description}
+            onChange={(e: any) => updateDraft({ description: e.target.value })}
+            placeholder="Description"
+            className="w-full px-3 py-2 text-sm border rounded-md bg-transparent"
+          />
+          <div className="flex gap-4">
+            <select
+              value={draft.rule_type}
+              onChange={(e: any) => updateDraft({ rule_type: e.target.value })}
+              className="flex-1 px-2 py-2 text-sm border rounded-md bg-transparent"
+            >
+              {RULE_TYPES.map((type) => (
+                <option key={type.value} value={type.value}>{type.label}</option>
+              ))}
+            </select>
+            <select
+              value={draft.severity}
+              onChange={(e: any) => updateDraft({ severity: e.target.value })}
+              className="px-2 py-2 text-sm border rounded-md bg-transparent"
+            >
+              <option value="error">Error</option>
+              <option value="warning">Warning</option>
+              <option value="info">Info</option>
+            </select>
+          </div>
+          <textarea
+            value={draft.rule_pattern}
+            onChange={(e: any) => updateDraft({ rule_pattern: e.target.value })}
+            placeholder={ruleType?.placeholder}
+            rows={4}
+            className="w-full px-3 py-2 text-sm font-mono border rounded-md bg-transparent"
+          />
+          <textarea
+            value={draft.fix}
+            onChange={(e: any) => updateDraft({ fix: e.target.value })}
+            placeholder={'Fix (optional), e.g. {"type": "set-attribute", "attribute": "alt", "value": ""}'}
+            rows={3}
+            className="w-full px-3 py-2 text-sm font-mono border rounded-md bg-transparent"
+          />
+          <label className="flex items-center gap-2 text-sm">
+            <input
+              type="checkbox"
+              checked={draft.is_active}
+              onChange={(e: any) => updateDraft({ is_active: e.target.checked })}
+            />
+            Active
+          </label>
+          <div className="flex justify-end space-x-2">
+            {editingId && (
+              <button
+                onClick={resetForm}
+                className="px-4 py-2 text-sm border rounded-md hover:bg-zinc-50 dark:hover:bg-zinc-800"
+              >
+                Cancel
+              </button>
+            )}
+            <button
+              onClick={handleSave}
+              disabled={isSaving || !draft.rule_name.trim()}
+              className="px-4 py-2 text-sm bg-zinc-900 text-white rounded-md hover:bg-zinc-800 dark:bg-zinc-50 dark:text-zinc-900 dark:hover:bg-zinc-200 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isSaving ? "Saving..." : editingId ? "Save Rule" : "Create Rule"}
+            </button>
+          </div>
+        </div>
+
+        <div className="border rounded-lg p-6 space-y-4">
+          <div className="flex items-center justify-between">
+            <h2 className="text-xl font-semibold">Test</h2>
+            {isTesting && <span className="text-sm text-zinc-500 dark:text-zinc-400">Testing...</span>}
+          </div>
+          <textarea
+            value={sampleHtml}
+            onChange={(e: any) => setSampleHtml(e.target.value)}
+            placeholder="Paste sample HTML to test the rule against"
+            rows={10}
+            className="w-full px-3 py-2 text-sm font-mono border rounded-md bg-transparent"
+          />
+          {testError && (
+            <p className="text-sm text-red-600 dark:text-red-400">{testError}</p>
+          )}
+          {testResult && (
+            <div>
+              <div className="flex items-center gap-2">
+                <span
+                  className={`px-2 py-1 text-xs rounded-full ${
+                    testResult.isPassing
+                      ? "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200"
+                      : "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200"
+                  }`}
+                >
+                  {testResult.isPassing ? "passed" : "failed"}
+                </span>
+                <span className="text-sm">{testResult.message}</span>
+              </div>
+              {testResult.patches && testResult.patches.length > 0 && (
+                <p className="mt-2 text-xs text-zinc-500 dark:text-zinc-400">
+                  The fix would make {testResult.patches.length} {testResult.patches.length === 1 ? "change" : "changes"}: {testResult.patches[0].description}
+                </p>
+              )}
+              {testResult.locations && testResult.locations.length > 0 && (
+                <ul className="mt-2 space-y-1 text-xs">
+                  {testResult.locations.map((location) => (
+                    <li key={`${location.line}:${location.column}`} className="flex items-baseline space-x-2">
+                      <span className="shrink-0 text-zinc-500 dark:text-zinc-400">
+                        Line {location.line}, column {location.column}{location.endLine !== location.line && ` to line ${location.endLine}`}
+                      </span>
+                      <code className="truncate bg-zinc-100 dark:bg-zinc-800 px-1 rounded">{location.snippet}</code>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+
+      <div className="border rounded-lg p-6">
+        <h2 className="text-xl font-semibold mb-4">Workspace Rules</h2>
+        {rules.length === 0 && (
+          <p className="text-sm text-zinc-600 dark:text-zinc-400">No rules yet. Built-in rules are managed on the QA page.</p>
+        )}
+        <div className="divide-y dark:divide-zinc-700">
+          {rules.map((rule) => (
+            <div key={rule.id} className="py-3 flex items-center justify-between gap-4">
+              <div>
+                <span className="font-medium">{rule.rule_name}</span>
+                <span className="ml-2 text-xs text-zinc-500 dark:text-zinc-400">
+                  {rule.rule_type} · {rule.severity}{rule.is_active ? "" : " · inactive"}
+                </span>
+                <span className="block text-sm text-zinc-600 dark:text-zinc-400">{rule.description}</span>
+              </div>
+              <div className="flex items-center gap-2 shrink-0">
+                <button
+                  onClick={() => startEditing(rule)}
+                  className="px-2 py-1 text-xs border rounded hover:bg-zinc-50 dark:hover:bg-zinc-800"
+                >
+                  Edit
+                </button>
+                <button
+                  onClick={() => handleDelete(rule)}
+                  className="px-2 py-1 text-xs border rounded text-red-600 hover:bg-red-50 dark:text-red-400 dark:hover:bg-red-900/30"
+                >
+                  Delete
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="mt-6 flex justify-end">
+        <Link
+          href="/qa"
+          className="px-4 py-2 border rounded-md hover:bg-zinc-50 dark:hover:bg-zinc-800"
+        >
+          Back to QA
+        </Link>
+      </div>
+    </div>
+  );
+}
@@ -8,8 +8,8 @@ export default function UploadPage() {
   const router = useRouter();
 
   const handleConversionComplete = (html: string, metadata: any, conversionId: string) => {
-    // Redirect to the editor with the HTML and conversion ID
-    router.push(`/editor?html=${encodeURIComponent(html)}&conversionId=${conversionId}`);
+    // The conversion is stored server-side, so the editor loads it by ID
+    router.push(`/editor?id=${conversionId}`);
   };
 
   const handleConversionError = (error: string) => {
@@ -25,7 +25,7 @@ export default function UploadPage() {
         <div className="bg-white rounded-lg shadow-md p-6 mb-8">
           <h2 className="text-xl font-semibold mb-4">Convert Your Design to HTML Email</h2>
           <p className="text-gray-600 mb-6">
-            Upload your PDF design file and our AI will convert it into a responsive HTML email
+            Upload your PDF, image or Figma export and our AI will convert it into a responsive HTML email
             optimized for Salesforce Marketing Cloud.
           </p>
           
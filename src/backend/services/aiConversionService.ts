@@ -1,153 +1,144 @@
-import { createClient } from '@supabase/supabase-js';
 import Anthropic from '@anthropic-ai/sdk';
+import {
+  ConversionProvider,
+  ConversionRequest,
+  ConversionResult,
+  DesignPage,
+  ProviderCapabilities,
+  ProviderStreamHooks,
+  RepairRequest,
+  SectionRequest,
+  buildConversionMetadata,
+  extractHtmlFromResponse
+} from './conversionProvider';
+import { loadDesignPages } from './designSource';
+import { buildConversionPrompt, buildRepairPrompt, buildSectionPrompt } from './conversionPrompt';
+import { getPromptTemplate, renderPromptTemplate } from './promptTemplates';
 
-// Define interfaces for the service
-interface ConversionResult {
-  html: string;
-  css?: string;
-  metadata: {
-    originalFileName: string;
-    conversionTimestamp: string;
-    designType: string;
-    responsive: boolean;
-  };
-}
+const DEFAULT_CLAUDE_MODEL = 'claude-3-haiku-20240307';
 
-interface ConversionOptions {
-  makeResponsive: boolean;
-  optimizeForEmail: boolean;
-  targetPlatform: 'sfmc' | 'generic';
-}
+// Sampling temperature of conversions that do not set ConversionOptions.temperature
+const DEFAULT_CLAUDE_TEMPERATURE = 0.2;
 
 /**
  * AI-powered service to convert design files to HTML
  */
-export class AIConversionService {
+export class AIConversionService implements ConversionProvider {
+  public readonly id = 'claude' as const;
+  public readonly displayName = 'Anthropic Claude';
+  public readonly capabilities: ProviderCapabilities = {
+    streaming: true,
+    acceptsPdf: false,
+    acceptsImages: true,
+    requiresNetwork: true,
+    defaultModel: DEFAULT_CLAUDE_MODEL,
+    models: [DEFAULT_CLAUDE_MODEL, 'claude-3-5-sonnet-20241022', 'claude-3-7-sonnet-20250219']
+  };
   private anthropic: Anthropic;
-  private supabase: ReturnType<typeof createClient>;
   
-  constructor(
-    anthropicApiKey: string,
-    supabaseUrl: string,
-    supabaseKey: string
-  ) {
+  constructor(anthropicApiKey: string) {
     this.anthropic = new Anthropic({
       apiKey: anthropicApiKey,
     });
-    
-    this.supabase = createClient(supabaseUrl, supabaseKey);
   }
   
   /**
-   * Analyzes a design file and extracts its structure
-   * @param filePath Path to the file in Supabase storage
-   * @param fileType Type of the design file (.psd, .xd, .fig)
+   * Loads the design as page images
+   * Claude only accepts images, so PDF pages (from a failed rasterization) are rejected
+   * @param request The conversion request
    */
-  private async analyzeDesignFile(filePath: string, fileType: string): Promise<any> {
-    // In a real implementation, this would use specialized libraries to parse design files
-    // For now, we'll return a mock structure based on the file type
-    
-    console.log(`Analyzing design file: ${filePath} (${fileType})`);
+  private async loadImagePages(request: ConversionRequest): Promise<DesignPage[]> {
+    const pages = (await loadDesignPages(request)).filter(page => page.mimeType !== 'application/pdf');
     
-    // Get the file URL from Supabase
-    const { data: { publicUrl } } = this.supabase
-      .storage
-      .from('design-files')
-      .getPublicUrl(filePath);
-      
-    console.log(`File public URL: ${publicUrl}`);
+    if (pages.length === 0) {
+      throw new Error('Claude requires rasterized page images, but the design could not be rasterized');
+    }
     
-    // Mock analysis result
+    return pages;
+  }
+  
+  /**
+   * Builds the user message content: every page image followed by the prompt
+   * @param pages The design page images
+   * @param prompt The text prompt
+   */
+  private buildContent(pages: DesignPage[], prompt: string): Anthropic.MessageParam['content'] {
+    return [
+      ...pages.map(page => ({
+        type: 'image' as const,
+        source: {
+          type: 'base64' as const,
+          media_type: page.mimeType as 'image/png' | 'image/jpeg',
+          data: page.data
+        }
+      })),
+      { type: 'text' as const, text: prompt }
+    ];
+  }
+  
+  /**
+   * Renders the system prompt and the conversion prompt for the attached page images
+   * @param request The conversion request
+   * @param pages The design page images
+   * @param hooks Receives the prompt templates used
+   */
+  private buildPrompts(
+    request: ConversionRequest,
+    pages: DesignPage[],
+    hooks: ProviderStreamHooks = {}
+  ): { system: string; prompt: string } {
+    const systemTemplate = getPromptTemplate(request.promptTemplates, 'claude-system');
+    const promptTemplate = getPromptTemplate(request.promptTemplates, 'claude-conversion');
+    hooks.onPrompt?.(systemTemplate);
+    hooks.onPrompt?.(promptTemplate);
+
     return {
-      layout: 'single-column',
-      elements: [
-        { type: 'header', text: 'Welcome to our Newsletter' },
-        { type: 'image', src: 'placeholder.jpg', alt: 'Header Image' },
-        { type: 'text', content: 'This is the main content of the email.' },
-        { type: 'button', text: 'Call to Action', url: '#' },
-        { type: 'footer', text: '© 2023 Company Name' }
-      ],
-      colors: {
-        primary: '#4A90E2',
-        secondary: '#50E3C2',
-        background: '#FFFFFF',
-        text: '#333333'
-      },
-      fonts: {
-        heading: 'Arial, sans-serif',
-        body: 'Helvetica, sans-serif'
-      }
+      system: renderPromptTemplate(systemTemplate, {}),
+      prompt: buildConversionPrompt(promptTemplate, pages, request.fileName, request.options, request.brandKit)
     };
   }
   
   /**
-   * Generates HTML from the analyzed design structure using Claude
-   * @param designStructure The analyzed design structure
-   * @param options Conversion options
+   * Generates HTML from the design page images using Claude
+   * @param request The conversion request
+   * @param pages The design page images
+   * @param modelName The Claude model to use
+   * @param hooks Receives the prompt templates used and the token usage
    */
   private async generateHtmlWithClaude(
-    designStructure: any,
-    fileName: string,
-    options: ConversionOptions
+    request: ConversionRequest,
+    pages: DesignPage[],
+    modelName: string,
+    hooks: ProviderStreamHooks = {}
   ): Promise<string> {
     console.log('Generating HTML with Claude');
     
-    const prompt = `
-You are an expert email developer specializing in converting design files to responsive HTML emails.
-
-I have a design file named "${fileName}" with the following structure:
-${JSON.stringify(designStructure, null, 2)}
-
-Please convert this design into ${options.optimizeForEmail ? 'an HTML email' : 'HTML'} that is:
-${options.makeResponsive ? '- Fully responsive for all devices' : '- Optimized for desktop viewing'}
-${options.optimizeForEmail ? '- Compatible with email clients' : '- Compatible with web browsers'}
-${options.targetPlatform === 'sfmc' ? '- Specifically optimized for Salesforce Marketing Cloud' : '- Using standard HTML practices'}
-
-The HTML should:
-1. Use table-based layout for email client compatibility
-2. Include proper meta tags and media queries for responsiveness
-3. Use inline CSS for maximum email client compatibility
-4. Follow accessibility best practices
-5. Include comments explaining the structure
-6. Pay special attention to precise spacing and positioning between elements
-
-IMPORTANT SPACING AND POSITIONING REQUIREMENTS:
-- For all elements, maintain exact spacing as would be shown in the design
-- Use precise pixel values for margins, padding, and line-heights
-- Ensure consistent whitespace distribution throughout the email
-- Maintain proper vertical alignment of all elements
-- For text blocks, set appropriate line spacing to ensure readability
-- Use spacer elements with fixed dimensions when necessary to maintain layout
-- For vertical spacing between sections, use precise measurements
-- Ensure proper separation between paragraphs and content blocks
-
-IMPLEMENTATION TECHNIQUES:
-- Use table cells with fixed heights for spacing when needed
-- Use line-height with exact pixel values for text spacing
-- Use padding and margin with precise values
-- For maintaining whitespace, use transparent spacer elements with exact dimensions
-- Set specific heights on container elements to prevent content from collapsing
-
-Please provide only the complete HTML code without any explanations.
-`;
-
+    const { system, prompt } = this.buildPrompts(request, pages, hooks);
+    
     try {
+      const startedAt = Date.now();
       const response = await this.anthropic.messages.create({
-        model: "claude-3-haiku-20240307",
+        model: modelName,
         max_tokens: 4000,
-        temperature: 0.2,
-        system: "You are an expert email developer who converts design mockups into responsive HTML emails that work across all email clients.",
+        temperature: request.options.temperature ?? DEFAULT_CLAUDE_TEMPERATURE,
+        system,
         messages: [
           {
             role: "user",
-            content: prompt
+            content: this.buildContent(pages, prompt)
           }
         ]
       });
       
+      hooks.onUsage?.({
+        inputTokens: response.usage.input_tokens,
+        outputTokens: response.usage.output_tokens,
+        model: modelName,
+        latencyMs: Date.now() - startedAt
+      });
+      
       // Extract the HTML from the response
-      const htmlContent = response.content[0].text;
-      return htmlContent;
+      return extractHtmlFromResponse(response.content[0].text);
     } catch (error) {
       console.error('Error generating HTML with Claude:', error);
       throw new Error('Failed to generate HTML with Claude');
@@ -156,40 +147,27 @@ Please provide only the complete HTML code without any explanations.
   
   /**
    * Converts a design file to HTML
-   * @param filePath Path to the file in Supabase storage
-   * @param fileName Original file name
-   * @param options Conversion options
+   * @param request The conversion request
+   * @param hooks Receives the prompt templates used and the token usage
    */
-  public async convertDesignToHtml(
-    filePath: string,
-    fileName: string,
-    options: ConversionOptions = {
-      makeResponsive: true,
-      optimizeForEmail: true,
-      targetPlatform: 'sfmc'
-    }
-  ): Promise<ConversionResult> {
+  public async convert(request: ConversionRequest, hooks: ProviderStreamHooks = {}): Promise<ConversionResult> {
+    const { fileName, options } = request;
+    
     try {
       console.log(`Converting design file: ${fileName}`);
       
-      // Get the file extension
-      const fileExtension = '.' + fileName.split('.').pop()?.toLowerCase();
+      // Rasterize the design file into page images
+      const pages = await this.loadImagePages(request);
       
-      // Analyze the design file
-      const designStructure = await this.analyzeDesignFile(filePath, fileExtension);
+      const modelName = options.model || this.capabilities.defaultModel;
       
       // Generate HTML using Claude
-      const html = await this.generateHtmlWithClaude(designStructure, fileName, options);
+      const html = await this.generateHtmlWithClaude(request, pages, modelName, hooks);
       
       // Return the conversion result
       return {
         html,
-        metadata: {
-          originalFileName: fileName,
-          conversionTimestamp: new Date().toISOString(),
-          designType: fileExtension.replace('.', '').toUpperCase(),
-          responsive: options.makeResponsive
-        }
+        metadata: buildConversionMetadata(fileName, options, this.id, modelName)
       };
     } catch (error) {
       console.error('Error converting design to HTML:', error);
@@ -198,127 +176,148 @@ Please provide only the complete HTML code without any explanations.
   }
   
   /**
-   * Streams the HTML generation process
-   * @param filePath Path to the file in Supabase storage
-   * @param fileName Original file name
-   * @param options Conversion options
+   * Yields the text deltas of a message stream and reports its token usage
+   * @param events The message stream events
+   * @param model The model generating the stream
+   * @param startedAt When the request was sent, in milliseconds since the epoch
+   * @param hooks Receives the token usage
    */
-  public async streamConversion(
-    filePath: string,
-    fileName: string,
-    options: ConversionOptions = {
-      makeResponsive: true,
-      optimizeForEmail: true,
-      targetPlatform: 'sfmc'
+  private async *streamText(
+    events: AsyncIterable<Anthropic.MessageStreamEvent>,
+    model: string,
+    startedAt: number,
+    hooks: ProviderStreamHooks
+  ): AsyncGenerator<string> {
+    let inputTokens = 0;
+    let outputTokens = 0;
+
+    for await (const event of events) {
+      if (event.type === 'message_start') {
+        inputTokens = event.message.usage.input_tokens;
+        outputTokens = event.message.usage.output_tokens;
+      } else if (event.type === 'message_delta') {
+        // Output tokens are cumulative
+        outputTokens = event.usage.output_tokens;
+      } else if (event.type === 'content_block_delta' && event.delta.text) {
+        yield event.delta.text;
+      }
     }
-  ): Promise<Response> {
+
+    hooks.onUsage?.({ inputTokens, outputTokens, model, latencyMs: Date.now() - startedAt });
+  }
+
+  /**
+   * Streams the HTML generation process
+   * @param request The conversion request
+   * @param hooks Receives the prompt templates used and the token usage once the stream ends
+   */
+  public async *stream(request: ConversionRequest, hooks: ProviderStreamHooks = {}): AsyncGenerator<string> {
+    const { fileName, options } = request;
+    
     console.log(`Streaming conversion for: ${fileName}`);
     
-    // Get the file extension
-    const fileExtension = '.' + fileName.split('.').pop()?.toLowerCase();
+    // Rasterize the design file into page images
+    const pages = await this.loadImagePages(request);
+    const { system, prompt } = this.buildPrompts(request, pages, hooks);
+    const model = options.model || this.capabilities.defaultModel;
     
-    // Analyze the design file
-    const designStructure = await this.analyzeDesignFile(filePath, fileExtension);
+    const startedAt = Date.now();
+    const response = await this.anthropic.messages.create({
+      model,
+      max_tokens: 4000,
+      temperature: options.temperature ?? DEFAULT_CLAUDE_TEMPERATURE,
+      system,
+      messages: [
+        {
+          role: "user",
+          content: this.buildContent(pages, prompt)
+        }
+      ],
+      stream: true
+    });
     
-    const prompt = `
-You are an expert email developer specializing in converting design files to responsive HTML emails.
-
-I have a design file named "${fileName}" with the following structure:
-${JSON.stringify(designStructure, null, 2)}
-
-Please convert this design into ${options.optimizeForEmail ? 'an HTML email' : 'HTML'} that is:
-${options.makeResponsive ? '- Fully responsive for all devices' : '- Optimized for desktop viewing'}
-${options.optimizeForEmail ? '- Compatible with email clients' : '- Compatible with web browsers'}
-${options.targetPlatform === 'sfmc' ? '- Specifically optimized for Salesforce Marketing Cloud' : '- Using standard HTML practices'}
-
-The HTML should:
-1. Use table-based layout for email client compatibility
-2. Include proper meta tags and media queries for responsiveness
-3. Use inline CSS for maximum email client compatibility
-4. Follow accessibility best practices
-5. Include comments explaining the structure
-6. Pay special attention to precise spacing and positioning between elements
-
-IMPORTANT SPACING AND POSITIONING REQUIREMENTS:
-- For all elements, maintain exact spacing as would be shown in the design
-- Use precise pixel values for margins, padding, and line-heights
-- Ensure consistent whitespace distribution throughout the email
-- Maintain proper vertical alignment of all elements
-- For text blocks, set appropriate line spacing to ensure readability
-- Use spacer elements with fixed dimensions when necessary to maintain layout
-- For vertical spacing between sections, use precise measurements
-- Ensure proper separation between paragraphs and content blocks
-
-IMPLEMENTATION TECHNIQUES:
-- Use table cells with fixed heights for spacing when needed
-- Use line-height with exact pixel values for text spacing
-- Use padding and margin with precise values
-- For maintaining whitespace, use transparent spacer elements with exact dimensions
-- Set specific heights on container elements to prevent content from collapsing
-
-Please provide only the complete HTML code without any explanations.
-`;
-
-    try {
-      const response = await this.anthropic.messages.create({
-        model: "claude-3-haiku-20240307",
-        max_tokens: 4000,
-        temperature: 0.2,
-        system: "You are an expert email developer who converts design mockups into responsive HTML emails that work across all email clients.",
-        messages: [
-          {
-            role: "user",
-            content: prompt
-          }
-        ],
-        stream: true
-      });
-      
-      // Create a TransformStream to handle the streaming response
-      const { readable, writable } = new TransformStream();
-      
-      // Pipe the Anthropic stream to our transform stream
-      const writer = writable.getWriter();
-      
-      // Process the stream events
-      (async () => {
-        try {
-          for await (const chunk of response) {
-            if (chunk.type === 'content_block_delta' && chunk.delta.text) {
-              writer.write(new TextEncoder().encode(chunk.delta.text));
-            }
-          }
-          writer.close();
-        } catch (err) {
-          writer.abort(err);
-          console.error('Error processing stream:', err);
+    yield* this.streamText(response, model, startedAt, hooks);
+  }
+  
+  /**
+   * Streams a revised HTML document that fixes the given QA failures
+   * @param request The repair request
+   * @param hooks Receives the prompt templates used and the token usage once the stream ends
+   */
+  public async *repair(request: RepairRequest, hooks: ProviderStreamHooks = {}): AsyncGenerator<string> {
+    const { conversion, html, issues, round } = request;
+    
+    console.log(`Repair round ${round} for ${conversion.fileName}: ${issues.length} failing checks`);
+    
+    const systemTemplate = getPromptTemplate(conversion.promptTemplates, 'claude-system');
+    const repairTemplate = getPromptTemplate(conversion.promptTemplates, 'repair');
+    hooks.onPrompt?.(systemTemplate);
+    hooks.onPrompt?.(repairTemplate);
+    
+    const model = conversion.options.model || this.capabilities.defaultModel;
+    
+    const startedAt = Date.now();
+    const response = await this.anthropic.messages.create({
+      model,
+      max_tokens: 4000,
+      temperature: 0,
+      system: renderPromptTemplate(systemTemplate, {}),
+      messages: [
+        {
+          role: "user",
+          content: buildRepairPrompt(repairTemplate, html, issues, conversion.options, conversion.brandKit)
         }
-      })();
-      
-      // Return the readable stream as the response
-      return new Response(readable);
-    } catch (error) {
-      console.error('Error streaming conversion:', error);
-      throw new Error('Failed to stream conversion');
-    }
+      ],
+      stream: true
+    });
+    
+    yield* this.streamText(response, model, startedAt, hooks);
+  }
+  
+  /**
+   * Streams new markup for one section of a converted email
+   * @param request The section request
+   * @param hooks Receives the prompt templates used and the token usage once the stream ends
+   */
+  public async *regenerateSection(request: SectionRequest, hooks: ProviderStreamHooks = {}): AsyncGenerator<string> {
+    const { conversion, sectionId, referenceImage } = request;
+    
+    console.log(`Regenerating ${sectionId} of ${conversion.fileName}`);
+    
+    const systemTemplate = getPromptTemplate(conversion.promptTemplates, 'claude-system');
+    const sectionTemplate = getPromptTemplate(conversion.promptTemplates, 'section');
+    hooks.onPrompt?.(systemTemplate);
+    hooks.onPrompt?.(sectionTemplate);
+    
+    const model = conversion.options.model || this.capabilities.defaultModel;
+    
+    const startedAt = Date.now();
+    const response = await this.anthropic.messages.create({
+      model,
+      max_tokens: 4000,
+      temperature: conversion.options.temperature ?? DEFAULT_CLAUDE_TEMPERATURE,
+      system: renderPromptTemplate(systemTemplate, {}),
+      messages: [
+        {
+          role: "user",
+          content: this.buildContent(referenceImage ? [referenceImage] : [], buildSectionPrompt(sectionTemplate, request))
+        }
+      ],
+      stream: true
+    });
+    
+    yield* this.streamText(response, model, startedAt, hooks);
   }
 }
-
 // Factory function to create the service
 export function createAIConversionService(): AIConversionService {
   const anthropicApiKey = process.env.ANTHROPIC_API_KEY || '';
-  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || '';
-  const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY || '';
   
   if (!anthropicApiKey) {
     console.warn('ANTHROPIC_API_KEY is not set. AI conversion will not work properly.');
   }
   
-  if (!supabaseUrl || !supabaseKey) {
-    console.warn('Supabase configuration is incomplete. File storage will not work properly.');
-  }
-  
-  return new AIConversionService(anthropicApiKey, supabaseUrl, supabaseKey);
+  return new AIConversionService(anthropicApiKey);
 }
 
 // Default export
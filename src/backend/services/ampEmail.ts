@@ -0,0 +1,365 @@
+import * as cheerio from 'cheerio';
+import type { AnyNode, Element } from 'domhandler';
+import { randomUUID } from 'crypto';
+
+// Parse with htmlparser2 so the markup is not rewritten, e.g. no implicit <tbody>
+const PARSER_OPTIONS = { xml: { xmlMode: false, decodeEntities: false } };
+
+const AMP_RUNTIME_URL = 'https://cdn.ampproject.org/v0.js';
+const AMP_BOILERPLATE = 'body{visibility:hidden}';
+
+// Limit of the amp-custom styles and inline style attributes together, in bytes
+const MAX_AMP_CSS_BYTES = 75000;
+
+// Tags AMP for Email does not allow; images must be amp-img
+const DISALLOWED_TAGS = ['script', 'img', 'iframe', 'frame', 'frameset', 'object', 'embed', 'video', 'audio', 'form', 'input', 'button', 'select', 'textarea', 'base', 'link', 'applet', 'param'];
+
+// Components that are part of the AMP runtime and need no extension script
+const BUILT_IN_COMPONENTS = new Set(['amp-img', 'amp-layout']);
+
+// Extension components allowed in AMP for Email
+const EMAIL_COMPONENTS = new Set([
+  'amp-accordion',
+  'amp-anim',
+  'amp-autocomplete',
+  'amp-bind',
+  'amp-carousel',
+  'amp-date-picker',
+  'amp-fit-text',
+  'amp-form',
+  'amp-image-lightbox',
+  'amp-lightbox',
+  'amp-list',
+  'amp-mustache',
+  'amp-selector',
+  'amp-sidebar',
+  'amp-timeago'
+]);
+
+/**
+ * A problem that keeps an AMP email from being delivered as AMP
+ */
+export interface AmpValidationIssue {
+  message: string;
+  snippet?: string; // Excerpt of the offending markup, when the problem has one
+}
+
+/**
+ * An email with an AMP version, for assembling the MIME message
+ */
+export interface AmpMimeInput {
+  subject: string;
+  html: string; // The HTML fallback
+  amp: string; // The AMP for Email version
+  text?: string; // The plain text part, derived from the HTML by default
+}
+
+/**
+ * Makes CSS valid for AMP for Email: !important, @import and @font-face are not allowed,
+ * and Outlook-only mso- properties have no use there
+ * @param css The CSS
+ */
+function toAmpCss(css: string): string {
+  return css
+    .replace(/@import[^;]*;/gi, '')
+    .replace(/@font-face\s*\{[^}]*\}/gi, '')
+    .replace(/\s*!important/gi, '')
+    .replace(/(^|[;{\s])mso-[\w-]+\s*:[^;}]*;?/gi, '$1')
+    .trim();
+}
+
+/**
+ * Replaces an <img> with an amp-img, keeping its attributes
+ * The layout is responsive for fluid images and fixed otherwise; images without
+ * a width and height keep no layout, which the validator reports
+ * @param $ The parsed document
+ * @param element The image
+ */
+function toAmpImage($: cheerio.CheerioAPI, element: Element): void {
+  const $image = $(element);
+  const style = $image.attr('style') || '';
+  const width = $image.attr('width') || style.match(/(?:^|;)\s*width\s*:\s*(\d+)px/i)?.[1];
+  const height = $image.attr('height') || style.match(/(?:^|;)\s*height\s*:\s*(\d+)px/i)?.[1];
+
+  const $ampImage = $('<amp-img></amp-img>');
+  for (const [name, value] of Object.entries(element.attribs)) {
+    $ampImage.attr(name, value);
+  }
+
+  if (width && height && /^\d+$/.test(width) && /^\d+$/.test(height)) {
+    $ampImage.attr('width', width).attr('height', height);
+    $ampImage.attr('layout', /width\s*:\s*100%|max-width/i.test(style) ? 'responsive' : 'fixed');
+  }
+
+  $image.replaceWith($ampImage);
+}
+
+/**
+ * Generates the AMP for Email version of email HTML
+ * Scripts, forms, embeds and comments (including Outlook conditional comments) are removed,
+ * images become amp-img, all <style> blocks are merged into <style amp-custom> and the
+ * AMP runtime and boilerplate are added; meta tags other than the charset are dropped
+ * @param html The email HTML
+ * @returns The AMP document
+ */
+export function convertToAmpEmail(html: string): string {
+  const markup = html.replace(/^\s*<!doctype[^>]*>/i, '');
+  const $ = cheerio.load(markup.trim(), PARSER_OPTIONS);
+
+  $.root().find('*').addBack().contents().filter((_, node) => node.type === 'comment').remove();
+
+  const css = $('style').toArray().map(element => toAmpCss($(element).text())).filter(Boolean).join('\n');
+  $('style').remove();
+
+  $('img').each((_, element) => toAmpImage($, element));
+  $(DISALLOWED_TAGS.filter(tag => tag !== 'img').join(', ')).remove();
+  $('meta').not('[charset]').remove();
+
+  $('*').each((_, element) => {
+    if (element.type !== 'tag') {
+      return;
+    }
+
+    const $element = $(element);
+    for (const name of Object.keys(element.attribs)) {
+      if (name.toLowerCase().startsWith('on') || name.toLowerCase().startsWith('xmlns')) {
+        $element.removeAttr(name);
+      }
+    }
+
+    const style = $element.attr('style');
+    if (style) {
+      $element.attr('style', toAmpCss(style));
+    }
+
+    const classes = ($element.attr('class') || '').split(/\s+/).filter(name => name && !/^-amp-|^i-amp-/.test(name));
+    if ($element.attr('class') !== undefined) {
+      if (classes.length > 0) {
+        $element.attr('class', classes.join(' '));
+      } else {
+        $element.removeAttr('class');
+      }
+    }
+  });
+
+  $('html').first().attr('amp4email', '').attr('data-css-strict', '');
+
+  // The charset must be the first child of the head, followed by the runtime
+  const head = $('head').first();
+  head.find('meta[charset]').remove();
+  head.prepend(
+    '<meta charset="utf-8">' +
+    `<script async src="${AMP_RUNTIME_URL}"></script>` +
+    `<style amp4email-boilerplate>${AMP_BOILERPLATE}</style>`
+  );
+  if (css) {
+    head.append(`<style amp-custom>\n${css}\n</style>`);
+  }
+
+  return `<!doctype html>\n${$.html().trim()}\n`;
+}
+
+/**
+ * Checks whether a document is an AMP email, marked with ⚡4email or amp4email
+ * @param html The document
+ */
+export function isAmpEmail(html: string): boolean {
+  return /<html[^>]*\s(⚡4email|amp4email)[\s>=]/i.test(html);
+}
+
+/**
+ * Validates an AMP for Email document against the rules email clients enforce:
+ * the required markup, allowed tags, components and their scripts, amp-img sizes,
+ * and the CSS restrictions
+ * @param amp The AMP document
+ * @returns The problems found; an empty list means the document is valid
+ */
+export function validateAmpEmail(amp: string): AmpValidationIssue[] {
+  const issues: AmpValidationIssue[] = [];
+  const $ = cheerio.load(amp, PARSER_OPTIONS);
+  const excerpt = (element: AnyNode | undefined) => $.html(element).slice(0, 200);
+
+  if (!/^\s*<!doctype html>/i.test(amp)) {
+    issues.push({ message: 'The document must start with <!doctype html>' });
+  }
+
+  if (!isAmpEmail(amp)) {
+    issues.push({ message: 'The <html> tag must have the ⚡4email or amp4email attribute' });
+  }
+
+  const head = $('head').first();
+  const firstChild = head.children().first();
+  if (!firstChild.is('meta[charset]') || (firstChild.attr('charset') || '').toLowerCase() !== 'utf-8') {
+    issues.push({ message: '<meta charset="utf-8"> must be the first child of the head' });
+  }
+
+  if (head.find(`script[async][src="${AMP_RUNTIME_URL}"]`).length === 0) {
+    issues.push({ message: `The head must load the AMP runtime: <script async src="${AMP_RUNTIME_URL}"></script>` });
+  }
+
+  const boilerplate = head.find('style[amp4email-boilerplate]');
+  if (boilerplate.length === 0 || boilerplate.text().replace(/\s/g, '') !== AMP_BOILERPLATE) {
+    issues.push({ message: `The head must contain <style amp4email-boilerplate>${AMP_BOILERPLATE}</style>` });
+  }
+
+  // Scripts are only allowed for the runtime and email components
+  const extensions = new Set<string>();
+  $('script').each((_, element) => {
+    const $script = $(element);
+    const src = $script.attr('src') || '';
+    const component = $script.attr('custom-element') || $script.attr('custom-template');
+
+    if (src === AMP_RUNTIME_URL) {
+      return;
+    }
+
+    if (component && EMAIL_COMPONENTS.has(component) && src.startsWith('https://cdn.ampproject.org/v0/')) {
+      extensions.add(component);
+    } else {
+      issues.push({ message: component ? `${component} is not allowed in AMP emails` : 'Scripts are not allowed in AMP emails', snippet: excerpt(element) });
+    }
+  });
+
+  for (const tag of DISALLOWED_TAGS.filter(name => name !== 'script')) {
+    const elements = $(tag).toArray();
+    if (elements.length > 0) {
+      issues.push({
+        message: tag === 'img' ? '<img> is not allowed, use <amp-img>' : `<${tag}> is not allowed in AMP emails`,
+        snippet: excerpt(elements[0])
+      });
+    }
+  }
+
+  const components = new Set(
+    $('*').toArray()
+      .map(element => (element.type === 'tag' ? element.name.toLowerCase() : ''))
+      .filter(name => name.startsWith('amp-') && !BUILT_IN_COMPONENTS.has(name))
+  );
+  if ($('template[type="amp-mustache"]').length > 0) {
+    components.add('amp-mustache');
+  }
+  for (const component of Array.from(components)) {
+    if (!EMAIL_COMPONENTS.has(component)) {
+      issues.push({ message: `<${component}> is not allowed in AMP emails`, snippet: excerpt($(component).get(0)) });
+    } else if (!extensions.has(component)) {
+      issues.push({ message: `<${component}> needs its script: <script async custom-element="${component}" src="https://cdn.ampproject.org/v0/${component}-0.1.js"></script>` });
+    }
+  }
+
+  $('amp-img').each((_, element) => {
+    const $image = $(element);
+    if (!/^\d+$/.test($image.attr('width') || '') || !/^\d+$/.test($image.attr('height') || '')) {
+      issues.push({ message: '<amp-img> needs a width and height in pixels', snippet: excerpt(element) });
+    }
+    if (!/^https:\/\//i.test($image.attr('src') || '')) {
+      issues.push({ message: '<amp-img> sources must be absolute https URLs', snippet: excerpt(element) });
+    }
+  });
+
+  $('*').each((_, element) => {
+    if (element.type !== 'tag') {
+      return;
+    }
+
+    const handler = Object.keys(element.attribs).find(name => name.toLowerCase().startsWith('on') && name.toLowerCase() !== 'on');
+    if (handler) {
+      issues.push({ message: `Event handler attributes such as ${handler} are not allowed`, snippet: excerpt(element) });
+    }
+
+    const reserved = ($(element).attr('class') || '').split(/\s+/).find(name => /^-amp-|^i-amp-/.test(name));
+    if (reserved) {
+      issues.push({ message: `The class ${reserved} is reserved for the AMP runtime`, snippet: excerpt(element) });
+    }
+  });
+
+  const styles = $('style').not('[amp4email-boilerplate]');
+  if (styles.not('[amp-custom]').length > 0 || styles.length > 1 || styles.parents('head').length !== styles.length) {
+    issues.push({ message: 'Styles must be in a single <style amp-custom> in the head', snippet: excerpt(styles.get(0)) });
+  }
+
+  const inlineCss = $('[style]').toArray().map(element => $(element).attr('style') || '');
+  const css = [styles.text(), ...inlineCss].join('');
+
+  if (/!important/i.test(css)) {
+    issues.push({ message: '!important is not allowed in AMP email CSS' });
+  }
+
+  const cssBytes = Buffer.byteLength(css, 'utf8');
+  if (cssBytes > MAX_AMP_CSS_BYTES) {
+    issues.push({ message: `The CSS is ${cssBytes} bytes, more than the ${MAX_AMP_CSS_BYTES} allowed` });
+  }
+
+  if (/<!--\s*\[if/i.test(amp)) {
+    issues.push({ message: 'Conditional comments are not allowed in AMP emails' });
+  }
+
+  return issues;
+}
+
+/**
+ * Derives the plain text part of an email from its HTML
+ * @param html The email HTML
+ */
+function toPlainText(html: string): string {
+  const $ = cheerio.load(html);
+  $('head, style, script').remove();
+  $('br').replaceWith('\n');
+  $('p, div, tr, h1, h2, h3, h4, h5, h6, li').append('\n');
+  $('a[href]').each((_, element) => {
+    const $link = $(element);
+    const href = $link.attr('href') || '';
+    if (/^https?:/i.test(href) && $link.text().trim() !== href) {
+      $link.append(` (${href})`);
+    }
+  });
+
+  return $('body').text()
+    .split('\n')
+    .map(line => line.replace(/\s+/g, ' ').trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/**
+ * Encodes a MIME part body as base64 in lines of 76 characters
+ * @param content The part body
+ */
+function encodePart(content: string): string {
+  return Buffer.from(content, 'utf8').toString('base64').replace(/.{76}/g, '$&\r\n');
+}
+
+/**
+ * Assembles a multipart/alternative message with the plain text, AMP and HTML parts
+ * The AMP part comes before the HTML part, as clients that support AMP require
+ * @param input The subject and the parts of the email
+ * @returns The message, ready to be sent or saved as an .eml file
+ */
+export function buildAmpMimeMessage(input: AmpMimeInput): string {
+  const boundary = `emailgen-${randomUUID()}`;
+  const subject = /^[\x20-\x7e]*$/.test(input.subject)
+    ? input.subject
+    : `=?UTF-8?B?${Buffer.from(input.subject, 'utf8').toString('base64')}?=`;
+
+  const parts: [string, string][] = [
+    ['text/plain', input.text ?? toPlainText(input.html)],
+    ['text/x-amp-html', input.amp],
+    ['text/html', input.html]
+  ];
+
+  return [
+    'MIME-Version: 1.0',
+    `Subject: ${subject}`,
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    '',
+    ...parts.flatMap(([contentType, content]) => [
+      `--${boundary}`,
+      `Content-Type: ${contentType}; charset=utf-8`,
+      'Content-Transfer-Encoding: base64',
+      '',
+      encodePart(content)
+    ]),
+    `--${boundary}--`,
+    ''
+  ].join('\r\n');
+}
@@ -0,0 +1,765 @@
+import * as cheerio from 'cheerio';
+import type { AnyNode, Element } from 'domhandler';
+import { createCanvas, loadImage } from '@napi-rs/canvas';
+import supabase from '../config/supabaseConfig';
+import type { DesignPage } from './conversionProvider';
+import { CSS_COLOR_PATTERN, RGB, colorDistance, parseCssColor, parseStyle, toHex } from './cssColors';
+import { DARK_MODE_STYLE_ID } from './darkMode';
+
+// Parse with htmlparser2 so the markup is not rewritten, e.g. no implicit <tbody>
+const PARSER_OPTIONS = { xml: { xmlMode: false, decodeEntities: false } };
+
+// Width the design pages are scaled down to before their colors are counted
+const PALETTE_SAMPLE_WIDTH = 200;
+
+// Colors covering less than this share of the sampled pixels are left out of the palette
+const MIN_PALETTE_SHARE = 0.005;
+
+// Colors closer than this (RGB distance) are merged into one palette color
+const PALETTE_MERGE_DISTANCE = 28;
+
+const MAX_PALETTE_COLORS = 12;
+
+// Default RGB distance within which an HTML color matches a palette color
+export const DEFAULT_BRAND_COLOR_TOLERANCE = 24;
+
+// The logo is searched for in this top share of the first desktop page
+const LOGO_SEARCH_RATIO = 0.25;
+
+// RGB distance from the background above which a pixel counts as content
+const LOGO_CONTENT_DISTANCE = 48;
+
+const LOGO_PADDING = 4;
+
+// Spacing values (px) used fewer times than this are treated as one-offs
+const MIN_SPACING_USES = 2;
+
+const MAX_SPACING_STEPS = 10;
+
+const MAX_BUTTON_STYLES = 4;
+
+// Font sizes (px) from which text counts as a heading
+const HEADING_FONT_SIZE = 20;
+
+// CSS generic families, allowed in every font stack
+export const GENERIC_FONT_FAMILIES = ['serif', 'sans-serif', 'monospace', 'cursive', 'fantasy', 'system-ui', 'inherit', 'initial'];
+
+/**
+ * A color of the brand palette and its share of the design's pixels
+ */
+export interface BrandColor {
+  hex: string;
+  share: number;
+}
+
+export type BrandFontUsage = 'heading' | 'body' | 'button';
+
+/**
+ * A font stack used by the email and where it is used
+ */
+export interface BrandFont {
+  stack: string;
+  usage: BrandFontUsage[];
+}
+
+/**
+ * Styling of a call-to-action button
+ */
+export interface BrandButtonStyle {
+  backgroundColor: string;
+  textColor?: string;
+  borderRadius?: string;
+  padding?: string;
+  fontFamily?: string;
+  fontSize?: string;
+  fontWeight?: string;
+}
+
+/**
+ * The logo cropped from the top of the design
+ */
+export interface BrandLogo {
+  storagePath: string;
+  pageNumber: number;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Colors, fonts, buttons, spacing and logo of a design
+ * The palette and logo come from the design pages; fonts, buttons and spacing
+ * from the HTML converted from them
+ */
+export interface BrandKit {
+  palette: BrandColor[];
+  fonts: BrandFont[];
+  buttons: BrandButtonStyle[];
+  spacing: number[];
+  logo: BrandLogo | null;
+}
+
+/**
+ * A row of the brand_kits table
+ * Kits extracted from a conversion have its ID as email_id; the workspace brand kit has none
+ */
+export interface BrandKitRecord {
+  id: string;
+  workspace_id: string;
+  email_id: string | null;
+  kit: BrandKit;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * A run of pixel rows or columns
+ */
+interface PixelRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * Gets the pages that show the light desktop or mobile design as images
+ * @param pages The design pages
+ */
+function getBrandPages(pages: DesignPage[]): DesignPage[] {
+  return pages.filter(page => page.mimeType !== 'application/pdf' && page.role !== 'dark' && page.role !== 'ignore');
+}
+
+/**
+ * Decodes a design page image onto a canvas
+ * @param page The design page
+ * @param maxWidth Scale the image down to this width
+ */
+async function drawPage(page: DesignPage, maxWidth: number = Infinity) {
+  const image = await loadImage(Buffer.from(page.data, 'base64'));
+  const scale = Math.min(1, maxWidth / image.width);
+  const canvas = createCanvas(Math.max(1, Math.round(image.width * scale)), Math.max(1, Math.round(image.height * scale)));
+  const context = canvas.getContext('2d');
+  context.drawImage(image, 0, 0, canvas.width, canvas.height);
+  return { canvas, context };
+}
+
+/**
+ * Finds the dominant colors of the design pages
+ * Pixels are grouped into buckets of similar colors, and each bucket is
+ * represented by the average of its pixels
+ * @param pages The design pages
+ */
+async function extractPalette(pages: DesignPage[]): Promise<BrandColor[]> {
+  const buckets = new Map<number, { sum: RGB; count: number }>();
+  let pixelCount = 0;
+
+  for (const page of pages) {
+    const { canvas, context } = await drawPage(page, PALETTE_SAMPLE_WIDTH);
+    const { data } = context.getImageData(0, 0, canvas.width, canvas.height);
+
+    for (let index = 0; index < data.length; index += 4) {
+      const key = ((data[index] >> 4) << 8) | ((data[index + 1] >> 4) << 4) | (data[index + 2] >> 4);
+      const bucket = buckets.get(key) || { sum: [0, 0, 0] as RGB, count: 0 };
+      bucket.sum[0] += data[index];
+      bucket.sum[1] += data[index + 1];
+      bucket.sum[2] += data[index + 2];
+      bucket.count++;
+      buckets.set(key, bucket);
+      pixelCount++;
+    }
+  }
+
+  // Merge similar colors into the most common one
+  const merged: { rgb: RGB; count: number }[] = [];
+  const byCount = Array.from(buckets.values()).sort((a, b) => b.count - a.count);
+
+  for (const bucket of byCount) {
+    const rgb = bucket.sum.map(channel => channel / bucket.count) as RGB;
+    const similar = merged.find(color => colorDistance(color.rgb, rgb) < PALETTE_MERGE_DISTANCE);
+    if (similar) {
+      similar.count += bucket.count;
+    } else {
+      merged.push({ rgb, count: bucket.count });
+    }
+  }
+
+  return merged
+    .filter(color => color.count / pixelCount >= MIN_PALETTE_SHARE)
+    .sort((a, b) => b.count - a.count)
+    .slice(0, MAX_PALETTE_COLORS)
+    .map(color => ({ hex: toHex(color.rgb), share: Math.round((color.count / pixelCount) * 1000) / 1000 }));
+}
+
+/**
+ * Finds the runs of indexes for which hasContent is true, ignoring gaps shorter than minGap
+ * @param length Number of rows or columns
+ * @param hasContent Whether a row or column has content
+ * @param minGap Shortest gap that separates two runs
+ */
+function findContentRuns(length: number, hasContent: (index: number) => boolean, minGap: number): PixelRange[] {
+  const runs: PixelRange[] = [];
+
+  for (let index = 0; index < length; index++) {
+    if (!hasContent(index)) {
+      continue;
+    }
+
+    const last = runs[runs.length - 1];
+    if (last && index - last.end <= minGap) {
+      last.end = index + 1;
+    } else {
+      runs.push({ start: index, end: index + 1 });
+    }
+  }
+
+  return runs;
+}
+
+/**
+ * Crops the logo from the top of the first desktop page
+ * The logo is taken as the first block of content below the top edge that
+ * stands out from the page background
+ * @param pages The design pages
+ * @returns The cropped PNG and its position, or null when no content is found
+ */
+async function cropLogo(pages: DesignPage[]): Promise<{ png: Buffer; box: Omit<BrandLogo, 'storagePath'> } | null> {
+  const page = pages.find(candidate => candidate.tileIndex === 0 && (candidate.role === 'desktop' || !candidate.role)) ||
+    pages.find(candidate => candidate.tileIndex === 0);
+  if (!page) {
+    return null;
+  }
+
+  const { canvas, context } = await drawPage(page);
+  const searchHeight = Math.max(1, Math.round(canvas.height * LOGO_SEARCH_RATIO));
+  const { data } = context.getImageData(0, 0, canvas.width, searchHeight);
+  const background: RGB = [data[0], data[1], data[2]];
+
+  const isContent = (x: number, y: number) => {
+    const index = (y * canvas.width + x) * 4;
+    return colorDistance([data[index], data[index + 1], data[index + 2]], background) > LOGO_CONTENT_DISTANCE;
+  };
+
+  // The first band of rows with content, then the content columns within it
+  const minGap = Math.max(4, Math.round(canvas.height * 0.01));
+  const [band] = findContentRuns(searchHeight, y => {
+    for (let x = 0; x < canvas.width; x++) {
+      if (isContent(x, y)) {
+        return true;
+      }
+    }
+    return false;
+  }, minGap);
+
+  if (!band) {
+    return null;
+  }
+
+  const columns = findContentRuns(canvas.width, x => {
+    for (let y = band.start; y < band.end; y++) {
+      if (isContent(x, y)) {
+        return true;
+      }
+    }
+    return false;
+  }, minGap * 4);
+
+  // The widest group of columns is the logo, smaller groups are usually header links
+  const logoColumns = columns.reduce((widest, run) => run.end - run.start > widest.end - widest.start ? run : widest);
+
+  const x = Math.max(0, logoColumns.start - LOGO_PADDING);
+  const y = Math.max(0, band.start - LOGO_PADDING);
+  const width = Math.min(canvas.width, logoColumns.end + LOGO_PADDING) - x;
+  const height = Math.min(searchHeight, band.end + LOGO_PADDING) - y;
+
+  const logoCanvas = createCanvas(width, height);
+  logoCanvas.getContext('2d').drawImage(canvas, x, y, width, height, 0, 0, width, height);
+
+  return {
+    png: logoCanvas.toBuffer('image/png'),
+    box: { pageNumber: page.pageNumber, x, y, width, height }
+  };
+}
+
+/**
+ * Normalizes a font-family value so equal stacks compare equal
+ * @param stack The font-family value
+ */
+function normalizeFontStack(stack: string): string {
+  return stack
+    .replace(/\s*!important\s*$/i, '')
+    .split(',')
+    .map(family => family.trim())
+    .filter(Boolean)
+    .join(', ');
+}
+
+/**
+ * Gets the lowercase family names of a font stack, without quotes
+ * @param stack The font-family value
+ */
+export function getFontFamilies(stack: string): string[] {
+  return normalizeFontStack(stack)
+    .split(',')
+    .map(family => family.trim().replace(/^['"]|['"]$/g, '').toLowerCase())
+    .filter(Boolean);
+}
+
+/**
+ * Collects the font stacks of the email, most used first
+ * @param $ The parsed email
+ */
+function extractFonts($: cheerio.CheerioAPI): BrandFont[] {
+  const fonts = new Map<string, { usage: Set<BrandFontUsage>; count: number }>();
+
+  $('[style*="font-family" i], font[face]').each((_, element) => {
+    const $element = $(element);
+    const style = parseStyle($element.attr('style'));
+    const stack = normalizeFontStack(style['font-family'] || $element.attr('face') || '');
+    if (!stack) {
+      return;
+    }
+
+    let usage: BrandFontUsage = 'body';
+    if ($element.is('h1, h2, h3, h4, h5, h6') || parseFloat(style['font-size'] || '') >= HEADING_FONT_SIZE) {
+      usage = 'heading';
+    } else if (isButton($, element)) {
+      usage = 'button';
+    }
+
+    const font = fonts.get(stack) || { usage: new Set<BrandFontUsage>(), count: 0 };
+    font.usage.add(usage);
+    font.count++;
+    fonts.set(stack, font);
+  });
+
+  return Array.from(fonts.entries())
+    .sort((a, b) => b[1].count - a[1].count)
+    .map(([stack, font]) => ({ stack, usage: Array.from(font.usage) }));
+}
+
+/**
+ * Gets the background color of a button: its own, or that of the cell it fills
+ * @param $ The parsed email
+ * @param element A link
+ */
+function getButtonBackground($: cheerio.CheerioAPI, element: Element): { color: string; cell?: cheerio.Cheerio<Element> } | null {
+  const $link = $(element);
+  const style = parseStyle($link.attr('style'));
+  const own = style['background-color'] || style['background'];
+  if (own && parseCssColor(own.split(/\s+/)[0])) {
+    return { color: own.split(/\s+/)[0] };
+  }
+
+  // Bulletproof buttons put the color on a cell that contains only the link
+  const $cell = $link.parent('td');
+  if ($cell.length === 0 || $cell.children().length !== 1) {
+    return null;
+  }
+
+  const cellStyle = parseStyle($cell.attr('style'));
+  const cellColor = cellStyle['background-color'] || cellStyle['background'] || $cell.attr('bgcolor');
+  if (cellColor && parseCssColor(cellColor.split(/\s+/)[0])) {
+    return { color: cellColor.split(/\s+/)[0], cell: $cell };
+  }
+
+  return null;
+}
+
+/**
+ * Checks whether an element is, or is inside, a button link
+ * @param $ The parsed email
+ * @param element The element
+ */
+function isButton($: cheerio.CheerioAPI, element: AnyNode): boolean {
+  const link = $(element).closest('a').get(0);
+  return Boolean(link && link.type === 'tag' && getButtonBackground($, link));
+}
+
+/**
+ * Collects the distinct button styles of the email
+ * @param $ The parsed email
+ */
+function extractButtons($: cheerio.CheerioAPI): BrandButtonStyle[] {
+  const buttons = new Map<string, BrandButtonStyle>();
+
+  $('a').each((_, element) => {
+    const background = getButtonBackground($, element);
+    if (!background || !$(element).text().trim()) {
+      return;
+    }
+
+    const style = parseStyle($(element).attr('style'));
+    const cellStyle = parseStyle(background.cell?.attr('style'));
+    const textColor = style['color'] ? parseCssColor(style['color']) : null;
+    const button: BrandButtonStyle = {
+      backgroundColor: toHex(parseCssColor(background.color)!),
+      textColor: textColor ? toHex(textColor) : undefined,
+      borderRadius: style['border-radius'] || cellStyle['border-radius'],
+      padding: style['padding'] || cellStyle['padding'],
+      fontFamily: style['font-family'] ? normalizeFontStack(style['font-family']) : undefined,
+      fontSize: style['font-size'],
+      fontWeight: style['font-weight']
+    };
+
+    buttons.set(JSON.stringify(button), button);
+  });
+
+  return Array.from(buttons.values()).slice(0, MAX_BUTTON_STYLES);
+}
+
+/**
+ * Collects the padding and margin values the email uses repeatedly, in ascending order
+ * @param $ The parsed email
+ */
+function extractSpacing($: cheerio.CheerioAPI): number[] {
+  const uses = new Map<number, number>();
+
+  $('[style]').each((_, element) => {
+    const style = parseStyle($(element).attr('style'));
+
+    for (const [property, value] of Object.entries(style)) {
+      if (!/^(padding|margin)(-(top|right|bottom|left))?$/.test(property)) {
+        continue;
+      }
+
+      for (const match of Array.from(value.matchAll(/(\d+(?:\.\d+)?)px/g))) {
+        const size = parseFloat(match[1]);
+        if (size > 0) {
+          uses.set(size, (uses.get(size) || 0) + 1);
+        }
+      }
+    }
+  });
+
+  return Array.from(uses.entries())
+    .filter(([, count]) => count >= MIN_SPACING_USES)
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, MAX_SPACING_STEPS)
+    .map(([size]) => size)
+    .sort((a, b) => a - b);
+}
+
+/**
+ * Extracts the palette of a design without a converted email, e.g. for a dark mode variant
+ * @param pages The design pages sent to the model
+ */
+export function extractDesignPalette(pages: DesignPage[]): Promise<BrandColor[]> {
+  return extractPalette(getBrandPages(pages));
+}
+
+/**
+ * Extracts the brand kit of a converted design
+ * The cropped logo is stored in the design-files bucket; a failed upload leaves the logo out
+ * @param html The converted HTML
+ * @param pages The design pages sent to the model
+ * @param logoPath Storage path for the cropped logo
+ */
+export async function extractBrandKit(html: string, pages: DesignPage[], logoPath: string): Promise<BrandKit> {
+  const brandPages = getBrandPages(pages);
+  const $ = cheerio.load(html, PARSER_OPTIONS);
+
+  let logo: BrandLogo | null = null;
+  const crop = await cropLogo(brandPages);
+  if (crop) {
+    const { error } = await supabase
+      .storage
+      .from('design-files')
+      .upload(logoPath, crop.png, { contentType: 'image/png', upsert: true });
+
+    if (error) {
+      console.error('Logo upload error:', error);
+    } else {
+      logo = { storagePath: logoPath, ...crop.box };
+    }
+  }
+
+  return {
+    palette: await extractPalette(brandPages),
+    fonts: extractFonts($),
+    buttons: extractButtons($),
+    spacing: extractSpacing($),
+    logo
+  };
+}
+
+/**
+ * Collects the colors used in the email's styles and color attributes
+ * @param html The HTML to check
+ * @returns Each color as written, with the declaration it appears in
+ */
+function collectHtmlColors(html: string): { value: string; declaration: string }[] {
+  const $ = cheerio.load(html, PARSER_OPTIONS);
+  const sources: string[] = [];
+
+  $('[style]').each((_, element) => {
+    sources.push(...($(element).attr('style') || '').split(';'));
+  });
+  // Dark mode colors are derived from the palette, so only the light styles are checked
+  $('style').not(`#${DARK_MODE_STYLE_ID}`).each((_, element) => {
+    sources.push(...$(element).text().split(/[;{}]/));
+  });
+  $('[bgcolor], [color]').each((_, element) => {
+    const $element = $(element);
+    for (const attribute of ['bgcolor', 'color']) {
+      const value = $element.attr(attribute);
+      if (value) {
+        sources.push(`${attribute}="${value}"`);
+      }
+    }
+  });
+
+  const colors: { value: string; declaration: string }[] = [];
+  for (const source of sources) {
+    for (const match of Array.from(source.matchAll(CSS_COLOR_PATTERN))) {
+      colors.push({ value: match[0], declaration: source.trim() });
+    }
+  }
+
+  return colors;
+}
+
+/**
+ * Finds the colors of the email that are not in the brand palette
+ * @param html The HTML to check
+ * @param kit The approved brand kit
+ * @param tolerance RGB distance within which a color matches a palette color
+ * @returns The off-brand colors (lowercase hex) and the first declaration using one
+ */
+export function findOffBrandColors(
+  html: string,
+  kit: BrandKit,
+  tolerance: number = DEFAULT_BRAND_COLOR_TOLERANCE
+): { colors: string[]; snippet?: string } {
+  const palette = kit.palette.map(color => parseCssColor(color.hex)).filter((rgb): rgb is RGB => rgb !== null);
+  const offBrand = new Set<string>();
+  let snippet: string | undefined;
+
+  for (const color of collectHtmlColors(html)) {
+    const rgb = parseCssColor(color.value);
+    if (!rgb || palette.some(approved => colorDistance(approved, rgb) <= tolerance)) {
+      continue;
+    }
+
+    offBrand.add(toHex(rgb));
+    snippet = snippet || color.declaration;
+  }
+
+  return { colors: Array.from(offBrand), snippet };
+}
+
+/**
+ * Measures how much of the design's color palette the email uses
+ * Unstyled email backgrounds render white, so white always counts as used
+ * @param html The HTML to check
+ * @param pages The design pages
+ * @param tolerance RGB distance within which an HTML color matches a design color
+ * @returns The share of the design's palette pixels whose color the email uses, from 0 to 1,
+ *   or null when the design has no page images
+ */
+export async function measurePaletteCoverage(
+  html: string,
+  pages: DesignPage[],
+  tolerance: number = DEFAULT_BRAND_COLOR_TOLERANCE
+): Promise<number | null> {
+  const brandPages = getBrandPages(pages);
+  if (brandPages.length === 0) {
+    return null;
+  }
+
+  const palette = await extractPalette(brandPages);
+  const htmlColors = [
+    [255, 255, 255] as RGB,
+    ...collectHtmlColors(html).map(color => parseCssColor(color.value)).filter((rgb): rgb is RGB => rgb !== null)
+  ];
+
+  let totalShare = 0;
+  let coveredShare = 0;
+  for (const color of palette) {
+    const rgb = parseCssColor(color.hex)!;
+    totalShare += color.share;
+    if (htmlColors.some(used => colorDistance(used, rgb) <= tolerance)) {
+      coveredShare += color.share;
+    }
+  }
+
+  return totalShare > 0 ? coveredShare / totalShare : null;
+}
+
+/**
+ * Finds the font families of the email that are not in any brand font stack
+ * Only the first family of each font-family is checked; the rest are fallbacks
+ * @param html The HTML to check
+ * @param kit The approved brand kit
+ * @returns The off-brand families and the first declaration using one
+ */
+export function findOffBrandFonts(html: string, kit: BrandKit): { fonts: string[]; snippet?: string } {
+  const approved = new Set([...GENERIC_FONT_FAMILIES, ...kit.fonts.flatMap(font => getFontFamilies(font.stack))]);
+  const $ = cheerio.load(html, PARSER_OPTIONS);
+  const declarations: string[] = [];
+
+  $('[style*="font-family" i]').each((_, element) => {
+    const value = parseStyle($(element).attr('style'))['font-family'];
+    if (value) {
+      declarations.push(`font-family: ${value}`);
+    }
+  });
+  $('style').each((_, element) => {
+    declarations.push(...($(element).text().match(/font-family\s*:[^;}]+/gi) || []));
+  });
+  $('font[face]').each((_, element) => {
+    declarations.push(`face="${$(element).attr('face')}"`);
+  });
+
+  const offBrand = new Set<string>();
+  let snippet: string | undefined;
+
+  for (const declaration of declarations) {
+    const [family] = getFontFamilies(declaration.replace(/^(font-family\s*:|face=)\s*"?|"$/gi, ''));
+    if (!family || approved.has(family)) {
+      continue;
+    }
+
+    offBrand.add(family);
+    snippet = snippet || declaration.trim();
+  }
+
+  return { fonts: Array.from(offBrand), snippet };
+}
+
+/**
+ * Saves the brand kit extracted from a conversion
+ * @param workspaceId The workspace of the conversion
+ * @param emailId The conversion ID
+ * @param kit The brand kit
+ */
+export async function saveEmailBrandKit(workspaceId: string, emailId: string, kit: BrandKit): Promise<BrandKitRecord> {
+  const now = new Date().toISOString();
+
+  const { data, error } = await supabase
+    .from('brand_kits')
+    .insert([
+      {
+        workspace_id: workspaceId,
+        email_id: emailId,
+        kit,
+        created_at: now,
+        updated_at: now
+      }
+    ])
+    .select();
+
+  if (error) {
+    console.error('Brand kit save error:', error);
+    throw new Error('Failed to save brand kit');
+  }
+
+  return data[0] as BrandKitRecord;
+}
+
+/**
+ * Gets the brand kit extracted from a conversion
+ * @param emailId The conversion ID
+ * @returns The brand kit, or null if none was extracted
+ */
+export async function getEmailBrandKit(emailId: string): Promise<BrandKitRecord | null> {
+  const { data, error } = await supabase
+    .from('brand_kits')
+    .select('*')
+    .eq('email_id', emailId)
+    .order('created_at', { ascending: false })
+    .limit(1);
+
+  if (error) {
+    console.error('Brand kit fetch error:', error);
+    throw new Error('Failed to fetch brand kit');
+  }
+
+  return data && data.length > 0 ? data[0] as BrandKitRecord : null;
+}
+
+/**
+ * Gets the brand kit approved for a workspace
+ * @param workspaceId The ID of the workspace
+ * @returns The brand kit, or null if the workspace has none
+ */
+export async function getWorkspaceBrandKit(workspaceId: string): Promise<BrandKitRecord | null> {
+  const { data, error } = await supabase
+    .from('brand_kits')
+    .select('*')
+    .eq('workspace_id', workspaceId)
+    .is('email_id', null)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Brand kit fetch error:', error);
+    throw new Error('Failed to fetch brand kit');
+  }
+
+  return data as BrandKitRecord | null;
+}
+
+/**
+ * Creates or replaces the brand kit approved for a workspace
+ * @param workspaceId The ID of the workspace
+ * @param kit The brand kit
+ */
+export async function setWorkspaceBrandKit(workspaceId: string, kit: BrandKit): Promise<BrandKitRecord> {
+  const existing = await getWorkspaceBrandKit(workspaceId);
+  const now = new Date().toISOString();
+
+  const { data, error } = existing
+    ? await supabase
+      .from('brand_kits')
+      .update({ kit, updated_at: now })
+      .eq('id', existing.id)
+      .select()
+    : await supabase
+      .from('brand_kits')
+      .insert([
+        {
+          workspace_id: workspaceId,
+          email_id: null,
+          kit,
+          created_at: now,
+          updated_at: now
+        }
+      ])
+      .select();
+
+  if (error) {
+    console.error('Workspace brand kit save error:', error);
+    throw new Error('Failed to save workspace brand kit');
+  }
+
+  return data[0] as BrandKitRecord;
+}
+
+/**
+ * Checks that a value sent by a client is a brand kit
+ * @param value The parsed request body field
+ * @throws Error describing the first invalid field
+ */
+export function validateBrandKit(value: unknown): BrandKit {
+  const kit = value as BrandKit;
+
+  if (!kit || typeof kit !== 'object') {
+    throw new Error('Invalid brand kit: expected an object');
+  }
+  if (!Array.isArray(kit.palette) || kit.palette.some(color => !color || !parseCssColor(String(color.hex)))) {
+    throw new Error('Invalid brand kit: palette must be a list of hex colors');
+  }
+  if (!Array.isArray(kit.fonts) || kit.fonts.some(font => !font || typeof font.stack !== 'string')) {
+    throw new Error('Invalid brand kit: fonts must be a list of font stacks');
+  }
+  if (!Array.isArray(kit.buttons) || !Array.isArray(kit.spacing) || kit.spacing.some(size => typeof size !== 'number')) {
+    throw new Error('Invalid brand kit: buttons and spacing must be lists');
+  }
+
+  return {
+    palette: kit.palette.map(color => ({ hex: toHex(parseCssColor(color.hex)!), share: Number(color.share) || 0 })),
+    fonts: kit.fonts.map(font => ({ stack: normalizeFontStack(font.stack), usage: Array.isArray(font.usage) ? font.usage : [] })),
+    buttons: kit.buttons,
+    spacing: kit.spacing,
+    logo: kit.logo || null
+  };
+}
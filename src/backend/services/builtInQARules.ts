@@ -0,0 +1,168 @@
+import type { QARule } from './qaValidation';
+import { GMAIL_CLIPPING_BYTES } from './emailChecks';
+
+/**
+ * Version of the built-in rule pack; bump it when a rule is added, removed or changes behavior
+ */
+export const QA_RULE_PACK_VERSION = 2;
+
+// Prefix of built-in rule IDs, which cannot collide with the numeric IDs of qa_rules
+export const BUILT_IN_QA_RULE_PREFIX = 'builtin:';
+
+// URLs of personalization merge tags, filled in by the sending platform
+const MERGE_TAG_URL = '^%%|^\\{\\{|^\\*\\|';
+
+/**
+ * Creates a built-in rule, active by default
+ * @param slug The ID of the rule within the pack
+ * @param rule The rule
+ */
+function builtIn(slug: string, rule: Omit<QARule, 'id' | 'is_active' | 'built_in'>): QARule {
+  return { id: `${BUILT_IN_QA_RULE_PREFIX}${slug}`, ...rule, is_active: true, built_in: true };
+}
+
+/**
+ * The email QA rules shipped with the app, evaluated in addition to the qa_rules table
+ * Workspaces can turn them off or change their severity; see qaRulePack
+ */
+export const BUILT_IN_QA_RULES: QARule[] = [
+  builtIn('alt-text', {
+    rule_name: 'Image alt text',
+    description: 'Every image has an alt attribute, empty for decorative images',
+    rule_type: 'dom',
+    rule_pattern: 'img:not([alt])',
+    severity: 'error',
+    fix: { type: 'set-attribute', attribute: 'alt', value: '', description: 'Add an empty alt, marking the image as decorative' }
+  }),
+  builtIn('link-validity', {
+    rule_name: 'Valid links',
+    description: 'Links point to an absolute http(s), mailto: or tel: URL, or a merge tag',
+    rule_type: 'dom',
+    rule_pattern: JSON.stringify({
+      selector: 'a',
+      attribute: 'href',
+      pattern: `^https?://[^\\s]+$|^mailto:|^tel:|${MERGE_TAG_URL}`,
+      message: 'Links must have an absolute http(s), mailto: or tel: URL'
+    }),
+    severity: 'warning'
+  }),
+  builtIn('max-width', {
+    rule_name: 'Email width',
+    description: 'The email is 600-700px wide and no element is wider',
+    rule_type: 'max-width',
+    rule_pattern: '600-700',
+    severity: 'warning'
+  }),
+  builtIn('inline-styles', {
+    rule_name: 'Inline styles',
+    description: 'Styles are inlined for clients that strip <style> blocks',
+    rule_type: 'inline-styles',
+    rule_pattern: '',
+    severity: 'warning'
+  }),
+  builtIn('preheader', {
+    rule_name: 'Preheader',
+    description: 'A hidden preheader sets the inbox preview text',
+    rule_type: 'dom',
+    rule_pattern: JSON.stringify({
+      selector: 'body [style*="display:none" i], body [style*="display: none" i]',
+      text: '\\S',
+      expect: 'some',
+      message: 'No hidden preheader text'
+    }),
+    severity: 'warning'
+  }),
+  builtIn('unsubscribe-link', {
+    rule_name: 'Unsubscribe link',
+    description: 'The email links to an unsubscribe or preference page',
+    rule_type: 'dom',
+    rule_pattern: JSON.stringify({
+      selector: 'a[href]',
+      text: 'unsubscribe|opt[ -]?out|preferences',
+      expect: 'some',
+      message: 'No unsubscribe link'
+    }),
+    severity: 'warning'
+  }),
+  builtIn('no-javascript', {
+    rule_name: 'No JavaScript',
+    description: 'No scripts or event handlers, which email clients strip or block; the AMP runtime is allowed',
+    rule_type: 'dom',
+    rule_pattern: JSON.stringify({
+      selector: [
+        'script:not([src^="https://cdn.ampproject.org/"]):not([type="application/json"])',
+        'a[href^="javascript:" i]',
+        '[onclick]',
+        '[onload]',
+        '[onerror]',
+        '[onmouseover]',
+        '[onmouseout]',
+        '[onfocus]',
+        '[onblur]',
+        '[onchange]',
+        '[onsubmit]'
+      ].join(', '),
+      message: 'Scripts and event handlers must not be used'
+    }),
+    severity: 'error'
+  }),
+  builtIn('no-forms', {
+    rule_name: 'No forms',
+    description: 'No form controls, which most email clients do not support',
+    rule_type: 'dom',
+    rule_pattern: JSON.stringify({
+      selector: 'form, input, select, textarea, button',
+      message: 'Forms and form controls must not be used'
+    }),
+    severity: 'error'
+  }),
+  builtIn('gmail-clipping', {
+    rule_name: 'Gmail clipping',
+    description: 'The email is under 102 KB, above which Gmail clips it',
+    rule_type: 'max-size',
+    rule_pattern: String(GMAIL_CLIPPING_BYTES),
+    severity: 'warning'
+  }),
+  builtIn('absolute-image-urls', {
+    rule_name: 'Absolute image URLs',
+    description: 'Images load from absolute http(s) URLs or attachments',
+    rule_type: 'dom',
+    rule_pattern: JSON.stringify({
+      selector: 'img',
+      attribute: 'src',
+      pattern: `^https?://|^cid:|${MERGE_TAG_URL}`,
+      message: 'Images must have an absolute http(s) or cid: URL'
+    }),
+    severity: 'warning',
+    fix: { type: 'absolute-url', attribute: 'src' }
+  }),
+  builtIn('presentation-tables', {
+    rule_name: 'Presentation tables',
+    description: 'Layout tables have role="presentation" so screen readers do not announce them as data',
+    rule_type: 'dom',
+    rule_pattern: JSON.stringify({
+      selector: 'table:not([role])',
+      message: 'Layout tables must have role="presentation"'
+    }),
+    severity: 'warning',
+    fix: { type: 'set-attribute', attribute: 'role', value: 'presentation' }
+  }),
+  builtIn('link-targets', {
+    rule_name: 'Link targets',
+    description: 'Web links open in a new tab when the email is viewed in a browser',
+    rule_type: 'dom',
+    rule_pattern: JSON.stringify({
+      selector: 'a[href^="http" i]:not([target])',
+      message: 'Web links must have a target'
+    }),
+    severity: 'info',
+    fix: { type: 'set-attribute', attribute: 'target', value: '_blank' }
+  }),
+  builtIn('font-fallbacks', {
+    rule_name: 'Web-safe font fallbacks',
+    description: 'Every font stack falls back to a web-safe or generic family',
+    rule_type: 'font-fallbacks',
+    rule_pattern: '',
+    severity: 'warning'
+  })
+];
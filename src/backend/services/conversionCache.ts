@@ -0,0 +1,206 @@
+import { createHash } from 'crypto';
+import supabase from '../config/supabaseConfig';
+import type { BrandKit } from './brandKit';
+import type { ConversionOptions, ConversionProviderId, ConversionResult } from './conversionProvider';
+import { PromptTemplateName, PromptTemplateSet, getPromptTemplate } from './promptTemplates';
+
+// Templates that shape the HTML of a conversion; their versions are part of the cache key
+const CONVERSION_PROMPT_TEMPLATES: PromptTemplateName[] = ['gemini-conversion', 'claude-conversion', 'claude-system', 'repair'];
+
+/**
+ * Everything that determines the HTML a conversion produces
+ */
+export interface ConversionCacheKeyParts {
+  workspaceId: string; // Conversions are only reused within a workspace, as their metadata points to its storage
+  fileHash: string;
+  provider: ConversionProviderId;
+  model: string;
+  options: ConversionOptions;
+  promptTemplates?: PromptTemplateSet;
+  brandKit?: BrandKit; // The brand kit sent to the model, if any
+}
+
+/**
+ * A row of the conversion_cache table
+ */
+export interface CachedConversion {
+  cache_key: string;
+  workspace_id: string;
+  file_hash: string;
+  provider: ConversionProviderId;
+  model: string;
+  html: string;
+  metadata: ConversionResult['metadata'];
+  brand_kit: BrandKit | null;
+  hit_count: number;
+  created_at: string;
+  last_hit_at: string | null;
+}
+
+/**
+ * Serializes a value to JSON with object keys in sorted order, so equal values serialize the same
+ * @param value The value to serialize
+ */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, entry]) => entry !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([key, entry]) => `${JSON.stringify(key)}:${stableStringify(entry)}`);
+    return `{${entries.join(',')}}`;
+  }
+
+  return JSON.stringify(value);
+}
+
+/**
+ * Hashes the contents of a design file
+ * @param buffer The file contents
+ * @returns The SHA-256 hash as hex
+ */
+export function hashDesignFile(buffer: ArrayBuffer): string {
+  return createHash('sha256').update(Buffer.from(buffer)).digest('hex');
+}
+
+/**
+ * Checks whether a conversion may be cached and reused
+ * Conversions sampled at a temperature above 0, such as candidates, would replay one sample
+ * @param options The conversion options
+ */
+export function isCacheableConversion(options: ConversionOptions): boolean {
+  return !options.temperature;
+}
+
+/**
+ * Builds the cache key of a conversion
+ * The model and cache settings are left out of the options, as the model is a key part of its own
+ * @param parts The workspace, file hash, provider, model, options, prompt templates and brand kit
+ * @returns The SHA-256 hash of the parts as hex
+ */
+export function buildConversionCacheKey(parts: ConversionCacheKeyParts): string {
+  const options: Partial<ConversionOptions> = { ...parts.options };
+  delete options.model;
+  delete options.useCache;
+
+  const promptVersions = Object.fromEntries(
+    CONVERSION_PROMPT_TEMPLATES.map(name => [name, getPromptTemplate(parts.promptTemplates, name).version])
+  );
+
+  return createHash('sha256')
+    .update(stableStringify({
+      workspaceId: parts.workspaceId,
+      fileHash: parts.fileHash,
+      provider: parts.provider,
+      model: parts.model,
+      options,
+      promptVersions,
+      brandKit: parts.brandKit || null
+    }))
+    .digest('hex');
+}
+
+/**
+ * Gets a cached conversion and counts the hit
+ * @param cacheKey The cache key
+ * @returns The cached conversion, or null when there is none or the cache cannot be read
+ */
+export async function getCachedConversion(cacheKey: string): Promise<CachedConversion | null> {
+  const { data, error } = await supabase
+    .from('conversion_cache')
+    .select('*')
+    .eq('cache_key', cacheKey)
+    .maybeSingle();
+
+  if (error) {
+    // Convert without the cache rather than failing the conversion
+    console.error('Conversion cache fetch error:', error);
+    return null;
+  }
+
+  if (!data) {
+    return null;
+  }
+
+  const { error: updateError } = await supabase
+    .from('conversion_cache')
+    .update({ hit_count: data.hit_count + 1, last_hit_at: new Date().toISOString() })
+    .eq('cache_key', cacheKey);
+
+  if (updateError) {
+    console.error('Conversion cache hit count error:', updateError);
+  }
+
+  return data as CachedConversion;
+}
+
+/**
+ * Stores the result of a conversion in the cache, replacing an older entry with the same key
+ * @param entry The cache key, workspace, file hash, provider, model and the conversion result
+ */
+export async function storeCachedConversion(entry: {
+  cacheKey: string;
+  workspaceId: string;
+  fileHash: string;
+  provider: ConversionProviderId;
+  model: string;
+  html: string;
+  metadata: ConversionResult['metadata'];
+  brandKit: BrandKit | null;
+}): Promise<void> {
+  const { error } = await supabase
+    .from('conversion_cache')
+    .upsert([
+      {
+        cache_key: entry.cacheKey,
+        workspace_id: entry.workspaceId,
+        file_hash: entry.fileHash,
+        provider: entry.provider,
+        model: entry.model,
+        html: entry.html,
+        metadata: entry.metadata,
+        brand_kit: entry.brandKit,
+        hit_count: 0,
+        created_at: new Date().toISOString(),
+        last_hit_at: null
+      }
+    ]);
+
+  if (error) {
+    console.error('Conversion cache save error:', error);
+    throw new Error('Failed to save conversion to cache');
+  }
+}
+
+/**
+ * Deletes the cached conversions of a workspace
+ * @param workspaceId The ID of the workspace
+ * @param filter Only delete the conversions of this file, or those created before this date; everything otherwise
+ * @returns The number of deleted conversions
+ */
+export async function purgeConversionCache(
+  workspaceId: string,
+  filter: { fileHash?: string; createdBefore?: string } = {}
+): Promise<number> {
+  let query = supabase.from('conversion_cache').delete().eq('workspace_id', workspaceId);
+
+  if (filter.fileHash) {
+    query = query.eq('file_hash', filter.fileHash);
+  }
+
+  if (filter.createdBefore) {
+    query = query.lt('created_at', filter.createdBefore);
+  }
+
+  const { data, error } = await query.select('cache_key');
+
+  if (error) {
+    console.error('Conversion cache purge error:', error);
+    throw new Error('Failed to purge conversion cache');
+  }
+
+  return data ? data.length : 0;
+}
@@ -0,0 +1,315 @@
+import supabase from '../config/supabaseConfig';
+import { BrandKit, measurePaletteCoverage } from './brandKit';
+import type { ConversionJob } from './conversionJobs';
+import type { ConversionProviderId, DesignPage } from './conversionProvider';
+import { isConversionProviderId } from './conversionRegistry';
+import { deleteConversions } from './emailConversions';
+import { QARule, validateHtml } from './qaValidation';
+import { getOrCreateUser } from './users';
+
+// Upper bound on the candidates of one upload, whatever the request asks for
+export const MAX_CONVERSION_CANDIDATES = 4;
+
+// Weight of the QA pass rate in a candidate's score; visual similarity makes up the rest
+const QA_SCORE_WEIGHT = 0.5;
+
+/**
+ * The provider, model and temperature of one candidate
+ */
+export interface CandidateSpec {
+  provider: ConversionProviderId;
+  model?: string;
+  temperature?: number;
+}
+
+/**
+ * Scores of a finished candidate, each from 0 to 1
+ * A measure that could not be taken is null and left out of the overall score
+ */
+export interface CandidateScore {
+  qaPassRate: number | null;
+  visualSimilarity: number | null;
+  score: number | null;
+}
+
+/**
+ * A row of the conversion_candidates table
+ * The candidate ID is also the ID of its conversion job and conversion
+ */
+export interface ConversionCandidate {
+  id: string;
+  group_id: string;
+  user_id: number;
+  provider: ConversionProviderId;
+  model: string | null;
+  temperature: number | null;
+  qa_pass_rate: number | null;
+  visual_similarity: number | null;
+  score: number | null;
+  promoted: boolean;
+  created_at: string;
+  scored_at: string | null;
+}
+
+/**
+ * A candidate with the status of its conversion job
+ */
+export interface CandidateWithJob extends ConversionCandidate {
+  status: ConversionJob['status'];
+  error: string | null;
+}
+
+/**
+ * Parses the candidates requested by the upload form
+ * @param value The form value, a JSON array such as [{"provider":"claude","temperature":0.7},{"provider":"gemini"}]
+ * @returns The candidates, or an empty array when the form asks for a single conversion
+ * @throws Error if the value is not a list of 2 to MAX_CONVERSION_CANDIDATES valid candidates
+ */
+export function parseCandidateSpecs(value: string | null): CandidateSpec[] {
+  if (!value) {
+    return [];
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(value);
+  } catch (error) {
+    throw new Error('Candidates must be a JSON array');
+  }
+
+  if (!Array.isArray(parsed) || parsed.length < 2 || parsed.length > MAX_CONVERSION_CANDIDATES) {
+    throw new Error(`Between 2 and ${MAX_CONVERSION_CANDIDATES} candidates can be compared`);
+  }
+
+  return parsed.map((candidate, index) => {
+    const { provider, model, temperature } = candidate || {};
+
+    if (!isConversionProviderId(provider)) {
+      throw new Error(`Candidate ${index + 1} has an unknown conversion provider: ${provider}`);
+    }
+    if (model !== undefined && (typeof model !== 'string' || !model)) {
+      throw new Error(`Candidate ${index + 1} has an invalid model`);
+    }
+    if (temperature !== undefined && (typeof temperature !== 'number' || temperature < 0 || temperature > 1)) {
+      throw new Error(`Candidate ${index + 1} needs a temperature between 0 and 1`);
+    }
+
+    return { provider, model, temperature };
+  });
+}
+
+/**
+ * Records a candidate of a multi-candidate conversion
+ * @param input The job ID, its group, owner and settings
+ * @returns The created candidate
+ */
+export async function createConversionCandidate(input: {
+  jobId: string;
+  groupId: string;
+  clerkUserId: string;
+  provider: ConversionProviderId;
+  model?: string;
+  temperature?: number;
+}): Promise<ConversionCandidate> {
+  const user = await getOrCreateUser(input.clerkUserId);
+
+  const { data, error } = await supabase
+    .from('conversion_candidates')
+    .insert([
+      {
+        id: input.jobId,
+        group_id: input.groupId,
+        user_id: user.id,
+        provider: input.provider,
+        model: input.model || null,
+        temperature: input.temperature ?? null,
+        promoted: false,
+        created_at: new Date().toISOString()
+      }
+    ])
+    .select();
+
+  if (error) {
+    console.error('Conversion candidate creation error:', error);
+    throw new Error('Failed to create conversion candidate');
+  }
+
+  return data[0] as ConversionCandidate;
+}
+
+/**
+ * Scores a candidate by the share of QA rules it passes and its visual similarity to the design
+ * Visual similarity is the pixel similarity of the visual diff; without a visual diff
+ * it falls back to the share of the design's palette the HTML uses
+ * @param html The final HTML of the candidate
+ * @param pages The design pages
+ * @param rules The active QA rules
+ * @param brandKit The brand kit the conversion followed, for brand rules
+ * @param pixelSimilarity The similarity of the candidate's visual diff, if it has one
+ */
+export async function scoreConversionCandidate(
+  html: string,
+  pages: DesignPage[],
+  rules: QARule[],
+  brandKit?: BrandKit | null,
+  pixelSimilarity?: number
+): Promise<CandidateScore> {
+  const results = validateHtml(html, rules, { brandKit });
+  const qaPassRate = results.length > 0 ? results.filter(result => result.isPassing).length / results.length : null;
+  const visualSimilarity = pixelSimilarity ?? await measurePaletteCoverage(html, pages);
+
+  const score = qaPassRate !== null && visualSimilarity !== null
+    ? QA_SCORE_WEIGHT * qaPassRate + (1 - QA_SCORE_WEIGHT) * visualSimilarity
+    : qaPassRate ?? visualSimilarity;
+
+  return { qaPassRate, visualSimilarity, score };
+}
+
+/**
+ * Stores the scores of a candidate
+ * @param candidateId The candidate ID
+ * @param score The scores
+ */
+export async function saveCandidateScore(candidateId: string, score: CandidateScore): Promise<void> {
+  const { error } = await supabase
+    .from('conversion_candidates')
+    .update({
+      qa_pass_rate: score.qaPassRate,
+      visual_similarity: score.visualSimilarity,
+      score: score.score,
+      scored_at: new Date().toISOString()
+    })
+    .eq('id', candidateId);
+
+  if (error) {
+    console.error('Conversion candidate score error:', error);
+    throw new Error('Failed to save conversion candidate score');
+  }
+}
+
+/**
+ * Gets the candidates of an upload owned by a user, with the status of their jobs
+ * Scored candidates come first, best score first
+ * @param groupId The candidate group ID
+ * @param clerkUserId The Clerk user ID of the requester
+ * @returns The candidates, empty if the group does not exist or belongs to another user
+ */
+export async function getCandidateGroup(groupId: string, clerkUserId: string): Promise<CandidateWithJob[]> {
+  const user = await getOrCreateUser(clerkUserId);
+
+  const { data, error } = await supabase
+    .from('conversion_candidates')
+    .select('*')
+    .eq('group_id', groupId)
+    .eq('user_id', user.id)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    console.error('Conversion candidates fetch error:', error);
+    throw new Error('Failed to fetch conversion candidates');
+  }
+
+  const candidates = (data || []) as ConversionCandidate[];
+  if (candidates.length === 0) {
+    return [];
+  }
+
+  const { data: jobs, error: jobsError } = await supabase
+    .from('conversion_jobs')
+    .select('id, status, error')
+    .in('id', candidates.map(candidate => candidate.id));
+
+  if (jobsError) {
+    console.error('Conversion candidate jobs fetch error:', jobsError);
+    throw new Error('Failed to fetch conversion candidates');
+  }
+
+  const jobsById = new Map<string, Pick<ConversionJob, 'id' | 'status' | 'error'>>((jobs || []).map(job => [job.id, job]));
+
+  return candidates
+    .map(candidate => ({
+      ...candidate,
+      status: jobsById.get(candidate.id)?.status ?? 'failed',
+      error: jobsById.get(candidate.id)?.error ?? null
+    }))
+    .sort((a, b) => (b.score ?? -1) - (a.score ?? -1));
+}
+
+/**
+ * Checks whether the user has chosen a candidate of an upload
+ * @param groupId The candidate group ID
+ */
+export async function isCandidateGroupSettled(groupId: string): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('conversion_candidates')
+    .select('id')
+    .eq('group_id', groupId)
+    .eq('promoted', true)
+    .limit(1);
+
+  if (error) {
+    console.error('Conversion candidates fetch error:', error);
+    throw new Error('Failed to fetch conversion candidates');
+  }
+
+  return !!data && data.length > 0;
+}
+
+/**
+ * Marks one candidate of an upload as the one the user chose and deletes the conversions of the others,
+ * so only the chosen conversion stays in the user's history
+ * Once a candidate is promoted the choice is final; candidates that finish later are not stored.
+ * A group has at most one promoted candidate (a partial unique index), so of concurrent
+ * promotions of a group only the first succeeds
+ * @param groupId The candidate group ID
+ * @param candidateId The chosen candidate, which must have finished converting
+ * @param clerkUserId The Clerk user ID of the requester
+ * @returns The chosen candidate, or null if it is not a finished candidate of the user's group
+ *   or another candidate was chosen
+ */
+export async function promoteCandidate(
+  groupId: string,
+  candidateId: string,
+  clerkUserId: string
+): Promise<CandidateWithJob | null> {
+  const candidates = await getCandidateGroup(groupId, clerkUserId);
+  const chosen = candidates.find(candidate => candidate.id === candidateId);
+
+  if (!chosen || chosen.status !== 'done') {
+    return null;
+  }
+
+  const promoted = candidates.find(candidate => candidate.promoted);
+  if (promoted) {
+    return promoted.id === candidateId ? chosen : null;
+  }
+
+  const { data, error } = await supabase
+    .from('conversion_candidates')
+    .update({ promoted: true })
+    .eq('id', candidateId)
+    .eq('promoted', false)
+    .select('id');
+
+  // Another candidate of the group was promoted since the group was read
+  if (error?.code === '23505') {
+    return null;
+  }
+
+  if (error) {
+    console.error('Conversion candidate promotion error:', error);
+    throw new Error('Failed to promote conversion candidate');
+  }
+
+  // A concurrent request promoted this candidate, and deletes the others
+  if (!data || data.length === 0) {
+    return { ...chosen, promoted: true };
+  }
+
+  // Candidates that are still running delete their own conversion once they are stored
+  await deleteConversions(
+    candidates.filter(candidate => candidate.id !== candidateId).map(candidate => candidate.id)
+  );
+
+  return { ...chosen, promoted: true };
+}
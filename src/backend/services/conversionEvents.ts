@@ -0,0 +1,72 @@
+import type { BrandKit } from './brandKit';
+import type { CandidateScore } from './conversionCandidates';
+import type { ConversionResult, TokenUsage } from './conversionProvider';
+import type { ConversionJobStatus } from './conversionJobs';
+import type { RepairEvent } from './conversionRepair';
+
+/**
+ * Events streamed while a conversion job runs, discriminated by `status`
+ * Shared by the conversion routes and the client-side parser in src/lib/conversion-stream.ts
+ */
+export type ConversionEvent =
+  // The job moved to a new stage
+  | { status: 'job'; jobId: string; jobStatus: ConversionJobStatus; message: string }
+  // A design page (or ZIP frame) has been rasterized
+  | { status: 'page-progress'; pageNumber: number; pageCount: number; message: string }
+  // The model started generating HTML
+  | { status: 'processing'; message: string }
+  // Raw model output, to be concatenated in order
+  | { status: 'chunk'; data: string }
+  // Tokens used by a model call; repair rounds report their own usage
+  | ({ status: 'token-usage'; stage: 'conversion' | 'repair'; round?: number } & TokenUsage)
+  // Something degraded the conversion without failing it
+  | { status: 'warning'; code: ConversionWarningCode; message: string }
+  // QA and self-repair progress
+  | RepairEvent
+  // Scores of a candidate of a multi-candidate conversion, sent before it completes
+  | ({ status: 'candidate-score' } & CandidateScore)
+  // The conversion is stored; always the last event of a successful job
+  | { status: 'complete'; message: string; html: string; metadata: Partial<ConversionResult['metadata']>; brandKit: BrandKit | null }
+  // The job failed; always the last event of a failed job
+  | { status: 'error'; error: string };
+
+export type ConversionEventStatus = ConversionEvent['status'];
+
+/**
+ * Reasons for a warning event
+ */
+export type ConversionWarningCode =
+  | 'rasterization-fallback'
+  | 'thumbnails-missing'
+  | 'self-repair-disabled'
+  | 'qa-errors-remaining'
+  | 'brand-kit-missing'
+  | 'candidate-score-missing'
+  | 'visual-diff-missing'
+  | 'amp-invalid';
+
+/**
+ * An event with its position in the job's event log
+ * Event IDs start at 1 and increase by one per event of a job
+ */
+export interface ConversionEventEnvelope {
+  id: number;
+  event: ConversionEvent;
+}
+
+/**
+ * Checks whether an event ends the job's stream
+ * @param event The event
+ */
+export function isFinalConversionEvent(event: ConversionEvent): boolean {
+  return event.status === 'complete' || event.status === 'error';
+}
+
+/**
+ * Formats an event as a Server-Sent Events message
+ * The SSE event name is the event status and the data is the event as JSON
+ * @param envelope The event and its ID
+ */
+export function formatServerSentEvent(envelope: ConversionEventEnvelope): string {
+  return `id: ${envelope.id}\nevent: ${envelope.event.status}\ndata: ${JSON.stringify(envelope.event)}\n\n`;
+}
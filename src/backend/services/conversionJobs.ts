@@ -0,0 +1,975 @@
+import supabase from '../config/supabaseConfig';
+import {
+  ConversionOptions,
+  ConversionProvider,
+  ConversionRequest,
+  ConversionResult,
+  DesignPage,
+  buildConversionMetadata,
+  extractHtmlFromResponse
+} from './conversionProvider';
+import {
+  BrandColor,
+  BrandKit,
+  BrandKitRecord,
+  extractBrandKit,
+  extractDesignPalette,
+  getWorkspaceBrandKit,
+  saveEmailBrandKit,
+  setWorkspaceBrandKit
+} from './brandKit';
+import { convertToAmpEmail, validateAmpEmail } from './ampEmail';
+import {
+  ConversionCacheKeyParts,
+  buildConversionCacheKey,
+  getCachedConversion,
+  hashDesignFile,
+  isCacheableConversion,
+  storeCachedConversion
+} from './conversionCache';
+import { isCandidateGroupSettled, saveCandidateScore, scoreConversionCandidate } from './conversionCandidates';
+import { ConversionEvent, ConversionEventEnvelope, isFinalConversionEvent } from './conversionEvents';
+import { runSelfRepair } from './conversionRepair';
+import { applyDarkMode } from './darkMode';
+import { prepareDesignSource, resolvePageRoles, storePageThumbnails } from './designSource';
+import { deleteConversions, saveConversion } from './emailConversions';
+import { normalizeEmailHtml } from './htmlNormalizer';
+import { convertHtmlToMjml } from './mjmlEmail';
+import { applyOutlookFallbacks } from './outlookFallbacks';
+import { PromptTemplate, resolvePromptTemplates } from './promptTemplates';
+import { QARule, fetchActiveQARules } from './qaValidation';
+import { UsageContext, recordModelUsage } from './usageAccounting';
+import { getOrCreateUser } from './users';
+import { VisualDiff, createVisualDiff } from './visualDiff';
+
+// Jobs in a running state that have not been updated for this long are treated as lost, e.g. after a restart
+const STALE_JOB_TIMEOUT_MS = 15 * 60 * 1000;
+
+// How long the events of a finished job are kept so clients can resume their stream
+const FINISHED_JOB_EVENT_RETENTION_MS = 5 * 60 * 1000;
+
+// How often the model output of a running job is written to the event table
+const EVENT_FLUSH_INTERVAL_MS = 1000;
+
+// How often a stream of a job running in another process reads new events from the event table
+const EVENT_POLL_INTERVAL_MS = 1000;
+
+// The most events read from the event table per request, the row limit of the Supabase API
+const EVENT_PAGE_SIZE = 1000;
+
+/**
+ * Lifecycle of a conversion job, in order; a job ends as done or failed
+ */
+export type ConversionJobStatus = 'queued' | 'rasterizing' | 'generating' | 'post-processing' | 'done' | 'failed';
+
+/**
+ * A row of the conversion_jobs table
+ * The job ID is also the ID of the conversion it produces
+ */
+export interface ConversionJob {
+  id: string;
+  user_id: number;
+  file_name: string;
+  storage_path: string;
+  status: ConversionJobStatus;
+  provider: string;
+  model: string | null;
+  options: Partial<ConversionOptions>;
+  error: string | null;
+  progress: string | null; // Message of the latest progress event
+  created_at: string;
+  updated_at: string;
+  completed_at: string | null;
+}
+
+/**
+ * Everything a queued job needs to run
+ * Self-repair runs when request.options.repairRounds is above 0, the workspace
+ * brand kit is followed unless request.options.useBrandKit is false, and a cached
+ * conversion is reused unless request.options.useCache is false
+ * Jobs that are candidates of a multi-candidate conversion are scored before they complete
+ */
+export interface ConversionJobTask {
+  jobId: string;
+  clerkUserId: string;
+  workspaceId: string;
+  provider: ConversionProvider;
+  request: ConversionRequest; // Must include the file buffer; pages are prepared by the job
+  candidateGroupId?: string; // Set for the candidates of a multi-candidate conversion
+}
+
+type ConversionJobListener = (envelope: ConversionEventEnvelope) => void;
+
+// Jobs run in this process: waiting tasks with the callbacks that report them finished,
+// the number of running jobs and the IDs of both
+const pendingTasks: { task: ConversionJobTask; onFinished: () => void }[] = [];
+const activeJobIds = new Set<string>();
+let runningJobCount = 0;
+
+// Events of jobs run in this process, and their listeners, keyed by job ID
+const jobEventLogs = new Map<string, ConversionEventEnvelope[]>();
+const jobListeners = new Map<string, Set<ConversionJobListener>>();
+
+// Events of jobs run in this process that are not in the event table yet, the timers that
+// write batched model output, and the last write of each job, keyed by job ID
+const unsavedJobEvents = new Map<string, ConversionEventEnvelope[]>();
+const jobEventFlushTimers = new Map<string, ReturnType<typeof setTimeout>>();
+const jobEventWrites = new Map<string, Promise<void>>();
+
+/**
+ * Checks whether a job has finished
+ * @param status The job status
+ */
+export function isFinishedJobStatus(status: ConversionJobStatus): boolean {
+  return status === 'done' || status === 'failed';
+}
+
+/**
+ * Gets the number of jobs this process runs at the same time
+ */
+function getJobConcurrency(): number {
+  return parseInt(process.env.CONVERSION_JOB_CONCURRENCY || '', 10) || 2;
+}
+
+/**
+ * Creates a queued conversion job
+ * @param input The job ID, owner, uploaded file and conversion settings
+ * @returns The created job
+ */
+export async function createConversionJob(input: {
+  jobId: string;
+  clerkUserId: string;
+  fileName: string;
+  storagePath: string;
+  provider: string;
+  model?: string;
+  options: Partial<ConversionOptions>;
+}): Promise<ConversionJob> {
+  const user = await getOrCreateUser(input.clerkUserId);
+  const now = new Date().toISOString();
+
+  const { data, error } = await supabase
+    .from('conversion_jobs')
+    .insert([
+      {
+        id: input.jobId,
+        user_id: user.id,
+        file_name: input.fileName,
+        storage_path: input.storagePath,
+        status: 'queued',
+        provider: input.provider,
+        model: input.model || null,
+        options: input.options,
+        created_at: now,
+        updated_at: now
+      }
+    ])
+    .select();
+
+  if (error) {
+    console.error('Conversion job creation error:', error);
+    throw new Error('Failed to create conversion job');
+  }
+
+  return data[0] as ConversionJob;
+}
+
+/**
+ * Updates a conversion job
+ * @param jobId The job ID
+ * @param fields The fields to update
+ */
+async function updateConversionJob(
+  jobId: string,
+  fields: Partial<Pick<ConversionJob, 'status' | 'error' | 'progress' | 'completed_at'>>
+): Promise<void> {
+  const { error } = await supabase
+    .from('conversion_jobs')
+    .update({ ...fields, updated_at: new Date().toISOString() })
+    .eq('id', jobId);
+
+  if (error) {
+    console.error('Conversion job update error:', error);
+    throw new Error('Failed to update conversion job');
+  }
+}
+
+/**
+ * Marks a job as failed when it is in a running state, does not run in this process
+ * and has not been updated within the stale timeout, e.g. because its server stopped
+ * The failure is added to the job's events so streams of the job end
+ * @param job The job
+ * @returns The job, failed if it was stale
+ */
+async function failStaleConversionJob(job: ConversionJob): Promise<ConversionJob> {
+  const isStale = !isFinishedJobStatus(job.status) &&
+    !activeJobIds.has(job.id) &&
+    Date.now() - new Date(job.updated_at).getTime() > STALE_JOB_TIMEOUT_MS;
+
+  if (!isStale) {
+    return job;
+  }
+
+  const failedJob = {
+    ...job,
+    status: 'failed' as const,
+    error: 'The conversion job stopped responding. Please upload the design again.',
+    completed_at: new Date().toISOString()
+  };
+  await updateConversionJob(job.id, {
+    status: failedJob.status,
+    error: failedJob.error,
+    completed_at: failedJob.completed_at
+  });
+
+  try {
+    const lastEventId = await getLastJobEventId(job.id);
+    await saveJobEvents(job.id, [
+      { id: lastEventId + 1, event: { status: 'job', jobId: job.id, jobStatus: 'failed', message: failedJob.error } },
+      { id: lastEventId + 2, event: { status: 'error', error: failedJob.error } }
+    ]);
+  } catch (error) {
+    // Streams of the job end without the failure; clients then check the job status
+    console.error(`Conversion job ${job.id} failure could not be stored as an event:`, error);
+  }
+
+  return failedJob;
+}
+
+/**
+ * Gets a conversion job owned by a user
+ * A stale running job is marked as failed
+ * @param jobId The job ID
+ * @param clerkUserId The Clerk user ID of the requester
+ * @returns The job, or null if it does not exist or belongs to another user
+ */
+export async function getConversionJob(jobId: string, clerkUserId: string): Promise<ConversionJob | null> {
+  const user = await getOrCreateUser(clerkUserId);
+
+  const { data, error } = await supabase
+    .from('conversion_jobs')
+    .select('*')
+    .eq('id', jobId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Conversion job fetch error:', error);
+    throw new Error('Failed to fetch conversion job');
+  }
+
+  if (!data || data.user_id !== user.id) {
+    return null;
+  }
+
+  return failStaleConversionJob(data as ConversionJob);
+}
+
+/**
+ * Checks whether the events of a job can still be streamed, i.e. the job is queued,
+ * running or finished recently
+ * @param job The job
+ */
+export function hasConversionJobEvents(job: ConversionJob): boolean {
+  if (!isFinishedJobStatus(job.status)) {
+    return true;
+  }
+
+  const finishedAt = new Date(job.completed_at || job.updated_at).getTime();
+  return Date.now() - finishedAt < FINISHED_JOB_EVENT_RETENTION_MS;
+}
+
+/**
+ * Stores events of a job in the conversion_job_events table, and the message of the
+ * latest progress event on the job
+ * Once the job has ended, its model output is removed from the table; the complete
+ * event holds the final HTML. Failures are logged, as the job runs on without them
+ * @param jobId The job ID
+ * @param envelopes The events, in order
+ */
+async function saveJobEvents(jobId: string, envelopes: ConversionEventEnvelope[]): Promise<void> {
+  try {
+    const { error } = await supabase
+      .from('conversion_job_events')
+      .insert(envelopes.map(({ id, event }) => ({
+        job_id: jobId,
+        event_id: id,
+        status: event.status,
+        event,
+        created_at: new Date().toISOString()
+      })));
+
+    if (error) {
+      throw error;
+    }
+
+    const progress = [...envelopes].reverse().find(({ event }) =>
+      event.status === 'job' || event.status === 'page-progress' || event.status === 'processing'
+    );
+    if (progress && 'message' in progress.event) {
+      await updateConversionJob(jobId, { progress: progress.event.message });
+    }
+
+    if (envelopes.some(({ event }) => isFinalConversionEvent(event))) {
+      const { error: deleteError } = await supabase
+        .from('conversion_job_events')
+        .delete()
+        .eq('job_id', jobId)
+        .eq('status', 'chunk');
+
+      if (deleteError) {
+        throw deleteError;
+      }
+    }
+  } catch (error) {
+    // Streams of the job on other server instances miss these events
+    console.error(`Conversion job ${jobId} events could not be stored:`, error);
+  }
+}
+
+/**
+ * Gets the ID of the last stored event of a job
+ * @param jobId The job ID
+ * @returns The event ID, 0 when the job has no stored events
+ */
+async function getLastJobEventId(jobId: string): Promise<number> {
+  const { data, error } = await supabase
+    .from('conversion_job_events')
+    .select('event_id')
+    .eq('job_id', jobId)
+    .order('event_id', { ascending: false })
+    .limit(1);
+
+  if (error) {
+    console.error('Conversion job event fetch error:', error);
+    throw new Error('Failed to fetch conversion job events');
+  }
+
+  return data && data.length > 0 ? data[0].event_id : 0;
+}
+
+/**
+ * Lists the stored events of a job, page by page
+ * @param jobId The job ID
+ * @param lastEventId ID of the last event the caller has seen
+ * @returns The events after lastEventId, in order
+ */
+async function listJobEvents(jobId: string, lastEventId: number): Promise<ConversionEventEnvelope[]> {
+  const envelopes: ConversionEventEnvelope[] = [];
+
+  for (;;) {
+    const { data, error } = await supabase
+      .from('conversion_job_events')
+      .select('event_id, event')
+      .eq('job_id', jobId)
+      .gt('event_id', envelopes.length > 0 ? envelopes[envelopes.length - 1].id : lastEventId)
+      .order('event_id', { ascending: true })
+      .limit(EVENT_PAGE_SIZE);
+
+    if (error) {
+      console.error('Conversion job event fetch error:', error);
+      throw new Error('Failed to fetch conversion job events');
+    }
+
+    envelopes.push(...(data || []).map(row => ({ id: row.event_id as number, event: row.event as ConversionEvent })));
+
+    if (!data || data.length < EVENT_PAGE_SIZE) {
+      return envelopes;
+    }
+  }
+}
+
+/**
+ * Writes the unsaved events of a job run in this process to the event table
+ * Writes of a job run one after another, so its events are stored in order
+ * @param jobId The job ID
+ * @returns A promise that settles once every event emitted so far is stored
+ */
+function flushJobEvents(jobId: string): Promise<void> {
+  clearTimeout(jobEventFlushTimers.get(jobId));
+  jobEventFlushTimers.delete(jobId);
+
+  const envelopes = unsavedJobEvents.get(jobId) || [];
+  unsavedJobEvents.delete(jobId);
+
+  const write = (jobEventWrites.get(jobId) || Promise.resolve())
+    .then(() => envelopes.length > 0 ? saveJobEvents(jobId, envelopes) : undefined);
+  jobEventWrites.set(jobId, write);
+
+  write.then(() => {
+    if (jobEventWrites.get(jobId) === write) {
+      jobEventWrites.delete(jobId);
+    }
+  });
+
+  return write;
+}
+
+/**
+ * Listens to the events of a job
+ * Logged events after lastEventId are replayed before new events are delivered. Events of
+ * a job run in this process are delivered as they are emitted; events of a job run by
+ * another server instance are read from the event table until the job ends
+ * @param jobId The job ID
+ * @param listener Called with every event until the listener is removed
+ * @param lastEventId ID of the last event the client has seen, 0 to replay every logged event
+ * @param onEnd Called when the job ended without its last event being stored, e.g. because
+ * the event table could not be written; clients then check the job status
+ * @returns A function that removes the listener
+ */
+export function subscribeToConversionJob(
+  jobId: string,
+  listener: ConversionJobListener,
+  lastEventId: number = 0,
+  onEnd: () => void = () => {}
+): () => void {
+  if (!jobEventLogs.has(jobId)) {
+    return pollConversionJobEvents(jobId, listener, lastEventId, onEnd);
+  }
+
+  for (const envelope of jobEventLogs.get(jobId) || []) {
+    if (envelope.id > lastEventId) {
+      listener(envelope);
+    }
+  }
+
+  const listeners = jobListeners.get(jobId) || new Set<ConversionJobListener>();
+  listeners.add(listener);
+  jobListeners.set(jobId, listeners);
+
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size === 0) {
+      jobListeners.delete(jobId);
+    }
+  };
+}
+
+/**
+ * Delivers the stored events of a job run by another server instance as they are stored
+ * A job that stops responding is failed by the stale check, which ends its events
+ * @param jobId The job ID
+ * @param listener Called with every event until the job ends or the listener is removed
+ * @param lastEventId ID of the last event the client has seen
+ * @param onEnd Called when the job ended without its last event being stored
+ * @returns A function that removes the listener
+ */
+function pollConversionJobEvents(
+  jobId: string,
+  listener: ConversionJobListener,
+  lastEventId: number,
+  onEnd: () => void
+): () => void {
+  let lastId = lastEventId;
+  let isStopped = false;
+  let wasFinished = false;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const poll = async () => {
+    try {
+      const envelopes = await listJobEvents(jobId, lastId);
+
+      for (const envelope of envelopes) {
+        if (isStopped) {
+          return;
+        }
+        lastId = envelope.id;
+        listener(envelope);
+        if (isFinalConversionEvent(envelope.event)) {
+          isStopped = true;
+        }
+      }
+
+      // The last events of a job are stored just after its status; a job that has ended
+      // and still has none a poll later will not get them
+      if (envelopes.length === 0) {
+        const { data } = await supabase.from('conversion_jobs').select('*').eq('id', jobId).maybeSingle();
+        const job = data ? await failStaleConversionJob(data as ConversionJob) : null;
+
+        if (!job || (wasFinished && isFinishedJobStatus(job.status))) {
+          isStopped = true;
+          onEnd();
+          return;
+        }
+        wasFinished = isFinishedJobStatus(job.status);
+      }
+    } catch (error) {
+      // Try again on the next poll
+      console.error(`Conversion job ${jobId} events could not be read:`, error);
+    }
+
+    if (!isStopped) {
+      timer = setTimeout(poll, EVENT_POLL_INTERVAL_MS);
+    }
+  };
+
+  poll();
+
+  return () => {
+    isStopped = true;
+    clearTimeout(timer);
+  };
+}
+
+/**
+ * Logs an event of a job, sends it to the job's listeners and queues it for the event table
+ * Model output is stored in batches, other events right away
+ * @param jobId The job ID
+ * @param event The event
+ */
+function emitJobEvent(jobId: string, event: ConversionEvent): void {
+  const log = jobEventLogs.get(jobId) || [];
+  const envelope = { id: log.length + 1, event };
+  log.push(envelope);
+  jobEventLogs.set(jobId, log);
+
+  // Keep the log of a finished job for a while so clients can still resume
+  if (isFinalConversionEvent(event)) {
+    setTimeout(() => jobEventLogs.delete(jobId), FINISHED_JOB_EVENT_RETENTION_MS);
+  }
+
+  unsavedJobEvents.set(jobId, [...(unsavedJobEvents.get(jobId) || []), envelope]);
+  if (event.status !== 'chunk') {
+    flushJobEvents(jobId);
+  } else if (!jobEventFlushTimers.has(jobId)) {
+    jobEventFlushTimers.set(jobId, setTimeout(() => flushJobEvents(jobId), EVENT_FLUSH_INTERVAL_MS));
+  }
+
+  jobListeners.get(jobId)?.forEach(listener => {
+    try {
+      listener(envelope);
+    } catch (error) {
+      // A listener whose client went away must not stop the job
+      console.error(`Conversion job ${jobId} listener error:`, error);
+    }
+  });
+}
+
+/**
+ * Adds a job to this process's queue; it starts as soon as a slot is free
+ * The job keeps running when the client that started it disconnects. On serverless
+ * hosts the request must pass the returned promise to waitUntil, or the function is
+ * stopped once the response is sent
+ * @param task The job to run
+ * @returns A promise that settles when the job has ended and its events are stored
+ */
+export function enqueueConversionJob(task: ConversionJobTask): Promise<void> {
+  const finished = new Promise<void>(resolve => {
+    pendingTasks.push({ task, onFinished: resolve });
+  });
+  activeJobIds.add(task.jobId);
+  emitJobEvent(task.jobId, {
+    status: 'job',
+    jobId: task.jobId,
+    jobStatus: 'queued',
+    message: 'Waiting for a free conversion slot...'
+  });
+
+  startPendingJobs();
+  return finished;
+}
+
+/**
+ * Starts queued jobs until the concurrency limit is reached
+ */
+function startPendingJobs(): void {
+  while (runningJobCount < getJobConcurrency() && pendingTasks.length > 0) {
+    const { task, onFinished } = pendingTasks.shift()!;
+    runningJobCount++;
+
+    runConversionJob(task)
+      .finally(() => flushJobEvents(task.jobId))
+      .finally(() => {
+        runningJobCount--;
+        activeJobIds.delete(task.jobId);
+        onFinished();
+        startPendingJobs();
+      });
+  }
+}
+
+/**
+ * Stores the brand kit of a conversion with the conversion
+ * The first brand kit of a workspace becomes the workspace brand kit
+ * @param task The job
+ * @param kit The brand kit of the conversion
+ * @param workspaceKit The workspace brand kit; undefined when it could not be loaded
+ */
+async function storeBrandKit(
+  task: ConversionJobTask,
+  kit: BrandKit,
+  workspaceKit: BrandKitRecord | null | undefined
+): Promise<void> {
+  await saveEmailBrandKit(task.workspaceId, task.jobId, kit);
+
+  if (workspaceKit === null) {
+    await setWorkspaceBrandKit(task.workspaceId, kit);
+  }
+}
+
+/**
+ * Scores a candidate job by QA pass rate and visual similarity, and stores the scores
+ * A candidate that cannot be scored completes without scores
+ * @param task The job
+ * @param html The final HTML
+ * @param pages The design pages; the design is rasterized again when they are not given
+ * @param qaRules The active QA rules
+ * @param brandKit The brand kit the conversion followed
+ * @param visualDiff The visual diff of the HTML, if the HTML could be compared with the design
+ */
+async function scoreCandidateJob(
+  task: ConversionJobTask,
+  html: string,
+  pages: DesignPage[] | undefined,
+  qaRules: QARule[],
+  brandKit?: BrandKit,
+  visualDiff?: VisualDiff
+): Promise<void> {
+  const { jobId, request } = task;
+
+  try {
+    const designPages = pages ?? (await prepareDesignSource(request.fileBuffer!, request.fileName, request.options)).pages;
+    const score = await scoreConversionCandidate(html, designPages, qaRules, brandKit, visualDiff?.similarity);
+    await saveCandidateScore(jobId, score);
+    emitJobEvent(jobId, { status: 'candidate-score', ...score });
+  } catch (error) {
+    console.error(`Conversion candidate ${jobId} could not be scored:`, error);
+    emitJobEvent(jobId, { status: 'warning', code: 'candidate-score-missing', message: 'The candidate could not be scored.' });
+  }
+}
+
+/**
+ * Stores the conversion of a job and its first version, then marks the job as done
+ * The conversion of a candidate is only stored while the user has not chosen a candidate of its upload
+ * @param task The job
+ * @param html The final HTML
+ * @param metadata The conversion metadata
+ * @param brandKit The brand kit of the conversion, if it has one
+ */
+async function completeConversionJob(
+  task: ConversionJobTask,
+  html: string,
+  metadata: ConversionResult['metadata'],
+  brandKit: BrandKit | null
+): Promise<void> {
+  const { jobId, clerkUserId, request } = task;
+
+  // Store the conversion and its first version before anyone is sent to the editor,
+  // unless it is a candidate and the user already chose another one
+  if (!task.candidateGroupId || !await isCandidateGroupSettled(task.candidateGroupId)) {
+    await saveConversion({
+      conversionId: jobId,
+      clerkUserId,
+      fileName: request.fileName,
+      storagePath: request.filePath,
+      html,
+      metadata
+    });
+  }
+
+  // A candidate is never the chosen one before it is done, so once the user has chosen,
+  // including while the conversion was being stored, its conversion is deleted
+  if (task.candidateGroupId && await isCandidateGroupSettled(task.candidateGroupId)) {
+    await deleteConversions([jobId]);
+  }
+
+  await updateConversionJob(jobId, { status: 'done', completed_at: new Date().toISOString() });
+  emitJobEvent(jobId, { status: 'job', jobId, jobStatus: 'done', message: 'Conversion completed' });
+  emitJobEvent(jobId, { status: 'complete', message: 'Conversion completed', html, metadata, brandKit });
+}
+
+/**
+ * Runs a conversion job: rasterizes the design, streams the provider's HTML,
+ * normalizes it, adds Outlook fallbacks and optionally a dark mode variant, self-repairs it,
+ * generates the AMP version for the amp target, extracts its brand kit, compares it with the design,
+ * scores candidates, then stores
+ * and caches the conversion; a cached conversion of the same file and settings is reused instead
+ * Every stage is recorded on the job and emitted as an event; failures mark the job as failed
+ * @param task The job to run
+ */
+async function runConversionJob(task: ConversionJobTask): Promise<void> {
+  const { jobId, clerkUserId, workspaceId, provider, request } = task;
+  const emit = (event: ConversionEvent) => emitJobEvent(jobId, event);
+
+  const setStatus = async (status: ConversionJobStatus, message: string) => {
+    await updateConversionJob(jobId, { status });
+    emit({ status: 'job', jobId, jobStatus: status, message });
+  };
+
+  try {
+    if (!request.fileBuffer) {
+      throw new Error('The design file is no longer available');
+    }
+
+    // Load the active QA rules up front; without them the conversion runs without self-repair
+    // and candidates are scored by visual similarity only
+    const repairRounds = request.options.repairRounds || 0;
+    let qaRules: QARule[] = [];
+    if (repairRounds > 0 || task.candidateGroupId) {
+      try {
+        qaRules = await fetchActiveQARules(undefined, workspaceId);
+      } catch (error) {
+        console.error('Self-repair disabled, QA rules could not be loaded:', error);
+      }
+
+      if (qaRules.length === 0 && repairRounds > 0) {
+        emit({ status: 'warning', code: 'self-repair-disabled', message: 'Self-repair is skipped because no active QA rules are available.' });
+      }
+    }
+
+    // The workspace brand kit guides the conversion and brand QA rules
+    let workspaceKit: BrandKitRecord | null | undefined;
+    try {
+      workspaceKit = await getWorkspaceBrandKit(workspaceId);
+    } catch (error) {
+      console.error('Brand kit skipped, the workspace brand kit could not be loaded:', error);
+    }
+    const brandKit = request.options.useBrandKit !== false ? workspaceKit?.kit : undefined;
+
+    // Record the prompt template versions the provider renders with the conversion
+    const promptTemplates = await resolvePromptTemplates(workspaceId);
+    const promptVersions: Record<string, number> = {};
+    const onPrompt = (template: PromptTemplate) => {
+      promptVersions[template.name] = template.version;
+    };
+
+    // Reuse an earlier conversion of the same file with the same settings in the workspace
+    const model = request.options.model || provider.capabilities.defaultModel;
+    const fileHash = hashDesignFile(request.fileBuffer);
+    const cacheKeyParts: ConversionCacheKeyParts = {
+      workspaceId,
+      fileHash,
+      provider: provider.id,
+      model,
+      options: request.options,
+      promptTemplates,
+      brandKit
+    };
+    const cacheKey = buildConversionCacheKey(cacheKeyParts);
+    const isCacheable = isCacheableConversion(request.options);
+    const cached = isCacheable && request.options.useCache !== false ? await getCachedConversion(cacheKey) : null;
+
+    if (cached) {
+      await setStatus('post-processing', 'Reusing an earlier conversion of this design...');
+
+      if (cached.brand_kit) {
+        try {
+          await storeBrandKit(task, cached.brand_kit, workspaceKit);
+        } catch (error) {
+          console.error(`Brand kit could not be stored for conversion job ${jobId}:`, error);
+          emit({ status: 'warning', code: 'brand-kit-missing', message: 'The brand kit could not be extracted from the design.' });
+        }
+      }
+
+      if (task.candidateGroupId) {
+        await scoreCandidateJob(task, cached.html, undefined, qaRules, brandKit, cached.metadata.visualDiff);
+      }
+
+      await completeConversionJob(task, cached.html, {
+        ...cached.metadata,
+        originalFileName: request.fileName,
+        conversionTimestamp: new Date().toISOString(),
+        userId: clerkUserId,
+        conversionId: jobId,
+        cacheHit: true
+      }, cached.brand_kit);
+      return;
+    }
+
+    await setStatus('rasterizing', 'Preparing design pages...');
+
+    // Rasterize the design pages and keep their thumbnails with the conversion
+    const designSource = await prepareDesignSource(
+      request.fileBuffer,
+      request.fileName,
+      request.options,
+      (pageNumber, pageCount) => emit({
+        status: 'page-progress',
+        pageNumber,
+        pageCount,
+        message: `Prepared page ${pageNumber} of ${pageCount}`
+      })
+    );
+
+    if (!designSource.rasterized) {
+      emit({ status: 'warning', code: 'rasterization-fallback', message: 'The PDF could not be rendered to images, so its pages are sent as PDF documents.' });
+    }
+
+    const thumbnails = await storePageThumbnails(`thumbnails/${clerkUserId}/${jobId}`, designSource.thumbnails);
+    if (thumbnails.length < designSource.thumbnails.length) {
+      emit({ status: 'warning', code: 'thumbnails-missing', message: 'Some page thumbnails could not be stored.' });
+    }
+
+    const conversionRequest: ConversionRequest = { ...request, pages: designSource.pages, brandKit, promptTemplates };
+
+    await setStatus('generating', 'Converting design to HTML...');
+
+    let isFirstChunk = true;
+    let responseText = '';
+
+    // Log every model call of the conversion to the usage table
+    const usageContext: Omit<UsageContext, 'operation'> = {
+      clerkUserId,
+      workspaceId,
+      provider: provider.id,
+      emailId: jobId
+    };
+
+    for await (const chunkText of provider.stream(conversionRequest, {
+      onUsage: usage => {
+        emit({ status: 'token-usage', stage: 'conversion', ...usage });
+        recordModelUsage({ ...usageContext, operation: 'conversion' }, usage);
+      },
+      onPrompt
+    })) {
+      responseText += chunkText;
+
+      if (isFirstChunk) {
+        isFirstChunk = false;
+        emit({ status: 'processing', message: 'Converting design to HTML...' });
+      }
+
+      emit({ status: 'chunk', data: chunkText });
+    }
+
+    await setStatus('post-processing', 'Cleaning up the generated HTML...');
+
+    let html = normalizeEmailHtml(extractHtmlFromResponse(responseText));
+    let repairMetadata: Partial<ConversionResult['metadata']> = {};
+
+    // Dark mode colors follow the brand kit, or the design's own palette without one
+    const darkModePalette: BrandColor[] | undefined = request.options.darkMode
+      ? brandKit?.palette ?? await extractDesignPalette(designSource.pages)
+      : undefined;
+
+    // Outlook fallbacks and dark mode styles are generated rather than left to the model
+    const addGeneratedMarkup = (markup: string) => {
+      let result = request.options.outlookFallbacks !== false ? applyOutlookFallbacks(markup) : markup;
+      if (darkModePalette) {
+        result = applyDarkMode(result, darkModePalette);
+      }
+      return result;
+    };
+    html = addGeneratedMarkup(html);
+
+    // Feed QA errors back to the provider, emitting each round's result
+    if (repairRounds > 0 && qaRules.length > 0) {
+      const outcome = await runSelfRepair(
+        provider,
+        conversionRequest,
+        html,
+        qaRules,
+        repairRounds,
+        emit,
+        {
+          onUsage: (usage, round) => {
+            emit({ status: 'token-usage', stage: 'repair', round, ...usage });
+            recordModelUsage({ ...usageContext, operation: 'repair' }, usage);
+          },
+          onPrompt
+        }
+      );
+      html = outcome.html;
+      repairMetadata = { repairRounds: outcome.rounds, qaPassed: outcome.passed };
+
+      // Restore generated markup the repaired HTML dropped
+      html = addGeneratedMarkup(html);
+
+      if (!outcome.passed) {
+        emit({ status: 'warning', code: 'qa-errors-remaining', message: 'Some QA errors remain after self-repair.' });
+      }
+    }
+
+    // The amp target sends an AMP for Email version with the HTML as its fallback
+    let ampHtml: string | undefined;
+    if (request.options.targetPlatform === 'amp') {
+      ampHtml = convertToAmpEmail(html);
+      const ampIssues = validateAmpEmail(ampHtml);
+
+      if (ampIssues.length > 0) {
+        emit({ status: 'warning', code: 'amp-invalid', message: `The AMP version needs fixes: ${ampIssues.map(issue => issue.message).join('; ')}` });
+      }
+    }
+
+    // The MJML export describes the finished HTML, so it is built last
+    const mjmlSource = request.options.mjml ? convertHtmlToMjml(html) : undefined;
+
+    let extractedKit: BrandKit | null = null;
+    let isWorkspaceKitDerived = false;
+    try {
+      extractedKit = await extractBrandKit(html, designSource.pages, `brand-kits/${clerkUserId}/${jobId}/logo.png`);
+      await storeBrandKit(task, extractedKit, workspaceKit);
+      isWorkspaceKitDerived = workspaceKit === null;
+    } catch (error) {
+      console.error(`Brand kit extraction failed for conversion job ${jobId}:`, error);
+      emit({ status: 'warning', code: 'brand-kit-missing', message: 'The brand kit could not be extracted from the design.' });
+    }
+
+    // Compare the HTML rendered at desktop and mobile widths with the design pages
+    let visualDiff: VisualDiff | undefined;
+    try {
+      visualDiff = await createVisualDiff(
+        html,
+        resolvePageRoles(designSource.pages, request.options.pageRoles),
+        `visual-diffs/${clerkUserId}/${jobId}`
+      );
+    } catch (error) {
+      console.error(`Visual diff failed for conversion job ${jobId}:`, error);
+      emit({ status: 'warning', code: 'visual-diff-missing', message: 'The HTML could not be compared with the design.' });
+    }
+
+    const metadata = {
+      ...buildConversionMetadata(request.fileName, request.options, provider.id, model),
+      pageCount: designSource.pageCount,
+      thumbnails,
+      userId: clerkUserId,
+      conversionId: jobId,
+      promptVersions,
+      visualDiff,
+      ampHtml,
+      mjmlSource,
+      ...repairMetadata
+    };
+
+    if (isCacheable) {
+      // The kit derived from this design is now the workspace brand kit, which the next conversion is keyed on
+      const storedCacheKey = isWorkspaceKitDerived && request.options.useBrandKit !== false
+        ? buildConversionCacheKey({ ...cacheKeyParts, brandKit: extractedKit! })
+        : cacheKey;
+
+      try {
+        await storeCachedConversion({
+          cacheKey: storedCacheKey,
+          workspaceId,
+          fileHash,
+          provider: provider.id,
+          model,
+          html,
+          metadata,
+          brandKit: extractedKit
+        });
+      } catch (error) {
+        // The next conversion of this design runs without the cache
+        console.error(`Conversion job ${jobId} could not be cached:`, error);
+      }
+    }
+
+    if (task.candidateGroupId) {
+      await scoreCandidateJob(task, html, designSource.pages, qaRules, brandKit, visualDiff);
+    }
+
+    await completeConversionJob(task, html, metadata, extractedKit);
+  } catch (error) {
+    console.error(`Conversion job ${jobId} failed:`, error);
+    const message = `Conversion failed: ${error instanceof Error ? error.message : 'Unknown error'}`;
+
+    try {
+      await updateConversionJob(jobId, { status: 'failed', error: message, completed_at: new Date().toISOString() });
+    } catch (updateError) {
+      // The stale job check fails the job later
+      console.error(`Could not mark conversion job ${jobId} as failed:`, updateError);
+    }
+
+    emit({ status: 'job', jobId, jobStatus: 'failed', message });
+    emit({ status: 'error', error: message });
+  }
+}
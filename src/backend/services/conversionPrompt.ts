@@ -0,0 +1,290 @@
+import type { BrandKit } from './brandKit';
+import { ConversionOptions, DesignPage, PageRole, RepairIssue, SectionRequest } from './conversionProvider';
+import { countSourcePages } from './designSource';
+import { PromptTemplate, renderPromptTemplate } from './promptTemplates';
+
+// How each page role is described to the model
+const ROLE_DESCRIPTIONS: Record<PageRole, string> = {
+  desktop: 'the desktop version of the email design',
+  mobile: 'the mobile version of the email design',
+  dark: 'the dark mode variant of the email design',
+  ignore: 'content that must not be converted'
+};
+
+/**
+ * Gets the page numbers that have a role, in order
+ * @param pages The design pages (tiles share a page number)
+ * @param role The page role
+ */
+function getPagesWithRole(pages: DesignPage[], role: PageRole): number[] {
+  return pages
+    .filter(page => page.tileIndex === 0 && page.role === role)
+    .map(page => page.pageNumber);
+}
+
+/**
+ * Formats page numbers for a sentence, e.g. "page 1" or "pages 1, 3 and 4"
+ * @param pageNumbers The page numbers
+ */
+function formatPageList(pageNumbers: number[]): string {
+  if (pageNumbers.length === 1) {
+    return `page ${pageNumbers[0]}`;
+  }
+
+  return `pages ${pageNumbers.slice(0, -1).join(', ')} and ${pageNumbers[pageNumbers.length - 1]}`;
+}
+
+/**
+ * Describes what each page shows, based on the resolved page roles
+ * A single page without a role is assumed to contain both the desktop and mobile designs
+ * @param pages The design pages, after resolvePageRoles
+ */
+export function describeDesignPages(pages: DesignPage[]): string {
+  const firstTiles = pages.filter(page => page.tileIndex === 0);
+  const lines: string[] = [];
+
+  if (firstTiles.length === 1 && !firstTiles[0].role) {
+    lines.push(
+      '- This single page contains both the desktop and mobile versions of the email design.',
+      '- The desktop version is typically wider and appears on the left or top portion of the page.',
+      '- The mobile version is narrower and appears on the right or bottom portion of the page.'
+    );
+  } else {
+    for (const page of firstTiles) {
+      const name = page.label ? ` ("${page.label}")` : '';
+      const content = page.role ? ROLE_DESCRIPTIONS[page.role] : 'additional design elements or content';
+      lines.push(`- Page ${page.pageNumber}${name} contains ${content}`);
+    }
+
+    const desktopPages = getPagesWithRole(pages, 'desktop');
+    if (desktopPages.length > 1) {
+      lines.push(`- The desktop ${formatPageList(desktopPages)} form one continuous design, in order from top to bottom`);
+    }
+
+    const mobilePages = getPagesWithRole(pages, 'mobile');
+    if (mobilePages.length > 1) {
+      lines.push(`- The mobile ${formatPageList(mobilePages)} form one continuous design, in order from top to bottom`);
+    }
+  }
+
+  lines.push('- Each page is provided as an image. Very tall pages are split into consecutive tiles, in order from top to bottom, that overlap slightly; treat the tiles of a page as one continuous design.');
+
+  return lines.join('\n');
+}
+
+/**
+ * Describes how the desktop, mobile and dark mode pages map onto the responsive HTML
+ * @param pages The design pages, after resolvePageRoles
+ * @param options Conversion options
+ */
+export function describeResponsiveRequirements(pages: DesignPage[], options: ConversionOptions): string {
+  const desktopPages = getPagesWithRole(pages, 'desktop');
+  const mobilePages = getPagesWithRole(pages, 'mobile');
+  const darkPages = getPagesWithRole(pages, 'dark');
+  const lines: string[] = [];
+
+  if (!options.makeResponsive) {
+    lines.push('- Optimized for desktop viewing');
+  } else if (desktopPages.length > 0 && mobilePages.length > 0) {
+    lines.push(
+      '- Fully responsive for all devices',
+      `- The desktop version in ${formatPageList(desktopPages)} should be used to create the desktop view of the email`,
+      `- The mobile version in ${formatPageList(mobilePages)} should be used to create the mobile view of the email using media queries`,
+      '- All responsive elements should transform exactly as shown in the desktop vs mobile designs'
+    );
+  } else if (desktopPages.length > 0) {
+    lines.push(
+      '- Fully responsive for all devices',
+      `- The desktop version in ${formatPageList(desktopPages)} should be used to create the desktop view of the email`,
+      '- No mobile design is provided, so use media queries to stack columns and scale images on small screens'
+    );
+  } else if (mobilePages.length > 0) {
+    lines.push(
+      '- Fully responsive for all devices',
+      `- The mobile version in ${formatPageList(mobilePages)} should be used to create the email`,
+      '- No desktop design is provided, so center the email with a maximum width of 600px on larger screens'
+    );
+  } else {
+    lines.push(
+      '- Fully responsive for all devices',
+      '- The desktop version should be used to create the desktop view of the email',
+      '- The mobile version should be used to create the mobile view of the email using media queries',
+      '- All responsive elements should transform exactly as shown in both designs'
+    );
+  }
+
+  if (darkPages.length > 0) {
+    lines.push(`- The dark mode variant in ${formatPageList(darkPages)} should be implemented with @media (prefers-color-scheme: dark) styles, keeping the layout unchanged`);
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Describes the approved brand kit the HTML must stick to
+ * @param brandKit The workspace brand kit, if any
+ * @returns The prompt section, or an empty string without a brand kit
+ */
+export function describeBrandKit(brandKit?: BrandKit): string {
+  if (!brandKit) {
+    return '';
+  }
+
+  const lines = ['BRAND KIT (use only these values where the design allows):'];
+
+  if (brandKit.palette.length > 0) {
+    lines.push(`- Colors: ${brandKit.palette.map(color => color.hex).join(', ')}`);
+  }
+  for (const font of brandKit.fonts) {
+    lines.push(`- Font stack for ${font.usage.join(' and ') || 'text'}: ${font.stack}`);
+  }
+  for (const button of brandKit.buttons) {
+    const details = [
+      `background ${button.backgroundColor}`,
+      button.textColor && `text ${button.textColor}`,
+      button.borderRadius && `border radius ${button.borderRadius}`,
+      button.padding && `padding ${button.padding}`,
+      button.fontFamily && `font ${button.fontFamily}`,
+      button.fontSize && `size ${button.fontSize}`,
+      button.fontWeight && `weight ${button.fontWeight}`
+    ].filter(Boolean);
+    lines.push(`- Button style: ${details.join(', ')}`);
+  }
+  if (brandKit.spacing.length > 0) {
+    lines.push(`- Spacing scale (px): ${brandKit.spacing.join(', ')}`);
+  }
+
+  return lines.length > 1 ? `\n${lines.join('\n')}\n` : '';
+}
+
+/**
+ * Describes the clients the email must keep working in
+ * @param options Conversion options
+ */
+function describePlatformCompatibility(options: ConversionOptions): string {
+  switch (options.targetPlatform) {
+    case 'sfmc':
+      return 'The email must remain compatible with Salesforce Marketing Cloud.';
+    case 'amp':
+      return 'The email must remain compatible with common email clients and convertible to AMP for Email.';
+    default:
+      return 'The email must remain compatible with common email clients.';
+  }
+}
+
+/**
+ * Describes the platform-specific requirements of the converted HTML
+ * @param options Conversion options
+ */
+function describePlatformRequirement(options: ConversionOptions): string {
+  switch (options.targetPlatform) {
+    case 'sfmc':
+      return '- Specifically optimized for Salesforce Marketing Cloud';
+    case 'amp':
+      return '- Usable as the fallback of an AMP for Email version: no forms, iframes or embedded media, and width and height attributes on every image';
+    default:
+      return '- Using standard HTML practices';
+  }
+}
+
+/**
+ * Builds the variables of the design-to-HTML templates
+ * @param pages The design pages, after resolvePageRoles
+ * @param fileName Original file name
+ * @param options Conversion options
+ * @param brandKit The workspace brand kit to follow, if any
+ */
+export function buildConversionPromptVariables(
+  pages: DesignPage[],
+  fileName: string,
+  options: ConversionOptions,
+  brandKit?: BrandKit
+): Record<string, string | number> {
+  const pageCount = countSourcePages(pages);
+
+  return {
+    fileName,
+    pageCount,
+    pageSummary: pageCount === 1 ? 'its single page' : `its ${pageCount} pages`,
+    pageDescription: describeDesignPages(pages),
+    targetPlatform: options.targetPlatform,
+    outputType: options.optimizeForEmail ? 'an HTML email' : 'HTML',
+    responsiveRequirements: describeResponsiveRequirements(pages, options),
+    clientCompatibility: options.optimizeForEmail ? '- Compatible with email clients' : '- Compatible with web browsers',
+    platformRequirement: describePlatformRequirement(options),
+    brandKit: describeBrandKit(brandKit)
+  };
+}
+
+/**
+ * Builds the design-to-HTML prompt for the page images sent to the model
+ * @param template The gemini-conversion or claude-conversion template
+ * @param pages The design pages, after resolvePageRoles
+ * @param fileName Original file name
+ * @param options Conversion options
+ * @param brandKit The workspace brand kit to follow, if any
+ */
+export function buildConversionPrompt(
+  template: PromptTemplate,
+  pages: DesignPage[],
+  fileName: string,
+  options: ConversionOptions,
+  brandKit?: BrandKit
+): string {
+  return renderPromptTemplate(template, buildConversionPromptVariables(pages, fileName, options, brandKit));
+}
+
+/**
+ * Builds the prompt asking the model to fix QA failures in its previous output
+ * @param template The repair template
+ * @param html The HTML that failed QA
+ * @param issues The failing QA checks
+ * @param options Conversion options
+ * @param brandKit The workspace brand kit the HTML must follow, if any
+ */
+export function buildRepairPrompt(
+  template: PromptTemplate,
+  html: string,
+  issues: RepairIssue[],
+  options: ConversionOptions,
+  brandKit?: BrandKit
+): string {
+  const issueList = issues.map((issue, index) => {
+    const lines = [`${index + 1}. ${issue.ruleName}: ${issue.message}`];
+    if (issue.description) {
+      lines.push(`   Rule: ${issue.description}`);
+    }
+    if (issue.snippet) {
+      lines.push(`   Offending markup:\n   ${issue.snippet.split('\n').join('\n   ')}`);
+    }
+    return lines.join('\n');
+  });
+
+  return renderPromptTemplate(template, {
+    html,
+    issues: issueList.join('\n\n'),
+    targetPlatform: options.targetPlatform,
+    platformCompatibility: describePlatformCompatibility(options),
+    brandKit: describeBrandKit(brandKit)
+  });
+}
+
+/**
+ * Builds the prompt asking the model to regenerate one section of an email
+ * @param template The section template
+ * @param request The section request
+ */
+export function buildSectionPrompt(template: PromptTemplate, request: SectionRequest): string {
+  const { conversion, html, sectionId, sectionHtml, instructions, referenceImage } = request;
+
+  return renderPromptTemplate(template, {
+    html,
+    sectionId,
+    sectionHtml,
+    instructions: instructions ? `\nWhat to change:\n${instructions}\n` : '',
+    referenceImage: referenceImage ? 'The attached image shows the area of the design this section must match.\n' : '',
+    targetPlatform: conversion.options.targetPlatform,
+    platformCompatibility: describePlatformCompatibility(conversion.options),
+    brandKit: describeBrandKit(conversion.brandKit)
+  });
+}
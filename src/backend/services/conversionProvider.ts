@@ -0,0 +1,291 @@
+// Shared contract implemented by every design-to-HTML conversion provider
+
+import type { BrandKit } from './brandKit';
+import type { PromptTemplate, PromptTemplateSet } from './promptTemplates';
+import type { VisualDiff } from './visualDiff';
+
+/**
+ * Identifiers of the built-in conversion providers
+ */
+export type ConversionProviderId = 'gemini' | 'claude' | 'local';
+
+/**
+ * Which version of the email a design page or frame shows
+ * Pages marked 'ignore' are not sent to the model
+ */
+export type PageRole = 'desktop' | 'mobile' | 'dark' | 'ignore';
+
+export const PAGE_ROLES: PageRole[] = ['desktop', 'mobile', 'dark', 'ignore'];
+
+/**
+ * Explicit role for each page, keyed by 1-based page number
+ */
+export type PageRoleMap = Record<number, PageRole>;
+
+/**
+ * Where the email is sent from; the amp target also generates an AMP for Email version
+ */
+export type TargetPlatform = 'sfmc' | 'generic' | 'amp';
+
+export const TARGET_PLATFORMS: TargetPlatform[] = ['sfmc', 'generic', 'amp'];
+
+// Define conversion options interface
+export interface ConversionOptions {
+  makeResponsive: boolean;
+  optimizeForEmail: boolean;
+  targetPlatform: TargetPlatform;
+  model?: string;
+  temperature?: number; // Sampling temperature; each provider has its own default
+  rasterDpi?: number;
+  pageRoles?: PageRoleMap;
+  repairRounds?: number;
+  useBrandKit?: boolean; // Match the workspace brand kit, default true
+  useCache?: boolean; // Reuse an earlier conversion with the same file and settings, default true
+  darkMode?: boolean; // Add dark mode styles derived from the brand palette
+  outlookFallbacks?: boolean; // Add ghost tables and VML buttons and backgrounds for Outlook, default true
+  mjml?: boolean; // Also emit the MJML source of the HTML
+}
+
+/**
+ * One image (or PDF page, when rasterization is unavailable) sent to the model
+ * Tall pages are split into several tiles that share a page number
+ * Frames from a ZIP bundle carry their file name as label and an inferred role;
+ * an explicit role from ConversionOptions.pageRoles takes precedence
+ */
+export interface DesignPage {
+  pageNumber: number;
+  tileIndex: number;
+  tileCount: number;
+  mimeType: 'image/png' | 'image/jpeg' | 'application/pdf';
+  data: string;
+  width?: number;
+  height?: number;
+  top?: number; // Offset of the tile within its page, in pixels
+  role?: PageRole;
+  label?: string;
+}
+
+// Define interfaces for the conversion result
+export interface ConversionResult {
+  html: string;
+  css?: string;
+  metadata: {
+    originalFileName: string;
+    conversionTimestamp: string;
+    designType: string;
+    responsive: boolean;
+    provider?: ConversionProviderId;
+    model?: string;
+    pageCount?: number;
+    thumbnails?: string[];
+    userId?: string;
+    conversionId?: string;
+    repairRounds?: number;
+    qaPassed?: boolean;
+    promptVersions?: Record<string, number>; // Version of each prompt template used, by template name
+    cacheHit?: boolean; // The HTML was reused from an earlier conversion
+    visualDiff?: VisualDiff; // Pixel comparison of the rendered HTML with the design
+    ampHtml?: string; // AMP for Email version of the HTML, for the amp target
+    mjmlSource?: string; // MJML source of the HTML, when the options ask for it
+    targetPlatform?: TargetPlatform;
+    outlookFallbacks?: boolean; // Outlook fallbacks were added to the HTML
+    darkMode?: boolean; // Dark mode styles were added to the HTML
+  };
+}
+
+/**
+ * Describes what a provider can do so routes and the UI can pick one
+ */
+export interface ProviderCapabilities {
+  streaming: boolean;
+  acceptsPdf: boolean;
+  acceptsImages: boolean;
+  requiresNetwork: boolean;
+  defaultModel: string;
+  models: string[];
+}
+
+/**
+ * A single conversion request handed to a provider
+ */
+export interface ConversionRequest {
+  filePath: string;
+  fileName: string;
+  fileBuffer?: ArrayBuffer;
+  pages?: DesignPage[];
+  options: ConversionOptions;
+  brandKit?: BrandKit; // Approved workspace brand kit the HTML must use
+  promptTemplates?: PromptTemplateSet; // Template versions selected for the workspace, built-in versions otherwise
+}
+
+/**
+ * A failing QA check sent back to the model during self-repair
+ */
+export interface RepairIssue {
+  ruleName: string;
+  description?: string;
+  message: string;
+  snippet?: string;
+}
+
+/**
+ * A request to fix QA failures in previously generated HTML
+ */
+export interface RepairRequest {
+  conversion: ConversionRequest;
+  html: string;
+  issues: RepairIssue[];
+  round: number;
+}
+
+/**
+ * A request to regenerate one section of a converted email
+ */
+export interface SectionRequest {
+  conversion: ConversionRequest;
+  html: string; // The whole email, for context
+  sectionId: string;
+  sectionHtml: string;
+  instructions?: string;
+  referenceImage?: DesignPage; // The area of the design the section shows
+}
+
+/**
+ * Tokens billed for a single model call
+ */
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+  model: string;
+  latencyMs: number; // From sending the request until the response is complete
+}
+
+/**
+ * Callbacks a provider invokes while streaming
+ */
+export interface ProviderStreamHooks {
+  // Called once the model reports the tokens used by the call
+  onUsage?: (usage: TokenUsage) => void;
+  // Called with each prompt template the call renders
+  onPrompt?: (template: PromptTemplate) => void;
+}
+
+/**
+ * Contract implemented by the Gemini, Claude and local conversion services
+ */
+export interface ConversionProvider {
+  readonly id: ConversionProviderId;
+  readonly displayName: string;
+  readonly capabilities: ProviderCapabilities;
+
+  /**
+   * Converts a design file to HTML in a single call
+   */
+  convert(request: ConversionRequest, hooks?: ProviderStreamHooks): Promise<ConversionResult>;
+
+  /**
+   * Streams the raw model output for a design file as text chunks
+   */
+  stream(request: ConversionRequest, hooks?: ProviderStreamHooks): AsyncIterable<string>;
+
+  /**
+   * Streams a revised HTML document that fixes the given QA failures
+   */
+  repair(request: RepairRequest, hooks?: ProviderStreamHooks): AsyncIterable<string>;
+
+  /**
+   * Streams new markup for one section of a converted email
+   */
+  regenerateSection(request: SectionRequest, hooks?: ProviderStreamHooks): AsyncIterable<string>;
+}
+
+export const DEFAULT_CONVERSION_OPTIONS: ConversionOptions = {
+  makeResponsive: true,
+  optimizeForEmail: true,
+  targetPlatform: 'sfmc'
+};
+
+/**
+ * Gets the lowercase file extension (including the dot) of a file name
+ * @param fileName The file name
+ */
+export function getFileExtension(fileName: string): string {
+  return '.' + fileName.split('.').pop()?.toLowerCase();
+}
+
+/**
+ * Parses the page role map sent by the upload form, e.g. {"1":"desktop","2":"mobile"}
+ * @param value The JSON-encoded map, or null when the form did not send one
+ * @throws Error if the value is not a map of page numbers to known roles
+ */
+export function parsePageRoles(value: string | null): PageRoleMap | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(value);
+  } catch (error) {
+    throw new Error(`Invalid page role map: ${error instanceof Error ? error.message : 'expected JSON'}`);
+  }
+
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error('Invalid page role map: expected an object of page numbers to roles');
+  }
+
+  const pageRoles: PageRoleMap = {};
+
+  for (const [key, role] of Object.entries(parsed as Record<string, unknown>)) {
+    const pageNumber = Number(key);
+    if (!Number.isInteger(pageNumber) || pageNumber < 1) {
+      throw new Error(`Invalid page role map: "${key}" is not a page number`);
+    }
+    if (!PAGE_ROLES.includes(role as PageRole)) {
+      throw new Error(`Invalid page role for page ${pageNumber}: ${String(role)}. Expected one of ${PAGE_ROLES.join(', ')}`);
+    }
+    pageRoles[pageNumber] = role as PageRole;
+  }
+
+  return pageRoles;
+}
+
+/**
+ * Extracts the HTML document from a model response
+ * Models sometimes wrap the HTML in markdown code blocks
+ * @param responseText The raw model output
+ */
+export function extractHtmlFromResponse(responseText: string): string {
+  const htmlMatch = responseText.match(/```html\s*([\s\S]*?)\s*```/) ||
+                    responseText.match(/```\s*([\s\S]*?)\s*```/) ||
+                    [null, responseText];
+
+  return htmlMatch[1] || responseText;
+}
+
+/**
+ * Builds the metadata block shared by every conversion result
+ * @param fileName Original file name
+ * @param options Conversion options used
+ * @param provider Provider that produced the HTML
+ * @param model Model that produced the HTML
+ */
+export function buildConversionMetadata(
+  fileName: string,
+  options: ConversionOptions,
+  provider: ConversionProviderId,
+  model: string
+): ConversionResult['metadata'] {
+  return {
+    originalFileName: fileName,
+    conversionTimestamp: new Date().toISOString(),
+    designType: getFileExtension(fileName).replace('.', '').toUpperCase(),
+    responsive: options.makeResponsive,
+    provider,
+    model,
+    // Section regeneration applies the same post-processing to the sections it replaces
+    targetPlatform: options.targetPlatform,
+    outlookFallbacks: options.outlookFallbacks !== false,
+    darkMode: !!options.darkMode
+  };
+}
@@ -0,0 +1,116 @@
+import { ConversionProvider, ConversionProviderId } from './conversionProvider';
+import { createGeminiConversionService } from './geminiConversionService';
+import { createAIConversionService } from './aiConversionService';
+import { createLocalConversionService } from './localConversionService';
+import { WorkspaceSettings, getWorkspaceSettings, updateWorkspaceSettings } from './workspaceSettings';
+
+// Factories for the built-in providers, instantiated lazily so missing API keys
+// only warn when that provider is actually used
+const providerFactories: Record<ConversionProviderId, () => ConversionProvider> = {
+  gemini: createGeminiConversionService,
+  claude: createAIConversionService,
+  local: createLocalConversionService
+};
+
+const providerInstances = new Map<ConversionProviderId, ConversionProvider>();
+
+/**
+ * Checks whether a value names a registered conversion provider
+ * @param value The value to check
+ */
+export function isConversionProviderId(value: unknown): value is ConversionProviderId {
+  return typeof value === 'string' && value in providerFactories;
+}
+
+/**
+ * Registers a provider instance, replacing any existing provider with the same ID
+ * @param provider The provider to register
+ */
+export function registerConversionProvider(provider: ConversionProvider): void {
+  providerInstances.set(provider.id, provider);
+}
+
+/**
+ * Gets a conversion provider by ID
+ * @param id The ID of the provider
+ */
+export function getConversionProvider(id: ConversionProviderId): ConversionProvider {
+  let provider = providerInstances.get(id);
+
+  if (!provider) {
+    provider = providerFactories[id]();
+    providerInstances.set(id, provider);
+  }
+
+  return provider;
+}
+
+/**
+ * Lists the available conversion providers and their capabilities
+ */
+export function listConversionProviders() {
+  return (Object.keys(providerFactories) as ConversionProviderId[]).map(id => {
+    const provider = getConversionProvider(id);
+    return {
+      id: provider.id,
+      displayName: provider.displayName,
+      capabilities: provider.capabilities
+    };
+  });
+}
+
+/**
+ * Picks the provider for a conversion
+ * The provider named in the request wins, then the workspace default,
+ * then the DEFAULT_CONVERSION_PROVIDER environment variable, then Gemini
+ * @param requestedId Provider requested by the client, if any
+ * @param workspaceId The ID of the workspace making the request
+ * @returns The provider and the model configured for the workspace, if any
+ */
+export async function resolveConversionProvider(
+  requestedId: string | null | undefined,
+  workspaceId: string
+): Promise<{ provider: ConversionProvider; model?: string }> {
+  if (requestedId) {
+    if (!isConversionProviderId(requestedId)) {
+      throw new Error(`Unknown conversion provider: ${requestedId}`);
+    }
+    return { provider: getConversionProvider(requestedId) };
+  }
+
+  const settings = await getWorkspaceSettings(workspaceId);
+  if (settings.conversion_provider && isConversionProviderId(settings.conversion_provider)) {
+    return {
+      provider: getConversionProvider(settings.conversion_provider),
+      model: settings.conversion_model || undefined
+    };
+  }
+
+  const envDefault = process.env.DEFAULT_CONVERSION_PROVIDER;
+  if (envDefault && isConversionProviderId(envDefault)) {
+    return { provider: getConversionProvider(envDefault) };
+  }
+
+  return { provider: getConversionProvider('gemini') };
+}
+
+/**
+ * Sets the default conversion provider and model of a workspace
+ * @param workspaceId The ID of the workspace
+ * @param providerId The provider, or null to fall back to DEFAULT_CONVERSION_PROVIDER
+ * @param model The model to use with the provider, or null for the provider's default model
+ * @returns The stored settings
+ */
+export async function setWorkspaceConversionProvider(
+  workspaceId: string,
+  providerId: ConversionProviderId | null,
+  model: string | null
+): Promise<WorkspaceSettings> {
+  const { settings } = await updateWorkspaceSettings(workspaceId, {
+    conversion_provider: providerId,
+    // A model only applies to the provider it was chosen for
+    conversion_model: providerId ? model : null
+  });
+
+  return settings;
+}
@@ -0,0 +1,151 @@
+import {
+  ConversionProvider,
+  ConversionRequest,
+  ProviderStreamHooks,
+  RepairIssue,
+  TokenUsage,
+  extractHtmlFromResponse
+} from './conversionProvider';
+import { normalizeEmailHtml } from './htmlNormalizer';
+import { QARule, QAValidationResult, getErrorFailures, validateHtml } from './qaValidation';
+
+// Upper bound on repair rounds, whatever the request asks for
+export const MAX_REPAIR_ROUNDS = 3;
+
+/**
+ * Progress of the self-repair loop, reported once per QA run and repair round
+ * Round 0 is the QA run on the initial conversion
+ */
+export type RepairEvent =
+  | { status: 'qa'; round: number; passed: boolean; failures: QAValidationResult[] }
+  | { status: 'repairing'; round: number; message: string }
+  | { status: 'repaired'; round: number; html: string; passed: boolean; failures: QAValidationResult[] }
+  | { status: 'repair-failed'; round: number; error: string };
+
+/**
+ * Callbacks for the model calls of the self-repair loop
+ */
+export interface RepairHooks {
+  // Called with the token usage of each repair round
+  onUsage?: (usage: TokenUsage, round: number) => void;
+  // Called with each prompt template a repair round renders
+  onPrompt?: ProviderStreamHooks['onPrompt'];
+}
+
+/**
+ * Final state of the self-repair loop
+ */
+export interface RepairOutcome {
+  html: string;
+  rounds: number;
+  passed: boolean;
+}
+
+/**
+ * Parses the number of repair rounds requested by the upload form
+ * @param value The form value, e.g. "2"
+ * @returns A round count between 0 (self-repair disabled) and MAX_REPAIR_ROUNDS
+ */
+export function parseRepairRounds(value: string | null): number {
+  const rounds = parseInt(value || '', 10);
+  return Number.isNaN(rounds) ? 0 : Math.min(Math.max(rounds, 0), MAX_REPAIR_ROUNDS);
+}
+
+/**
+ * Converts failing QA results into the issues sent back to the model
+ * @param failures The failing QA results
+ */
+function toRepairIssues(failures: QAValidationResult[]): RepairIssue[] {
+  return failures.map(failure => ({
+    ruleName: failure.ruleName,
+    description: failure.description,
+    message: failure.message,
+    snippet: failure.snippet
+  }));
+}
+
+/**
+ * Runs QA on converted HTML and sends error-severity failures back to the provider
+ * until QA passes or the round limit is reached
+ * A failed repair round keeps the HTML from the previous round and stops the loop
+ * @param provider The provider that produced the HTML
+ * @param request The original conversion request
+ * @param html The normalized HTML from the conversion
+ * @param rules The active QA rules
+ * @param maxRounds Maximum number of repair rounds
+ * @param onEvent Called with the result of each QA run and repair round
+ * @param hooks Receive the token usage and prompt templates of each repair round
+ */
+export async function runSelfRepair(
+  provider: ConversionProvider,
+  request: ConversionRequest,
+  html: string,
+  rules: QARule[],
+  maxRounds: number,
+  onEvent: (event: RepairEvent) => Promise<void> | void = () => {},
+  hooks: RepairHooks = {}
+): Promise<RepairOutcome> {
+  // Brand rules check against the brand kit the conversion followed
+  const context = { brandKit: request.brandKit };
+  let currentHtml = html;
+  let failures = getErrorFailures(validateHtml(currentHtml, rules, context));
+  let rounds = 0;
+
+  await onEvent({ status: 'qa', round: 0, passed: failures.length === 0, failures });
+
+  while (failures.length > 0 && rounds < maxRounds) {
+    const round = rounds + 1;
+
+    await onEvent({
+      status: 'repairing',
+      round,
+      message: `Fixing ${failures.length} QA ${failures.length === 1 ? 'error' : 'errors'} (round ${round} of ${maxRounds})...`
+    });
+
+    try {
+      let responseText = '';
+      for await (const chunkText of provider.repair({
+        conversion: request,
+        html: currentHtml,
+        issues: toRepairIssues(failures),
+        round
+      }, {
+        onUsage: usage => hooks.onUsage?.(usage, round),
+        onPrompt: hooks.onPrompt
+      })) {
+        responseText += chunkText;
+      }
+
+      const repairedHtml = extractHtmlFromResponse(responseText).trim();
+      if (!repairedHtml) {
+        throw new Error('The provider returned no HTML');
+      }
+
+      currentHtml = normalizeEmailHtml(repairedHtml);
+      failures = getErrorFailures(validateHtml(currentHtml, rules, context));
+      rounds = round;
+
+      await onEvent({
+        status: 'repaired',
+        round,
+        html: currentHtml,
+        passed: failures.length === 0,
+        failures
+      });
+    } catch (error) {
+      console.error(`Repair round ${round} failed:`, error);
+      await onEvent({
+        status: 'repair-failed',
+        round,
+        error: `Repair failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+      });
+      break;
+    }
+  }
+
+  return {
+    html: currentHtml,
+    rounds,
+    passed: failures.length === 0
+  };
+}
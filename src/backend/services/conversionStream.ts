@@ -0,0 +1,72 @@
+import { formatServerSentEvent, isFinalConversionEvent } from './conversionEvents';
+import { subscribeToConversionJob } from './conversionJobs';
+
+// Interval of the SSE comments that keep idle connections open through proxies
+const HEARTBEAT_INTERVAL_MS = 15 * 1000;
+
+/**
+ * Streams the events of a conversion job to the client as Server-Sent Events
+ * Each event has its job event ID, so a client can resume with Last-Event-ID.
+ * Logged events after lastEventId are replayed first, from this process when it runs
+ * the job and from the event table otherwise. The stream ends with the job's complete
+ * or error event, or early when the job's events are incomplete; a client that
+ * disconnects only stops listening, and the job keeps running
+ * @param jobId The ID of the job to stream
+ * @param lastEventId ID of the last event the client has seen
+ */
+export function createConversionStreamResponse(jobId: string, lastEventId: number = 0): Response {
+  const encoder = new TextEncoder();
+  let unsubscribe = () => {};
+  let heartbeat: ReturnType<typeof setInterval> | undefined;
+  let isClosed = false;
+
+  const stop = () => {
+    isClosed = true;
+    unsubscribe();
+    clearInterval(heartbeat);
+  };
+
+  const readable = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const end = () => {
+        stop();
+        controller.close();
+      };
+
+      unsubscribe = subscribeToConversionJob(jobId, envelope => {
+        if (isClosed) {
+          return;
+        }
+
+        controller.enqueue(encoder.encode(formatServerSentEvent(envelope)));
+
+        if (isFinalConversionEvent(envelope.event)) {
+          end();
+        }
+      }, lastEventId, () => {
+        if (!isClosed) {
+          end();
+        }
+      });
+
+      // The replayed log may already have ended the stream
+      if (isClosed) {
+        unsubscribe();
+        return;
+      }
+
+      heartbeat = setInterval(() => controller.enqueue(encoder.encode(': heartbeat\n\n')), HEARTBEAT_INTERVAL_MS);
+    },
+    cancel() {
+      stop();
+    }
+  });
+
+  return new Response(readable, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+    }
+  });
+}
@@ -0,0 +1,137 @@
+// Inline style and color parsing, and color math, shared by the brand kit, dark mode and Outlook services
+
+// Hex and rgb() colors in CSS values
+export const CSS_COLOR_PATTERN = /#(?:[0-9a-f]{6}|[0-9a-f]{3})\b|rgba?\([^)]*\)/gi;
+
+export type RGB = [number, number, number];
+
+/**
+ * A color as hue (0-360), saturation and lightness (0-1)
+ */
+export type HSL = [number, number, number];
+
+/**
+ * Parses a style attribute into lowercase property names and their values
+ * @param style The style attribute
+ */
+export function parseStyle(style: string | undefined): Record<string, string> {
+  const declarations: Record<string, string> = {};
+
+  for (const declaration of (style || '').split(';')) {
+    const separator = declaration.indexOf(':');
+    if (separator > 0) {
+      declarations[declaration.slice(0, separator).trim().toLowerCase()] = declaration.slice(separator + 1).trim();
+    }
+  }
+
+  return declarations;
+}
+
+/**
+ * Formats an RGB color as lowercase #rrggbb
+ * @param rgb The color channels
+ */
+export function toHex(rgb: RGB): string {
+  return '#' + rgb.map(channel => Math.round(channel).toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Parses a hex or rgb() CSS color
+ * @param value The CSS color
+ * @returns The color channels, or null for other and fully transparent colors
+ */
+export function parseCssColor(value: string): RGB | null {
+  const color = value.trim().toLowerCase();
+
+  const hex = color.match(/^#([0-9a-f]{3}|[0-9a-f]{6})$/);
+  if (hex) {
+    const digits = hex[1].length === 3 ? hex[1].split('').map(digit => digit + digit).join('') : hex[1];
+    return [0, 2, 4].map(index => parseInt(digits.slice(index, index + 2), 16)) as RGB;
+  }
+
+  const rgb = color.match(/^rgba?\(\s*(\d+)[\s,]+(\d+)[\s,]+(\d+)(?:[\s,/]+([\d.]+%?))?\s*\)$/);
+  if (rgb) {
+    if (rgb[4] !== undefined && parseFloat(rgb[4]) === 0) {
+      return null;
+    }
+    return [rgb[1], rgb[2], rgb[3]].map(channel => Math.min(255, parseInt(channel, 10))) as RGB;
+  }
+
+  return null;
+}
+
+/**
+ * Euclidean distance between two colors in RGB space
+ */
+export function colorDistance(a: RGB, b: RGB): number {
+  return Math.sqrt((a[0] - b[0]) ** 2 + (a[1] - b[1]) ** 2 + (a[2] - b[2]) ** 2);
+}
+
+/**
+ * Converts an RGB color to HSL
+ * @param rgb The color channels
+ */
+export function rgbToHsl(rgb: RGB): HSL {
+  const [r, g, b] = rgb.map(channel => channel / 255);
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  const lightness = (max + min) / 2;
+
+  if (max === min) {
+    return [0, 0, lightness];
+  }
+
+  const delta = max - min;
+  const saturation = lightness > 0.5 ? delta / (2 - max - min) : delta / (max + min);
+  const hue = max === r
+    ? ((g - b) / delta + (g < b ? 6 : 0)) * 60
+    : max === g
+      ? ((b - r) / delta + 2) * 60
+      : ((r - g) / delta + 4) * 60;
+
+  return [hue, saturation, lightness];
+}
+
+/**
+ * Converts an HSL color to RGB
+ * @param hsl The hue, saturation and lightness
+ */
+export function hslToRgb(hsl: HSL): RGB {
+  const [hue, saturation, lightness] = hsl;
+  const chroma = (1 - Math.abs(2 * lightness - 1)) * saturation;
+  const x = chroma * (1 - Math.abs(((hue / 60) % 2) - 1));
+  const m = lightness - chroma / 2;
+
+  const sector = Math.floor(hue / 60) % 6;
+  const [r, g, b] = [
+    [chroma, x, 0],
+    [x, chroma, 0],
+    [0, chroma, x],
+    [0, x, chroma],
+    [x, 0, chroma],
+    [chroma, 0, x]
+  ][sector];
+
+  return [r, g, b].map(channel => Math.round((channel + m) * 255)) as RGB;
+}
+
+/**
+ * WCAG relative luminance of a color, from 0 (black) to 1 (white)
+ * @param rgb The color channels
+ */
+export function relativeLuminance(rgb: RGB): number {
+  const [r, g, b] = rgb.map(channel => {
+    const value = channel / 255;
+    return value <= 0.03928 ? value / 12.92 : ((value + 0.055) / 1.055) ** 2.4;
+  });
+
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+}
+
+/**
+ * WCAG contrast ratio between two colors, from 1 to 21
+ */
+export function contrastRatio(a: RGB, b: RGB): number {
+  const [lighter, darker] = [relativeLuminance(a), relativeLuminance(b)].sort((x, y) => y - x);
+  return (lighter + 0.05) / (darker + 0.05);
+}
@@ -0,0 +1,323 @@
+import * as cheerio from 'cheerio';
+import type { Element } from 'domhandler';
+import type { BrandColor } from './brandKit';
+import {
+  CSS_COLOR_PATTERN,
+  RGB,
+  colorDistance,
+  contrastRatio,
+  hslToRgb,
+  parseCssColor,
+  rgbToHsl,
+  toHex
+} from './cssColors';
+
+// Parse with htmlparser2 so the markup is not rewritten, e.g. no implicit <tbody>
+const PARSER_OPTIONS = { xml: { xmlMode: false, decodeEntities: false } };
+
+// ID of the generated <style> block; the normalizer keeps it as written
+export const DARK_MODE_STYLE_ID = 'emailgen-dark-mode';
+
+// Classes that hook an element's colors to the dark mode styles, e.g. dm-bg-ffffff
+const BACKGROUND_CLASS_PREFIX = 'dm-bg-';
+const TEXT_CLASS_PREFIX = 'dm-text-';
+
+// Dark mode background when the brand palette has no dark color
+const DEFAULT_DARK_BACKGROUND: RGB = [18, 18, 18];
+
+// Palette colors up to this lightness can be the dark mode background
+const MAX_DARK_BACKGROUND_LIGHTNESS = 0.15;
+
+// Backgrounds from this lightness are darkened; darker ones, such as buttons, keep their color
+const LIGHT_BACKGROUND_LIGHTNESS = 0.6;
+
+// Text below this lightness is lightened; lighter text, such as button labels, keeps its color
+const DARK_TEXT_LIGHTNESS = 0.5;
+
+// Lightness range of lightened text
+const MIN_DARK_MODE_TEXT_LIGHTNESS = 0.75;
+const MAX_DARK_MODE_TEXT_LIGHTNESS = 0.93;
+
+// Dark mode colors within this RGB distance of a palette color are replaced by it
+const PALETTE_SNAP_DISTANCE = 40;
+
+// WCAG AA contrast for body text, the default of dark-mode QA rules
+export const DEFAULT_DARK_MODE_CONTRAST = 4.5;
+
+const COLOR_SCHEME_META_TAGS = [
+  '<meta name="color-scheme" content="light dark">',
+  '<meta name="supported-color-schemes" content="light dark">'
+];
+
+/**
+ * The light colors of an email and the colors that replace them in dark mode, as lowercase hex
+ */
+interface DarkModeColors {
+  background: string; // Page background and the base of darkened backgrounds
+  text: string; // Default text color
+  backgrounds: Record<string, string>;
+  texts: Record<string, string>;
+}
+
+/**
+ * Reads the background and text colors an element sets inline or with color attributes
+ * @param element The element
+ */
+function readElementColors(element: cheerio.Cheerio<Element>): { background?: RGB; text?: RGB } {
+  const style = element.attr('style') || '';
+  const backgroundValue = style.match(/(?:^|;)\s*background(?:-color)?\s*:\s*([^;]+)/i)?.[1] || element.attr('bgcolor');
+  const textValue = style.match(/(?:^|;)\s*color\s*:\s*([^;]+)/i)?.[1] || (element.is('font') ? element.attr('color') : undefined);
+
+  // The background shorthand may hold an image or position next to the color
+  const backgroundColor = backgroundValue?.match(CSS_COLOR_PATTERN)?.[0];
+
+  return {
+    background: backgroundColor ? parseCssColor(backgroundColor) ?? undefined : undefined,
+    text: textValue ? parseCssColor(textValue.replace(/!important/i, '')) ?? undefined : undefined
+  };
+}
+
+/**
+ * Replaces a color by the nearest palette color when one is close enough
+ * @param color The color
+ * @param palette The brand palette
+ */
+function snapToPalette(color: RGB, palette: RGB[]): RGB {
+  const nearest = palette
+    .map(candidate => ({ candidate, distance: colorDistance(candidate, color) }))
+    .sort((a, b) => a.distance - b.distance)[0];
+
+  return nearest && nearest.distance <= PALETTE_SNAP_DISTANCE ? nearest.candidate : color;
+}
+
+/**
+ * Darkens a light background; lighter backgrounds stay darker, so light panels stay a step above the page
+ * Tinted backgrounds keep their hue, neutral ones take the hue of the dark mode background
+ * @param color The light mode background
+ * @param base The dark mode page background
+ * @returns The dark mode background, or null if the background is dark enough already
+ */
+function toDarkBackground(color: RGB, base: RGB): RGB | null {
+  const [hue, saturation, lightness] = rgbToHsl(color);
+
+  if (lightness < LIGHT_BACKGROUND_LIGHTNESS) {
+    return null;
+  }
+
+  const [baseHue, baseSaturation, baseLightness] = rgbToHsl(base);
+  const darkLightness = baseLightness + (1 - lightness) * 0.5;
+
+  return saturation > 0.2
+    ? hslToRgb([hue, saturation * 0.5, darkLightness])
+    : hslToRgb([baseHue, baseSaturation, darkLightness]);
+}
+
+/**
+ * Lightens dark text so it reads on a dark background, keeping its hue
+ * @param color The light mode text color
+ * @returns The dark mode text color, or null if the text is light enough already
+ */
+function toDarkModeText(color: RGB): RGB | null {
+  const [hue, saturation, lightness] = rgbToHsl(color);
+
+  if (lightness >= DARK_TEXT_LIGHTNESS) {
+    return null;
+  }
+
+  const darkLightness = Math.min(MAX_DARK_MODE_TEXT_LIGHTNESS, Math.max(MIN_DARK_MODE_TEXT_LIGHTNESS, 1 - lightness));
+  return hslToRgb([hue, saturation, darkLightness]);
+}
+
+/**
+ * Writes the dark mode styles: the color-scheme declaration, a prefers-color-scheme media query
+ * for Apple Mail, iOS and Outlook for Mac, and [data-ogsc]/[data-ogsb] rules for Outlook.com,
+ * which marks elements with these attributes when it inverts colors
+ * @param colors The dark mode colors
+ */
+function buildDarkModeCss(colors: DarkModeColors): string {
+  const backgroundRules = Object.entries(colors.backgrounds)
+    .map(([light, dark]) => ({ className: `${BACKGROUND_CLASS_PREFIX}${light.slice(1)}`, dark }));
+  const textRules = Object.entries(colors.texts)
+    .map(([light, dark]) => ({ className: `${TEXT_CLASS_PREFIX}${light.slice(1)}`, dark }));
+
+  return [
+    ':root { color-scheme: light dark; supported-color-schemes: light dark; }',
+    '@media (prefers-color-scheme: dark) {',
+    `  body { background-color: ${colors.background} !important; color: ${colors.text} !important; }`,
+    ...backgroundRules.map(rule => `  .${rule.className} { background-color: ${rule.dark} !important; }`),
+    ...textRules.map(rule => `  .${rule.className} { color: ${rule.dark} !important; }`),
+    '}',
+    ...backgroundRules.map(rule => `[data-ogsb] .${rule.className} { background-color: ${rule.dark} !important; }`),
+    ...textRules.map(rule => `[data-ogsc] .${rule.className} { color: ${rule.dark} !important; }`)
+  ].join('\n');
+}
+
+/**
+ * Removes dark mode styles and classes added by an earlier run
+ * @param $ The parsed document
+ */
+function removeDarkMode($: cheerio.CheerioAPI): void {
+  $(`style#${DARK_MODE_STYLE_ID}`).remove();
+
+  $(`[class*="${BACKGROUND_CLASS_PREFIX}"], [class*="${TEXT_CLASS_PREFIX}"]`).each((_, element) => {
+    const $element = $(element);
+    const classes = ($element.attr('class') || '')
+      .split(/\s+/)
+      .filter(name => name && !name.startsWith(BACKGROUND_CLASS_PREFIX) && !name.startsWith(TEXT_CLASS_PREFIX));
+
+    if (classes.length > 0) {
+      $element.attr('class', classes.join(' '));
+    } else {
+      $element.removeAttr('class');
+    }
+  });
+}
+
+/**
+ * Adds a dark mode variant to email HTML, derived from the brand palette
+ * Every light background and dark text color gets a class, and a <style> block in the head
+ * swaps them for dark mode colors; colors close to a palette color become that color, and the
+ * darkest palette color is the page background when it is dark enough
+ * Running it again replaces the earlier dark mode styles
+ * @param html The email HTML
+ * @param palette The brand palette; built-in dark colors are used without one
+ * @returns The HTML with the dark mode styles
+ */
+export function applyDarkMode(html: string, palette: BrandColor[] = []): string {
+  const doctypeMatch = html.match(/^\s*(<!doctype[^>]*>)/i);
+  const markup = doctypeMatch ? html.slice(doctypeMatch[0].length) : html;
+  const $ = cheerio.load(markup.trim(), PARSER_OPTIONS);
+
+  removeDarkMode($);
+
+  const paletteColors = palette.map(color => parseCssColor(color.hex)).filter((rgb): rgb is RGB => rgb !== null);
+  const darkestColor = [...paletteColors].sort((a, b) => rgbToHsl(a)[2] - rgbToHsl(b)[2])[0];
+  const base = darkestColor && rgbToHsl(darkestColor)[2] <= MAX_DARK_BACKGROUND_LIGHTNESS ? darkestColor : DEFAULT_DARK_BACKGROUND;
+
+  const colors: DarkModeColors = {
+    background: toHex(base),
+    text: toHex(snapToPalette(toDarkModeText([0, 0, 0])!, paletteColors)),
+    backgrounds: {},
+    texts: {}
+  };
+
+  $('body, body *').each((_, element) => {
+    const $element = $(element);
+    const { background, text } = readElementColors($element);
+
+    const darkBackground = background && toDarkBackground(background, base);
+    if (background && darkBackground) {
+      const light = toHex(background);
+      colors.backgrounds[light] = colors.backgrounds[light] || toHex(snapToPalette(darkBackground, paletteColors));
+      $element.addClass(`${BACKGROUND_CLASS_PREFIX}${light.slice(1)}`);
+    }
+
+    const darkText = text && toDarkModeText(text);
+    if (text && darkText) {
+      const light = toHex(text);
+      colors.texts[light] = colors.texts[light] || toHex(snapToPalette(darkText, paletteColors));
+      $element.addClass(`${TEXT_CLASS_PREFIX}${light.slice(1)}`);
+    }
+  });
+
+  const head = $('head').first();
+  for (const tag of COLOR_SCHEME_META_TAGS) {
+    const name = tag.match(/name="([^"]+)"/)![1];
+    if ($(`meta[name="${name}" i]`).length === 0) {
+      head.append(tag);
+    }
+  }
+  head.append(`<style id="${DARK_MODE_STYLE_ID}">\n${buildDarkModeCss(colors)}\n</style>`);
+
+  return `${doctypeMatch ? `${doctypeMatch[1]}\n` : ''}${$.html().trim()}\n`;
+}
+
+/**
+ * Reads the dark mode colors back from the generated <style> block
+ * @param $ The parsed document
+ * @returns The colors, or null if the email has no generated dark mode styles
+ */
+function readDarkModeColors($: cheerio.CheerioAPI): DarkModeColors | null {
+  const css = $(`style#${DARK_MODE_STYLE_ID}`).text();
+
+  if (!css) {
+    return null;
+  }
+
+  const body = css.match(/body\s*\{\s*background-color:\s*(#[0-9a-f]{6})[^;]*;\s*color:\s*(#[0-9a-f]{6})/i);
+  const colors: DarkModeColors = {
+    background: body ? body[1] : toHex(DEFAULT_DARK_BACKGROUND),
+    text: body ? body[2] : '#ededed',
+    backgrounds: {},
+    texts: {}
+  };
+
+  const rulePattern = new RegExp(`^\\s*\\.(${BACKGROUND_CLASS_PREFIX}|${TEXT_CLASS_PREFIX})([0-9a-f]{6})\\s*\\{[^:]+:\\s*(#[0-9a-f]{6})`, 'gim');
+  for (const [, prefix, light, dark] of Array.from(css.matchAll(rulePattern))) {
+    (prefix === BACKGROUND_CLASS_PREFIX ? colors.backgrounds : colors.texts)[`#${light}`] = dark;
+  }
+
+  return colors;
+}
+
+/**
+ * Checks the dark mode support of an email: the color-scheme meta tag, a prefers-color-scheme
+ * media query and, for generated dark mode styles, the contrast of each colored text against
+ * the background it sits on in dark mode
+ * @param html The HTML to check
+ * @param minContrast The lowest acceptable WCAG contrast ratio
+ * @returns The problems found and the first offending markup
+ */
+export function checkDarkMode(
+  html: string,
+  minContrast: number = DEFAULT_DARK_MODE_CONTRAST
+): { issues: string[]; snippet?: string } {
+  const $ = cheerio.load(html, PARSER_OPTIONS);
+  const issues: string[] = [];
+  let snippet: string | undefined;
+
+  if ($('meta[name="color-scheme" i]').length === 0) {
+    issues.push('Missing <meta name="color-scheme"> tag');
+  }
+
+  if (!/@media[^{]*prefers-color-scheme\s*:\s*dark/i.test($('style').text())) {
+    issues.push('No prefers-color-scheme: dark media query');
+  }
+
+  const colors = readDarkModeColors($);
+  if (!colors) {
+    return { issues };
+  }
+
+  // The dark mode color of an element's own background, or of the nearest ancestor that sets one
+  const darkBackgroundOf = (element: cheerio.Cheerio<Element>): RGB => {
+    for (const candidate of [element.get(0), ...element.parents().toArray()]) {
+      const { background } = readElementColors($(candidate));
+      if (background) {
+        return parseCssColor(colors.backgrounds[toHex(background)] || toHex(background))!;
+      }
+    }
+    return parseCssColor(colors.background)!;
+  };
+
+  let lowContrastCount = 0;
+  $('body *').each((_, element) => {
+    const $element = $(element);
+    const { text } = readElementColors($element);
+    if (!text) {
+      return;
+    }
+
+    const darkText = parseCssColor(colors.texts[toHex(text)] || toHex(text))!;
+    if (contrastRatio(darkText, darkBackgroundOf($element)) < minContrast) {
+      lowContrastCount++;
+      snippet = snippet || $.html($element).slice(0, 200);
+    }
+  });
+
+  if (lowContrastCount > 0) {
+    issues.push(`${lowContrastCount} element${lowContrastCount === 1 ? '' : 's'} with a dark mode contrast below ${minContrast}:1`);
+  }
+
+  return { issues, snippet };
+}
@@ -0,0 +1,473 @@
+import { Canvas, createCanvas, loadImage } from '@napi-rs/canvas';
+import { PDFDocument } from 'pdf-lib';
+import { unzipSync } from 'fflate';
+import supabase from '../config/supabaseConfig';
+import {
+  ConversionOptions,
+  ConversionRequest,
+  DesignPage,
+  PageRole,
+  PageRoleMap,
+  getFileExtension
+} from './conversionProvider';
+import { PageProgressCallback, RasterizedPage, rasterizeImage, rasterizePdf } from './pdfRasterizer';
+
+// MIME types of the design files accepted for conversion
+const DESIGN_MIME_TYPES: Record<string, string> = {
+  '.pdf': 'application/pdf',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.svg': 'image/svg+xml',
+  '.zip': 'application/zip'
+};
+
+// Design files that can appear as frames inside a ZIP bundle
+const FRAME_EXTENSIONS = ['.pdf', '.png', '.jpg', '.jpeg', '.svg'];
+
+// Limits on a ZIP bundle, checked against its directory before anything is decompressed
+const MAX_ZIP_ENTRIES = 1000;
+const MAX_ZIP_FRAMES = 50;
+const MAX_ZIP_UNCOMPRESSED_BYTES = 200 * 1024 * 1024;
+
+// Frames narrower than this share of the widest frame are treated as mobile
+const MOBILE_WIDTH_RATIO = 0.75;
+
+// Order in which frames of each role are presented to the model
+const ROLE_ORDER: Record<PageRole, number> = { desktop: 0, mobile: 1, dark: 2, ignore: 3 };
+
+/**
+ * File extensions accepted by the conversion routes
+ */
+export const SUPPORTED_DESIGN_EXTENSIONS = Object.keys(DESIGN_MIME_TYPES);
+
+/**
+ * Preview image of a single source page
+ */
+export interface PageThumbnail {
+  pageNumber: number;
+  png: Buffer;
+}
+
+/**
+ * The design file prepared for a model: page images plus thumbnails
+ */
+export interface DesignSource {
+  pageCount: number;
+  pages: DesignPage[];
+  thumbnails: PageThumbnail[];
+  rasterized: boolean;
+}
+
+/**
+ * A rasterized frame of a design, before it is split into model pages
+ */
+interface DesignFrame {
+  page: RasterizedPage;
+  label?: string;
+  role?: PageRole;
+}
+
+/**
+ * Gets the MIME type for a design file extension
+ * @param fileExtension The file extension, including the dot
+ */
+export function getDesignMimeType(fileExtension: string): string {
+  return DESIGN_MIME_TYPES[fileExtension.toLowerCase()] || 'application/octet-stream';
+}
+
+/**
+ * Checks whether a design file can be converted
+ * @param fileName The file name
+ */
+export function isSupportedDesignFile(fileName: string): boolean {
+  return getFileExtension(fileName) in DESIGN_MIME_TYPES;
+}
+
+/**
+ * Infers the role of a frame from its file name, e.g. "Welcome - Mobile.png" or "hero-375.svg"
+ * @param label The frame file name
+ */
+export function inferRoleFromName(label: string): PageRole | undefined {
+  const name = label.toLowerCase();
+
+  if (/dark/.test(name)) {
+    return 'dark';
+  }
+
+  if (/mobile|phone|android|(^|\D)(320|360|375|390|393|414|428|430)(\D|$)/.test(name)) {
+    return 'mobile';
+  }
+
+  if (/desktop|laptop|web|(^|\D)(600|640|700|1280|1440)(\D|$)/.test(name)) {
+    return 'desktop';
+  }
+
+  return undefined;
+}
+
+/**
+ * Counts the distinct source pages in a list of design pages
+ * @param pages The design pages (tiles share a page number)
+ */
+export function countSourcePages(pages: DesignPage[]): number {
+  return new Set(pages.map(page => page.pageNumber)).size;
+}
+
+/**
+ * Applies the page role map to the design pages and drops ignored pages
+ * Without any explicit or inferred roles, a multi-page design is read as
+ * page 1 desktop and page 2 mobile. Remaining pages are renumbered so page
+ * numbers match the order of the images sent to the model
+ * @param pages The design pages (tiles share a page number)
+ * @param pageRoles Explicit role for each page, keyed by original page number
+ * @throws Error if every page is ignored
+ */
+export function resolvePageRoles(pages: DesignPage[], pageRoles: PageRoleMap = {}): DesignPage[] {
+  const hasRoles = Object.keys(pageRoles).length > 0 || pages.some(page => page.role);
+  const isMultiPage = countSourcePages(pages) > 1;
+
+  const legacyRole = (pageNumber: number): PageRole | undefined => {
+    if (!isMultiPage) {
+      return undefined;
+    }
+    return pageNumber === 1 ? 'desktop' : pageNumber === 2 ? 'mobile' : undefined;
+  };
+
+  const included = pages
+    .map(page => ({
+      ...page,
+      role: hasRoles ? pageRoles[page.pageNumber] ?? page.role : legacyRole(page.pageNumber)
+    }))
+    .filter(page => page.role !== 'ignore');
+
+  if (included.length === 0) {
+    throw new Error('Every page is marked as ignored. At least one page must be converted.');
+  }
+
+  const pageNumbers = Array.from(new Set(included.map(page => page.pageNumber)));
+  return included.map(page => ({ ...page, pageNumber: pageNumbers.indexOf(page.pageNumber) + 1 }));
+}
+
+/**
+ * Reassembles the tiles of a rasterized design page into one image
+ * @param pages The design page tiles
+ * @param pageNumber The page to assemble
+ * @returns The page image, or null if the design has no rasterized page with that number
+ */
+export async function assembleDesignPage(pages: DesignPage[], pageNumber: number): Promise<Canvas | null> {
+  const tiles = pages.filter(page => page.pageNumber === pageNumber && page.mimeType !== 'application/pdf');
+
+  if (tiles.length === 0) {
+    return null;
+  }
+
+  const images = await Promise.all(tiles.map(tile => loadImage(Buffer.from(tile.data, 'base64'))));
+  const width = Math.max(...images.map(image => image.width));
+  const height = Math.max(...images.map((image, index) => (tiles[index].top ?? 0) + image.height));
+
+  const canvas = createCanvas(width, height);
+  const context = canvas.getContext('2d');
+  images.forEach((image, index) => context.drawImage(image, 0, tiles[index].top ?? 0));
+
+  return canvas;
+}
+
+/**
+ * Splits a PDF into single-page PDFs
+ * Used when rasterization is unavailable, for providers that accept PDF input
+ * @param pdfBuffer The PDF file as a buffer
+ */
+export async function splitPdfPages(pdfBuffer: ArrayBuffer): Promise<DesignPage[]> {
+  const toPage = (pageNumber: number, bytes: ArrayBuffer | Uint8Array): DesignPage => ({
+    pageNumber,
+    tileIndex: 0,
+    tileCount: 1,
+    mimeType: 'application/pdf',
+    data: Buffer.from(bytes as ArrayBuffer).toString('base64')
+  });
+
+  try {
+    const pages: DesignPage[] = [];
+    const pdfDoc = await PDFDocument.load(pdfBuffer);
+    const pageCount = pdfDoc.getPageCount();
+
+    for (let i = 0; i < pageCount; i++) {
+      try {
+        // Create a new PDF document containing just this page
+        const singlePagePdf = await PDFDocument.create();
+        const [copiedPage] = await singlePagePdf.copyPages(pdfDoc, [i]);
+        singlePagePdf.addPage(copiedPage);
+
+        pages.push(toPage(i + 1, await singlePagePdf.save()));
+      } catch (error) {
+        console.error(`Error processing page ${i + 1}:`, error);
+      }
+    }
+
+    // If we couldn't extract any pages, use the full PDF
+    if (pages.length === 0) {
+      console.log('Falling back to using entire PDF');
+      pages.push(toPage(1, pdfBuffer));
+    }
+
+    return pages;
+  } catch (error) {
+    console.error('Error processing PDF:', error);
+    console.log('Falling back to using entire PDF without processing');
+    return [toPage(1, pdfBuffer)];
+  }
+}
+
+/**
+ * Converts rasterized frames into the page tiles sent to the model
+ * @param frames The frames, in the order they should be presented
+ */
+function toDesignSource(frames: DesignFrame[]): DesignSource {
+  const pages: DesignPage[] = frames.flatMap((frame, index) =>
+    frame.page.tiles.map(tile => ({
+      pageNumber: index + 1,
+      tileIndex: tile.index,
+      tileCount: frame.page.tiles.length,
+      mimeType: 'image/png' as const,
+      data: tile.png.toString('base64'),
+      width: tile.width,
+      height: tile.height,
+      top: tile.top,
+      role: frame.role,
+      label: frame.label
+    }))
+  );
+
+  console.log(`Rasterized ${frames.length} pages into ${pages.length} tiles`);
+
+  return {
+    pageCount: frames.length,
+    pages,
+    thumbnails: frames.map((frame, index) => ({ pageNumber: index + 1, png: frame.page.thumbnail })),
+    rasterized: true
+  };
+}
+
+/**
+ * Rasterizes every frame of a ZIP bundle, such as a Figma frame export
+ * Frames are ordered by name, then grouped as desktop, mobile and dark mode frames
+ * @param zipBuffer The ZIP file as a buffer
+ * @param options Conversion options (rasterDpi overrides the default DPI)
+ * @param onPage Called after each file in the ZIP is rasterized
+ */
+async function rasterizeZipFrames(
+  zipBuffer: ArrayBuffer,
+  options: ConversionOptions,
+  onPage?: PageProgressCallback
+): Promise<DesignFrame[]> {
+  let entryCount = 0;
+  let frameCount = 0;
+  let uncompressedBytes = 0;
+
+  // fflate decompresses each entry into a buffer of its declared size, so the declared sizes bound memory
+  const entries = unzipSync(new Uint8Array(zipBuffer), {
+    filter: file => {
+      if (++entryCount > MAX_ZIP_ENTRIES) {
+        throw new Error(`The ZIP file has more than ${MAX_ZIP_ENTRIES} entries`);
+      }
+
+      const baseName = file.name.split('/').pop() || '';
+      const isFrame = !file.name.startsWith('__MACOSX/') &&
+        !baseName.startsWith('.') &&
+        FRAME_EXTENSIONS.includes(getFileExtension(baseName));
+
+      if (isFrame) {
+        if (++frameCount > MAX_ZIP_FRAMES) {
+          throw new Error(`The ZIP file has more than ${MAX_ZIP_FRAMES} frames`);
+        }
+
+        uncompressedBytes += file.originalSize;
+        if (uncompressedBytes > MAX_ZIP_UNCOMPRESSED_BYTES) {
+          throw new Error(`The frames in the ZIP file are larger than ${MAX_ZIP_UNCOMPRESSED_BYTES / (1024 * 1024)} MB uncompressed`);
+        }
+      }
+
+      return isFrame;
+    }
+  });
+
+  const names = Object.keys(entries).sort((a, b) =>
+    a.localeCompare(b, undefined, { numeric: true, sensitivity: 'base' })
+  );
+
+  if (names.length === 0) {
+    throw new Error('The ZIP file does not contain any PDF, PNG, JPG or SVG frames');
+  }
+
+  const frames: DesignFrame[] = [];
+
+  for (const name of names) {
+    const label = name.split('/').pop() || name;
+    const data = entries[name];
+
+    if (getFileExtension(label) === '.pdf') {
+      const pdfBytes = data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength) as ArrayBuffer;
+      const pdfPages = await rasterizePdf(pdfBytes, { dpi: options.rasterDpi });
+      pdfPages.forEach(page => frames.push({
+        page,
+        label: pdfPages.length > 1 ? `${label} (page ${page.pageNumber})` : label,
+        role: inferRoleFromName(label)
+      }));
+    } else {
+      frames.push({
+        page: await rasterizeImage(data, frames.length + 1, { dpi: options.rasterDpi }),
+        label,
+        role: inferRoleFromName(label)
+      });
+    }
+
+    onPage?.(names.indexOf(name) + 1, names.length);
+  }
+
+  // Frames without a role in their name are classified by width relative to the widest frame
+  if (frames.length > 1) {
+    const widestFrame = Math.max(...frames.filter(frame => frame.role !== 'dark').map(frame => frame.page.width));
+    for (const frame of frames) {
+      frame.role = frame.role ??
+        (frame.page.width < widestFrame * MOBILE_WIDTH_RATIO ? 'mobile' : 'desktop');
+    }
+  }
+
+  // Array.prototype.sort is stable, so frames keep their name order within a role
+  return frames.sort((a, b) => ROLE_ORDER[a.role ?? 'desktop'] - ROLE_ORDER[b.role ?? 'desktop']);
+}
+
+/**
+ * Rasterizes a design file into PNG page tiles and thumbnails
+ * Accepts PDFs, PNG/JPG/SVG images and ZIP bundles of frames
+ * PDFs fall back to single-page PDFs if rasterization fails
+ * @param fileBuffer The design file as a buffer
+ * @param fileName Original file name, used to detect the file type
+ * @param options Conversion options (rasterDpi overrides the default DPI)
+ * @param onPage Called after each page, image or ZIP entry is rasterized
+ */
+export async function prepareDesignSource(
+  fileBuffer: ArrayBuffer,
+  fileName: string,
+  options: ConversionOptions,
+  onPage?: PageProgressCallback
+): Promise<DesignSource> {
+  const fileExtension = getFileExtension(fileName);
+
+  if (!isSupportedDesignFile(fileName)) {
+    throw new Error(`Unsupported file type: ${fileExtension}`);
+  }
+
+  if (fileExtension === '.zip') {
+    return toDesignSource(await rasterizeZipFrames(fileBuffer, options, onPage));
+  }
+
+  if (fileExtension !== '.pdf') {
+    const page = await rasterizeImage(fileBuffer, 1, { dpi: options.rasterDpi });
+    onPage?.(1, 1);
+    return toDesignSource([{ page, label: fileName, role: inferRoleFromName(fileName) }]);
+  }
+
+  try {
+    const rasterizedPages = await rasterizePdf(fileBuffer, {
+      dpi: options.rasterDpi
+    }, onPage);
+
+    return toDesignSource(rasterizedPages.map(page => ({ page })));
+  } catch (error) {
+    console.error('Error rasterizing PDF, sending PDF pages instead:', error);
+
+    const pages = await splitPdfPages(fileBuffer);
+    return {
+      pageCount: countSourcePages(pages),
+      pages,
+      thumbnails: [],
+      rasterized: false
+    };
+  }
+}
+
+/**
+ * Uploads a design file to Supabase storage
+ * @param filePath Path for the file in the design-files bucket
+ * @param fileBuffer The file as a buffer
+ * @returns The storage path of the uploaded file
+ */
+export async function uploadDesignFile(filePath: string, fileBuffer: ArrayBuffer): Promise<string> {
+  const { data, error } = await supabase
+    .storage
+    .from('design-files')
+    .upload(filePath, fileBuffer, { contentType: getDesignMimeType(getFileExtension(filePath)) });
+
+  if (error) {
+    console.error('Error uploading file:', error);
+    throw new Error(`Failed to upload file: ${error.message}`);
+  }
+
+  return data.path;
+}
+
+/**
+ * Downloads a design file from Supabase storage
+ * @param filePath Path to the file in the design-files bucket
+ */
+export async function downloadDesignFile(filePath: string): Promise<ArrayBuffer> {
+  const { data, error } = await supabase
+    .storage
+    .from('design-files')
+    .download(filePath);
+
+  if (error) {
+    console.error('Error downloading file:', error);
+    throw new Error(`Failed to download file: ${error.message}`);
+  }
+
+  return data.arrayBuffer();
+}
+
+/**
+ * Gets the page images for a conversion request, with the page role map applied
+ * Uses the pages prepared by the route when present, otherwise rasterizes the file
+ * @param request The conversion request
+ */
+export async function loadDesignPages(request: ConversionRequest): Promise<DesignPage[]> {
+  if (request.pages && request.pages.length > 0) {
+    return resolvePageRoles(request.pages, request.options.pageRoles);
+  }
+
+  const fileBuffer = request.fileBuffer ?? await downloadDesignFile(request.filePath);
+  const source = await prepareDesignSource(fileBuffer, request.fileName, request.options);
+  return resolvePageRoles(source.pages, request.options.pageRoles);
+}
+
+/**
+ * Uploads page thumbnails next to the conversion in the design-files bucket
+ * @param storagePrefix Folder for the thumbnails, e.g. thumbnails/<conversionId>
+ * @param thumbnails The thumbnails to upload
+ * @returns The storage paths of the uploaded thumbnails
+ */
+export async function storePageThumbnails(
+  storagePrefix: string,
+  thumbnails: PageThumbnail[]
+): Promise<string[]> {
+  const paths: string[] = [];
+
+  for (const thumbnail of thumbnails) {
+    const path = `${storagePrefix}/page-${thumbnail.pageNumber}.png`;
+    const { error } = await supabase
+      .storage
+      .from('design-files')
+      .upload(path, thumbnail.png, { contentType: 'image/png', upsert: true });
+
+    if (error) {
+      console.error('Thumbnail upload error:', error);
+      // Don't throw, as thumbnails are non-critical
+      continue;
+    }
+
+    paths.push(path);
+  }
+
+  return paths;
+}
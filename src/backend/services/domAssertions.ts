@@ -0,0 +1,250 @@
+import * as cheerio from 'cheerio';
+import type { AnyNode } from 'domhandler';
+
+// Parse with htmlparser2 so the markup is not rewritten, recording where each element starts and ends
+const PARSER_OPTIONS = { xml: { xmlMode: false, decodeEntities: false, withStartIndices: true, withEndIndices: true } };
+
+// Longest excerpt of a failing element
+const MAX_SNIPPET_LENGTH = 200;
+
+/**
+ * What a DOM assertion expects of the elements its selector matches:
+ * none may match, at least one must match, or every one must pass the attribute check
+ */
+export type DomExpectation = 'none' | 'some' | 'all';
+
+const DOM_EXPECTATIONS: DomExpectation[] = ['none', 'some', 'all'];
+
+/**
+ * A selector-based check of an HTML document, the pattern of a dom QA rule
+ */
+export interface DomAssertion {
+  selector: string; // CSS selector of the elements the assertion is about
+  expect: DomExpectation;
+  text?: string; // Only elements whose text matches this regular expression count
+  attribute?: string; // With expect all, the attribute every element must have
+  pattern?: string; // With expect all, a regular expression the attribute value must match
+  message?: string; // Describes a failure instead of the generated message
+}
+
+/**
+ * Where a failure is in the HTML, from its start up to its end (exclusive); lines and columns are 1-based
+ * The range of an element covers its start tag
+ */
+export interface SourceLocation {
+  line: number;
+  column: number;
+  offset: number;
+  endLine: number;
+  endColumn: number;
+  endOffset: number;
+  snippet: string; // The start of the offending markup
+}
+
+/**
+ * Outcome of a DOM assertion
+ */
+export interface DomAssertionResult {
+  isPassing: boolean;
+  message: string;
+  locations: SourceLocation[]; // The failing elements, in document order
+}
+
+/**
+ * Parses the pattern of a dom QA rule: a JSON DomAssertion, or a bare selector
+ * that no element may match, e.g. "img:not([alt])"
+ * @param pattern The rule pattern
+ * @throws Error if the pattern is not a valid assertion
+ */
+export function parseDomAssertion(pattern: string): DomAssertion {
+  const trimmed = pattern.trim();
+
+  if (!trimmed) {
+    throw new Error('A DOM assertion needs a selector');
+  }
+
+  if (!trimmed.startsWith('{')) {
+    return { selector: trimmed, expect: 'none' };
+  }
+
+  const parsed = JSON.parse(trimmed);
+  if (typeof parsed.selector !== 'string' || !parsed.selector.trim()) {
+    throw new Error('A DOM assertion needs a selector');
+  }
+
+  const expect: DomExpectation = parsed.expect ?? (parsed.attribute ? 'all' : 'none');
+  if (!DOM_EXPECTATIONS.includes(expect)) {
+    throw new Error(`Unknown DOM assertion expectation: ${expect}`);
+  }
+
+  if (expect === 'all' && typeof parsed.attribute !== 'string') {
+    throw new Error('A DOM assertion that expects all elements to pass needs an attribute');
+  }
+
+  return {
+    selector: parsed.selector,
+    expect,
+    text: parsed.text,
+    attribute: parsed.attribute,
+    pattern: parsed.pattern,
+    message: parsed.message
+  };
+}
+
+/**
+ * Finds the offset of the start of each line
+ * @param html The document
+ */
+export function findLineStarts(html: string): number[] {
+  const starts = [0];
+
+  for (let index = 0; index < html.length; index++) {
+    if (html[index] === '\n') {
+      starts.push(index + 1);
+    }
+  }
+
+  return starts;
+}
+
+/**
+ * Converts an offset to a 1-based line and column
+ * @param lineStarts The line starts of the document, from findLineStarts
+ * @param offset The offset
+ */
+export function locateOffset(lineStarts: number[], offset: number): { line: number; column: number } {
+  let low = 0;
+  let high = lineStarts.length - 1;
+
+  while (low < high) {
+    const middle = Math.ceil((low + high) / 2);
+    if (lineStarts[middle] <= offset) {
+      low = middle;
+    } else {
+      high = middle - 1;
+    }
+  }
+
+  return { line: low + 1, column: offset - lineStarts[low] + 1 };
+}
+
+/**
+ * Locates a span of the document, with an excerpt of at most MAX_SNIPPET_LENGTH characters
+ * @param html The document
+ * @param lineStarts The line starts of the document, from findLineStarts
+ * @param offset Where the span starts
+ * @param end Where the span ends (exclusive)
+ * @param snippetEnd Where the excerpt ends, the end of the span by default
+ */
+export function locateSpan(
+  html: string,
+  lineStarts: number[],
+  offset: number,
+  end: number,
+  snippetEnd: number = end
+): SourceLocation {
+  const start = locateOffset(lineStarts, offset);
+  const last = locateOffset(lineStarts, end);
+
+  return {
+    line: start.line,
+    column: start.column,
+    offset,
+    endLine: last.line,
+    endColumn: last.column,
+    endOffset: end,
+    snippet: html.slice(offset, Math.min(snippetEnd, offset + MAX_SNIPPET_LENGTH))
+  };
+}
+
+/**
+ * Locates an element parsed with start and end indices: its start tag, with an excerpt of its markup
+ * @param html The document the element was parsed from
+ * @param lineStarts The line starts of the document, from findLineStarts
+ * @param element The element
+ */
+export function locateElement(html: string, lineStarts: number[], element: AnyNode): SourceLocation {
+  const elementEnd = element.endIndex! + 1;
+  const tagEnd = html.indexOf('>', element.startIndex!) + 1;
+
+  return locateSpan(html, lineStarts, element.startIndex!, tagEnd > 0 && tagEnd <= elementEnd ? tagEnd : elementEnd, elementEnd);
+}
+
+/**
+ * Locates the first occurrence of a snippet in the document, or of its start tag
+ * when the snippet was serialized from the parsed document and differs further on
+ * @param html The document
+ * @param snippet The markup to find
+ * @returns The location, or null when the snippet is not in the document as written
+ */
+export function locateSnippet(html: string, snippet: string): SourceLocation | null {
+  const startTag = snippet.startsWith('<') ? snippet.slice(0, snippet.indexOf('>') + 1) : '';
+
+  for (const candidate of [snippet, startTag]) {
+    const offset = candidate ? html.indexOf(candidate) : -1;
+    if (offset !== -1) {
+      return locateSpan(html, findLineStarts(html), offset, offset + candidate.length);
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Describes the elements an assertion is about, for messages
+ * @param assertion The assertion
+ */
+function describeElements(assertion: DomAssertion): string {
+  return assertion.text ? `${assertion.selector} with text matching ${assertion.text}` : assertion.selector;
+}
+
+/**
+ * Evaluates a DOM assertion against an HTML document
+ * @param html The HTML to check
+ * @param assertion The assertion
+ * @returns Whether it passed, a message, and the location of every failing element
+ * @throws Error if the selector or a regular expression is invalid
+ */
+export function evaluateDomAssertion(html: string, assertion: DomAssertion): DomAssertionResult {
+  const $ = cheerio.load(html, PARSER_OPTIONS);
+  const textPattern = assertion.text ? new RegExp(assertion.text, 'i') : null;
+  const elements = $(assertion.selector).toArray().filter(element => !textPattern || textPattern.test($(element).text()));
+
+  if (assertion.expect === 'some') {
+    const isPassing = elements.length > 0;
+    return {
+      isPassing,
+      message: isPassing ? 'Rule passed' : assertion.message || `No element matches ${describeElements(assertion)}`,
+      locations: []
+    };
+  }
+
+  let failing = elements;
+  let failure = `${describeElements(assertion)} must not be used`;
+
+  if (assertion.expect === 'all') {
+    const attribute = assertion.attribute!;
+    const valuePattern = assertion.pattern ? new RegExp(assertion.pattern, 'i') : null;
+
+    failing = elements.filter(element => {
+      const value = $(element).attr(attribute);
+      return value === undefined || (valuePattern ? !valuePattern.test(value) : !value.trim());
+    });
+    failure = valuePattern
+      ? `${describeElements(assertion)} must have a ${attribute} matching ${assertion.pattern}`
+      : `${describeElements(assertion)} must have a ${attribute}`;
+  }
+
+  if (failing.length === 0) {
+    return { isPassing: true, message: 'Rule passed', locations: [] };
+  }
+
+  const lineStarts = findLineStarts(html);
+  const locations = failing.map(element => locateElement(html, lineStarts, element));
+
+  return {
+    isPassing: false,
+    message: `${assertion.message || failure} (${failing.length} ${failing.length === 1 ? 'element' : 'elements'})`,
+    locations
+  };
+}
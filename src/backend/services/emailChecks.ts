@@ -0,0 +1,226 @@
+import * as cheerio from 'cheerio';
+import type { Element } from 'domhandler';
+import juice from 'juice';
+import { GENERIC_FONT_FAMILIES, getFontFamilies } from './brandKit';
+import { parseStyle } from './cssColors';
+import { DomAssertionResult, SourceLocation, findLineStarts, locateElement, locateSpan } from './domAssertions';
+
+// Parse with htmlparser2 so the markup is not rewritten, recording where each element starts and ends
+const PARSER_OPTIONS = { xml: { xmlMode: false, decodeEntities: false, withStartIndices: true, withEndIndices: true } };
+
+// Content width range (px) of max-width rules without a pattern
+const DEFAULT_MIN_EMAIL_WIDTH = 600;
+const DEFAULT_MAX_EMAIL_WIDTH = 700;
+
+// Gmail clips messages larger than 102 KB
+export const GMAIL_CLIPPING_BYTES = 102 * 1024;
+
+// Families installed on nearly every desktop and mobile client, valid last resorts of a font stack
+const WEB_SAFE_FONT_FAMILIES = [
+  'arial',
+  'helvetica',
+  'helvetica neue',
+  'verdana',
+  'tahoma',
+  'trebuchet ms',
+  'georgia',
+  'times new roman',
+  'times',
+  'courier new',
+  'courier',
+  'lucida console',
+  'lucida sans unicode',
+  'lucida grande',
+  'palatino linotype',
+  'palatino',
+  'segoe ui',
+  'impact'
+];
+
+/**
+ * Builds the result of a check from its failures
+ * @param failure Describes the failures
+ * @param locations The failing elements or declarations
+ */
+function toResult(failure: string, locations: SourceLocation[]): DomAssertionResult {
+  if (locations.length === 0) {
+    return { isPassing: true, message: 'Rule passed', locations };
+  }
+
+  return {
+    isPassing: false,
+    message: `${failure} (${locations.length} ${locations.length === 1 ? 'element' : 'elements'})`,
+    locations
+  };
+}
+
+/**
+ * Parses a width range such as "600-700", or a single maximum such as "640"
+ * @param pattern The rule pattern
+ */
+function parseWidthRange(pattern: string): { min: number; max: number } {
+  const [first, second] = (pattern || '').split('-').map(value => parseInt(value, 10));
+
+  if (Number.isNaN(first)) {
+    return { min: DEFAULT_MIN_EMAIL_WIDTH, max: DEFAULT_MAX_EMAIL_WIDTH };
+  }
+
+  return Number.isNaN(second) ? { min: 0, max: first } : { min: first, max: second };
+}
+
+/**
+ * Gets the widest fixed width (px) an element declares in its width attribute, width or max-width
+ * @param $element The element
+ * @returns The width, or null when the element has no fixed width
+ */
+function getFixedWidth($element: cheerio.Cheerio<Element>): number | null {
+  const style = parseStyle($element.attr('style'));
+  const widths = [$element.attr('width'), style['width'], style['max-width']]
+    .filter((value): value is string => !!value && /^\s*\d+(\.\d+)?\s*(px)?\s*$/i.test(value))
+    .map(value => parseFloat(value));
+
+  return widths.length > 0 ? Math.max(...widths) : null;
+}
+
+/**
+ * Checks that the email is laid out within a width range: no element may be wider
+ * than the maximum, and the widest element sets the content width, which must reach the minimum
+ * @param html The HTML to check
+ * @param pattern The width range, e.g. "600-700"
+ */
+export function checkMaxWidth(html: string, pattern: string): DomAssertionResult {
+  const { min, max } = parseWidthRange(pattern);
+  const $ = cheerio.load(html, PARSER_OPTIONS);
+  const lineStarts = findLineStarts(html);
+  const tooWide: SourceLocation[] = [];
+  let contentWidth = 0;
+
+  $('body *').each((_, element) => {
+    const width = getFixedWidth($(element));
+    if (width === null) {
+      return;
+    }
+
+    contentWidth = Math.max(contentWidth, width);
+    if (width > max) {
+      tooWide.push(locateElement(html, lineStarts, element));
+    }
+  });
+
+  if (tooWide.length > 0) {
+    return toResult(`Elements must not be wider than ${max}px`, tooWide);
+  }
+
+  if (contentWidth < min) {
+    return {
+      isPassing: false,
+      message: contentWidth
+        ? `The email is ${contentWidth}px wide, narrower than ${min}px`
+        : `No element sets the width of the email to ${min}-${max}px`,
+      locations: []
+    };
+  }
+
+  return { isPassing: true, message: 'Rule passed', locations: [] };
+}
+
+/**
+ * Checks that the styles of the email are inlined: an element fails when a rule of a
+ * <style> block sets a property its style attribute does not, as clients that strip
+ * <style> blocks then render it differently. Media queries are left out
+ * @param html The HTML to check
+ */
+export function checkInlineStyles(html: string): DomAssertionResult {
+  const $ = cheerio.load(html, PARSER_OPTIONS);
+  const inlined = cheerio.load(juice(html, {
+    removeStyleTags: false,
+    preserveMediaQueries: true,
+    preserveFontFaces: true,
+    applyWidthAttributes: false,
+    applyHeightAttributes: false,
+    applyAttributesTableElements: false
+  }), PARSER_OPTIONS);
+
+  const elements = $('*').toArray();
+  const inlinedElements = inlined('*').toArray();
+
+  if (elements.length !== inlinedElements.length) {
+    throw new Error('The inlined markup does not match the email');
+  }
+
+  const lineStarts = findLineStarts(html);
+  const locations = elements
+    .filter((element, index) => {
+      const style = parseStyle($(element).attr('style'));
+      const inlinedStyle = parseStyle(inlined(inlinedElements[index]).attr('style'));
+      return Object.keys(inlinedStyle).some(property => !(property in style));
+    })
+    .map(element => locateElement(html, lineStarts, element));
+
+  return toResult('Styles from <style> blocks must be inlined', locations);
+}
+
+/**
+ * Checks that the email is small enough not to be clipped
+ * @param html The HTML to check
+ * @param pattern The largest size in bytes, Gmail's limit by default
+ */
+export function checkMaxSize(html: string, pattern: string): DomAssertionResult {
+  const limit = parseInt(pattern, 10) || GMAIL_CLIPPING_BYTES;
+  const size = Buffer.byteLength(html, 'utf8');
+
+  if (size <= limit) {
+    return { isPassing: true, message: 'Rule passed', locations: [] };
+  }
+
+  return {
+    isPassing: false,
+    message: `The email is ${(size / 1024).toFixed(1)} KB, over the ${(limit / 1024).toFixed(1)} KB clipping limit`,
+    locations: []
+  };
+}
+
+/**
+ * Checks that every font stack includes a web-safe or generic family,
+ * so clients without the web font fall back to a similar one
+ * @param html The HTML to check
+ */
+export function checkFontFallbacks(html: string): DomAssertionResult {
+  const fallbacks = new Set([...GENERIC_FONT_FAMILIES, ...WEB_SAFE_FONT_FAMILIES]);
+  const hasFallback = (stack: string) => getFontFamilies(stack).some(family => fallbacks.has(family));
+  const $ = cheerio.load(html, PARSER_OPTIONS);
+  const lineStarts = findLineStarts(html);
+  const locations: SourceLocation[] = [];
+
+  $('[style*="font-family" i], font[face]').each((_, element) => {
+    const $element = $(element);
+    const stacks = [parseStyle($element.attr('style'))['font-family'], $element.attr('face')];
+    if (stacks.some(stack => stack && !hasFallback(stack))) {
+      locations.push(locateElement(html, lineStarts, element));
+    }
+  });
+
+  // Declarations in <style> blocks are located by their offset in the block;
+  // @font-face rules name a web font rather than declare a stack
+  $('style').each((_, element) => {
+    const text = element.children[0];
+    if (!text || text.type !== 'text') {
+      return;
+    }
+
+    const fontFaces = Array.from(text.data.matchAll(/@font-face\s*\{[^}]*\}/gi) as Iterable<RegExpMatchArray>)
+      .map(match => [match.index!, match.index! + match[0].length]);
+
+    for (const match of Array.from(text.data.matchAll(/font-family\s*:\s*([^;}]+)/gi) as Iterable<RegExpMatchArray>)) {
+      const isFontFace = fontFaces.some(([start, end]) => match.index! > start && match.index! < end);
+      if (!isFontFace && !hasFallback(match[1])) {
+        const offset = text.startIndex! + match.index!;
+        locations.push(locateSpan(html, lineStarts, offset, offset + match[0].length));
+      }
+    }
+  });
+
+  locations.sort((a, b) => a.offset - b.offset);
+
+  return toResult('Font stacks must include a web-safe or generic family', locations);
+}
@@ -0,0 +1,162 @@
+import supabase from '../config/supabaseConfig';
+import { ConversionResult } from './conversionProvider';
+import { saveVersion } from './versionControl';
+import { getOrCreateUser } from './users';
+
+/**
+ * A row of the email_conversions table
+ */
+export interface EmailConversion {
+  id: string;
+  user_id: number;
+  file_name: string;
+  storage_path: string;
+  html_content: string;
+  metadata: Partial<ConversionResult['metadata']> | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Input for persisting a finished conversion
+ */
+export interface SaveConversionInput {
+  conversionId: string;
+  clerkUserId: string;
+  fileName: string;
+  storagePath: string;
+  html: string;
+  metadata: Partial<ConversionResult['metadata']>;
+}
+
+/**
+ * Persists a finished conversion and creates version 1 of the email from it
+ * The conversion ID doubles as the email ID of its versions
+ * @param input The conversion to save
+ * @returns The saved conversion and the number of the version created from it
+ */
+export async function saveConversion(input: SaveConversionInput) {
+  const { conversionId, clerkUserId, fileName, storagePath, html, metadata } = input;
+
+  const user = await getOrCreateUser(clerkUserId);
+  const now = new Date().toISOString();
+
+  const { data, error } = await supabase
+    .from('email_conversions')
+    .insert([
+      {
+        id: conversionId,
+        user_id: user.id,
+        file_name: fileName,
+        storage_path: storagePath,
+        html_content: html,
+        metadata,
+        created_at: now,
+        updated_at: now
+      }
+    ])
+    .select();
+
+  if (error) {
+    console.error('Conversion save error:', error);
+    throw new Error('Failed to save conversion');
+  }
+
+  // Start the email's version history from the converted HTML
+  const version = await saveVersion(conversionId, html, {
+    userId: clerkUserId,
+    title: fileName,
+    comment: `Created from conversion of ${fileName}`,
+    conversionId,
+    mjmlContent: metadata.mjmlSource
+  });
+
+  return {
+    conversion: data[0] as EmailConversion,
+    versionNumber: version.versionNumber
+  };
+}
+
+/**
+ * Gets a conversion owned by a user
+ * @param conversionId The conversion ID
+ * @param clerkUserId The Clerk user ID of the requester
+ * @returns The conversion, or null if it does not exist or belongs to another user
+ */
+export async function getConversion(conversionId: string, clerkUserId: string): Promise<EmailConversion | null> {
+  const user = await getOrCreateUser(clerkUserId);
+
+  const { data, error } = await supabase
+    .from('email_conversions')
+    .select('*')
+    .eq('id', conversionId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Conversion fetch error:', error);
+    throw new Error('Failed to fetch conversion');
+  }
+
+  if (!data || data.user_id !== user.id) {
+    return null;
+  }
+
+  return data as EmailConversion;
+}
+
+/**
+ * Merges fields into the metadata of a conversion owned by a user
+ * @param conversionId The conversion ID
+ * @param clerkUserId The Clerk user ID of the requester
+ * @param metadata The fields to set
+ * @returns The updated conversion, or null if it does not exist or belongs to another user
+ */
+export async function updateConversionMetadata(
+  conversionId: string,
+  clerkUserId: string,
+  metadata: Partial<ConversionResult['metadata']>
+): Promise<EmailConversion | null> {
+  const conversion = await getConversion(conversionId, clerkUserId);
+
+  if (!conversion) {
+    return null;
+  }
+
+  const { data, error } = await supabase
+    .from('email_conversions')
+    .update({
+      metadata: { ...conversion.metadata, ...metadata },
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', conversionId)
+    .select();
+
+  if (error) {
+    console.error('Conversion metadata update error:', error);
+    throw new Error('Failed to update conversion');
+  }
+
+  return data[0] as EmailConversion;
+}
+
+/**
+ * Deletes conversions with their versions and brand kits
+ * @param conversionIds The conversion IDs, which are also the email IDs of their versions and brand kits
+ */
+export async function deleteConversions(conversionIds: string[]): Promise<void> {
+  if (conversionIds.length === 0) {
+    return;
+  }
+
+  for (const table of ['email_versions', 'brand_kits', 'email_conversions']) {
+    const { error } = await supabase
+      .from(table)
+      .delete()
+      .in(table === 'email_conversions' ? 'id' : 'email_id', conversionIds);
+
+    if (error) {
+      console.error(`Conversion delete error (${table}):`, error);
+      throw new Error('Failed to delete conversions');
+    }
+  }
+}
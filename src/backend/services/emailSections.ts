@@ -0,0 +1,131 @@
+import * as cheerio from 'cheerio';
+import type { AnyNode } from 'domhandler';
+
+// Comments that wrap each section of a converted email, e.g.
+// <!-- emailgen:section id="section-2" --> ... <!-- /emailgen:section id="section-2" -->
+const SECTION_PATTERN = /<!--\s*emailgen:section\s+id="([\w-]+)"\s*-->([\s\S]*?)<!--\s*\/emailgen:section\s+id="\1"\s*-->/g;
+// Any comment that looks like a marker, so markers a model wrote with other quoting or IDs are removed too
+const SECTION_MARKER_PATTERN = /<!--\s*\/?\s*emailgen:section\b[\s\S]*?-->\s*/g;
+
+// Elements that never render content, so they are not sections
+const NON_CONTENT_TAGS = new Set(['style', 'script', 'meta', 'link', 'title']);
+
+/**
+ * A marked section of an email
+ * Offsets are character positions in the HTML; start and end include the markers
+ */
+export interface EmailSection {
+  id: string;
+  html: string; // The markup between the markers
+  start: number;
+  end: number;
+}
+
+/**
+ * Builds the opening and closing markers of a section
+ * @param id The section ID
+ */
+function sectionMarkers(id: string): { open: string; close: string } {
+  return {
+    open: `<!-- emailgen:section id="${id}" -->`,
+    close: `<!-- /emailgen:section id="${id}" -->`
+  };
+}
+
+/**
+ * Checks whether an element renders content: hidden preheaders and head-only tags do not
+ * @param $ The parsed document
+ * @param element The element
+ */
+function isContentElement($: cheerio.CheerioAPI, element: AnyNode): boolean {
+  if (element.type !== 'tag' || NON_CONTENT_TAGS.has(element.name.toLowerCase())) {
+    return false;
+  }
+
+  const style = ($(element).attr('style') || '').toLowerCase().replace(/\s+/g, '');
+  return !style.includes('display:none') && !style.includes('mso-hide:all');
+}
+
+/**
+ * Wraps each top-level block of an email in section markers
+ * Descends from the body through single-child wrappers (centering tables, containers)
+ * to the first element with several content children; each of those children is a section
+ * An email that already has markers is left alone, so the IDs stay stable
+ * @param $ The parsed document
+ */
+export function markEmailSections($: cheerio.CheerioAPI): void {
+  if ($.html().includes('emailgen:section')) {
+    return;
+  }
+
+  let container = $('body').first();
+  let children = container.children().toArray().filter(child => isContentElement($, child));
+
+  while (children.length === 1) {
+    container = $(children[0]);
+    children = container.children().toArray().filter(child => isContentElement($, child));
+  }
+
+  if (children.length < 2) {
+    return;
+  }
+
+  children.forEach((child, index) => {
+    const { open, close } = sectionMarkers(`section-${index + 1}`);
+    $(child).before(open).after(close);
+  });
+}
+
+/**
+ * Lists the marked sections of an email, in document order
+ * @param html The email HTML
+ */
+export function listEmailSections(html: string): EmailSection[] {
+  return Array.from(html.matchAll(SECTION_PATTERN)).map(match => ({
+    id: match[1],
+    html: match[2].trim(),
+    start: match.index!,
+    end: match.index! + match[0].length
+  }));
+}
+
+/**
+ * Finds the sections that overlap a range of the HTML, e.g. a selection in the editor
+ * An empty range (a cursor position) finds the section it is in
+ * @param html The email HTML
+ * @param from Start offset of the range
+ * @param to End offset of the range
+ */
+export function findSectionsInRange(html: string, from: number, to: number): EmailSection[] {
+  return listEmailSections(html).filter(section =>
+    from === to ? section.start <= from && from < section.end : section.start < to && from < section.end
+  );
+}
+
+/**
+ * Removes section markers from markup, e.g. from a section the model returned with its markers
+ * @param html The markup
+ */
+export function stripSectionMarkers(html: string): string {
+  return html.replace(SECTION_MARKER_PATTERN, '');
+}
+
+/**
+ * Replaces the markup of a section, keeping its markers and ID
+ * @param html The email HTML
+ * @param id The section ID
+ * @param sectionHtml The new markup of the section
+ * @throws Error if the email has no section with the ID
+ */
+export function replaceEmailSection(html: string, id: string, sectionHtml: string): string {
+  const section = listEmailSections(html).find(candidate => candidate.id === id);
+
+  if (!section) {
+    throw new Error(`Section not found: ${id}`);
+  }
+
+  const { open, close } = sectionMarkers(id);
+  const replacement = `${open}\n${stripSectionMarkers(sectionHtml).trim()}\n${close}`;
+
+  return html.slice(0, section.start) + replacement + html.slice(section.end);
+}
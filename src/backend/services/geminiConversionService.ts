@@ -1,52 +1,64 @@
-import { createClient } from '@supabase/supabase-js';
-import { GoogleGenerativeAI, HarmCategory, HarmBlockThreshold } from '@google/generative-ai';
-import { PDFDocument } from 'pdf-lib';
+import {
+  EnhancedGenerateContentResponse,
+  GoogleGenerativeAI,
+  HarmCategory,
+  HarmBlockThreshold,
+  GenerativeModel
+} from '@google/generative-ai';
+import {
+  ConversionProvider,
+  ConversionRequest,
+  ConversionResult,
+  DesignPage,
+  ProviderCapabilities,
+  ProviderStreamHooks,
+  RepairRequest,
+  SectionRequest,
+  TokenUsage,
+  buildConversionMetadata,
+  extractHtmlFromResponse,
+  getFileExtension
+} from './conversionProvider';
+import {
+  countSourcePages,
+  getDesignMimeType,
+  isSupportedDesignFile,
+  loadDesignPages
+} from './designSource';
+import { buildConversionPrompt, buildRepairPrompt, buildSectionPrompt } from './conversionPrompt';
+import { getPromptTemplate } from './promptTemplates';
 
-// Define interfaces for the service
-interface ConversionResult {
-  html: string;
-  css?: string;
-  metadata: {
-    originalFileName: string;
-    conversionTimestamp: string;
-    designType: string;
-    responsive: boolean;
-    userId?: string;
-    conversionId?: string;
-  };
-}
+const DEFAULT_GEMINI_MODEL = 'gemini-2.0-flash';
 
-// Define conversion options interface
-interface ConversionOptions {
-  makeResponsive: boolean;
-  optimizeForEmail: boolean;
-  targetPlatform: 'sfmc' | 'generic';
+/**
+ * Token counts the Gemini API reports with a response
+ */
+interface GeminiUsageMetadata {
+  promptTokenCount?: number;
+  candidatesTokenCount?: number;
+  totalTokenCount?: number;
 }
 
+type GeminiResponseWithUsage = EnhancedGenerateContentResponse & { usageMetadata?: GeminiUsageMetadata };
+
 /**
  * Gemini-powered service to convert design files to HTML
  */
-export class GeminiConversionService {
+export class GeminiConversionService implements ConversionProvider {
+  public readonly id = 'gemini' as const;
+  public readonly displayName = 'Google Gemini';
+  public readonly capabilities: ProviderCapabilities = {
+    streaming: true,
+    acceptsPdf: true,
+    acceptsImages: true,
+    requiresNetwork: true,
+    defaultModel: DEFAULT_GEMINI_MODEL,
+    models: [DEFAULT_GEMINI_MODEL, 'gemini-1.5-flash', 'gemini-1.5-pro']
+  };
   private gemini: GoogleGenerativeAI;
-  private supabase: ReturnType<typeof createClient>;
   
-  constructor(
-    geminiApiKey: string,
-    supabaseUrl: string,
-    supabaseKey: string
-  ) {
+  constructor(geminiApiKey: string) {
     this.gemini = new GoogleGenerativeAI(geminiApiKey);
-    this.supabase = createClient(supabaseUrl, supabaseKey);
-  }
-  
-  /**
-   * Converts a file to a base64 data URL
-   * @param arrayBuffer The array buffer of the file
-   * @param mimeType The MIME type of the file
-   */
-  private arrayBufferToDataURL(arrayBuffer: ArrayBuffer, mimeType: string): string {
-    const base64 = Buffer.from(arrayBuffer).toString('base64');
-    return `data:${mimeType};base64,${base64}`;
   }
   
   /**
@@ -54,274 +66,138 @@ export class GeminiConversionService {
    * @param fileExtension The file extension
    */
   private getMimeType(fileExtension: string): string {
-    // For Gemini, we need to use specific MIME types
-    // Only PDF files are accepted now
-    const mimeTypes: Record<string, string> = {
-      '.pdf': 'application/pdf'
-    };
-    
-    return mimeTypes[fileExtension] || 'application/octet-stream';
+    return getDesignMimeType(fileExtension);
   }
   
   /**
-   * Validates that the file is a PDF
+   * Validates that the file is a PDF, PNG, JPG, SVG or ZIP of frames
    * @param fileExtension The file extension
    */
   private validateFileType(fileExtension: string): boolean {
-    return fileExtension.toLowerCase() === '.pdf';
+    return isSupportedDesignFile(fileExtension);
   }
 
   /**
-   * Process a PDF file to extract pages
-   * @param pdfBuffer The PDF file as a buffer
-   * @returns An array of data URLs for each page
+   * Creates the Gemini model used for conversions, with temperature 0 for consistent results by default
+   * @param modelName The Gemini model to use
+   * @param temperature Sampling temperature, e.g. from ConversionOptions.temperature
    */
-  private async processPdfFile(pdfBuffer: ArrayBuffer): Promise<string[]> {
-    try {
-      console.log('Processing PDF to extract pages');
-      const pageDataUrls: string[] = [];
-      
-      // Extract pages with pdf-lib
-      const pdfDoc = await PDFDocument.load(pdfBuffer);
-      const pageCount = pdfDoc.getPageCount();
-      
-      console.log(`PDF has ${pageCount} pages`);
-      
-      // Extract each page
-      for (let i = 0; i < pageCount; i++) {
-        try {
-          // Create a new PDF document containing just this page
-          const singlePagePdf = await PDFDocument.create();
-          const [copiedPage] = await singlePagePdf.copyPages(pdfDoc, [i]);
-          singlePagePdf.addPage(copiedPage);
-          
-          // Save the single-page PDF as binary data
-          const singlePagePdfBytes = await singlePagePdf.save();
-          
-          // Convert to base64 data URL
-          const dataUrl = this.arrayBufferToDataURL(
-            new Uint8Array(singlePagePdfBytes).buffer, 
-            'application/pdf'
-          );
-          
-          pageDataUrls.push(dataUrl);
-          console.log(`Page ${i+1} processed successfully as PDF`);
-        } catch (error) {
-          console.error(`Error processing page ${i+1}:`, error);
-        }
-      }
-      
-      // If we couldn't extract any pages, use the full PDF
-      if (pageDataUrls.length === 0) {
-        console.log('Falling back to using entire PDF');
-        const dataUrl = this.arrayBufferToDataURL(pdfBuffer, 'application/pdf');
-        pageDataUrls.push(dataUrl);
-      }
-      
-      return pageDataUrls;
-    } catch (error) {
-      console.error('Error processing PDF:', error);
-      
-      // Fallback to just passing the entire PDF
-      console.log('Falling back to using entire PDF without processing');
-      const dataUrl = this.arrayBufferToDataURL(pdfBuffer, 'application/pdf');
-      return [dataUrl];
-    }
+  private getModel(modelName: string, temperature: number = 0): GenerativeModel {
+    return this.gemini.getGenerativeModel({
+      model: modelName,
+      generationConfig: {
+        temperature,
+        topP: 0.95,
+        topK: 0,
+        maxOutputTokens: 8192,
+      },
+      safetySettings: [
+        {
+          category: HarmCategory.HARM_CATEGORY_HARASSMENT,
+          threshold: HarmBlockThreshold.BLOCK_NONE,
+        },
+        {
+          category: HarmCategory.HARM_CATEGORY_HATE_SPEECH,
+          threshold: HarmBlockThreshold.BLOCK_NONE,
+        },
+        {
+          category: HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT,
+          threshold: HarmBlockThreshold.BLOCK_NONE,
+        },
+        {
+          category: HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT,
+          threshold: HarmBlockThreshold.BLOCK_NONE,
+        },
+      ],
+    });
   }
 
   /**
-   * Converts a design file to a format Gemini can process
-   * @param filePath Path to the file in Supabase storage or a temp path
-   * @param fileType Type of the design file
-   * @param fileBuffer Optional buffer when using simulated paths
+   * Creates the parts array with the text prompt followed by the page images
+   * @param prompt The text prompt
+   * @param pages The design pages, in order
    */
-  private async convertDesignToImage(
-    filePath: string, 
-    fileType: string,
-    fileBuffer?: ArrayBuffer
-  ): Promise<ArrayBuffer> {
-    console.log(`Processing design file: ${filePath} (${fileType})`);
-    
-    // Validate file type is PDF
-    if (!this.validateFileType(fileType)) {
-      throw new Error(`Unsupported file type: ${fileType}. Only PDF files are accepted.`);
-    }
+  private buildParts(prompt: string, pages: DesignPage[]): any[] {
+    const parts: any[] = [{ text: prompt }];
     
-    // If a buffer is directly provided, use it instead of downloading
-    if (fileBuffer) {
-      console.log('Using provided file buffer instead of downloading');
-      return fileBuffer;
+    for (const page of pages) {
+      parts.push({ 
+        inlineData: { 
+          mimeType: page.mimeType, 
+          data: page.data
+        }
+      });
     }
     
-    // Check if this is a simulated path (starts with 'temp/')
-    if (filePath.startsWith('temp/')) {
-      console.log('Using simulated path - in a production environment, this would download from Supabase');
-      throw new Error('No file buffer provided for simulated path. In development mode, please provide the file buffer directly.');
-    }
+    return parts;
+  }
+  
+  /**
+   * Renders the conversion prompt for the design pages
+   * @param request The conversion request
+   * @param pages The design pages, with their roles resolved
+   * @param hooks Receives the prompt template used
+   */
+  private buildPrompt(request: ConversionRequest, pages: DesignPage[], hooks: ProviderStreamHooks = {}): string {
+    const template = getPromptTemplate(request.promptTemplates, 'gemini-conversion');
+    hooks.onPrompt?.(template);
     
-    // Download the file from Supabase (only for real paths)
-    try {
-      const { data, error } = await this.supabase
-        .storage
-        .from('design-files')
-        .download(filePath);
-        
-      if (error) {
-        console.error('Error downloading file:', error);
-        throw new Error(`Failed to download file: ${error.message}`);
-      }
-      
-      const arrayBuffer = await data.arrayBuffer();
-      return arrayBuffer;
-    } catch (error) {
-      console.error('Error in file processing:', error);
-      throw new Error(`Failed to process file: ${error instanceof Error ? error.message : 'Unknown error'}`);
-    }
+    return buildConversionPrompt(template, pages, request.fileName, request.options, request.brandKit);
   }
   
   /**
-   * Generates HTML from the design image using Gemini
-   * @param imageBuffer The image buffer
-   * @param fileName Original file name
-   * @param fileType File extension
+   * Converts the usage metadata of a response to token usage
+   * @param usage The usage metadata
+   * @param model The model that generated the response
+   * @param startedAt When the request was sent, in milliseconds since the epoch
+   */
+  private toTokenUsage(usage: GeminiUsageMetadata, model: string, startedAt: number): TokenUsage {
+    return {
+      inputTokens: usage.promptTokenCount ?? 0,
+      outputTokens: usage.candidatesTokenCount ?? 0,
+      model,
+      latencyMs: Date.now() - startedAt
+    };
+  }
+  
+  /**
+   * Generates HTML from the design pages using Gemini
+   * @param request The conversion request
+   * @param pages The design pages, with their roles resolved
+   * @param modelName The Gemini model to use
+   * @param hooks Receives the prompt template used and the token usage
    */
   private async generateHtmlWithGemini(
-    imageBuffer: ArrayBuffer,
-    fileName: string,
-    fileType: string
+    request: ConversionRequest,
+    pages: DesignPage[],
+    modelName: string,
+    hooks: ProviderStreamHooks = {}
   ): Promise<string> {
-    console.log('Generating HTML with Gemini');
-    
-    // Get the appropriate MIME type for the file
-    const mimeType = this.getMimeType(fileType);
-    
-    // Process the PDF file to extract pages
-    const pdfPages = await this.processPdfFile(imageBuffer);
-    console.log(`Extracted ${pdfPages.length} pages from PDF`);
+    console.log(`Generating HTML with Gemini from ${pages.length} page images`);
     
-    // Create a prompt for Gemini with information about multiple pages
-    const prompt = `
-You are an expert email developer specializing in converting design files to responsive HTML emails.
-
-I have a PDF design file named "${fileName}" that contains a single page with both desktop and mobile versions of the email.
-
-This PDF has only one page that I'm providing to you:
-- This single page contains both the desktop and mobile versions of the email design.
-- The desktop version is typically wider and appears on the left or top portion of the PDF.
-- The mobile version is narrower and appears on the right or bottom portion of the PDF.
-
-IMPORTANT: You MUST implement the EXACT design shown in the PDF, including:
-- All text content exactly as it appears in the design
-- All images, buttons, and layout elements in their exact positions
-- The precise fonts, colors, and spacing shown
-- The exact layout structure for both desktop and mobile designs
-
-PAY SPECIAL ATTENTION TO:
-- Line spacing between paragraphs and elements (maintain exact spacing from design)
-- Padding and margins between elements (replicate exactly as shown)
-- Vertical positioning of all elements (maintain relative positions)
-- Position of elements relative to each other (maintain exact alignment)
-- Whitespace distribution throughout the email (preserve empty space as shown)
-- Text alignment and justification (match exactly as shown)
-
-DO NOT use placeholders like "desktop content" or "mobile content". 
-IMPLEMENT THE FULL HTML for the ACTUAL DESIGN shown in the PDF.
-
-Please convert this design into an HTML email that is:
-- Fully responsive for all devices
-- The desktop version should be used to create the desktop view of the email
-- The mobile version should be used to create the mobile view of the email using media queries
-- All responsive elements should transform exactly as shown in both designs
-- Compatible with email clients
-- Specifically optimized for Salesforce Marketing Cloud
-
-The HTML should:
-1. Use table-based layout for email client compatibility
-2. Include proper meta tags and media queries for responsiveness
-3. Use inline CSS for maximum email client compatibility
-4. Ensure font sizes, spacing, and layouts match both designs precisely
-5. Follow accessibility best practices
-6. Include commented sections to clearly identify desktop vs. mobile-specific code
-7. Use exact pixel values for spacing, margins, and line-heights to ensure precise positioning
-
-SPACING AND POSITIONING TECHNIQUE:
-- For vertical spacing between elements, use precise pixel values in margins or padding
-- For text line spacing, use line-height with exact pixel values (not relative values)
-- For positioning elements, use tables with fixed widths and heights where necessary
-- For maintaining whitespace, use transparent spacer elements with fixed dimensions when needed
-- For text blocks, set precise margins to maintain exact spacing between paragraphs
-
-Again, it is CRITICAL that you do not use placeholders - implement the actual design content exactly as shown in the PDF.
-
-Please provide only the complete HTML code without any explanations.
-`;
+    const prompt = this.buildPrompt(request, pages, hooks);
 
     try {
-      // Use Gemini Flash model with temperature 0 for consistent results
-      const model = this.gemini.getGenerativeModel({
-        model: "gemini-2.0-flash",
-        generationConfig: {
-          temperature: 0,
-          topP: 0.95,
-          topK: 0,
-          maxOutputTokens: 8192,
-        },
-        safetySettings: [
-          {
-            category: HarmCategory.HARM_CATEGORY_HARASSMENT,
-            threshold: HarmBlockThreshold.BLOCK_NONE,
-          },
-          {
-            category: HarmCategory.HARM_CATEGORY_HATE_SPEECH,
-            threshold: HarmBlockThreshold.BLOCK_NONE,
-          },
-          {
-            category: HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT,
-            threshold: HarmBlockThreshold.BLOCK_NONE,
-          },
-          {
-            category: HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT,
-            threshold: HarmBlockThreshold.BLOCK_NONE,
-          },
-        ],
-      });
-      
-      // Create parts array with text prompt and PDF pages
-      const parts: any[] = [{ text: prompt }];
-      
-      // Add all PDF pages to the parts array
-      for (let i = 0; i < pdfPages.length; i++) {
-        const pageDataUrl = pdfPages[i];
-        const isImageData = pageDataUrl.startsWith('data:image/');
-        
-        parts.push({ 
-          inlineData: { 
-            mimeType: isImageData ? 'image/png' : 'application/pdf', 
-            data: pageDataUrl.split(',')[1]
-          }
-        });
-      }
+      const model = this.getModel(modelName, request.options.temperature);
       
       // Send the multipart content to Gemini
+      const startedAt = Date.now();
       const result = await model.generateContent({
         contents: [
           {
             role: "user",
-            parts: parts
+            parts: this.buildParts(prompt, pages)
           }
         ],
       });
       
-      const response = result.response;
-      const htmlContent = response.text();
-      
-      // Extract HTML code from the response
-      // Sometimes Gemini might wrap the HTML in markdown code blocks
-      const htmlMatch = htmlContent.match(/```html\s*([\s\S]*?)\s*```/) || 
-                        htmlContent.match(/```\s*([\s\S]*?)\s*```/) ||
-                        [null, htmlContent];
+      // The API reports usage metadata, but this SDK version does not type it
+      const usage = (result.response as GeminiResponseWithUsage).usageMetadata;
+      if (usage) {
+        hooks.onUsage?.(this.toTokenUsage(usage, modelName, startedAt));
+      }
       
-      return htmlMatch[1] || htmlContent;
+      return extractHtmlFromResponse(result.response.text());
     } catch (error) {
       console.error('Error generating HTML with Gemini:', error);
       throw new Error(`Failed to generate HTML with Gemini: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -330,47 +206,37 @@ Please provide only the complete HTML code without any explanations.
   
   /**
    * Converts a design file to HTML
-   * @param filePath Path to the file in Supabase storage
-   * @param fileName Original file name
-   * @param fileBuffer Optional array buffer of the file (for simulated paths)
+   * @param request The conversion request
+   * @param hooks Receives the prompt template used and the token usage
    */
-  public async convertDesignToHtml(
-    filePath: string,
-    fileName: string,
-    fileBuffer?: ArrayBuffer
-  ): Promise<ConversionResult> {
+  public async convert(request: ConversionRequest, hooks: ProviderStreamHooks = {}): Promise<ConversionResult> {
+    const { fileName, options } = request;
+    
     try {
       console.log(`Converting design file: ${fileName}`);
       
       // Get the file extension
-      const fileExtension = '.' + fileName.split('.').pop()?.toLowerCase();
+      const fileExtension = getFileExtension(fileName);
       
       // Validate file type
       if (!this.validateFileType(fileExtension)) {
-        throw new Error(`Unsupported file type: ${fileExtension}. Only PDF files are accepted.`);
+        throw new Error(`Unsupported file type: ${fileExtension} (${this.getMimeType(fileExtension)}). Only PDF, PNG, JPG, SVG and ZIP files are accepted.`);
       }
       
-      // Convert the design file to an image/buffer
-      const imageBuffer = await this.convertDesignToImage(filePath, fileExtension, fileBuffer);
+      // Rasterize the design file into page images and apply the page roles
+      const pages = await loadDesignPages(request);
+      
+      const modelName = options.model || this.capabilities.defaultModel;
     
       // Generate HTML using Gemini
-      const html = await this.generateHtmlWithGemini(
-        imageBuffer,
-        fileName,
-        fileExtension
-      );
+      const html = await this.generateHtmlWithGemini(request, pages, modelName, hooks);
       
       console.log('HTML generated successfully, length:', html.length);
       
       // Return the conversion result
       return {
         html,
-        metadata: {
-          originalFileName: fileName,
-          conversionTimestamp: new Date().toISOString(),
-          designType: fileExtension.replace('.', '').toUpperCase(),
-          responsive: true
-        }
+        metadata: buildConversionMetadata(fileName, options, this.id, modelName)
       };
     } catch (error) {
       console.error('Error converting design to HTML:', error);
@@ -379,259 +245,143 @@ Please provide only the complete HTML code without any explanations.
   }
   
   /**
-   * Streams the HTML generation process
-   * @param filePath Path to the file in Supabase storage
-   * @param fileName Original file name
-   * @param options Conversion options or file buffer for backward compatibility
+   * Yields the text of each streamed response and reports the token usage of the last one
+   * @param responses The streamed Gemini responses
+   * @param model The model generating the stream
+   * @param startedAt When the request was sent, in milliseconds since the epoch
+   * @param hooks Receives the token usage
    */
-  public async streamConversion(
-    filePath: string,
-    fileName: string,
-    options?: ConversionOptions | ArrayBuffer
-  ): Promise<Response> {
-    try {
-      console.log(`Streaming conversion for: ${fileName}`);
-      
-      let fileBuffer: ArrayBuffer | undefined;
-      
-      // Handle backward compatibility - check if options is actually an ArrayBuffer
-      if (options instanceof ArrayBuffer) {
-        fileBuffer = options;
-        options = {
-          makeResponsive: true,
-          optimizeForEmail: true,
-          targetPlatform: 'sfmc'
-        };
-      }
-      
-      // Get the file extension
-      const fileExtension = '.' + fileName.split('.').pop()?.toLowerCase();
-      
-      // Validate file type
-      if (!this.validateFileType(fileExtension)) {
-        throw new Error(`Unsupported file type: ${fileExtension}. Only PDF files are accepted.`);
-      }
-      
-      // Convert the design file to an image buffer
-      const imageBuffer = await this.convertDesignToImage(filePath, fileExtension, fileBuffer);
-      
-      // Process the PDF file
-      const pdfPages = await this.processPdfFile(imageBuffer);
-      console.log(`Extracted ${pdfPages.length} pages from PDF for streaming`);
-      
-      // Create a prompt using the options
-      const prompt = `
-You are an expert email developer specializing in converting design files to responsive HTML emails.
-
-I have a multi-page PDF design file named "${fileName}" that contains separate pages for desktop and mobile versions of the email.
-
-This PDF has ${pdfPages.length} pages that I'm providing to you:
-- Page 1 contains the desktop version of the email design
-${pdfPages.length >= 2 ? '- Page 2 contains the mobile version of the email design' : ''}
-${pdfPages.length > 2 ? `- The remaining ${pdfPages.length - 2} pages contain additional design elements or content` : ''}
+  private async *streamText(
+    responses: AsyncIterable<EnhancedGenerateContentResponse>,
+    model: string,
+    startedAt: number,
+    hooks: ProviderStreamHooks
+  ): AsyncGenerator<string> {
+    let usage: GeminiUsageMetadata | undefined;
 
-IMPORTANT: You MUST implement BOTH the desktop AND mobile versions shown in the different pages of the PDF:
-- Analyze each page separately for its specific purpose (desktop or mobile)
-- Extract all content, styling, and layout from each page precisely
-- Ensure the responsive design switches correctly between desktop and mobile layouts
-- Do not mix elements between pages unless they are clearly the same element in different views
-
-DO NOT use placeholders like "desktop content" or "mobile content". 
-IMPLEMENT THE FULL HTML for the ACTUAL DESIGNS shown across all pages of the PDF.
-
-Please convert these designs into ${options?.optimizeForEmail ? 'an HTML email' : 'HTML'} that is:
-${options?.makeResponsive ? '- Fully responsive for all devices' : '- Optimized for desktop viewing'}
-${options?.makeResponsive ? '- The desktop version in page 1 should be used to create the desktop view of the email' : ''}
-${options?.makeResponsive ? '- The mobile version in page 2 should be used to create the mobile view of the email using media queries' : ''}
-${options?.makeResponsive ? '- All responsive elements should transform exactly as shown in the desktop vs mobile designs' : ''}
-${options?.optimizeForEmail ? '- Compatible with email clients' : '- Compatible with web browsers'}
-${options?.targetPlatform === 'sfmc' ? '- Specifically optimized for Salesforce Marketing Cloud' : '- Using standard HTML practices'}
-
-The HTML should:
-1. Use table-based layout for email client compatibility
-2. Include proper meta tags and media queries for responsiveness that accurately reflect the mobile design in the PDF
-3. Use inline CSS for maximum email client compatibility
-4. Ensure font sizes, spacing, and layouts match both desktop and mobile designs precisely
-5. Follow accessibility best practices
-6. Include commented sections to clearly identify desktop vs. mobile-specific code
+    for await (const chunk of responses) {
+      // The API sends usage metadata with the stream, but this SDK version does not type it
+      usage = (chunk as GeminiResponseWithUsage).usageMetadata ?? usage;
+      yield chunk.text();
+    }
 
-Again, it is CRITICAL that you do not use placeholders - implement the actual design content exactly as shown across all pages of the PDF.
+    if (usage) {
+      hooks.onUsage?.(this.toTokenUsage(usage, model, startedAt));
+    }
+  }
 
-Please provide only the complete HTML code without any explanations.
-`;
+  /**
+   * Streams the HTML generation process
+   * @param request The conversion request
+   * @param hooks Receives the prompt template used and the token usage once the stream ends
+   */
+  public async *stream(request: ConversionRequest, hooks: ProviderStreamHooks = {}): AsyncGenerator<string> {
+    const { fileName, options } = request;
+    
+    console.log(`Streaming conversion for: ${fileName}`);
+    
+    // Get the file extension
+    const fileExtension = getFileExtension(fileName);
+    
+    // Validate file type
+    if (!this.validateFileType(fileExtension)) {
+      throw new Error(`Unsupported file type: ${fileExtension} (${this.getMimeType(fileExtension)}). Only PDF, PNG, JPG, SVG and ZIP files are accepted.`);
+    }
+    
+    // Rasterize the design file into page images and apply the page roles
+    const pages = await loadDesignPages(request);
+    const pageCount = countSourcePages(pages);
+    console.log(`Streaming ${pageCount} pages (${pages.length} images) to Gemini`);
+    
+    // Create a prompt using the options and page roles
+    const prompt = this.buildPrompt(request, pages, hooks);
 
-      // Setup Gemini model with streaming and temperature 0
-      const model = this.gemini.getGenerativeModel({
-        model: "gemini-2.0-flash",
-        generationConfig: {
-          temperature: 0,
-          topP: 0.95,
-          topK: 0,
-          maxOutputTokens: 8192,
-        },
-        safetySettings: [
-          {
-            category: HarmCategory.HARM_CATEGORY_HARASSMENT,
-            threshold: HarmBlockThreshold.BLOCK_NONE,
-          },
-          {
-            category: HarmCategory.HARM_CATEGORY_HATE_SPEECH,
-            threshold: HarmBlockThreshold.BLOCK_NONE,
-          },
-          {
-            category: HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT,
-            threshold: HarmBlockThreshold.BLOCK_NONE,
-          },
-          {
-            category: HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT,
-            threshold: HarmBlockThreshold.BLOCK_NONE,
-          },
-        ],
-      });
-      
-      // Create a streaming response
-      const { readable, writable } = new TransformStream();
-      const writer = writable.getWriter();
-      
-      // Create parts array with text prompt and PDF pages
-      const parts: any[] = [{ text: prompt }];
-      
-      // Add all PDF pages to the parts array
-      for (let i = 0; i < pdfPages.length; i++) {
-        const pageDataUrl = pdfPages[i];
-        const isImageData = pageDataUrl.startsWith('data:image/');
-        
-        parts.push({ 
-          inlineData: { 
-            mimeType: isImageData ? 'image/png' : 'application/pdf', 
-            data: pageDataUrl.split(',')[1]
-          }
-        });
-      }
-      
-      // Start the streaming process
-      (async () => {
-        try {
-          const result = await model.generateContentStream({
-            contents: [
-              {
-                role: "user",
-                parts: parts
-              }
-            ],
-          });
-          
-          let isFirstChunk = true;
-          let htmlContent = '';
-          
-          // Process the stream
-          for await (const chunk of result.stream) {
-            const chunkText = chunk.text();
-            htmlContent += chunkText;
-            
-            // Detect if this is HTML content
-            if (isFirstChunk) {
-              isFirstChunk = false;
-              // Write the initial JSON object with status
-              await writer.write(
-                new TextEncoder().encode(
-                  JSON.stringify({
-                    status: 'processing',
-                    message: 'Converting design to HTML...'
-                  }) + '\n'
-                )
-              );
-            }
-            
-            // Send the chunk to the client
-            await writer.write(
-              new TextEncoder().encode(
-                JSON.stringify({
-                  status: 'chunk',
-                  data: chunkText
-                }) + '\n'
-              )
-            );
-          }
-          
-          // Clean up the HTML - extract from markdown if needed
-          const htmlMatch = htmlContent.match(/```html\s*([\s\S]*?)\s*```/) || 
-                            htmlContent.match(/```\s*([\s\S]*?)\s*```/) ||
-                            [null, htmlContent];
-          
-          const cleanedHtml = htmlMatch[1] || htmlContent;
-          
-          // Complete the response
-          await writer.write(
-            new TextEncoder().encode(
-              JSON.stringify({
-                status: 'complete',
-                message: 'Conversion completed',
-                html: cleanedHtml,
-                metadata: {
-                  originalFileName: fileName,
-                  conversionTimestamp: new Date().toISOString(),
-                  designType: fileExtension.replace('.', '').toUpperCase(),
-                  responsive: options?.makeResponsive ?? true
-                }
-              }) + '\n'
-            )
-          );
-          
-          await writer.close();
-        } catch (error) {
-          console.error('Streaming error:', error);
-          await writer.write(
-            new TextEncoder().encode(
-              JSON.stringify({
-                status: 'error',
-                error: `Conversion failed: ${error instanceof Error ? error.message : 'Unknown error'}`
-              }) + '\n'
-            )
-          );
-          await writer.close();
+    // Setup Gemini model with streaming
+    const modelName = options.model || this.capabilities.defaultModel;
+    const model = this.getModel(modelName, options.temperature);
+    
+    const startedAt = Date.now();
+    const result = await model.generateContentStream({
+      contents: [
+        {
+          role: "user",
+          parts: this.buildParts(prompt, pages)
         }
-      })();
-      
-      return new Response(readable, {
-        headers: {
-          'Content-Type': 'text/event-stream',
-          'Cache-Control': 'no-cache',
-          'Connection': 'keep-alive',
+      ],
+    });
+    
+    yield* this.streamText(result.stream, modelName, startedAt, hooks);
+  }
+  
+  /**
+   * Streams a revised HTML document that fixes the given QA failures
+   * @param request The repair request
+   * @param hooks Receives the prompt template used and the token usage once the stream ends
+   */
+  public async *repair(request: RepairRequest, hooks: ProviderStreamHooks = {}): AsyncGenerator<string> {
+    const { conversion, html, issues, round } = request;
+    
+    console.log(`Repair round ${round} for ${conversion.fileName}: ${issues.length} failing checks`);
+    
+    const template = getPromptTemplate(conversion.promptTemplates, 'repair');
+    hooks.onPrompt?.(template);
+    
+    const modelName = conversion.options.model || this.capabilities.defaultModel;
+    const model = this.getModel(modelName);
+    
+    const startedAt = Date.now();
+    const result = await model.generateContentStream({
+      contents: [
+        {
+          role: "user",
+          parts: [{ text: buildRepairPrompt(template, html, issues, conversion.options, conversion.brandKit) }]
         }
-      });
-    } catch (error) {
-      console.error('Stream setup error:', error);
-      return new Response(
-        JSON.stringify({
-          status: 'error',
-          error: `Failed to set up streaming: ${error instanceof Error ? error.message : 'Unknown error'}`
-        }),
+      ],
+    });
+    
+    yield* this.streamText(result.stream, modelName, startedAt, hooks);
+  }
+  
+  /**
+   * Streams new markup for one section of a converted email
+   * @param request The section request
+   * @param hooks Receives the prompt template used and the token usage once the stream ends
+   */
+  public async *regenerateSection(request: SectionRequest, hooks: ProviderStreamHooks = {}): AsyncGenerator<string> {
+    const { conversion, sectionId, referenceImage } = request;
+    
+    console.log(`Regenerating ${sectionId} of ${conversion.fileName}`);
+    
+    const template = getPromptTemplate(conversion.promptTemplates, 'section');
+    hooks.onPrompt?.(template);
+    
+    const modelName = conversion.options.model || this.capabilities.defaultModel;
+    const model = this.getModel(modelName);
+    
+    const startedAt = Date.now();
+    const result = await model.generateContentStream({
+      contents: [
         {
-          status: 500,
-          headers: { 'Content-Type': 'application/json' }
+          role: "user",
+          parts: this.buildParts(buildSectionPrompt(template, request), referenceImage ? [referenceImage] : [])
         }
-      );
-    }
+      ],
+    });
+    
+    yield* this.streamText(result.stream, modelName, startedAt, hooks);
   }
 }
 
 // Factory function to create the service
 export function createGeminiConversionService(): GeminiConversionService {
   const geminiApiKey = process.env.GEMINI_API_KEY || '';
-  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || '';
-  const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY || '';
   
   if (!geminiApiKey) {
     console.warn('GEMINI_API_KEY is not set. AI conversion will not work properly.');
   }
   
-  if (!supabaseUrl || !supabaseKey) {
-    console.warn('Supabase configuration is incomplete. File storage will not work properly.');
-  }
-  
-  return new GeminiConversionService(geminiApiKey, supabaseUrl, supabaseKey);
+  return new GeminiConversionService(geminiApiKey);
 }
 
 // Default export
-export default createGeminiConversionService;
\ No newline at end of file
+export default createGeminiConversionService;
@@ -0,0 +1,154 @@
+import * as cheerio from 'cheerio';
+import juice from 'juice';
+import { DARK_MODE_STYLE_ID } from './darkMode';
+import { markEmailSections } from './emailSections';
+
+// Parse with htmlparser2 so the markup is not rewritten, e.g. no implicit <tbody>
+const PARSER_OPTIONS = { xml: { xmlMode: false, decodeEntities: false } };
+
+// Meta tags every converted email needs, keyed by the selector that detects them
+const REQUIRED_META_TAGS: { selector: string; tag: string }[] = [
+  {
+    selector: 'meta[charset], meta[http-equiv="Content-Type" i]',
+    tag: '<meta charset="utf-8">'
+  },
+  {
+    selector: 'meta[name="viewport" i]',
+    tag: '<meta name="viewport" content="width=device-width, initial-scale=1.0">'
+  },
+  {
+    selector: 'meta[http-equiv="X-UA-Compatible" i]',
+    tag: '<meta http-equiv="X-UA-Compatible" content="IE=edge">'
+  }
+];
+
+/**
+ * Wraps the markup in <html>, <head> and <body> where the model left them out
+ * @param $ The parsed document
+ */
+function ensureDocumentStructure($: cheerio.CheerioAPI): cheerio.CheerioAPI {
+  if ($('html').length === 0) {
+    return cheerio.load(`<html><head></head><body>${$.html()}</body></html>`, PARSER_OPTIONS);
+  }
+
+  const html = $('html').first();
+
+  if ($('body').length === 0) {
+    html.contents().not('head').wrapAll('<body></body>');
+  }
+
+  if ($('head').length === 0) {
+    html.prepend('<head></head>');
+  }
+
+  return $;
+}
+
+/**
+ * Adds the charset, viewport and X-UA-Compatible meta tags when missing
+ * @param $ The parsed document
+ */
+function ensureHeadMetaTags($: cheerio.CheerioAPI): void {
+  const head = $('head').first();
+
+  // Prepend in reverse so the tags end up in the listed order
+  for (const { selector, tag } of [...REQUIRED_META_TAGS].reverse()) {
+    if ($(selector).length === 0) {
+      head.prepend(tag);
+    }
+  }
+}
+
+/**
+ * Removes scripts, inline event handlers and javascript: links, which email clients strip or block
+ * @param $ The parsed document
+ */
+function stripScripts($: cheerio.CheerioAPI): void {
+  $('script').remove();
+
+  $('*').each((_, element) => {
+    if (element.type !== 'tag') {
+      return;
+    }
+
+    for (const name of Object.keys(element.attribs)) {
+      if (name.toLowerCase().startsWith('on')) {
+        $(element).removeAttr(name);
+      }
+    }
+  });
+
+  $('[href]').each((_, element) => {
+    if (/^\s*javascript:/i.test($(element).attr('href') || '')) {
+      $(element).attr('href', '#');
+    }
+  });
+}
+
+/**
+ * Marks layout tables as presentational for screen readers
+ * Tables with header cells or a caption are data tables and are left alone
+ * @param $ The parsed document
+ */
+function markLayoutTables($: cheerio.CheerioAPI): void {
+  $('table:not([role])').each((_, element) => {
+    const table = $(element);
+    if (table.find('th, caption').length === 0) {
+      table.attr('role', 'presentation');
+    }
+  });
+}
+
+/**
+ * Moves <style> blocks from the body into the head, where media queries belong
+ * @param $ The parsed document
+ */
+function moveStylesToHead($: cheerio.CheerioAPI): void {
+  $('body style').appendTo($('head').first());
+}
+
+/**
+ * Keeps the generated dark mode styles out of inlining, so their attribute selectors
+ * and :root rule survive as written
+ * @param $ The parsed document
+ */
+function preserveDarkModeStyles($: cheerio.CheerioAPI): void {
+  $(`style#${DARK_MODE_STYLE_ID}`).attr('data-embed', '');
+}
+
+/**
+ * Normalizes model-generated email HTML so every conversion starts from the same baseline
+ * - guarantees a doctype and the <html>, <head> and <body> elements
+ * - adds the charset, viewport and X-UA-Compatible meta tags when missing
+ * - strips scripts, inline event handlers and javascript: links
+ * - adds role="presentation" to layout tables
+ * - inlines <style> rules into style attributes, keeping media queries and dark mode styles in the head
+ * - wraps each top-level block in section markers, so sections can be regenerated on their own
+ * The output is deterministic: normalizing the same HTML twice gives the same result
+ * @param html The HTML generated by the model
+ * @returns The normalized HTML
+ */
+export function normalizeEmailHtml(html: string): string {
+  const doctypeMatch = html.match(/^\s*(<!doctype[^>]*>)/i);
+  const doctype = doctypeMatch ? doctypeMatch[1] : '<!DOCTYPE html>';
+  const markup = doctypeMatch ? html.slice(doctypeMatch[0].length) : html;
+
+  const $ = ensureDocumentStructure(cheerio.load(markup.trim(), PARSER_OPTIONS));
+
+  ensureHeadMetaTags($);
+  stripScripts($);
+  markLayoutTables($);
+  moveStylesToHead($);
+  preserveDarkModeStyles($);
+  markEmailSections($);
+
+  const inlined = juice($.html(), {
+    preserveMediaQueries: true,
+    preserveFontFaces: true,
+    preserveImportant: true,
+    removeStyleTags: true,
+    insertPreservedExtraCss: true
+  });
+
+  return `${doctype}\n${inlined.trim()}\n`;
+}
@@ -0,0 +1,143 @@
+import {
+  ConversionOptions,
+  ConversionProvider,
+  ConversionRequest,
+  ConversionResult,
+  ProviderCapabilities,
+  RepairRequest,
+  SectionRequest,
+  buildConversionMetadata
+} from './conversionProvider';
+
+const LOCAL_MODEL = 'local-template-v1';
+
+// Size of each streamed chunk, small enough to exercise client-side stream parsing
+const STREAM_CHUNK_SIZE = 256;
+
+/**
+ * Deterministic conversion service that never calls a model
+ * Produces the same HTML for the same file name and options, so conversions
+ * can be exercised offline and compared against the vendor providers
+ */
+export class LocalConversionService implements ConversionProvider {
+  public readonly id = 'local' as const;
+  public readonly displayName = 'Local template (offline)';
+  public readonly capabilities: ProviderCapabilities = {
+    streaming: true,
+    acceptsPdf: true,
+    acceptsImages: true,
+    requiresNetwork: false,
+    defaultModel: LOCAL_MODEL,
+    models: [LOCAL_MODEL]
+  };
+
+  /**
+   * Escapes text for use inside HTML
+   * @param text The text to escape
+   */
+  private escapeHtml(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;');
+  }
+
+  /**
+   * Renders the template email for a design file
+   * @param fileName Original file name
+   * @param options Conversion options
+   */
+  private renderTemplate(fileName: string, options: ConversionOptions): string {
+    const title = this.escapeHtml(fileName.replace(/\.[^.]+$/, ''));
+    const mediaQuery = options.makeResponsive
+      ? `
+    @media only screen and (max-width: 600px) {
+      .email-container { width: 100% !important; }
+      .mobile-padding { padding: 16px !important; }
+    }`
+      : '';
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <meta http-equiv="X-UA-Compatible" content="IE=edge">
+  <title>${title}</title>
+  <style>${mediaQuery}
+  </style>
+</head>
+<body style="margin: 0; padding: 0; background-color: #f4f4f4;">
+  <table role="presentation" width="100%" cellpadding="0" cellspacing="0" border="0" style="background-color: #f4f4f4;">
+    <tr>
+      <td align="center" style="padding: 24px 0;">
+        <!-- Main container -->
+        <table role="presentation" class="email-container" width="600" cellpadding="0" cellspacing="0" border="0" style="width: 600px; background-color: #ffffff;">
+          <tr>
+            <td class="mobile-padding" style="padding: 32px; font-family: Arial, Helvetica, sans-serif; font-size: 16px; line-height: 24px; color: #333333;">
+              <h1 style="margin: 0 0 16px 0; font-size: 24px; line-height: 32px;">${title}</h1>
+              <p style="margin: 0;">Generated offline from ${this.escapeHtml(fileName)} for ${options.targetPlatform === 'sfmc' ? 'Salesforce Marketing Cloud' : 'generic email clients'}.</p>
+            </td>
+          </tr>
+        </table>
+      </td>
+    </tr>
+  </table>
+</body>
+</html>`;
+  }
+
+  /**
+   * Converts a design file to HTML
+   * @param request The conversion request
+   */
+  public async convert(request: ConversionRequest): Promise<ConversionResult> {
+    const { fileName, options } = request;
+
+    return {
+      html: this.renderTemplate(fileName, options),
+      metadata: buildConversionMetadata(fileName, options, this.id, LOCAL_MODEL)
+    };
+  }
+
+  /**
+   * Streams the template HTML in fixed-size chunks
+   * @param request The conversion request
+   */
+  public async *stream(request: ConversionRequest): AsyncGenerator<string> {
+    const html = this.renderTemplate(request.fileName, request.options);
+
+    for (let i = 0; i < html.length; i += STREAM_CHUNK_SIZE) {
+      yield html.slice(i, i + STREAM_CHUNK_SIZE);
+    }
+  }
+
+  /**
+   * Returns the HTML unchanged, as the template cannot be repaired without a model
+   * @param request The repair request
+   */
+  public async *repair(request: RepairRequest): AsyncGenerator<string> {
+    for (let i = 0; i < request.html.length; i += STREAM_CHUNK_SIZE) {
+      yield request.html.slice(i, i + STREAM_CHUNK_SIZE);
+    }
+  }
+  
+  /**
+   * Returns the section unchanged, as the template cannot regenerate it without a model
+   * @param request The section request
+   */
+  public async *regenerateSection(request: SectionRequest): AsyncGenerator<string> {
+    for (let i = 0; i < request.sectionHtml.length; i += STREAM_CHUNK_SIZE) {
+      yield request.sectionHtml.slice(i, i + STREAM_CHUNK_SIZE);
+    }
+  }
+}
+
+// Factory function to create the service
+export function createLocalConversionService(): LocalConversionService {
+  return new LocalConversionService();
+}
+
+// Default export
+export default createLocalConversionService;
@@ -0,0 +1,532 @@
+import * as cheerio from 'cheerio';
+import type { AnyNode, ChildNode, Comment, Element, Text } from 'domhandler';
+import mjml2html from 'mjml';
+import { CSS_COLOR_PATTERN, parseStyle } from './cssColors';
+import { markEmailSections } from './emailSections';
+
+// Parse with htmlparser2 so the markup is not rewritten, e.g. no implicit <tbody>
+const PARSER_OPTIONS = { xml: { xmlMode: false, decodeEntities: false } };
+
+const DEFAULT_BODY_WIDTH = 600;
+const MAX_BODY_WIDTH = 800;
+
+// Opening marker of a section, see emailSections
+const SECTION_OPEN_PATTERN = /^\s*emailgen:section\s+id="([\w-]+)"\s*$/;
+
+// Wrappers that are descended through to reach the content blocks of a section
+const CONTAINER_TAGS = new Set(['table', 'tbody', 'thead', 'tfoot', 'tr', 'td', 'th', 'div', 'center', 'section', 'header', 'footer', 'article', 'main']);
+
+// Containers that hold content themselves, and can be text blocks or spacers
+const CELL_TAGS = new Set(['td', 'th', 'div', 'center', 'section', 'header', 'footer', 'article', 'main']);
+
+// Block elements that become the content of an mj-text
+const TEXT_TAGS = new Set(['p', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'ul', 'ol', 'blockquote', 'pre']);
+
+// Inline elements; a cell with only these and text is a single text block
+const INLINE_TAGS = new Set(['a', 'span', 'strong', 'b', 'em', 'i', 'u', 's', 'strike', 'br', 'font', 'small', 'sup', 'sub', 'code']);
+
+// Inherited CSS text properties and the mj-text attributes they map to
+const TEXT_STYLE_ATTRIBUTES: Record<string, string> = {
+  'font-family': 'font-family',
+  'font-size': 'font-size',
+  'font-weight': 'font-weight',
+  'color': 'color',
+  'line-height': 'line-height',
+  'text-align': 'align'
+};
+
+// Head elements the MJML skeleton already provides
+const SKELETON_HEAD_SELECTOR = 'title, meta[charset], meta[name="viewport"], meta[http-equiv]';
+
+/**
+ * Text styles inherited from the cells around a block, as mj-text attributes
+ */
+type TextAttributes = Record<string, string>;
+
+/**
+ * A problem MJML reported while compiling
+ */
+export interface MjmlCompileError {
+  line: number;
+  message: string;
+}
+
+/**
+ * Compiled MJML: the email HTML and the problems found in the source
+ */
+export interface MjmlCompileResult {
+  html: string;
+  errors: MjmlCompileError[];
+}
+
+/**
+ * Escapes a value for a double-quoted MJML attribute
+ * @param value The attribute value
+ */
+function escapeAttribute(value: string): string {
+  return value.replace(/"/g, '&quot;');
+}
+
+/**
+ * Formats MJML attributes, skipping the empty ones
+ * @param attributes The attribute names and values
+ */
+function formatAttributes(attributes: Record<string, string | undefined>): string {
+  return Object.entries(attributes)
+    .filter(([, value]) => value)
+    .map(([name, value]) => ` ${name}="${escapeAttribute(value!.trim())}"`)
+    .join('');
+}
+
+/**
+ * Reads a pixel length such as "600px" or "600"
+ * @param value The CSS or attribute value
+ * @returns The length, or null for other units and missing values
+ */
+function parsePixels(value: string | undefined): number | null {
+  const match = value?.trim().match(/^(\d+(?:\.\d+)?)(px)?$/i);
+  return match ? parseFloat(match[1]) : null;
+}
+
+/**
+ * Lists the child nodes of an element that render, skipping comments (including
+ * Outlook conditional comments, which MJML generates itself) and whitespace
+ * @param element The element
+ */
+function contentNodes(element: Element): (Element | Text)[] {
+  return element.children.filter((node): node is Element | Text =>
+    node.type === 'tag' || (node.type === 'text' && node.data.replace(/&nbsp;|&#160;/gi, '').trim() !== '')
+  );
+}
+
+/**
+ * Reads the background color of an element from its style or bgcolor attribute
+ * @param $element The element
+ */
+function readBackgroundColor($element: cheerio.Cheerio<Element>): string | undefined {
+  const style = parseStyle($element.attr('style'));
+  const background = style['background-color'] || style['background'] || '';
+  return background.match(CSS_COLOR_PATTERN)?.[0] || $element.attr('bgcolor');
+}
+
+/**
+ * Adds the text styles of an element to the ones it inherits
+ * @param inherited The text attributes of the ancestors
+ * @param $element The element
+ */
+function inheritTextAttributes(inherited: TextAttributes, $element: cheerio.Cheerio<Element>): TextAttributes {
+  const style = parseStyle($element.attr('style'));
+  const attributes = { ...inherited };
+
+  for (const [property, attribute] of Object.entries(TEXT_STYLE_ATTRIBUTES)) {
+    if (style[property]) {
+      attributes[attribute] = style[property];
+    }
+  }
+
+  // An align attribute on a cell around a single table centers the table, not text
+  const align = $element.attr('align');
+  const alignsTable = $element.children().length === 1 && $element.children().first().is('table');
+  if (!style['text-align'] && !alignsTable && align && /^(left|center|right)$/i.test(align)) {
+    attributes['align'] = align.toLowerCase();
+  }
+
+  return attributes;
+}
+
+/**
+ * Checks whether a cell holds only text and inline elements, without images
+ * @param $ The parsed document
+ * @param element The cell
+ */
+function isTextCell($: cheerio.CheerioAPI, element: Element): boolean {
+  const nodes = contentNodes(element);
+  return nodes.length > 0 &&
+    nodes.every(node => node.type === 'text' || INLINE_TAGS.has(node.name.toLowerCase())) &&
+    $(element).find('img, table').length === 0 &&
+    Boolean($(element).text().replace(/&nbsp;|&#160;/gi, '').trim());
+}
+
+/**
+ * Checks whether a link is styled as a button: a background color and padding of its own,
+ * or the only content of a cell with a background color
+ * @param $ The parsed document
+ * @param element The link
+ */
+function isButtonLink($: cheerio.CheerioAPI, element: Element): boolean {
+  const $link = $(element);
+  const style = parseStyle($link.attr('style'));
+
+  if ((style['background-color'] || style['background'] || '').match(CSS_COLOR_PATTERN)) {
+    return Object.keys(style).some(name => name.startsWith('padding'));
+  }
+
+  const parent = element.parent;
+  return Boolean(parent && parent.type === 'tag' && /^t[dh]$/i.test(parent.name) && contentNodes(parent).length === 1 && readBackgroundColor($(parent)));
+}
+
+/**
+ * Builds an mj-text block
+ * @param content The text markup
+ * @param attributes The text attributes
+ */
+function textBlock(content: string, attributes: Record<string, string | undefined>): string {
+  return `<mj-text${formatAttributes(attributes)}>\n${content.trim()}\n</mj-text>`;
+}
+
+/**
+ * Builds an mj-image block from an image, linked when it is wrapped in a link
+ * @param $ The parsed document
+ * @param image The image
+ * @param inherited The text attributes around the image, for its alignment
+ * @param href The target of the link around the image
+ */
+function imageBlock($: cheerio.CheerioAPI, image: Element, inherited: TextAttributes, href?: string): string {
+  const $image = $(image);
+  const style = parseStyle($image.attr('style'));
+  const width = parsePixels($image.attr('width')) ?? parsePixels(style['width']);
+
+  return `<mj-image${formatAttributes({
+    src: $image.attr('src'),
+    alt: $image.attr('alt'),
+    href,
+    width: width !== null ? `${width}px` : undefined,
+    align: inherited['align'],
+    'css-class': $image.attr('class')
+  })} />`;
+}
+
+/**
+ * Builds an mj-button block from a link styled as a button
+ * @param $ The parsed document
+ * @param link The link
+ * @param inherited The text attributes around the link
+ */
+function buttonBlock($: cheerio.CheerioAPI, link: Element, inherited: TextAttributes): string {
+  const $link = $(link);
+  const style = parseStyle($link.attr('style'));
+  const $cell = readBackgroundColor($link) ? null : $link.parent();
+  const cellStyle = $cell ? parseStyle($cell.attr('style')) : {};
+
+  return `<mj-button${formatAttributes({
+    href: $link.attr('href'),
+    'background-color': readBackgroundColor($cell || $link),
+    color: style['color'],
+    'font-family': style['font-family'] || inherited['font-family'],
+    'font-size': style['font-size'],
+    'font-weight': style['font-weight'],
+    'border-radius': style['border-radius'] || cellStyle['border-radius'],
+    'inner-padding': $cell ? cellStyle['padding'] : style['padding'],
+    align: inherited['align'],
+    'css-class': $link.attr('class')
+  })}>${($link.html() || '').trim()}</mj-button>`;
+}
+
+/**
+ * Converts a node of a section to MJML content blocks
+ * @param $ The parsed document
+ * @param node The node
+ * @param inherited The text attributes of its ancestors
+ * @returns The blocks, or null if the node has no MJML equivalent, e.g. a row of
+ * several cells inside a column or text mixed with blocks
+ */
+function convertNode($: cheerio.CheerioAPI, node: AnyNode, inherited: TextAttributes): string[] | null {
+  if (node.type !== 'tag') {
+    return null;
+  }
+
+  const name = node.name.toLowerCase();
+  const $node = $(node);
+  const style = parseStyle($node.attr('style'));
+
+  // Hidden content, such as mobile-only blocks, needs the original markup
+  if ((style['display'] || '').toLowerCase() === 'none' || style['mso-hide']) {
+    return null;
+  }
+
+  if (name === 'img') {
+    return [imageBlock($, node, inherited)];
+  }
+
+  if (name === 'a') {
+    const nodes = contentNodes(node);
+    if (nodes.length === 1 && nodes[0].type === 'tag' && nodes[0].name.toLowerCase() === 'img') {
+      return [imageBlock($, nodes[0], inherited, $node.attr('href'))];
+    }
+    if (isButtonLink($, node)) {
+      return [buttonBlock($, node, inherited)];
+    }
+  }
+
+  if (name === 'hr') {
+    const color = (style['border-top'] || style['border'] || '').match(CSS_COLOR_PATTERN)?.[0];
+    return [`<mj-divider${formatAttributes({ 'border-color': color, 'border-width': '1px' })} />`];
+  }
+
+  if (TEXT_TAGS.has(name) || INLINE_TAGS.has(name)) {
+    return $node.find('img, table').length === 0 ? [textBlock($.html(node), inherited)] : null;
+  }
+
+  if (!CONTAINER_TAGS.has(name)) {
+    return null;
+  }
+
+  if (name === 'tr' && $node.children('td, th').length > 1) {
+    return null;
+  }
+
+  const attributes = inheritTextAttributes(inherited, $node);
+
+  if (CELL_TAGS.has(name)) {
+    const nodes = contentNodes(node);
+
+    if (nodes.length === 0) {
+      const height = parsePixels($node.attr('height')) ?? parsePixels(style['height']);
+      return height !== null ? [`<mj-spacer height="${height}px" />`] : [];
+    }
+
+    // A cell with a background color around a single link is a button
+    if (nodes.length === 1 && nodes[0].type === 'tag' && nodes[0].name.toLowerCase() === 'a' && isButtonLink($, nodes[0])) {
+      return [buttonBlock($, nodes[0], attributes)];
+    }
+
+    if (isTextCell($, node)) {
+      return [textBlock($node.html() || '', {
+        ...attributes,
+        padding: style['padding'],
+        'container-background-color': readBackgroundColor($node),
+        'css-class': $node.attr('class')
+      })];
+    }
+  }
+
+  const blocks: string[] = [];
+  for (const child of contentNodes(node)) {
+    const converted = convertNode($, child, attributes);
+    if (!converted) {
+      return null;
+    }
+    blocks.push(...converted);
+  }
+
+  return blocks;
+}
+
+/**
+ * Converts the root element of a section to an mj-section
+ * A row of several cells reached through single-child wrappers becomes one column per cell;
+ * anything else is a single column
+ * @param $ The parsed document
+ * @param root The section root
+ * @param inherited The text attributes of its ancestors
+ * @param background The background color of the container around the section
+ * @returns The mj-section, or null if the section has no MJML equivalent
+ */
+function convertSection($: cheerio.CheerioAPI, root: Element, inherited: TextAttributes, background?: string): string | null {
+  const $root = $(root);
+  const style = parseStyle($root.attr('style'));
+  const backgroundUrl = (style['background-image'] || style['background'] || '').match(/url\(\s*['"]?([^'")]+)['"]?\s*\)/i)?.[1] || $root.attr('background');
+
+  let element = root;
+  let attributes = inherited;
+  let cells: Element[] = [];
+
+  while (CONTAINER_TAGS.has(element.name.toLowerCase())) {
+    const $element = $(element);
+    const nodes = contentNodes(element);
+
+    if (element.name.toLowerCase() === 'tr' && nodes.length > 1 && nodes.every((node): node is Element => node.type === 'tag' && /^t[dh]$/i.test(node.name))) {
+      cells = nodes;
+      break;
+    }
+
+    if (nodes.length !== 1 || nodes[0].type !== 'tag' || (CELL_TAGS.has(element.name.toLowerCase()) && isTextCell($, element))) {
+      break;
+    }
+
+    attributes = inheritTextAttributes(attributes, $element);
+    element = nodes[0];
+  }
+
+  const columns: string[] = [];
+
+  if (cells.length > 0) {
+    const rowAttributes = inheritTextAttributes(attributes, $(element));
+    for (const cell of cells) {
+      const blocks = convertNode($, cell, rowAttributes);
+      if (!blocks) {
+        return null;
+      }
+
+      const width = $(cell).attr('width') || parseStyle($(cell).attr('style'))['width'];
+      const columnWidth = width && /^\d+(\.\d+)?(px|%)?$/.test(width) ? (/\d$/.test(width) ? `${width}px` : width) : undefined;
+      columns.push(`<mj-column${formatAttributes({ width: columnWidth })}>\n${blocks.join('\n')}\n</mj-column>`);
+    }
+  } else {
+    const blocks = convertNode($, root, inherited);
+    if (!blocks) {
+      return null;
+    }
+    if (blocks.length === 0) {
+      return '';
+    }
+    columns.push(`<mj-column>\n${blocks.join('\n')}\n</mj-column>`);
+  }
+
+  return `<mj-section${formatAttributes({
+    'background-color': readBackgroundColor($root) || background,
+    'background-url': backgroundUrl,
+    'background-size': backgroundUrl ? 'cover' : undefined,
+    'css-class': $root.attr('class')
+  })}>\n${columns.join('\n')}\n</mj-section>`;
+}
+
+/**
+ * Keeps the markup of a section as it is, in a centered table of the body width
+ * @param markup The section markup
+ * @param rootName The tag of the section root, which decides how much table it needs around it
+ * @param width The body width
+ * @param background The background color of the container around the section
+ */
+function rawSection(markup: string, rootName: string, width: number, background?: string): string {
+  const backgroundStyle = background ? `background-color:${background};` : '';
+  const table = `<table role="presentation" align="center" width="${width}" cellpadding="0" cellspacing="0" border="0" style="width:100%;max-width:${width}px;margin:0 auto;${backgroundStyle}">`;
+
+  if (rootName === 'tr') {
+    return `<mj-raw>\n${table}${markup}</table>\n</mj-raw>`;
+  }
+
+  const cell = /^t[dh]$/.test(rootName) ? markup : `<td>${markup}</td>`;
+  return `<mj-raw>\n${table}<tr>${cell}</tr></table>\n</mj-raw>`;
+}
+
+/**
+ * Finds the width of the email: the first pixel width or max-width of a container in the body
+ * @param $ The parsed document
+ */
+function findBodyWidth($: cheerio.CheerioAPI): number {
+  for (const element of $('body table, body div, body td').toArray()) {
+    const $element = $(element);
+    const style = parseStyle($element.attr('style'));
+    const width = parsePixels(style['max-width']) ?? parsePixels($element.attr('width')) ?? parsePixels(style['width']);
+
+    if (width !== null && width >= 300 && width <= MAX_BODY_WIDTH) {
+      return width;
+    }
+  }
+
+  return DEFAULT_BODY_WIDTH;
+}
+
+/**
+ * Converts email HTML to MJML
+ * Each section becomes an mj-section with mj-text, mj-image, mj-button, mj-divider and
+ * mj-spacer blocks when its content maps to them; other sections are kept as they are in
+ * an mj-raw, so the MJML renders the same email. Head styles and meta tags are kept in a
+ * head mj-raw, the preheader becomes mj-preview, and the section markers are kept
+ * @param html The email HTML
+ * @returns The MJML source
+ */
+export function convertHtmlToMjml(html: string): string {
+  const markup = html.replace(/^\s*<!doctype[^>]*>/i, '');
+  const $ = cheerio.load(markup.trim(), PARSER_OPTIONS);
+  markEmailSections($);
+
+  const width = findBodyWidth($);
+  const $body = $('body').first();
+  const bodyAttributes = inheritTextAttributes({}, $body);
+
+  const head: string[] = [];
+  const title = $('title').first().text().trim();
+  if (title) {
+    head.push(`<mj-title>${title}</mj-title>`);
+  }
+
+  // The preheader is hidden text; hidden blocks with images or tables are not
+  const preheader = $body.find('[style]').toArray().find(element =>
+    /display\s*:\s*none/i.test($(element).attr('style') || '') && $(element).find('img, table').length === 0 && $(element).text().trim()
+  );
+  if (preheader) {
+    head.push(`<mj-preview>${$(preheader).text().trim()}</mj-preview>`);
+  }
+
+  // Blocks get their spacing from the HTML, not from the MJML defaults
+  const textDefaults = formatAttributes({
+    'font-family': bodyAttributes['font-family'],
+    'font-size': bodyAttributes['font-size'],
+    color: bodyAttributes['color'],
+    'line-height': bodyAttributes['line-height']
+  });
+  head.push(`<mj-attributes>\n<mj-all padding="0" />${textDefaults ? `\n<mj-text${textDefaults} />` : ''}\n</mj-attributes>`);
+
+  const headMarkup = $('head').first().children().not(SKELETON_HEAD_SELECTOR).toArray().map(element => $.html(element)).join('\n');
+  if (headMarkup.trim()) {
+    head.push(`<mj-raw>\n${headMarkup}\n</mj-raw>`);
+  }
+
+  // Walk the section markers; content outside sections, such as the preheader, is left out
+  const sections: string[] = [];
+  const comments = $body.find('*').addBack().contents().toArray().filter((node): node is Comment => node.type === 'comment' && SECTION_OPEN_PATTERN.test(node.data));
+
+  for (const comment of comments) {
+    const id = comment.data.match(SECTION_OPEN_PATTERN)![1];
+    const nodes: ChildNode[] = [];
+    let node = comment.next;
+    while (node && !(node.type === 'comment' && node.data.includes(`/emailgen:section id="${id}"`))) {
+      nodes.push(node);
+      node = node.next;
+    }
+
+    const elements = nodes.filter(candidate => candidate.type !== 'text' || candidate.data.trim());
+    // The body styles are in mj-attributes and mj-body; the containers between it and the section are not kept
+    const containers = $(comment).parentsUntil('body').toArray().reverse();
+    const inherited = containers.reduce((attributes, container) => inheritTextAttributes(attributes, $(container)), {} as TextAttributes);
+    const background = containers.map(container => readBackgroundColor($(container))).filter(Boolean).pop();
+
+    const structured = elements.length === 1 && elements[0].type === 'tag' ? convertSection($, elements[0], inherited, background) : null;
+    const sectionMjml = structured ?? rawSection(
+      nodes.map(candidate => $.html(candidate)).join('').trim(),
+      elements.length === 1 && elements[0].type === 'tag' ? elements[0].name.toLowerCase() : 'div',
+      width,
+      background
+    );
+
+    sections.push(
+      `<mj-raw><!-- emailgen:section id="${id}" --></mj-raw>\n${sectionMjml}\n<mj-raw><!-- /emailgen:section id="${id}" --></mj-raw>`
+    );
+  }
+
+  // An email without sections is kept whole
+  if (comments.length === 0) {
+    sections.push(rawSection($body.html() || '', 'div', width));
+  }
+
+  const body = `<mj-body${formatAttributes({
+    width: `${width}px`,
+    'background-color': readBackgroundColor($body)
+  })}>\n${sections.join('\n')}\n</mj-body>`;
+
+  return `<mjml>\n<mj-head>\n${head.join('\n')}\n</mj-head>\n${body}\n</mjml>\n`;
+}
+
+/**
+ * Compiles MJML to email HTML
+ * Invalid markup is still rendered, and reported in the errors; mj-include is ignored
+ * @param mjml The MJML source
+ * @returns The HTML and the problems found
+ * @throws Error if the source cannot be parsed at all
+ */
+export function compileMjml(mjml: string): MjmlCompileResult {
+  try {
+    // mj-include would read files from the server
+    const result = mjml2html(mjml, { validationLevel: 'soft', keepComments: true, ignoreIncludes: true });
+
+    return {
+      html: result.html,
+      errors: result.errors.map(error => ({ line: error.line, message: error.message }))
+    };
+  } catch (error) {
+    console.error('MJML compile error:', error);
+    throw new Error(`Failed to compile MJML: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
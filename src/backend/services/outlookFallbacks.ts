@@ -0,0 +1,339 @@
+import * as cheerio from 'cheerio';
+import type { AnyNode, ChildNode, Element } from 'domhandler';
+import { CSS_COLOR_PATTERN, parseStyle } from './cssColors';
+
+// Parse with htmlparser2 so the markup is not rewritten, e.g. no implicit <tbody>
+const PARSER_OPTIONS = { xml: { xmlMode: false, decodeEntities: false } };
+
+/**
+ * The Outlook fallbacks the pass adds and QA rules check for
+ * - ghost-tables: fixed-width tables around containers sized with max-width, which Outlook ignores
+ * - vml-buttons: VML round rectangles for links styled as buttons, since Outlook drops their padding
+ * - vml-backgrounds: VML rectangles for background images, which Outlook does not render
+ */
+export type OutlookFallback = 'ghost-tables' | 'vml-buttons' | 'vml-backgrounds';
+
+export const OUTLOOK_FALLBACKS: OutlookFallback[] = ['ghost-tables', 'vml-buttons', 'vml-backgrounds'];
+
+// Word rendering settings; without them Outlook scales images on high-DPI screens
+const OFFICE_SETTINGS = '<!--[if mso]><xml><o:OfficeDocumentSettings><o:AllowPNG/><o:PixelsPerInch>96</o:PixelsPerInch></o:OfficeDocumentSettings></xml><![endif]-->';
+
+// Width of a VML background when the element sets none, the usual email width
+const DEFAULT_BACKGROUND_WIDTH = 600;
+
+// Button size estimate: average glyph width and line height relative to the font size
+const GLYPH_WIDTH_RATIO = 0.6;
+const LINE_HEIGHT_RATIO = 1.2;
+const DEFAULT_FONT_SIZE = 16;
+
+/**
+ * Reads a pixel length such as "600px" or "600"
+ * @param value The CSS or attribute value
+ * @returns The length, or null for other units and missing values
+ */
+function parsePixels(value: string | undefined): number | null {
+  const match = value?.trim().match(/^(\d+(?:\.\d+)?)(px)?$/i);
+  return match ? parseFloat(match[1]) : null;
+}
+
+/**
+ * Reads a padding shorthand in pixels
+ * @param style The parsed style attribute
+ * @returns The top, right, bottom and left padding
+ */
+function parsePadding(style: Record<string, string>): [number, number, number, number] {
+  const values = (style['padding'] || '').split(/\s+/).map(value => parsePixels(value) ?? 0);
+  const [top = 0, right = top, bottom = top, left = right] = values;
+
+  return [
+    parsePixels(style['padding-top']) ?? top,
+    parsePixels(style['padding-right']) ?? right,
+    parsePixels(style['padding-bottom']) ?? bottom,
+    parsePixels(style['padding-left']) ?? left
+  ];
+}
+
+/**
+ * Finds the node before an element, skipping whitespace
+ * @param element The element
+ */
+function previousNode(element: Element): ChildNode | null {
+  let node = element.prev;
+  while (node && node.type === 'text' && !node.data.trim()) {
+    node = node.prev;
+  }
+  return node;
+}
+
+/**
+ * Finds the first child node of an element, skipping whitespace
+ * @param element The element
+ */
+function firstChildNode(element: Element): ChildNode | undefined {
+  return element.children.find(node => node.type !== 'text' || node.data.trim());
+}
+
+/**
+ * Checks whether a node is an Outlook conditional comment
+ * @param node The node
+ * @param content Text the comment must contain
+ */
+function isMsoComment(node: AnyNode | null | undefined, content = ''): boolean {
+  return Boolean(node && node.type === 'comment' && /^\[if !?\(?(gte |lte |gt |lt )?mso/i.test(node.data.trim()) && node.data.includes(content));
+}
+
+/**
+ * Escapes a value for a double-quoted attribute inside the conditional comment
+ * @param value The attribute value
+ */
+function escapeAttribute(value: string): string {
+  return value.replace(/"/g, '&quot;');
+}
+
+/**
+ * Finds the containers sized with a pixel max-width that no ghost table wraps
+ * Tables with a pixel width attribute are left alone, as Outlook honors it
+ * @param $ The parsed document
+ */
+function findGhostTableTargets($: cheerio.CheerioAPI): Element[] {
+  return $('body div, body table').toArray().filter(element => {
+    const $element = $(element);
+    const maxWidth = parsePixels(parseStyle($element.attr('style'))['max-width']);
+
+    if (maxWidth === null || (element.name === 'table' && parsePixels($element.attr('width')) !== null)) {
+      return false;
+    }
+
+    return !isMsoComment(previousNode(element), '<t');
+  });
+}
+
+/**
+ * Finds the links styled as buttons, with their own background color and padding,
+ * that have no VML fallback; links in a cell with bgcolor already render in Outlook
+ * @param $ The parsed document
+ */
+function findCssButtons($: cheerio.CheerioAPI): Element[] {
+  return $('body a[href]').toArray().filter(element => {
+    const $element = $(element);
+    const style = parseStyle($element.attr('style'));
+    const background = style['background-color'] || style['background'];
+
+    if (!background?.match(CSS_COLOR_PATTERN) || !Object.keys(style).some(name => name.startsWith('padding'))) {
+      return false;
+    }
+
+    if ($element.parent().is('td[bgcolor], th[bgcolor]')) {
+      return false;
+    }
+
+    return !isMsoComment(previousNode(element), '!mso');
+  });
+}
+
+/**
+ * Finds the cells and containers with a background image that have no VML fallback
+ * @param $ The parsed document
+ */
+function findBackgroundImages($: cheerio.CheerioAPI): Element[] {
+  return $('body td, body th, body div').toArray().filter(element => {
+    const $element = $(element);
+    const style = parseStyle($element.attr('style'));
+    const hasImage = /url\(/i.test(style['background-image'] || style['background'] || '') || Boolean($element.attr('background'));
+
+    return hasImage && !isMsoComment(firstChildNode(element), 'v:rect');
+  });
+}
+
+/**
+ * Reads the image URL of an element's background
+ * @param $element The element
+ */
+function readBackgroundImage($element: cheerio.Cheerio<Element>): string {
+  const style = parseStyle($element.attr('style'));
+  const url = (style['background-image'] || style['background'] || '').match(/url\(\s*['"]?([^'")]+)['"]?\s*\)/i);
+  return url ? url[1] : $element.attr('background') || '';
+}
+
+/**
+ * Wraps containers in ghost tables, which only Outlook renders
+ * Neighbouring inline-block columns share one ghost table with a cell per column,
+ * so they stay side by side in Outlook
+ * @param $ The parsed document
+ * @param targets The containers without a ghost table
+ */
+function addGhostTables($: cheerio.CheerioAPI, targets: Element[]): void {
+  const pending = new Set(targets);
+
+  for (const element of targets) {
+    if (!pending.has(element)) {
+      continue;
+    }
+
+    // Collect the columns that follow the element directly
+    const group = [element];
+    const isColumn = (node: ChildNode): node is Element => node.type === 'tag' && pending.has(node) && /inline-block/i.test(parseStyle($(node).attr('style'))['display'] || '');
+    if (isColumn(element)) {
+      let node = element.next;
+      while (node) {
+        if (node.type === 'text' && !node.data.trim()) {
+          node = node.next;
+        } else if (isColumn(node)) {
+          group.push(node);
+          node = node.next;
+        } else {
+          break;
+        }
+      }
+    }
+    group.forEach(column => pending.delete(column));
+
+    const widths = group.map(column => parsePixels(parseStyle($(column).attr('style'))['max-width'])!);
+    const style = parseStyle($(element).attr('style'));
+    const parent = $(element).parent();
+    const centered = /auto/.test(style['margin'] || style['margin-left'] || '') ||
+      /center/i.test(parseStyle(parent.attr('style'))['text-align'] || parent.attr('align') || '');
+
+    const table = `<table role="presentation" width="${widths.reduce((sum, width) => sum + width, 0)}"${centered ? ' align="center"' : ''} cellpadding="0" cellspacing="0" border="0">`;
+
+    $(group[0]).before(`<!--[if mso]>${table}<tr><td width="${widths[0]}" valign="top"><![endif]-->`);
+    group.slice(1).forEach((column, index) => {
+      $(column).before(`<!--[if mso]></td><td width="${widths[index + 1]}" valign="top"><![endif]-->`);
+    });
+    $(group[group.length - 1]).after('<!--[if mso]></td></tr></table><![endif]-->');
+  }
+}
+
+/**
+ * Adds a VML round rectangle in front of each CSS button; other clients keep the link
+ * The size of the rectangle is estimated from the link's width, padding, font size and text
+ * @param $ The parsed document
+ * @param buttons The links without a VML fallback
+ */
+function addVmlButtons($: cheerio.CheerioAPI, buttons: Element[]): void {
+  for (const element of buttons) {
+    const $link = $(element);
+    const style = parseStyle($link.attr('style'));
+    const text = $link.text().trim();
+    const fontSize = parsePixels(style['font-size']) ?? DEFAULT_FONT_SIZE;
+    const [top, right, bottom, left] = parsePadding(style);
+
+    const width = Math.round(parsePixels(style['width']) ?? text.length * fontSize * GLYPH_WIDTH_RATIO + left + right);
+    const height = Math.round(parsePixels(style['height']) ?? (parsePixels(style['line-height']) ?? fontSize * LINE_HEIGHT_RATIO) + top + bottom);
+    const radius = parsePixels(style['border-radius']) ?? 0;
+    const arcSize = Math.min(50, Math.round((radius / height) * 100));
+
+    const fill = (style['background-color'] || style['background']).match(CSS_COLOR_PATTERN)![0];
+    const color = style['color']?.match(CSS_COLOR_PATTERN)?.[0] || '#ffffff';
+    const fontFamily = (style['font-family'] || 'Arial, sans-serif').replace(/"/g, "'");
+    const fontWeight = style['font-weight'] || 'normal';
+
+    $link.before(
+      `<!--[if mso]><v:roundrect xmlns:v="urn:schemas-microsoft-com:vml" xmlns:w="urn:schemas-microsoft-com:office:word" ` +
+      `href="${escapeAttribute($link.attr('href') || '')}" style="height:${height}px;v-text-anchor:middle;width:${width}px;" ` +
+      `arcsize="${arcSize}%" stroke="f" fillcolor="${fill}"><w:anchorlock/>` +
+      `<center style="color:${color};font-family:${fontFamily};font-size:${fontSize}px;font-weight:${fontWeight};">${text}</center>` +
+      '</v:roundrect><![endif]--><!--[if !mso]><!-->'
+    );
+    $link.after('<!--<![endif]-->');
+  }
+}
+
+/**
+ * Wraps the content of each element with a background image in a VML rectangle filled with it
+ * @param $ The parsed document
+ * @param elements The elements without a VML fallback
+ */
+function addVmlBackgrounds($: cheerio.CheerioAPI, elements: Element[]): void {
+  for (const element of elements) {
+    const $element = $(element);
+    const style = parseStyle($element.attr('style'));
+    const width = parsePixels(style['width']) ?? parsePixels($element.attr('width')) ?? DEFAULT_BACKGROUND_WIDTH;
+    const height = parsePixels(style['height']) ?? parsePixels($element.attr('height'));
+    const color = (style['background-color'] || style['background'] || $element.attr('bgcolor') || '').match(CSS_COLOR_PATTERN)?.[0];
+
+    // Without a height the rectangle grows with its content
+    const rectStyle = `width:${width}px;${height !== null ? `height:${height}px;` : ''}`;
+    const textboxStyle = height === null ? ' style="mso-fit-shape-to-text:true"' : '';
+
+    $element.prepend(
+      `<!--[if gte mso 9]><v:rect xmlns:v="urn:schemas-microsoft-com:vml" fill="true" stroke="false" style="${rectStyle}">` +
+      `<v:fill type="frame" src="${escapeAttribute(readBackgroundImage($element))}"${color ? ` color="${color}"` : ''} />` +
+      `<v:textbox inset="0,0,0,0"${textboxStyle}><![endif]-->`
+    );
+    $element.append('<!--[if gte mso 9]></v:textbox></v:rect><![endif]-->');
+  }
+}
+
+/**
+ * Adds Outlook fallbacks to email HTML: ghost tables around max-width containers,
+ * VML bulletproof buttons for CSS buttons and VML backgrounds for background images
+ * Fallbacks sit in conditional comments, so other clients render the HTML unchanged;
+ * elements that already have a fallback are skipped, so running it again changes nothing
+ * @param html The email HTML
+ * @returns The HTML with the fallbacks
+ */
+export function applyOutlookFallbacks(html: string): string {
+  const doctypeMatch = html.match(/^\s*(<!doctype[^>]*>)/i);
+  const markup = doctypeMatch ? html.slice(doctypeMatch[0].length) : html;
+  const $ = cheerio.load(markup.trim(), PARSER_OPTIONS);
+
+  const ghostTables = findGhostTableTargets($);
+  const buttons = findCssButtons($);
+  const backgrounds = findBackgroundImages($);
+
+  if (ghostTables.length + buttons.length + backgrounds.length === 0) {
+    return html;
+  }
+
+  addGhostTables($, ghostTables);
+  addVmlButtons($, buttons);
+  addVmlBackgrounds($, backgrounds);
+
+  // VML needs its namespaces declared on the document and the Office settings in the head
+  if (buttons.length + backgrounds.length > 0) {
+    $('html').first().attr('xmlns:v', 'urn:schemas-microsoft-com:vml').attr('xmlns:o', 'urn:schemas-microsoft-com:office:office');
+  }
+
+  const head = $('head').first();
+  if (!head.contents().toArray().some(node => isMsoComment(node, 'OfficeDocumentSettings'))) {
+    head.append(OFFICE_SETTINGS);
+  }
+
+  return `${doctypeMatch ? `${doctypeMatch[1]}\n` : ''}${$.html().trim()}\n`;
+}
+
+/**
+ * Finds the elements that need an Outlook fallback and have none
+ * @param html The HTML to check
+ * @param fallbacks The fallbacks to check for, all of them by default
+ * @returns A problem per fallback type and the first offending markup
+ */
+export function findMissingOutlookFallbacks(
+  html: string,
+  fallbacks: OutlookFallback[] = OUTLOOK_FALLBACKS
+): { issues: string[]; snippet?: string } {
+  const $ = cheerio.load(html, PARSER_OPTIONS);
+  const checks: { fallback: OutlookFallback; find: ($: cheerio.CheerioAPI) => Element[]; problem: string }[] = [
+    { fallback: 'ghost-tables', find: findGhostTableTargets, problem: 'Max-width containers without a ghost table' },
+    { fallback: 'vml-buttons', find: findCssButtons, problem: 'CSS buttons without a VML fallback' },
+    { fallback: 'vml-backgrounds', find: findBackgroundImages, problem: 'Background images without a VML fallback' }
+  ];
+
+  const issues: string[] = [];
+  let snippet: string | undefined;
+
+  for (const { fallback, find, problem } of checks) {
+    if (!fallbacks.includes(fallback)) {
+      continue;
+    }
+
+    const elements = find($);
+    if (elements.length > 0) {
+      issues.push(`${problem}: ${elements.length}`);
+      snippet = snippet || $.html(elements[0]).slice(0, 200);
+    }
+  }
+
+  return { issues, snippet };
+}
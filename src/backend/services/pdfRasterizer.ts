@@ -0,0 +1,269 @@
+import { createCanvas, loadImage, Canvas } from '@napi-rs/canvas';
+import { getDocument } from 'pdfjs-dist/legacy/build/pdf.mjs';
+import type { RenderParameters } from 'pdfjs-dist/types/src/display/api';
+
+// PDF user space is 72 points per inch
+const PDF_POINTS_PER_INCH = 72;
+
+// Largest canvas dimension supported by the rendering backend
+const MAX_CANVAS_DIMENSION = 32767;
+
+// Largest canvas area (px) of a page, about 160 MB of RGBA pixels
+const MAX_PAGE_PIXELS = 40_000_000;
+
+/**
+ * Resolutions a client can request
+ */
+export const MIN_RASTER_DPI = 72;
+export const MAX_RASTER_DPI = 300;
+
+// Define rasterization options interface
+export interface RasterizeOptions {
+  dpi?: number;
+  maxTileHeight?: number;
+  tileOverlap?: number;
+  thumbnailWidth?: number;
+}
+
+/**
+ * Called after each page is rasterized
+ */
+export type PageProgressCallback = (pageNumber: number, pageCount: number) => void;
+
+/**
+ * A horizontal slice of a rasterized page
+ */
+export interface RasterizedTile {
+  index: number;
+  top: number;
+  width: number;
+  height: number;
+  png: Buffer;
+}
+
+/**
+ * A rasterized PDF page or image, split into tiles when it is taller than the tile limit
+ */
+export interface RasterizedPage {
+  pageNumber: number;
+  width: number;
+  height: number;
+  dpi: number;
+  tiles: RasterizedTile[];
+  thumbnail: Buffer;
+}
+
+/**
+ * Gets the default rasterization settings from the environment
+ */
+export function getDefaultRasterizeOptions(): Required<RasterizeOptions> {
+  return {
+    dpi: parseInt(process.env.PDF_RASTER_DPI || '', 10) || 144,
+    maxTileHeight: parseInt(process.env.PDF_RASTER_MAX_TILE_HEIGHT || '', 10) || 2048,
+    tileOverlap: 32,
+    thumbnailWidth: 320
+  };
+}
+
+/**
+ * Limits a requested resolution to the supported range
+ * @param dpi The requested DPI
+ * @returns The DPI, or undefined when none was requested
+ */
+export function clampRasterDpi(dpi: number | undefined): number | undefined {
+  if (!dpi || !Number.isFinite(dpi)) {
+    return undefined;
+  }
+
+  return Math.min(MAX_RASTER_DPI, Math.max(MIN_RASTER_DPI, dpi));
+}
+
+/**
+ * Gets the scale that keeps a canvas within the dimension and area limits
+ * @param width Width in pixels at scale 1
+ * @param height Height in pixels at scale 1
+ */
+function getCanvasLimitScale(width: number, height: number): number {
+  return Math.min(
+    1,
+    MAX_CANVAS_DIMENSION / Math.max(width, height),
+    Math.sqrt(MAX_PAGE_PIXELS / (width * height))
+  );
+}
+
+/**
+ * Merges rasterization options over the defaults, ignoring unset values
+ * @param options Rasterization options
+ */
+function resolveRasterizeOptions(options: RasterizeOptions): Required<RasterizeOptions> {
+  const settings = getDefaultRasterizeOptions();
+
+  for (const key of Object.keys(settings) as (keyof RasterizeOptions)[]) {
+    const value = options[key];
+    if (typeof value === 'number' && value > 0) {
+      settings[key] = value;
+    }
+  }
+
+  settings.dpi = clampRasterDpi(settings.dpi)!;
+
+  return settings;
+}
+
+/**
+ * Splits a rendered page into horizontal tiles
+ * Consecutive tiles overlap slightly so elements on a tile boundary stay legible
+ * @param canvas The rendered page
+ * @param maxTileHeight Maximum height of a tile in pixels
+ * @param tileOverlap Overlap between consecutive tiles in pixels
+ */
+function splitIntoTiles(canvas: Canvas, maxTileHeight: number, tileOverlap: number): RasterizedTile[] {
+  const { width, height } = canvas;
+
+  if (height <= maxTileHeight) {
+    return [{ index: 0, top: 0, width, height, png: canvas.toBuffer('image/png') }];
+  }
+
+  const tiles: RasterizedTile[] = [];
+  const step = Math.max(1, maxTileHeight - tileOverlap);
+
+  for (let top = 0; top < height; top += step) {
+    const tileHeight = Math.min(maxTileHeight, height - top);
+    const tileCanvas = createCanvas(width, tileHeight);
+    tileCanvas.getContext('2d').drawImage(canvas, 0, top, width, tileHeight, 0, 0, width, tileHeight);
+
+    tiles.push({
+      index: tiles.length,
+      top,
+      width,
+      height: tileHeight,
+      png: tileCanvas.toBuffer('image/png')
+    });
+
+    if (top + tileHeight >= height) {
+      break;
+    }
+  }
+
+  return tiles;
+}
+
+/**
+ * Creates a small preview of a rendered page
+ * @param canvas The rendered page
+ * @param thumbnailWidth Width of the thumbnail in pixels
+ */
+function createThumbnail(canvas: Canvas, thumbnailWidth: number): Buffer {
+  const scale = Math.min(1, thumbnailWidth / canvas.width);
+  const width = Math.max(1, Math.round(canvas.width * scale));
+  const height = Math.max(1, Math.round(canvas.height * scale));
+
+  const thumbnailCanvas = createCanvas(width, height);
+  thumbnailCanvas.getContext('2d').drawImage(canvas, 0, 0, width, height);
+
+  return thumbnailCanvas.toBuffer('image/png');
+}
+
+/**
+ * Renders every page of a PDF to PNG
+ * @param pdfBuffer The PDF file as a buffer
+ * @param options Rasterization options, defaults come from the environment
+ * @param onPage Called after each page is rendered
+ * @returns The rasterized pages in document order
+ */
+export async function rasterizePdf(
+  pdfBuffer: ArrayBuffer,
+  options: RasterizeOptions = {},
+  onPage?: PageProgressCallback
+): Promise<RasterizedPage[]> {
+  const settings = resolveRasterizeOptions(options);
+
+  // pdf.js takes ownership of the data, so hand it a copy
+  const pdf = await getDocument({
+    data: new Uint8Array(pdfBuffer.slice(0)),
+    isEvalSupported: false,
+    useSystemFonts: true
+  }).promise;
+
+  const pages: RasterizedPage[] = [];
+
+  try {
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      const baseViewport = page.getViewport({ scale: 1 });
+
+      // Reduce the resolution for pages that would exceed the canvas limits
+      let scale = settings.dpi / PDF_POINTS_PER_INCH;
+      scale = scale * getCanvasLimitScale(baseViewport.width * scale, baseViewport.height * scale);
+
+      const viewport = page.getViewport({ scale });
+      const canvas = createCanvas(Math.ceil(viewport.width), Math.ceil(viewport.height));
+      const context = canvas.getContext('2d');
+
+      // Designs without a background should render on white, not transparent
+      context.fillStyle = '#ffffff';
+      context.fillRect(0, 0, canvas.width, canvas.height);
+
+      // pdf.js draws on the canvas through its 2D context, which the native canvas implements
+      await page.render({
+        canvas: canvas as unknown as RenderParameters['canvas'],
+        viewport
+      }).promise;
+
+      pages.push({
+        pageNumber,
+        width: canvas.width,
+        height: canvas.height,
+        dpi: Math.round(scale * PDF_POINTS_PER_INCH),
+        tiles: splitIntoTiles(canvas, settings.maxTileHeight, settings.tileOverlap),
+        thumbnail: createThumbnail(canvas, settings.thumbnailWidth)
+      });
+
+      page.cleanup();
+      onPage?.(pageNumber, pdf.numPages);
+    }
+  } finally {
+    await pdf.destroy();
+  }
+
+  return pages;
+}
+
+/**
+ * Rasterizes a PNG, JPEG or SVG image into tiles and a thumbnail
+ * Raster images keep their native resolution; SVGs render at their intrinsic size
+ * @param imageBuffer The image file as a buffer
+ * @param pageNumber Page number to assign to the image
+ * @param options Rasterization options, defaults come from the environment
+ */
+export async function rasterizeImage(
+  imageBuffer: ArrayBuffer | Uint8Array,
+  pageNumber: number,
+  options: RasterizeOptions = {}
+): Promise<RasterizedPage> {
+  const settings = resolveRasterizeOptions(options);
+  const image = await loadImage(Buffer.from(imageBuffer as ArrayBuffer));
+
+  if (!image.width || !image.height) {
+    throw new Error('Image has no intrinsic size');
+  }
+
+  // Reduce the resolution for images that would exceed the canvas limits
+  const scale = getCanvasLimitScale(image.width, image.height);
+  const canvas = createCanvas(Math.round(image.width * scale), Math.round(image.height * scale));
+  const context = canvas.getContext('2d');
+
+  // Transparent exports should render on white, not black
+  context.fillStyle = '#ffffff';
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  context.drawImage(image, 0, 0, canvas.width, canvas.height);
+
+  return {
+    pageNumber,
+    width: canvas.width,
+    height: canvas.height,
+    dpi: settings.dpi,
+    tiles: splitIntoTiles(canvas, settings.maxTileHeight, settings.tileOverlap),
+    thumbnail: createThumbnail(canvas, settings.thumbnailWidth)
+  };
+}
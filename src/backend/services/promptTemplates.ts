@@ -0,0 +1,246 @@
+import supabase from '../config/supabaseConfig';
+import { BUILT_IN_PROMPT_TEMPLATES } from './builtInPromptTemplates';
+import { getWorkspaceSettings, updateWorkspaceSettings } from './workspaceSettings';
+
+// Placeholders in a template body, e.g. {{fileName}}
+const PLACEHOLDER_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+
+/**
+ * Names of the prompts the app sends to models
+ */
+export type PromptTemplateName =
+  | 'gemini-conversion'
+  | 'claude-conversion'
+  | 'claude-system'
+  | 'repair'
+  | 'section'
+  | 'code-assistant-chat'
+  | 'code-assistant-modify';
+
+export const PROMPT_TEMPLATE_NAMES = Object.keys(BUILT_IN_PROMPT_TEMPLATES) as PromptTemplateName[];
+
+/**
+ * A version of a prompt template
+ * The body refers to variables as {{name}}; only the listed variables are filled in
+ */
+export interface PromptTemplate {
+  name: PromptTemplateName;
+  version: number;
+  description: string;
+  variables: string[];
+  body: string;
+}
+
+/**
+ * The template version used for each prompt, as selected for a workspace
+ */
+export type PromptTemplateSet = Partial<Record<PromptTemplateName, PromptTemplate>>;
+
+/**
+ * A row of the prompt_templates table
+ */
+interface PromptTemplateRecord {
+  id: number;
+  name: PromptTemplateName;
+  version: number;
+  description: string | null;
+  body: string;
+  created_by: number | null;
+  created_at: string;
+}
+
+/**
+ * Checks whether a value names a prompt template
+ * @param name The value to check
+ */
+export function isPromptTemplateName(name: unknown): name is PromptTemplateName {
+  return typeof name === 'string' && name in BUILT_IN_PROMPT_TEMPLATES;
+}
+
+/**
+ * Fills in the variables of a template
+ * Variable values are inserted as they are, so they may contain {{...}} themselves
+ * @param template The template
+ * @param variables Values by variable name; missing variables render as empty strings
+ */
+export function renderPromptTemplate(template: PromptTemplate, variables: Record<string, string | number>): string {
+  return template.body.replace(PLACEHOLDER_PATTERN, (_, name: string) => {
+    const value = variables[name];
+    return value === undefined ? '' : String(value);
+  });
+}
+
+/**
+ * Gets a template from a workspace's template set, falling back to the built-in version
+ * @param templates The templates selected for the workspace, if loaded
+ * @param name The template name
+ */
+export function getPromptTemplate(templates: PromptTemplateSet | undefined, name: PromptTemplateName): PromptTemplate {
+  return templates?.[name] || BUILT_IN_PROMPT_TEMPLATES[name];
+}
+
+/**
+ * Checks that a template body only uses the variables of its template
+ * @param name The template name
+ * @param body The template body
+ * @throws Error listing the unknown variables
+ */
+export function validatePromptTemplateBody(name: PromptTemplateName, body: string): void {
+  if (!body.trim()) {
+    throw new Error('Prompt template body is empty');
+  }
+
+  const allowed = BUILT_IN_PROMPT_TEMPLATES[name].variables;
+  const unknown = Array.from(body.matchAll(PLACEHOLDER_PATTERN))
+    .map(match => match[1])
+    .filter(variable => !allowed.includes(variable));
+
+  if (unknown.length > 0) {
+    throw new Error(
+      `Unknown variables in ${name}: ${Array.from(new Set(unknown)).join(', ')}. ` +
+      `Available variables: ${allowed.join(', ') || 'none'}`
+    );
+  }
+}
+
+/**
+ * Converts a stored template version to a template
+ * @param record The prompt_templates row
+ */
+function toPromptTemplate(record: PromptTemplateRecord): PromptTemplate {
+  const builtIn = BUILT_IN_PROMPT_TEMPLATES[record.name];
+
+  return {
+    name: record.name,
+    version: record.version,
+    description: record.description || builtIn.description,
+    variables: builtIn.variables,
+    body: record.body
+  };
+}
+
+/**
+ * Lists every version of the prompt templates, oldest first, including the built-in versions
+ * @param name Only list versions of this template when provided
+ */
+export async function listPromptTemplateVersions(name?: PromptTemplateName): Promise<PromptTemplate[]> {
+  let query = supabase.from('prompt_templates').select('*');
+
+  if (name) {
+    query = query.eq('name', name);
+  }
+
+  const { data, error } = await query.order('version', { ascending: true });
+
+  if (error) {
+    console.error('Prompt templates fetch error:', error);
+    throw new Error('Failed to fetch prompt templates');
+  }
+
+  const builtIns = name ? [BUILT_IN_PROMPT_TEMPLATES[name]] : Object.values(BUILT_IN_PROMPT_TEMPLATES);
+  const stored = ((data || []) as PromptTemplateRecord[])
+    .filter(record => isPromptTemplateName(record.name))
+    .map(toPromptTemplate);
+
+  return [...builtIns, ...stored];
+}
+
+/**
+ * Stores a new version of a prompt template
+ * The version number is one above the latest version of the template
+ * @param name The template name
+ * @param body The template body
+ * @param description What changed in this version
+ * @param createdBy The users.id of the author
+ * @returns The new template version
+ */
+export async function createPromptTemplateVersion(
+  name: PromptTemplateName,
+  body: string,
+  description: string | undefined,
+  createdBy: number
+): Promise<PromptTemplate> {
+  validatePromptTemplateBody(name, body);
+
+  const versions = await listPromptTemplateVersions(name);
+  const version = Math.max(...versions.map(template => template.version)) + 1;
+
+  const { data, error } = await supabase
+    .from('prompt_templates')
+    .insert([
+      {
+        name,
+        version,
+        description: description || null,
+        body,
+        created_by: createdBy,
+        created_at: new Date().toISOString()
+      }
+    ])
+    .select();
+
+  if (error) {
+    console.error('Prompt template save error:', error);
+    throw new Error('Failed to save prompt template');
+  }
+
+  return toPromptTemplate(data[0] as PromptTemplateRecord);
+}
+
+/**
+ * Gets the template versions selected for a workspace
+ * Templates without a selection use their latest version; the built-in versions
+ * are used when the stored templates cannot be loaded
+ * @param workspaceId The ID of the workspace
+ */
+export async function resolvePromptTemplates(workspaceId: string): Promise<PromptTemplateSet> {
+  try {
+    const [versions, settings] = await Promise.all([
+      listPromptTemplateVersions(),
+      getWorkspaceSettings(workspaceId)
+    ]);
+    const selected: Record<string, number> = settings.settings.promptTemplateVersions || {};
+    const templates: PromptTemplateSet = {};
+
+    for (const name of PROMPT_TEMPLATE_NAMES) {
+      const candidates = versions.filter(template => template.name === name);
+      templates[name] = candidates.find(template => template.version === selected[name]) ||
+        candidates[candidates.length - 1];
+    }
+
+    return templates;
+
+  } catch (error) {
+    console.error('Prompt template resolution error:', error);
+    return { ...BUILT_IN_PROMPT_TEMPLATES };
+  }
+}
+
+/**
+ * Pins a workspace to a template version, or back to the latest version
+ * A pinned version that does not exist falls back to the latest version
+ * @param workspaceId The ID of the workspace
+ * @param name The template name
+ * @param version The version to use, or null for the latest version
+ * @returns The pinned versions of the workspace, by template name
+ */
+export async function selectWorkspacePromptTemplate(
+  workspaceId: string,
+  name: PromptTemplateName,
+  version: number | null
+): Promise<Record<string, number>> {
+  const { settings } = await getWorkspaceSettings(workspaceId);
+  const promptTemplateVersions: Record<string, number> = { ...(settings.promptTemplateVersions || {}) };
+
+  if (version === null) {
+    delete promptTemplateVersions[name];
+  } else {
+    promptTemplateVersions[name] = version;
+  }
+
+  await updateWorkspaceSettings(workspaceId, {
+    settings: { ...settings, promptTemplateVersions }
+  });
+
+  return promptTemplateVersions;
+}
@@ -0,0 +1,226 @@
+import * as cheerio from 'cheerio';
+import type { AnyNode } from 'domhandler';
+import type { QAContext, QARule, QAValidationResult } from './qaValidation';
+
+// Parse with htmlparser2 so the markup is not rewritten, recording where each element starts and ends
+const PARSER_OPTIONS = { xml: { xmlMode: false, decodeEntities: false, withStartIndices: true, withEndIndices: true } };
+
+/**
+ * How a fix changes each failing element of a rule:
+ * - set-attribute: sets `attribute` to `value`, e.g. alt="" or role="presentation"
+ * - remove-attribute: removes `attribute`, e.g. an onclick handler
+ * - remove-element: removes the element and its content
+ * - absolute-url: resolves the relative URL in `attribute` against the base URL of the request, or `value`;
+ *   protocol-relative URLs become https: URLs
+ */
+export type QAFixType = 'set-attribute' | 'remove-attribute' | 'remove-element' | 'absolute-url';
+
+const QA_FIX_TYPES: QAFixType[] = ['set-attribute', 'remove-attribute', 'remove-element', 'absolute-url'];
+
+/**
+ * The fix a rule declares for its failures; it applies to rules that locate failing elements
+ */
+export interface QAFix {
+  type: QAFixType;
+  attribute?: string;
+  value?: string;
+  description?: string; // Describes the fix instead of the generated description
+}
+
+/**
+ * A proposed change to the HTML: the markup from offset up to endOffset (exclusive) is replaced
+ */
+export interface QAPatch {
+  ruleId: string;
+  offset: number;
+  endOffset: number;
+  replacement: string;
+  description: string;
+}
+
+// URLs that are already absolute, attachments, data or personalization merge tags
+const NON_RELATIVE_URL = /^([a-z][a-z0-9+.-]*:|%%|\{\{|\*\||#)/i;
+
+/**
+ * Validates the fix of a rule
+ * @param value The fix
+ * @throws Error if the fix type is unknown or an attribute it needs is missing
+ */
+export function validateQAFix(value: unknown): QAFix {
+  if (!value || typeof value !== 'object') {
+    throw new Error('A fix must be an object');
+  }
+
+  const { type, attribute, value: fixValue, description } = value as Record<string, unknown>;
+
+  if (!QA_FIX_TYPES.includes(type as QAFixType)) {
+    throw new Error(`Unknown fix type: ${type}`);
+  }
+
+  if (type !== 'remove-element' && (typeof attribute !== 'string' || !/^[a-z_:][a-z0-9_:.-]*$/i.test(attribute))) {
+    throw new Error(`A ${type} fix needs an attribute name`);
+  }
+
+  if (type === 'set-attribute' && typeof fixValue !== 'string') {
+    throw new Error('A set-attribute fix needs a value');
+  }
+
+  return {
+    type: type as QAFixType,
+    ...(typeof attribute === 'string' && { attribute }),
+    ...(typeof fixValue === 'string' && { value: fixValue }),
+    ...(typeof description === 'string' && { description })
+  };
+}
+
+/**
+ * Finds an attribute in a start tag
+ * @param tag The start tag, e.g. <img src="a.png">
+ * @param attribute The attribute name
+ */
+function matchAttribute(tag: string, attribute: string): RegExpMatchArray | null {
+  const name = attribute.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return tag.match(new RegExp(`\\s${name}(\\s*=\\s*("[^"]*"|'[^']*'|[^\\s>]+))?(?=[\\s/>])`, 'i'));
+}
+
+/**
+ * Sets an attribute in a start tag, keeping the rest of the tag as written
+ * @param tag The start tag
+ * @param attribute The attribute name
+ * @param value The value
+ */
+function setTagAttribute(tag: string, attribute: string, value: string): string {
+  const declaration = ` ${attribute}="${value.replace(/"/g, '&quot;')}"`;
+  const match = matchAttribute(tag, attribute);
+
+  if (match) {
+    return tag.slice(0, match.index!) + declaration + tag.slice(match.index! + match[0].length);
+  }
+
+  return tag.replace(/\s*\/?>$/, ending => declaration + ending);
+}
+
+/**
+ * Removes an attribute from a start tag
+ * @param tag The start tag
+ * @param attribute The attribute name
+ */
+function removeTagAttribute(tag: string, attribute: string): string {
+  const match = matchAttribute(tag, attribute);
+  return match ? tag.slice(0, match.index!) + tag.slice(match.index! + match[0].length) : tag;
+}
+
+/**
+ * Describes what a fix does, for patches and change logs
+ * @param fix The fix
+ */
+function describeFix(fix: QAFix): string {
+  if (fix.description) {
+    return fix.description;
+  }
+
+  switch (fix.type) {
+    case 'set-attribute':
+      return `Set ${fix.attribute}="${fix.value}"`;
+    case 'remove-attribute':
+      return `Remove ${fix.attribute}`;
+    case 'remove-element':
+      return 'Remove the element';
+    case 'absolute-url':
+      return `Make ${fix.attribute} absolute`;
+  }
+}
+
+/**
+ * Proposes the patches that fix the failing elements of a rule
+ * Failures the fix cannot change, such as a relative URL without a base URL, get no patch
+ * @param html The validated HTML
+ * @param rule The rule, with its fix
+ * @param result The failing result of the rule, with the locations of the failing elements
+ * @param context The base URL for absolute-url fixes
+ */
+export function proposeQAPatches(html: string, rule: QARule, result: QAValidationResult, context: QAContext = {}): QAPatch[] {
+  const fix = rule.fix;
+  if (!fix || result.isPassing || !result.locations?.length) {
+    return [];
+  }
+
+  const $ = cheerio.load(html, PARSER_OPTIONS);
+  const elements = new Map<number, AnyNode>($('*').toArray().map(element => [element.startIndex!, element]));
+  const description = describeFix(fix);
+  const patches: QAPatch[] = [];
+
+  for (const location of result.locations) {
+    const element = elements.get(location.offset);
+    const tag = html.slice(location.offset, location.endOffset);
+
+    // Only element locations can be fixed, not declarations in <style> blocks
+    if (!element || !/^<[^>]*>$/.test(tag)) {
+      continue;
+    }
+
+    let replacement: string | null = null;
+    let endOffset = location.endOffset;
+
+    switch (fix.type) {
+      case 'set-attribute':
+        replacement = setTagAttribute(tag, fix.attribute!, fix.value || '');
+        break;
+
+      case 'remove-attribute':
+        replacement = removeTagAttribute(tag, fix.attribute!);
+        break;
+
+      case 'remove-element':
+        replacement = '';
+        endOffset = element.endIndex! + 1;
+        break;
+
+      case 'absolute-url':
+        const url = ($(element).attr(fix.attribute!) || '').trim();
+        const baseUrl = context.baseUrl || fix.value;
+        if (NON_RELATIVE_URL.test(url) || (!baseUrl && !url.startsWith('//'))) {
+          break;
+        }
+        try {
+          const absolute = url.startsWith('//') ? `https:${url}` : new URL(url, baseUrl).href;
+          replacement = setTagAttribute(tag, fix.attribute!, absolute);
+        } catch (error) {
+          // The base URL is not a valid URL; leave the element for a manual fix
+        }
+        break;
+    }
+
+    if (replacement !== null && html.slice(location.offset, endOffset) !== replacement) {
+      patches.push({ ruleId: rule.id, offset: location.offset, endOffset, replacement, description });
+    }
+  }
+
+  return patches;
+}
+
+/**
+ * Applies patches to the HTML; a patch overlapping an earlier one is skipped
+ * @param html The HTML the patches were proposed for
+ * @param patches The patches
+ * @returns The patched HTML and the patches applied
+ */
+export function applyQAPatches(html: string, patches: QAPatch[]): { html: string; applied: QAPatch[] } {
+  const applied: QAPatch[] = [];
+  let end = 0;
+
+  for (const patch of [...patches].sort((a, b) => a.offset - b.offset)) {
+    if (patch.offset >= end) {
+      applied.push(patch);
+      end = patch.endOffset;
+    }
+  }
+
+  // Apply from the end so earlier offsets stay valid
+  const patched = applied.reduceRight(
+    (current, patch) => current.slice(0, patch.offset) + patch.replacement + current.slice(patch.endOffset),
+    html
+  );
+
+  return { html: patched, applied };
+}
@@ -0,0 +1,102 @@
+import type { QARule } from './qaValidation';
+import { BUILT_IN_QA_RULES, BUILT_IN_QA_RULE_PREFIX } from './builtInQARules';
+import { getWorkspaceSettings, updateWorkspaceSettings } from './workspaceSettings';
+
+/**
+ * A workspace's changes to a built-in rule; unset fields keep the shipped value
+ */
+export interface QARuleOverride {
+  enabled?: boolean;
+  severity?: QARule['severity'];
+}
+
+const SEVERITIES: QARule['severity'][] = ['error', 'warning', 'info'];
+
+/**
+ * Checks whether a rule ID belongs to the built-in rule pack
+ * @param ruleId The rule ID; qa_rules IDs are numbers
+ */
+export function isBuiltInQARuleId(ruleId: string | number): boolean {
+  return String(ruleId).startsWith(BUILT_IN_QA_RULE_PREFIX);
+}
+
+/**
+ * Validates an override sent by a client
+ * @param value The override
+ * @throws Error if a field has the wrong type or an unknown severity
+ */
+export function validateQARuleOverride(value: unknown): QARuleOverride {
+  if (!value || typeof value !== 'object') {
+    throw new Error('An override must be an object');
+  }
+
+  const { enabled, severity } = value as Record<string, unknown>;
+
+  if (enabled !== undefined && typeof enabled !== 'boolean') {
+    throw new Error('enabled must be a boolean');
+  }
+
+  if (severity !== undefined && !SEVERITIES.includes(severity as QARule['severity'])) {
+    throw new Error(`Unknown severity: ${severity}`);
+  }
+
+  return {
+    ...(enabled !== undefined && { enabled: enabled as boolean }),
+    ...(severity !== undefined && { severity: severity as QARule['severity'] })
+  };
+}
+
+/**
+ * Gets the overrides of the built-in rules for a workspace, by rule ID
+ * @param workspaceId The ID of the workspace
+ */
+export async function getQARuleOverrides(workspaceId: string): Promise<Record<string, QARuleOverride>> {
+  const { settings } = await getWorkspaceSettings(workspaceId);
+  return settings.qaRulePack || {};
+}
+
+/**
+ * Gets the built-in rules with a workspace's overrides applied
+ * Disabled rules are returned inactive; without a workspace the shipped rules are returned
+ * @param workspaceId The ID of the workspace
+ */
+export async function resolveBuiltInQARules(workspaceId?: string): Promise<QARule[]> {
+  const overrides = workspaceId ? await getQARuleOverrides(workspaceId) : {};
+
+  return BUILT_IN_QA_RULES.map(rule => {
+    const override = overrides[rule.id] || {};
+    return {
+      ...rule,
+      severity: override.severity || rule.severity,
+      is_active: override.enabled ?? rule.is_active
+    };
+  });
+}
+
+/**
+ * Changes a built-in rule for a workspace, or restores the shipped rule
+ * @param workspaceId The ID of the workspace
+ * @param ruleId The ID of the built-in rule
+ * @param override The changes, or null to restore the rule
+ * @returns The overrides of the workspace, by rule ID
+ */
+export async function setQARuleOverride(
+  workspaceId: string,
+  ruleId: string,
+  override: QARuleOverride | null
+): Promise<Record<string, QARuleOverride>> {
+  const { settings } = await getWorkspaceSettings(workspaceId);
+  const qaRulePack: Record<string, QARuleOverride> = { ...(settings.qaRulePack || {}) };
+
+  if (override === null || Object.keys(override).length === 0) {
+    delete qaRulePack[ruleId];
+  } else {
+    qaRulePack[ruleId] = override;
+  }
+
+  await updateWorkspaceSettings(workspaceId, {
+    settings: { ...settings, qaRulePack }
+  });
+
+  return qaRulePack;
+}
@@ -0,0 +1,182 @@
+import supabase from '../config/supabaseConfig';
+import { evaluateDomAssertion, parseDomAssertion } from './domAssertions';
+import { OUTLOOK_FALLBACKS, OutlookFallback } from './outlookFallbacks';
+import { validateQAFix } from './qaFixes';
+import { QARule, QA_RULE_TYPES } from './qaValidation';
+
+/**
+ * The fields of a qa_rules row an administrator sets
+ */
+export type QARuleInput = Omit<QARule, 'id' | 'built_in'>;
+
+const SEVERITIES: QARule['severity'][] = ['error', 'warning', 'info'];
+
+// Rule types whose optional pattern is a number, e.g. a color tolerance or a size limit
+const NUMERIC_PATTERN_TYPES = ['brand-colors', 'dark-mode', 'max-size'];
+
+/**
+ * Checks that a rule pattern can be evaluated, so a broken rule is rejected
+ * when it is saved rather than failing every validation
+ * @param ruleType The rule type
+ * @param pattern The rule pattern
+ * @throws Error describing the problem with the pattern
+ */
+export function validateQARulePattern(ruleType: string, pattern: string): void {
+  const trimmed = pattern.trim();
+
+  try {
+    switch (ruleType) {
+      case 'regex':
+        new RegExp(pattern, 'i');
+        break;
+
+      // Attribute and tag patterns are regular expressions inside a start tag
+      case 'attribute':
+        new RegExp(`<[^>]*${pattern}[^>]*>`, 'i');
+        break;
+
+      case 'tag':
+        new RegExp(`<${pattern}[^>]*>`, 'i');
+        break;
+
+      // The selector is checked by evaluating it against an empty document
+      case 'dom': {
+        const assertion = parseDomAssertion(pattern);
+        evaluateDomAssertion('', assertion);
+        if (assertion.pattern) {
+          new RegExp(assertion.pattern, 'i');
+        }
+        break;
+      }
+    }
+  } catch (error) {
+    throw new Error(`Invalid ${ruleType} pattern: ${error instanceof Error ? error.message : error}`);
+  }
+
+  if (ruleType === 'max-width' && trimmed && !/^\d+(\s*-\s*\d+)?$/.test(trimmed)) {
+    throw new Error('A max-width pattern is a width range such as 600-700, or a maximum width');
+  }
+
+  if (NUMERIC_PATTERN_TYPES.includes(ruleType) && trimmed && Number.isNaN(parseFloat(trimmed))) {
+    throw new Error(`A ${ruleType} pattern must be a number`);
+  }
+
+  if (ruleType === 'outlook-fallbacks' && trimmed) {
+    const unknown = trimmed
+      .split(',')
+      .map(name => name.trim())
+      .filter(name => !OUTLOOK_FALLBACKS.includes(name as OutlookFallback));
+    if (unknown.length > 0) {
+      throw new Error(`Unknown Outlook fallbacks: ${unknown.join(', ')}`);
+    }
+  }
+
+  if (['regex', 'attribute', 'tag', 'dom'].includes(ruleType) && !trimmed) {
+    throw new Error(`A ${ruleType} rule needs a pattern`);
+  }
+}
+
+/**
+ * Validates a rule sent by a client
+ * @param value The rule
+ * @returns The rule with defaults for the optional fields
+ * @throws Error describing the first invalid field
+ */
+export function validateQARuleInput(value: unknown): QARuleInput {
+  if (!value || typeof value !== 'object') {
+    throw new Error('A rule must be an object');
+  }
+
+  const rule = value as Record<string, any>;
+
+  if (typeof rule.rule_name !== 'string' || !rule.rule_name.trim()) {
+    throw new Error('A rule needs a name');
+  }
+
+  if (!QA_RULE_TYPES.includes(rule.rule_type)) {
+    throw new Error(`Unknown rule type: ${rule.rule_type}`);
+  }
+
+  const severity = rule.severity ?? 'error';
+  if (!SEVERITIES.includes(severity)) {
+    throw new Error(`Unknown severity: ${severity}`);
+  }
+
+  const pattern = typeof rule.rule_pattern === 'string' ? rule.rule_pattern : '';
+  validateQARulePattern(rule.rule_type, pattern);
+
+  return {
+    rule_name: rule.rule_name.trim(),
+    description: typeof rule.description === 'string' ? rule.description : '',
+    rule_type: rule.rule_type,
+    rule_pattern: pattern,
+    severity,
+    is_active: rule.is_active === true,
+    fix: rule.fix ? validateQAFix(rule.fix) : null
+  };
+}
+
+/**
+ * Creates a rule
+ * @param input The validated rule
+ * @returns The stored rule
+ */
+export async function createQARule(input: QARuleInput): Promise<QARule> {
+  const { data, error } = await supabase
+    .from('qa_rules')
+    .insert([
+      {
+        ...input,
+        created_at: new Date().toISOString()
+      }
+    ])
+    .select();
+
+  if (error) {
+    console.error('Rule create error:', error);
+    throw new Error('Failed to create QA rule');
+  }
+
+  return data[0] as QARule;
+}
+
+/**
+ * Replaces the fields of a rule
+ * @param id The ID of the rule
+ * @param input The validated rule
+ * @returns The stored rule, or null if it does not exist
+ */
+export async function updateQARule(id: number, input: QARuleInput): Promise<QARule | null> {
+  const { data, error } = await supabase
+    .from('qa_rules')
+    .update(input)
+    .eq('id', id)
+    .select();
+
+  if (error) {
+    console.error('Rule update error:', error);
+    throw new Error('Failed to update QA rule');
+  }
+
+  return data && data.length > 0 ? data[0] as QARule : null;
+}
+
+/**
+ * Deletes a rule
+ * @param id The ID of the rule
+ * @returns Whether the rule existed
+ */
+export async function deleteQARule(id: number): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('qa_rules')
+    .delete()
+    .eq('id', id)
+    .select();
+
+  if (error) {
+    console.error('Rule delete error:', error);
+    throw new Error('Failed to delete QA rule');
+  }
+
+  return !!data && data.length > 0;
+}
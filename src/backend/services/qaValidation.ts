@@ -0,0 +1,309 @@
+import supabase from '../config/supabaseConfig';
+import { isAmpEmail, validateAmpEmail } from './ampEmail';
+import { BrandKit, DEFAULT_BRAND_COLOR_TOLERANCE, findOffBrandColors, findOffBrandFonts } from './brandKit';
+import { DEFAULT_DARK_MODE_CONTRAST, checkDarkMode } from './darkMode';
+import { DomAssertionResult, SourceLocation, evaluateDomAssertion, locateSnippet, parseDomAssertion } from './domAssertions';
+import { checkFontFallbacks, checkInlineStyles, checkMaxSize, checkMaxWidth } from './emailChecks';
+import { OUTLOOK_FALLBACKS, OutlookFallback, findMissingOutlookFallbacks } from './outlookFallbacks';
+import { QAFix, QAPatch, applyQAPatches, proposeQAPatches } from './qaFixes';
+import { isBuiltInQARuleId, resolveBuiltInQARules } from './qaRulePack';
+
+// Fixing failures repeats up to this many times, as patches touching the same tag are applied one at a time
+const MAX_FIX_ROUNDS = 3;
+
+// Rule types evaluateQARule understands
+export const QA_RULE_TYPES = [
+  'regex',
+  'attribute',
+  'tag',
+  'dom',
+  'max-width',
+  'inline-styles',
+  'max-size',
+  'font-fallbacks',
+  'brand-colors',
+  'brand-fonts',
+  'dark-mode',
+  'outlook-fallbacks',
+  'amp'
+];
+
+// Define QA rules interface
+export interface QARule {
+  id: string;
+  rule_name: string;
+  description: string;
+  rule_type: string;
+  rule_pattern: string;
+  severity: 'error' | 'warning' | 'info';
+  is_active: boolean;
+  built_in?: boolean; // Shipped with the app rather than stored in qa_rules
+  fix?: QAFix | null; // Applied to the failing elements by "Fix" on the QA page
+}
+
+/**
+ * Outcome of evaluating one QA rule against an HTML document
+ */
+export interface QAValidationResult {
+  ruleId: string;
+  ruleName: string;
+  description: string;
+  severity: QARule['severity'];
+  isPassing: boolean;
+  message: string;
+  snippet?: string; // Excerpt of the offending markup, when the rule can locate it
+  locations?: SourceLocation[]; // Where each failure is, when the rule can locate it
+  patches?: QAPatch[]; // Changes that fix the failures, for rules that declare a fix
+}
+
+/**
+ * Workspace data some rule types check against
+ */
+export interface QAContext {
+  brandKit?: BrandKit | null; // Approved workspace brand kit, for brand-colors and brand-fonts rules
+  baseUrl?: string; // Relative URLs are resolved against it by absolute-url fixes
+}
+
+/**
+ * Fetches the active QA rules: the rules in the qa_rules table and the built-in rules
+ * the workspace has not turned off
+ * @param ruleIds Only fetch these rules when provided
+ * @param workspaceId The workspace whose built-in rule overrides apply
+ */
+export async function fetchActiveQARules(ruleIds?: string[], workspaceId?: string): Promise<QARule[]> {
+  const builtInRules = (await resolveBuiltInQARules(workspaceId))
+    .filter(rule => rule.is_active && (!ruleIds?.length || ruleIds.includes(rule.id)));
+  const storedRuleIds = ruleIds?.filter(ruleId => !isBuiltInQARuleId(ruleId));
+
+  // Only built-in rules were requested
+  if (ruleIds && ruleIds.length > 0 && storedRuleIds!.length === 0) {
+    return builtInRules;
+  }
+
+  let query = supabase.from('qa_rules').select('*').eq('is_active', true);
+
+  // If specific rule IDs are provided, filter by them
+  if (storedRuleIds && storedRuleIds.length > 0) {
+    query = query.in('id', storedRuleIds);
+  }
+
+  const { data: rules, error } = await query;
+
+  if (error) {
+    console.error('Rules fetch error:', error);
+    throw new Error('Failed to fetch QA rules');
+  }
+
+  return [...(rules || []), ...builtInRules];
+}
+
+/**
+ * Copies the outcome of a check that locates its failures into a validation result
+ * @param check The outcome of the check
+ */
+function fromCheck(check: DomAssertionResult): Pick<QAValidationResult, 'isPassing' | 'message' | 'snippet' | 'locations'> {
+  return {
+    isPassing: check.isPassing,
+    message: check.message,
+    snippet: check.locations[0]?.snippet,
+    locations: check.locations.length > 0 ? check.locations : undefined
+  };
+}
+
+/**
+ * Evaluates a single QA rule against an HTML document
+ * Brand rules pass when the workspace has no brand kit
+ * @param rule The QA rule
+ * @param html The HTML to validate
+ * @param context Workspace data for brand rules
+ */
+export function evaluateQARule(rule: QARule, html: string, context: QAContext = {}): QAValidationResult {
+  let isPassing = true;
+  let message = '';
+  let snippet: string | undefined;
+  let locations: SourceLocation[] | undefined;
+
+  try {
+    // Different validation logic based on rule type
+    switch (rule.rule_type) {
+      case 'regex':
+        const regex = new RegExp(rule.rule_pattern, 'i');
+        isPassing = regex.test(html);
+        message = isPassing ? 'Rule passed' : `Failed to match pattern: ${rule.rule_pattern}`;
+        break;
+
+      case 'attribute':
+        // Check for required attributes; the pattern is a regular expression, as stored rules expect
+        const attributeRegex = new RegExp(`<[^>]*${rule.rule_pattern}[^>]*>`, 'i');
+        isPassing = attributeRegex.test(html);
+        message = isPassing ? 'Rule passed' : `Missing required attribute: ${rule.rule_pattern}`;
+        break;
+
+      case 'tag':
+        // Check for required tags; use a dom rule to require an element by selector
+        const tagRegex = new RegExp(`<${rule.rule_pattern}[^>]*>`, 'i');
+        isPassing = tagRegex.test(html);
+        message = isPassing ? 'Rule passed' : `Missing required tag: ${rule.rule_pattern}`;
+        break;
+
+      case 'dom':
+        // The pattern is a selector no element may match, or a JSON assertion
+        ({ isPassing, message, snippet, locations } = fromCheck(
+          evaluateDomAssertion(html, parseDomAssertion(rule.rule_pattern || ''))
+        ));
+        break;
+
+      case 'max-width':
+        // The pattern is a width range in px, e.g. "600-700"
+        ({ isPassing, message, snippet, locations } = fromCheck(checkMaxWidth(html, rule.rule_pattern)));
+        break;
+
+      case 'inline-styles':
+        ({ isPassing, message, snippet, locations } = fromCheck(checkInlineStyles(html)));
+        break;
+
+      case 'max-size':
+        // The pattern is an optional size limit in bytes, Gmail's clipping limit by default
+        ({ isPassing, message, snippet, locations } = fromCheck(checkMaxSize(html, rule.rule_pattern)));
+        break;
+
+      case 'font-fallbacks':
+        ({ isPassing, message, snippet, locations } = fromCheck(checkFontFallbacks(html)));
+        break;
+
+      case 'brand-colors':
+        // The pattern is an optional color tolerance (RGB distance)
+        if (!context.brandKit) {
+          message = 'No brand kit for this workspace';
+          break;
+        }
+        const colors = findOffBrandColors(
+          html,
+          context.brandKit,
+          parseFloat(rule.rule_pattern) || DEFAULT_BRAND_COLOR_TOLERANCE
+        );
+        isPassing = colors.colors.length === 0;
+        message = isPassing ? 'Rule passed' : `Colors outside the brand palette: ${colors.colors.join(', ')}`;
+        snippet = colors.snippet;
+        break;
+
+      case 'brand-fonts':
+        if (!context.brandKit) {
+          message = 'No brand kit for this workspace';
+          break;
+        }
+        const fonts = findOffBrandFonts(html, context.brandKit);
+        isPassing = fonts.fonts.length === 0;
+        message = isPassing ? 'Rule passed' : `Fonts outside the brand kit: ${fonts.fonts.join(', ')}`;
+        snippet = fonts.snippet;
+        break;
+
+      case 'dark-mode':
+        // The pattern is an optional minimum contrast ratio of dark mode text
+        const darkMode = checkDarkMode(html, parseFloat(rule.rule_pattern) || DEFAULT_DARK_MODE_CONTRAST);
+        isPassing = darkMode.issues.length === 0;
+        message = isPassing ? 'Rule passed' : darkMode.issues.join('; ');
+        snippet = darkMode.snippet;
+        break;
+
+      case 'outlook-fallbacks':
+        // The pattern optionally lists the fallbacks to check, e.g. "vml-buttons,vml-backgrounds"
+        const fallbacks = (rule.rule_pattern || '')
+          .split(',')
+          .map(name => name.trim())
+          .filter((name): name is OutlookFallback => OUTLOOK_FALLBACKS.includes(name as OutlookFallback));
+        const outlook = findMissingOutlookFallbacks(html, fallbacks.length > 0 ? fallbacks : OUTLOOK_FALLBACKS);
+        isPassing = outlook.issues.length === 0;
+        message = isPassing ? 'Rule passed' : outlook.issues.join('; ');
+        snippet = outlook.snippet;
+        break;
+
+      case 'amp':
+        // Only AMP documents are validated; the HTML fallback passes
+        if (!isAmpEmail(html)) {
+          message = 'Not an AMP email';
+          break;
+        }
+        const ampIssues = validateAmpEmail(html);
+        isPassing = ampIssues.length === 0;
+        message = isPassing ? 'Rule passed' : ampIssues.map(issue => issue.message).join('; ');
+        snippet = ampIssues.find(issue => issue.snippet)?.snippet;
+        break;
+
+      default:
+        message = 'Unknown rule type';
+        isPassing = false;
+    }
+  } catch (error) {
+    console.error(`Rule validation error for rule ${rule.id}:`, error);
+    isPassing = false;
+    message = 'Error validating rule';
+  }
+
+  // Rules that only report the offending markup are located by finding it in the HTML
+  if (!isPassing && !locations && snippet) {
+    const location = locateSnippet(html, snippet);
+    locations = location ? [location] : undefined;
+  }
+
+  const result: QAValidationResult = {
+    ruleId: rule.id,
+    ruleName: rule.rule_name,
+    description: rule.description,
+    severity: rule.severity,
+    isPassing,
+    message,
+    snippet,
+    locations
+  };
+
+  const patches = proposeQAPatches(html, rule, result, context);
+  return patches.length > 0 ? { ...result, patches } : result;
+}
+
+/**
+ * Validates HTML against every rule
+ * @param html The HTML to validate
+ * @param rules The QA rules
+ * @param context Workspace data for brand rules
+ */
+export function validateHtml(html: string, rules: QARule[], context: QAContext = {}): QAValidationResult[] {
+  return rules.map(rule => evaluateQARule(rule, html, context));
+}
+
+/**
+ * Gets the failing error-severity results, which make a validation fail
+ * @param results The validation results
+ */
+export function getErrorFailures(results: QAValidationResult[]): QAValidationResult[] {
+  return results.filter(result => !result.isPassing && result.severity === 'error');
+}
+
+/**
+ * Fixes the failures of the rules that declare a fix, validating again after each round
+ * so that several fixes of the same element are all applied
+ * @param html The HTML to fix
+ * @param rules The rules whose failures to fix
+ * @param context Workspace data for the rules and the base URL for absolute-url fixes
+ * @returns The fixed HTML and the number of patches applied, by rule ID
+ */
+export function fixQAFailures(html: string, rules: QARule[], context: QAContext = {}): { html: string; applied: Record<string, number> } {
+  const fixableRules = rules.filter(rule => rule.fix);
+  const applied: Record<string, number> = {};
+  let fixed = html;
+
+  for (let round = 0; round < MAX_FIX_ROUNDS && fixableRules.length > 0; round++) {
+    const patches = validateHtml(fixed, fixableRules, context).flatMap(result => result.patches || []);
+    if (patches.length === 0) {
+      break;
+    }
+
+    const result = applyQAPatches(fixed, patches);
+    fixed = result.html;
+    for (const patch of result.applied) {
+      applied[patch.ruleId] = (applied[patch.ruleId] || 0) + 1;
+    }
+  }
+
+  return { html: fixed, applied };
+}
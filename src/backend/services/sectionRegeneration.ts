@@ -0,0 +1,287 @@
+import { createCanvas } from '@napi-rs/canvas';
+import {
+  ConversionOptions,
+  ConversionResult,
+  DEFAULT_CONVERSION_OPTIONS,
+  DesignPage,
+  TokenUsage,
+  extractHtmlFromResponse
+} from './conversionProvider';
+import { convertToAmpEmail } from './ampEmail';
+import { BrandColor, getEmailBrandKit, getWorkspaceBrandKit } from './brandKit';
+import { applyDarkMode } from './darkMode';
+import { resolveConversionProvider } from './conversionRegistry';
+import { assembleDesignPage, downloadDesignFile, prepareDesignSource } from './designSource';
+import { EmailSection, findSectionsInRange, listEmailSections, replaceEmailSection } from './emailSections';
+import type { EmailConversion } from './emailConversions';
+import { normalizeEmailHtml } from './htmlNormalizer';
+import { applyOutlookFallbacks } from './outlookFallbacks';
+import { resolvePromptTemplates } from './promptTemplates';
+import { recordModelUsage } from './usageAccounting';
+
+/**
+ * A horizontal band of a design page, as fractions of the page height
+ * Email designs stack their sections vertically, so a band covers whole sections
+ */
+export interface DesignRegion {
+  pageNumber: number;
+  top: number;
+  bottom: number;
+}
+
+/**
+ * What to regenerate: a section by ID, the section containing an editor selection,
+ * or the section shown in an area of the design
+ * The section ID or selection wins over the region, which then only supplies the reference image
+ */
+export interface SectionTarget {
+  sectionId?: string;
+  selection?: { from: number; to: number }; // Character offsets in the HTML
+  region?: DesignRegion;
+}
+
+/**
+ * Input for regenerating one section of a stored conversion
+ */
+export interface SectionRegenerationInput {
+  conversion: EmailConversion;
+  clerkUserId: string;
+  workspaceId: string;
+  html: string; // The current HTML of the email, which may contain unsaved edits
+  target: SectionTarget;
+  instructions?: string;
+}
+
+/**
+ * A regenerated section merged back into the email
+ */
+export interface SectionRegenerationResult {
+  html: string;
+  section: { id: string; html: string };
+  promptVersions: Record<string, number>;
+  ampHtml?: string; // AMP version of the merged email, for conversions to the amp target
+}
+
+/**
+ * Checks a design region sent by the client
+ * @param value The region from the request body
+ * @throws Error if the region is not a band of a page
+ */
+export function validateDesignRegion(value: unknown): DesignRegion {
+  const region = value as Partial<DesignRegion> | null;
+
+  if (
+    !region ||
+    !Number.isInteger(region.pageNumber) ||
+    region.pageNumber! < 1 ||
+    typeof region.top !== 'number' ||
+    typeof region.bottom !== 'number' ||
+    region.top < 0 ||
+    region.bottom > 1 ||
+    region.top >= region.bottom
+  ) {
+    throw new Error('A region needs a page number and a top and bottom between 0 and 1, with top above bottom');
+  }
+
+  return { pageNumber: region.pageNumber!, top: region.top, bottom: region.bottom };
+}
+
+/**
+ * Finds the section to regenerate
+ * A region without a section ID or selection picks the section at the same relative height
+ * @param html The email HTML
+ * @param target The section ID, editor selection or design region
+ * @throws Error if the target does not identify exactly one section
+ */
+export function resolveSectionTarget(html: string, target: SectionTarget): EmailSection {
+  const sections = listEmailSections(html);
+
+  if (sections.length === 0) {
+    throw new Error('This email has no section markers; convert the design again to regenerate sections');
+  }
+
+  if (target.sectionId) {
+    const section = sections.find(candidate => candidate.id === target.sectionId);
+    if (!section) {
+      throw new Error(`Section not found: ${target.sectionId}`);
+    }
+    return section;
+  }
+
+  if (target.selection) {
+    const { from, to } = target.selection;
+    const selected = findSectionsInRange(html, Math.min(from, to), Math.max(from, to));
+
+    if (selected.length !== 1) {
+      throw new Error(selected.length === 0
+        ? 'The selection is not inside a section'
+        : `The selection spans ${selected.length} sections; select code inside a single section`);
+    }
+    return selected[0];
+  }
+
+  if (target.region) {
+    const middle = (target.region.top + target.region.bottom) / 2;
+    return sections[Math.min(sections.length - 1, Math.floor(middle * sections.length))];
+  }
+
+  throw new Error('A section ID, an editor selection or a design region is required');
+}
+
+/**
+ * Crops a band of a design page into a reference image for the model
+ * Tall pages are reassembled from their tiles first
+ * @param pages The design page tiles
+ * @param region The band to crop
+ * @returns The cropped image, or null if the design has no rasterized page with that number
+ */
+export async function cropDesignRegion(pages: DesignPage[], region: DesignRegion): Promise<DesignPage | null> {
+  const pageCanvas = await assembleDesignPage(pages, region.pageNumber);
+
+  if (!pageCanvas) {
+    return null;
+  }
+
+  const { width, height } = pageCanvas;
+  const tile = pages.find(page => page.pageNumber === region.pageNumber)!;
+  const top = Math.floor(region.top * height);
+  const cropHeight = Math.max(1, Math.ceil(region.bottom * height) - top);
+  const cropCanvas = createCanvas(width, cropHeight);
+  cropCanvas.getContext('2d').drawImage(pageCanvas, 0, top, width, cropHeight, 0, 0, width, cropHeight);
+
+  return {
+    pageNumber: region.pageNumber,
+    tileIndex: 0,
+    tileCount: 1,
+    mimeType: 'image/png',
+    data: cropCanvas.toBuffer('image/png').toString('base64'),
+    width,
+    height: cropHeight,
+    role: tile.role,
+    label: tile.label
+  };
+}
+
+/**
+ * Adds the markup the conversion generated after the model to a merged email, so a regenerated
+ * section gets the same Outlook fallbacks and dark mode styles as the rest of the email
+ * Conversions that did not record their options get the default Outlook fallbacks
+ * @param html The merged email
+ * @param metadata The metadata of the conversion
+ * @param palette The palette the dark mode colors follow
+ */
+function addGeneratedMarkup(
+  html: string,
+  metadata: Partial<ConversionResult['metadata']>,
+  palette: BrandColor[]
+): string {
+  let result = metadata.outlookFallbacks !== false ? applyOutlookFallbacks(html) : html;
+  if (metadata.darkMode) {
+    result = applyDarkMode(result, palette);
+  }
+  return result;
+}
+
+/**
+ * Asks the provider of a conversion to regenerate one section and merges it back into the email
+ * Only the markup between the section's markers changes; the merged email is normalized again
+ * and post-processed as the conversion was
+ * @param input The conversion, the current HTML, the section to regenerate and optional instructions
+ * @throws Error if the target is invalid or the provider fails
+ */
+export async function regenerateEmailSection(input: SectionRegenerationInput): Promise<SectionRegenerationResult> {
+  const { conversion, clerkUserId, workspaceId, html, target, instructions } = input;
+  const metadata = conversion.metadata || {};
+
+  const section = resolveSectionTarget(html, target);
+
+  // Regenerate with the provider and model that converted the email
+  const { provider, model: workspaceModel } = await resolveConversionProvider(metadata.provider, workspaceId);
+  const options: ConversionOptions = {
+    ...DEFAULT_CONVERSION_OPTIONS,
+    makeResponsive: metadata.responsive ?? DEFAULT_CONVERSION_OPTIONS.makeResponsive,
+    model: metadata.model || workspaceModel
+  };
+
+  let referenceImage: DesignPage | undefined;
+  if (target.region) {
+    const fileBuffer = await downloadDesignFile(conversion.storage_path);
+    const designSource = await prepareDesignSource(fileBuffer, conversion.file_name, options);
+    referenceImage = await cropDesignRegion(designSource.pages, target.region) ?? undefined;
+
+    if (!referenceImage) {
+      throw new Error(`Design page ${target.region.pageNumber} could not be rendered`);
+    }
+  }
+
+  let brandKit;
+  try {
+    brandKit = (await getWorkspaceBrandKit(workspaceId))?.kit;
+  } catch (error) {
+    console.error('Brand kit skipped, the workspace brand kit could not be loaded:', error);
+  }
+
+  const promptTemplates = await resolvePromptTemplates(workspaceId);
+  const promptVersions: Record<string, number> = {};
+  const usage: TokenUsage[] = [];
+
+  let responseText = '';
+  for await (const chunk of provider.regenerateSection(
+    {
+      conversion: {
+        filePath: conversion.storage_path,
+        fileName: conversion.file_name,
+        options,
+        brandKit,
+        promptTemplates
+      },
+      html,
+      sectionId: section.id,
+      sectionHtml: section.html,
+      instructions,
+      referenceImage
+    },
+    {
+      onUsage: callUsage => usage.push(callUsage),
+      onPrompt: template => {
+        promptVersions[template.name] = template.version;
+      }
+    }
+  )) {
+    responseText += chunk;
+  }
+
+  for (const callUsage of usage) {
+    await recordModelUsage(
+      { clerkUserId, workspaceId, provider: provider.id, operation: 'section-regeneration', emailId: conversion.id },
+      callUsage
+    );
+  }
+
+  const sectionHtml = extractHtmlFromResponse(responseText);
+  if (!sectionHtml.trim()) {
+    throw new Error(`The provider returned no markup for ${section.id}`);
+  }
+
+  const replaced = replaceEmailSection(html, section.id, sectionHtml);
+
+  // Markers the model wrote are stripped; the email must keep exactly its sections
+  const sectionIds = (markup: string) => listEmailSections(markup).map(candidate => candidate.id).join(',');
+  if (sectionIds(replaced) !== sectionIds(html)) {
+    throw new Error(`The provider returned markup for ${section.id} that changes the sections of the email`);
+  }
+
+  // Dark mode colors follow the brand kit, or the kit extracted from the design without one
+  const palette = metadata.darkMode
+    ? brandKit?.palette ?? (await getEmailBrandKit(conversion.id))?.kit.palette ?? []
+    : [];
+  const merged = addGeneratedMarkup(normalizeEmailHtml(replaced), metadata, palette);
+  const regenerated = listEmailSections(merged).find(candidate => candidate.id === section.id);
+
+  return {
+    html: merged,
+    section: { id: section.id, html: regenerated ? regenerated.html : sectionHtml },
+    promptVersions,
+    ampHtml: metadata.targetPlatform === 'amp' || metadata.ampHtml ? convertToAmpEmail(merged) : undefined
+  };
+}
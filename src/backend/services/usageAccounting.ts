@@ -0,0 +1,257 @@
+import supabase from '../config/supabaseConfig';
+import { ConversionProviderId, TokenUsage } from './conversionProvider';
+import { getOrCreateUser } from './users';
+
+/**
+ * Prices in US dollars per million tokens, by model
+ */
+const MODEL_PRICES: Record<string, { input: number; output: number }> = {
+  'gemini-2.0-flash': { input: 0.1, output: 0.4 },
+  'gemini-1.5-flash': { input: 0.075, output: 0.3 },
+  'gemini-1.5-pro': { input: 1.25, output: 5 },
+  'claude-3-haiku-20240307': { input: 0.25, output: 1.25 },
+  'claude-3-5-sonnet-20241022': { input: 3, output: 15 },
+  'claude-3-7-sonnet-20250219': { input: 3, output: 15 }
+};
+
+// A month of usage, e.g. 2026-10
+const MONTH_PATTERN = /^(\d{4})-(\d{2})$/;
+
+// The most model_usage rows the Supabase API returns per request
+const USAGE_PAGE_SIZE = 1000;
+
+/**
+ * What a model call was made for
+ */
+export type UsageOperation = 'conversion' | 'repair' | 'section-regeneration' | 'code-assistant-chat' | 'code-assistant-modify';
+
+/**
+ * Who made a model call and what for
+ */
+export interface UsageContext {
+  clerkUserId: string;
+  workspaceId: string;
+  provider: ConversionProviderId;
+  operation: UsageOperation;
+  emailId?: string; // The conversion the call belongs to
+}
+
+/**
+ * A row of the model_usage table
+ */
+export interface ModelUsageRecord {
+  id: number;
+  workspace_id: string;
+  user_id: number;
+  email_id: string | null;
+  operation: UsageOperation;
+  provider: ConversionProviderId;
+  model: string;
+  input_tokens: number;
+  output_tokens: number;
+  latency_ms: number;
+  estimated_cost: number | null;
+  created_at: string;
+}
+
+/**
+ * Usage summed over a set of model calls
+ */
+export interface UsageTotals {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  estimatedCost: number; // US dollars; calls to models without a known price count as free
+  averageLatencyMs: number;
+}
+
+/**
+ * Usage of a workspace in a calendar month (UTC)
+ */
+export interface MonthlyUsage {
+  month: string;
+  workspace: UsageTotals;
+  byUser: Array<UsageTotals & { userId: number }>;
+  byModel: Array<UsageTotals & { provider: ConversionProviderId; model: string }>;
+  byOperation: Array<UsageTotals & { operation: UsageOperation }>;
+}
+
+/**
+ * Estimates the cost of a model call
+ * @param usage The token usage of the call
+ * @returns The cost in US dollars, or null when the model has no known price
+ */
+export function estimateUsageCost(usage: TokenUsage): number | null {
+  const price = MODEL_PRICES[usage.model];
+
+  if (!price) {
+    return null;
+  }
+
+  return (usage.inputTokens * price.input + usage.outputTokens * price.output) / 1000000;
+}
+
+/**
+ * Logs a model call to the model_usage table
+ * Failures are logged and swallowed, so accounting never fails the call it records
+ * @param context Who made the call and what for
+ * @param usage The token usage, model and latency of the call
+ */
+export async function recordModelUsage(context: UsageContext, usage: TokenUsage): Promise<void> {
+  try {
+    const user = await getOrCreateUser(context.clerkUserId);
+
+    const { error } = await supabase
+      .from('model_usage')
+      .insert([
+        {
+          workspace_id: context.workspaceId,
+          user_id: user.id,
+          email_id: context.emailId || null,
+          operation: context.operation,
+          provider: context.provider,
+          model: usage.model,
+          input_tokens: usage.inputTokens,
+          output_tokens: usage.outputTokens,
+          latency_ms: Math.round(usage.latencyMs),
+          estimated_cost: estimateUsageCost(usage),
+          created_at: new Date().toISOString()
+        }
+      ]);
+
+    if (error) {
+      console.error('Model usage save error:', error);
+    }
+
+  } catch (error) {
+    console.error('Model usage recording error:', error);
+  }
+}
+
+/**
+ * Parses a month in YYYY-MM format, defaulting to the current month (UTC)
+ * @param value The month, or null for the current month
+ * @returns The month and the bounds of its date range, the end being exclusive
+ * @throws Error if the value is not a valid month
+ */
+export function parseUsageMonth(value: string | null): { month: string; start: Date; end: Date } {
+  const now = new Date();
+  const match = MONTH_PATTERN.exec(value || '');
+
+  if (value && (!match || Number(match[2]) < 1 || Number(match[2]) > 12)) {
+    throw new Error(`Invalid month: ${value}. Expected YYYY-MM`);
+  }
+
+  const year = match ? Number(match[1]) : now.getUTCFullYear();
+  const monthIndex = match ? Number(match[2]) - 1 : now.getUTCMonth();
+
+  return {
+    month: `${year}-${String(monthIndex + 1).padStart(2, '0')}`,
+    start: new Date(Date.UTC(year, monthIndex, 1)),
+    end: new Date(Date.UTC(year, monthIndex + 1, 1))
+  };
+}
+
+/**
+ * Sums the usage of a set of model calls
+ * @param records The model_usage rows
+ */
+function sumUsage(records: ModelUsageRecord[]): UsageTotals {
+  const totals = records.reduce(
+    (sum, record) => ({
+      inputTokens: sum.inputTokens + record.input_tokens,
+      outputTokens: sum.outputTokens + record.output_tokens,
+      estimatedCost: sum.estimatedCost + Number(record.estimated_cost || 0),
+      latencyMs: sum.latencyMs + record.latency_ms
+    }),
+    { inputTokens: 0, outputTokens: 0, estimatedCost: 0, latencyMs: 0 }
+  );
+
+  return {
+    calls: records.length,
+    inputTokens: totals.inputTokens,
+    outputTokens: totals.outputTokens,
+    // Round to a hundredth of a cent
+    estimatedCost: Math.round(totals.estimatedCost * 10000) / 10000,
+    averageLatencyMs: records.length > 0 ? Math.round(totals.latencyMs / records.length) : 0
+  };
+}
+
+/**
+ * Groups model calls by a key and sums each group, highest cost first
+ * @param records The model_usage rows
+ * @param getKey Gets the group key of a row
+ */
+function groupUsage(records: ModelUsageRecord[], getKey: (record: ModelUsageRecord) => string) {
+  const groups = new Map<string, ModelUsageRecord[]>();
+
+  for (const record of records) {
+    const key = getKey(record);
+    const group = groups.get(key);
+    if (group) {
+      group.push(record);
+    } else {
+      groups.set(key, [record]);
+    }
+  }
+
+  return Array.from(groups.values())
+    .map(group => ({ sample: group[0], totals: sumUsage(group) }))
+    .sort((a, b) => b.totals.estimatedCost - a.totals.estimatedCost);
+}
+
+/**
+ * Loads the model calls of a workspace in a period, page by page, as the Supabase API
+ * returns at most USAGE_PAGE_SIZE rows per request
+ * @param workspaceId The ID of the workspace
+ * @param start The start of the period
+ * @param end The end of the period, exclusive
+ */
+async function fetchUsageRecords(workspaceId: string, start: Date, end: Date): Promise<ModelUsageRecord[]> {
+  const records: ModelUsageRecord[] = [];
+
+  for (;;) {
+    const { data, error } = await supabase
+      .from('model_usage')
+      .select('*')
+      .eq('workspace_id', workspaceId)
+      .gte('created_at', start.toISOString())
+      .lt('created_at', end.toISOString())
+      .order('id', { ascending: true })
+      .range(records.length, records.length + USAGE_PAGE_SIZE - 1);
+
+    if (error) {
+      console.error('Model usage fetch error:', error);
+      throw new Error('Failed to fetch model usage');
+    }
+
+    records.push(...((data || []) as ModelUsageRecord[]));
+
+    if (!data || data.length < USAGE_PAGE_SIZE) {
+      return records;
+    }
+  }
+}
+
+/**
+ * Gets the usage of a workspace in a month, in total and per user, model and operation
+ * @param workspaceId The ID of the workspace
+ * @param monthValue The month in YYYY-MM format, or null for the current month
+ * @throws Error if the month is invalid or the usage cannot be loaded
+ */
+export async function getMonthlyUsage(workspaceId: string, monthValue: string | null): Promise<MonthlyUsage> {
+  const { month, start, end } = parseUsageMonth(monthValue);
+
+  const records = await fetchUsageRecords(workspaceId, start, end);
+
+  return {
+    month,
+    workspace: sumUsage(records),
+    byUser: groupUsage(records, record => String(record.user_id))
+      .map(({ sample, totals }) => ({ userId: sample.user_id, ...totals })),
+    byModel: groupUsage(records, record => `${record.provider}/${record.model}`)
+      .map(({ sample, totals }) => ({ provider: sample.provider, model: sample.model, ...totals })),
+    byOperation: groupUsage(records, record => record.operation)
+      .map(({ sample, totals }) => ({ operation: sample.operation, ...totals }))
+  };
+}
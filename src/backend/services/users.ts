@@ -0,0 +1,53 @@
+import supabase from '../config/supabaseConfig';
+
+/**
+ * A row of the users table
+ */
+export interface UserRecord {
+  id: number;
+  clerk_id: string;
+  email: string;
+  role: string;
+}
+
+/**
+ * Gets the users row for a Clerk user, creating it with the Developer role on first use
+ * @param clerkId The Clerk user ID
+ * @param email Email address stored when the user is created
+ */
+export async function getOrCreateUser(clerkId: string, email?: string): Promise<UserRecord> {
+  const { data: userData, error: userError } = await supabase
+    .from('users')
+    .select('id, clerk_id, email, role')
+    .eq('clerk_id', clerkId)
+    .single();
+
+  if (!userError && userData) {
+    return userData;
+  }
+
+  // If the user doesn't exist, create a new user
+  if (userError && userError.code !== 'PGRST116') {
+    console.error('User fetch error:', userError);
+    throw new Error('Failed to fetch user');
+  }
+
+  const { data: newUser, error: createError } = await supabase
+    .from('users')
+    .insert([
+      {
+        clerk_id: clerkId,
+        email: email || 'unknown@example.com',
+        role: 'Developer', // Default role
+        created_at: new Date().toISOString()
+      }
+    ])
+    .select('id, clerk_id, email, role');
+
+  if (createError || !newUser || newUser.length === 0) {
+    console.error('User creation error:', createError);
+    throw new Error('Failed to create user');
+  }
+
+  return newUser[0];
+}
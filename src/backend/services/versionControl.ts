@@ -1,4 +1,5 @@
 import supabase from '../config/supabaseConfig';
+import { getOrCreateUser } from './users';
 
 interface VersionMetadata {
   author?: string;
@@ -7,6 +8,7 @@ interface VersionMetadata {
   userId?: string;
   email?: string;
   title?: string;
+  mjmlContent?: string; // MJML source the HTML belongs to, stored with the version
   [key: string]: any;
 }
 
@@ -25,45 +27,7 @@ export async function saveVersion(emailId: string, htmlContent: string, metadata
     }
     
     // Get the user ID from the users table
-    let { data: userData, error: userError } = await supabase
-      .from('users')
-      .select('id')
-      .eq('clerk_id', metadata.userId)
-      .single();
-      
-    if (userError) {
-      console.error('User fetch error:', userError);
-      
-      // If the user doesn't exist, create a new user
-      if (userError.code === 'PGRST116') {
-        const { data: newUser, error: createError } = await supabase
-          .from('users')
-          .insert([
-            {
-              clerk_id: metadata.userId,
-              email: metadata.email || 'unknown@example.com',
-              role: 'Developer', // Default role
-              created_at: new Date().toISOString()
-            }
-          ])
-          .select();
-          
-        if (createError) {
-          console.error('User creation error:', createError);
-          throw new Error('Failed to create user');
-        }
-        
-        userData = newUser[0];
-      } else {
-        throw new Error('Failed to fetch user');
-      }
-    }
-    
-    if (!userData) {
-      throw new Error('User data is null');
-    }
-    
-    const userId = userData.id;
+    const { id: userId } = await getOrCreateUser(metadata.userId, metadata.email);
     
     // Get the current version number
     const { data: versions, error: versionsError } = await supabase
@@ -89,6 +53,7 @@ export async function saveVersion(emailId: string, htmlContent: string, metadata
           user_id: userId,
           title: metadata.title || `Version ${nextVersion}`,
           html_content: htmlContent,
+          mjml_content: metadata.mjmlContent || null,
           version: nextVersion,
           created_at: new Date().toISOString()
         }
@@ -220,7 +185,8 @@ export async function rollbackToVersion(emailId: string, versionNumber: number)
         userId: versionData.user_id,
         title: `Rollback to version ${versionNumber}`,
         comment: `Rolled back to version ${versionNumber}`,
-        rollback_from: versionNumber
+        rollback_from: versionNumber,
+        mjmlContent: versionData.mjml_content || undefined
       }
     );
     
@@ -0,0 +1,280 @@
+import { Canvas, Image, createCanvas, loadImage } from '@napi-rs/canvas';
+import puppeteer, { Browser } from 'puppeteer';
+import supabase from '../config/supabaseConfig';
+import type { ConversionOptions, DesignPage } from './conversionProvider';
+import { assembleDesignPage, downloadDesignFile, prepareDesignSource, resolvePageRoles } from './designSource';
+import type { EmailConversion } from './emailConversions';
+
+/**
+ * Widths the HTML is rendered at, matching the email's desktop and mobile layouts
+ */
+export type VisualDiffViewport = 'desktop' | 'mobile';
+
+export const VISUAL_DIFF_VIEWPORT_WIDTHS: Record<VisualDiffViewport, number> = {
+  desktop: 600,
+  mobile: 375
+};
+
+// Initial viewport height; screenshots cover the full height of the email
+const RENDER_VIEWPORT_HEIGHT = 800;
+
+// How long a render may wait for the email's images and fonts
+const RENDER_TIMEOUT_MS = 20 * 1000;
+
+// Pixels whose RGB difference exceeds this share of the maximum count as different
+const PIXEL_DIFF_THRESHOLD = 0.1;
+
+// Share of the rendered pixel kept in the heatmap background, the rest is white
+const HEATMAP_BACKGROUND_OPACITY = 0.3;
+
+const HEATMAP_COLOR: [number, number, number] = [220, 38, 38];
+
+/**
+ * The comparison of the HTML rendered at one width with a design page
+ */
+export interface ViewportDiff {
+  viewport: VisualDiffViewport;
+  width: number;
+  pageNumber: number; // The design page the render was compared with
+  similarity: number; // Share of matching pixels, from 0 to 1
+  heatmapPath: string | null; // Heatmap in the design-files bucket, null if it could not be stored
+}
+
+/**
+ * Pixel comparison of a conversion with its design, stored in the conversion metadata
+ */
+export interface VisualDiff {
+  similarity: number; // Mean similarity of the compared viewports
+  viewports: ViewportDiff[];
+  createdAt: string;
+}
+
+/**
+ * Picks the design page each viewport is compared with
+ * Desktop uses the first desktop page, or the first page when no page has a role;
+ * mobile is only compared when the design has a mobile page
+ * @param pages The design pages, with their roles resolved
+ */
+function pickViewportPages(pages: DesignPage[]): Partial<Record<VisualDiffViewport, number>> {
+  const rasterized = pages.filter(page => page.mimeType !== 'application/pdf');
+  const desktop = rasterized.find(page => page.role === 'desktop') || rasterized.find(page => !page.role);
+  const mobile = rasterized.find(page => page.role === 'mobile');
+
+  return {
+    desktop: desktop?.pageNumber,
+    mobile: mobile?.pageNumber
+  };
+}
+
+/**
+ * Starts a headless browser for rendering emails
+ * PUPPETEER_EXECUTABLE_PATH selects the browser; VISUAL_DIFF_NO_SANDBOX=true is needed when it runs as root
+ */
+function launchBrowser(): Promise<Browser> {
+  return puppeteer.launch({
+    headless: true,
+    args: process.env.VISUAL_DIFF_NO_SANDBOX === 'true' ? ['--no-sandbox', '--disable-setuid-sandbox'] : []
+  });
+}
+
+/**
+ * Renders email HTML at a width and takes a screenshot of the whole email
+ * Scripts are disabled and only images, stylesheets and fonts are fetched
+ * @param browser The headless browser
+ * @param html The email HTML
+ * @param width The viewport width in CSS pixels
+ */
+async function renderEmail(browser: Browser, html: string, width: number): Promise<Buffer> {
+  const page = await browser.newPage();
+
+  try {
+    await page.setJavaScriptEnabled(false);
+    await page.setRequestInterception(true);
+    page.on('request', request => {
+      const isAsset = ['image', 'stylesheet', 'font'].includes(request.resourceType());
+      if (isAsset && /^(https?|data):/.test(request.url())) {
+        request.continue();
+      } else {
+        request.abort();
+      }
+    });
+
+    await page.setViewport({ width, height: RENDER_VIEWPORT_HEIGHT, deviceScaleFactor: 1 });
+    await page.setContent(html, { waitUntil: 'networkidle0', timeout: RENDER_TIMEOUT_MS });
+
+    return Buffer.from(await page.screenshot({ fullPage: true, type: 'png' }));
+  } finally {
+    await page.close();
+  }
+}
+
+/**
+ * Draws an image scaled to a width onto a white canvas of the given height
+ * @param image The image
+ * @param width The target width
+ * @param height The canvas height; parts of the image below it are cut off
+ */
+function drawScaled(image: Canvas | Image, width: number, height: number) {
+  const canvas = createCanvas(width, height);
+  const context = canvas.getContext('2d');
+  context.fillStyle = '#ffffff';
+  context.fillRect(0, 0, width, height);
+  context.drawImage(image, 0, 0, width, Math.round(image.height * (width / image.width)));
+  return context.getImageData(0, 0, width, height).data;
+}
+
+/**
+ * Compares a screenshot with a design page pixel by pixel
+ * The design is scaled to the width of the screenshot; when their heights differ,
+ * the missing part of the shorter one counts as white
+ * @param design The design page
+ * @param screenshot The rendered email
+ * @returns The share of matching pixels and a heatmap of the differences over the render
+ */
+async function compareWithDesign(
+  design: Canvas,
+  screenshot: Buffer
+): Promise<{ similarity: number; heatmap: Buffer }> {
+  const render = await loadImage(screenshot);
+  const width = render.width;
+  const height = Math.max(render.height, Math.round(design.height * (width / design.width)));
+
+  const designPixels = drawScaled(design, width, height);
+  const renderPixels = drawScaled(render, width, height);
+
+  const heatmapCanvas = createCanvas(width, height);
+  const heatmapContext = heatmapCanvas.getContext('2d');
+  const heatmap = heatmapContext.createImageData(width, height);
+  let differentPixels = 0;
+
+  for (let index = 0; index < designPixels.length; index += 4) {
+    const difference = (
+      Math.abs(designPixels[index] - renderPixels[index]) +
+      Math.abs(designPixels[index + 1] - renderPixels[index + 1]) +
+      Math.abs(designPixels[index + 2] - renderPixels[index + 2])
+    ) / (3 * 255);
+
+    if (difference > PIXEL_DIFF_THRESHOLD) {
+      differentPixels++;
+      heatmap.data.set(HEATMAP_COLOR, index);
+    } else {
+      // Matching pixels show a faded grayscale of the render
+      const gray = (renderPixels[index] + renderPixels[index + 1] + renderPixels[index + 2]) / 3;
+      const faded = 255 - (255 - gray) * HEATMAP_BACKGROUND_OPACITY;
+      heatmap.data.set([faded, faded, faded], index);
+    }
+    heatmap.data[index + 3] = 255;
+  }
+
+  heatmapContext.putImageData(heatmap, 0, 0);
+
+  return {
+    similarity: 1 - differentPixels / (width * height),
+    heatmap: heatmapCanvas.toBuffer('image/png')
+  };
+}
+
+/**
+ * Renders email HTML in a headless browser at desktop and mobile widths and compares
+ * each render with the matching design page; heatmaps are stored in the design-files bucket
+ * @param html The email HTML
+ * @param pages The design pages, with their roles resolved
+ * @param storagePrefix Folder for the heatmaps, e.g. visual-diffs/<userId>/<conversionId>
+ * @throws Error if the design has no rasterized page to compare with
+ */
+export async function createVisualDiff(html: string, pages: DesignPage[], storagePrefix: string): Promise<VisualDiff> {
+  const viewportPages = pickViewportPages(pages);
+  const viewports = (Object.keys(VISUAL_DIFF_VIEWPORT_WIDTHS) as VisualDiffViewport[])
+    .filter(viewport => viewportPages[viewport] !== undefined);
+
+  if (viewports.length === 0) {
+    throw new Error('The design has no rendered page to compare with');
+  }
+
+  const browser = await launchBrowser();
+  const diffs: ViewportDiff[] = [];
+
+  try {
+    for (const viewport of viewports) {
+      const pageNumber = viewportPages[viewport]!;
+      const design = await assembleDesignPage(pages, pageNumber);
+      const width = VISUAL_DIFF_VIEWPORT_WIDTHS[viewport];
+      const { similarity, heatmap } = await compareWithDesign(design!, await renderEmail(browser, html, width));
+
+      const heatmapPath = `${storagePrefix}/${viewport}.png`;
+      const { error } = await supabase
+        .storage
+        .from('design-files')
+        .upload(heatmapPath, heatmap, { contentType: 'image/png', upsert: true });
+
+      if (error) {
+        // The similarity is still stored without its heatmap
+        console.error('Heatmap upload error:', error);
+      }
+
+      diffs.push({ viewport, width, pageNumber, similarity, heatmapPath: error ? null : heatmapPath });
+    }
+  } finally {
+    await browser.close();
+  }
+
+  return {
+    similarity: diffs.reduce((sum, diff) => sum + diff.similarity, 0) / diffs.length,
+    viewports: diffs,
+    createdAt: new Date().toISOString()
+  };
+}
+
+/**
+ * Compares HTML edited after a conversion with the conversion's design
+ * The design file is rasterized again with the options of the conversion, and the
+ * heatmaps replace those stored for the conversion
+ * @param conversion The conversion
+ * @param clerkUserId The Clerk user ID of the conversion's owner
+ * @param html The HTML to compare, e.g. the current editor content
+ * @param options The conversion options, for the rasterization settings and page roles
+ */
+export async function diffConversionHtml(
+  conversion: EmailConversion,
+  clerkUserId: string,
+  html: string,
+  options: ConversionOptions
+): Promise<VisualDiff> {
+  const fileBuffer = await downloadDesignFile(conversion.storage_path);
+  const designSource = await prepareDesignSource(fileBuffer, conversion.file_name, options);
+
+  return createVisualDiff(
+    html,
+    resolvePageRoles(designSource.pages, options.pageRoles),
+    `visual-diffs/${clerkUserId}/${conversion.id}`
+  );
+}
+
+/**
+ * Loads the heatmaps of a visual diff as data URLs for the editor
+ * @param visualDiff The stored visual diff
+ * @returns The data URL of each viewport's heatmap; heatmaps that cannot be loaded are left out
+ */
+export async function loadHeatmaps(visualDiff: VisualDiff): Promise<Partial<Record<VisualDiffViewport, string>>> {
+  const heatmaps: Partial<Record<VisualDiffViewport, string>> = {};
+
+  for (const diff of visualDiff.viewports) {
+    if (!diff.heatmapPath) {
+      continue;
+    }
+
+    const { data, error } = await supabase
+      .storage
+      .from('design-files')
+      .download(diff.heatmapPath);
+
+    if (error) {
+      console.error('Heatmap download error:', error);
+      continue;
+    }
+
+    heatmaps[diff.viewport] = `data:image/png;base64,${Buffer.from(await data.arrayBuffer()).toString('base64')}`;
+  }
+
+  return heatmaps;
+}
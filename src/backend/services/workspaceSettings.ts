@@ -0,0 +1,102 @@
+import supabase from '../config/supabaseConfig';
+import { ConversionProviderId } from './conversionProvider';
+
+/**
+ * Per-workspace configuration stored in the workspace_settings table
+ */
+export interface WorkspaceSettings {
+  workspace_id: string;
+  conversion_provider: ConversionProviderId | null;
+  conversion_model: string | null;
+  settings: Record<string, any>;
+}
+
+/**
+ * Resolves the workspace for an authenticated request
+ * The Clerk organization is the workspace; users outside an organization get a personal workspace
+ * @param auth The Clerk auth object from getAuth
+ */
+export function getWorkspaceId(auth: { userId: string | null; orgId?: string | null }): string {
+  if (auth.orgId) {
+    return auth.orgId;
+  }
+
+  if (!auth.userId) {
+    throw new Error('User ID is required');
+  }
+
+  return `user_${auth.userId}`;
+}
+
+/**
+ * Gets the settings for a workspace, falling back to defaults when none are stored
+ * @param workspaceId The ID of the workspace
+ * @returns The workspace settings
+ */
+export async function getWorkspaceSettings(workspaceId: string): Promise<WorkspaceSettings> {
+  const defaults: WorkspaceSettings = {
+    workspace_id: workspaceId,
+    conversion_provider: null,
+    conversion_model: null,
+    settings: {}
+  };
+
+  try {
+    const { data, error } = await supabase
+      .from('workspace_settings')
+      .select('*')
+      .eq('workspace_id', workspaceId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Workspace settings fetch error:', error);
+      // Fall back to defaults, as settings are optional
+      return defaults;
+    }
+
+    return data ? { ...defaults, ...data, settings: data.settings || {} } : defaults;
+
+  } catch (error) {
+    console.error('Workspace settings error:', error);
+    return defaults;
+  }
+}
+
+/**
+ * Creates or updates the settings for a workspace
+ * @param workspaceId The ID of the workspace
+ * @param updates The settings to change
+ * @returns Object with success status and the stored settings
+ */
+export async function updateWorkspaceSettings(
+  workspaceId: string,
+  updates: Partial<Omit<WorkspaceSettings, 'workspace_id'>>
+) {
+  try {
+    const { data, error } = await supabase
+      .from('workspace_settings')
+      .upsert([
+        {
+          workspace_id: workspaceId,
+          ...updates,
+          updated_at: new Date().toISOString()
+        }
+      ])
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Workspace settings save error:', error);
+      throw new Error('Failed to save workspace settings');
+    }
+
+    return {
+      success: true,
+      settings: data as WorkspaceSettings
+    };
+
+  } catch (error) {
+    console.error('Update workspace settings error:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,169 @@
+import React, { useState, useEffect } from 'react';
+import CodeMirror from '@uiw/react-codemirror';
+import { html } from '@codemirror/lang-html';
+import { oneDark } from '@codemirror/theme-one-dark';
+import { EditorView } from '@uiw/react-codemirror';
+import { getAmpVersion, generateAmpVersion, saveAmpVersion } from '@/lib/api-service';
+
+interface AmpEditorProps {
+  conversionId: string;
+  code: string; // The HTML fallback, the source of a generated AMP version
+  isDarkMode: boolean;
+}
+
+interface AmpValidationIssue {
+  message: string;
+  snippet?: string;
+}
+
+export default function AmpEditor({ conversionId, code, isDarkMode }: AmpEditorProps) {
+  const [amp, setAmp] = useState<string | null>(null);
+  const [issues, setIssues] = useState<AmpValidationIssue[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isBusy, setIsBusy] = useState(false);
+  const [isDirty, setIsDirty] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    getAmpVersion(conversionId)
+      .then((data) => {
+        setAmp(data.amp);
+        setIssues(data.issues);
+      })
+      .catch((err) => {
+        console.error('Error loading AMP version:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load the AMP version');
+      })
+      .finally(() => setIsLoading(false));
+  }, [conversionId]);
+
+  // Run a request that returns the stored AMP version and its issues
+  const runAmpRequest = async (request: () => Promise<{ amp: string; issues: AmpValidationIssue[] }>, fallbackError: string) => {
+    try {
+      setIsBusy(true);
+      setError(null);
+      const data = await request();
+      setAmp(data.amp);
+      setIssues(data.issues);
+      setIsDirty(false);
+    } catch (err) {
+      console.error(fallbackError, err);
+      setError(err instanceof Error ? err.message : fallbackError);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleGenerate = () => {
+    if (amp && isDirty && !window.confirm('Replace the edited AMP version with one generated from the HTML?')) {
+      return;
+    }
+    runAmpRequest(() => generateAmpVersion(conversionId, code), 'Failed to generate the AMP version');
+  };
+
+  const handleSave = () => {
+    if (amp) {
+      runAmpRequest(() => saveAmpVersion(conversionId, amp), 'Failed to save the AMP version');
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center items-center h-[500px]">
+        <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-zinc-900 dark:border-zinc-100"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-zinc-600 dark:text-zinc-400">
+          {amp
+            ? issues.length === 0
+              ? 'The AMP version is valid.'
+              : `The AMP version has ${issues.length} validation issue${issues.length === 1 ? '' : 's'}.`
+            : 'This email has no AMP version yet.'}
+          {isDirty && ' Unsaved changes are validated when you save.'}
+        </p>
+        <div className="flex items-center space-x-2">
+          <button
+            onClick={handleGenerate}
+            disabled={isBusy}
+            className="px-3 py-1 text-sm border rounded-md hover:bg-zinc-50 dark:hover:bg-zinc-800 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Generate from HTML
+          </button>
+          {amp && (
+            <a
+              href={`/api/convertEmail/${conversionId}/amp?format=mime`}
+              className="px-3 py-1 text-sm border rounded-md hover:bg-zinc-50 dark:hover:bg-zinc-800"
+            >
+              Download .eml
+            </a>
+          )}
+          <button
+            onClick={handleSave}
+            disabled={isBusy || !amp}
+            className="px-3 py-1 text-sm bg-zinc-900 text-white rounded-md hover:bg-zinc-800 dark:bg-zinc-50 dark:text-zinc-900 dark:hover:bg-zinc-200 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isBusy ? 'Working...' : 'Save & Validate'}
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="p-3 bg-red-100 text-red-700 rounded-md text-sm dark:bg-red-900/30 dark:text-red-400">
+          {error}
+        </div>
+      )}
+
+      {amp !== null && (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <div className="border rounded-lg overflow-hidden">
+            <div className="bg-zinc-100 dark:bg-zinc-800 px-4 py-2 border-b">
+              <h2 className="font-medium">AMP Editor</h2>
+            </div>
+            <CodeMirror
+              value={amp}
+              height="500px"
+              extensions={[html(), EditorView.lineWrapping]}
+              onChange={(value: string) => {
+                setAmp(value);
+                setIsDirty(true);
+              }}
+              theme={isDarkMode ? oneDark : undefined}
+              className="text-sm"
+            />
+          </div>
+          <div className="border rounded-lg overflow-hidden">
+            <div className="bg-zinc-100 dark:bg-zinc-800 px-4 py-2 border-b">
+              <h2 className="font-medium">AMP Preview</h2>
+            </div>
+            {/* The AMP runtime needs scripts; without allow-same-origin it cannot reach the app */}
+            <iframe
+              srcDoc={amp}
+              title="AMP Preview"
+              className="w-full bg-white border-0"
+              sandbox="allow-scripts allow-popups"
+              style={{ height: "500px" }}
+            />
+          </div>
+        </div>
+      )}
+
+      {issues.length > 0 && (
+        <div className="border rounded-lg divide-y dark:divide-zinc-700">
+          {issues.map((issue, index) => (
+            <div key={index} className="p-3 text-sm">
+              <p className="text-red-700 dark:text-red-400">{issue.message}</p>
+              {issue.snippet && (
+                <pre className="mt-1 text-xs bg-zinc-100 dark:bg-zinc-800 p-2 rounded overflow-x-auto">{issue.snippet}</pre>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
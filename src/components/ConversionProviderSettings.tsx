@@ -0,0 +1,103 @@
+import React, { useState, useEffect } from 'react';
+import { getConversionProviders, updateWorkspaceConversionProvider } from '@/lib/api-service';
+
+interface ProviderOption {
+  id: string;
+  displayName: string;
+  capabilities: { defaultModel?: string; models?: string[] };
+}
+
+// Lets administrators pick the provider and model the workspace converts with when an upload does not name one
+export default function ConversionProviderSettings() {
+  const [providers, setProviders] = useState<ProviderOption[]>([]);
+  const [defaultProvider, setDefaultProvider] = useState<string | null>(null);
+  const [provider, setProvider] = useState(''); // Empty for the server default
+  const [model, setModel] = useState(''); // Empty for the provider's default model
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    getConversionProviders()
+      .then((data) => {
+        setProviders(data.providers || []);
+        setDefaultProvider(data.defaultProvider || null);
+        setProvider(data.workspaceProvider || '');
+        setModel(data.workspaceModel || '');
+      })
+      .catch((error) => {
+        console.error('Error loading conversion providers:', error);
+        setError('Failed to load conversion providers.');
+      })
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const handleSave = async () => {
+    try {
+      setIsSaving(true);
+      setError(null);
+      setMessage(null);
+      const data = await updateWorkspaceConversionProvider(provider || null, provider ? model.trim() || null : null);
+      setDefaultProvider(data.defaultProvider || null);
+      setModel(data.workspaceModel || '');
+      setMessage('Saved.');
+    } catch (error) {
+      console.error('Error saving the conversion provider:', error);
+      setError(error instanceof Error ? error.message : 'Failed to save the conversion provider.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const selected = providers.find((option) => option.id === provider);
+  const defaultName = providers.find((option) => option.id === defaultProvider)?.displayName || defaultProvider;
+
+  if (isLoading) {
+    return <div className="h-20 animate-pulse bg-gray-100 rounded"></div>;
+  }
+
+  return (
+    <div className="space-y-3 text-sm">
+      <select
+        value={provider}
+        onChange={(e: any) => {
+          setProvider(e.target.value);
+          setModel('');
+        }}
+        className="w-full px-2 py-2 border rounded-md bg-transparent"
+      >
+        <option value="">Server default</option>
+        {providers.map((option) => (
+          <option key={option.id} value={option.id}>{option.displayName}</option>
+        ))}
+      </select>
+      <input
+        type="text"
+        value={model}
+        onChange={(e: any) => setModel(e.target.value)}
+        disabled={!provider}
+        list="conversion-provider-models"
+        placeholder={selected?.capabilities.defaultModel ? `Model (default ${selected.capabilities.defaultModel})` : 'Model'}
+        className="w-full px-3 py-2 border rounded-md bg-transparent disabled:opacity-50"
+      />
+      <datalist id="conversion-provider-models">
+        {(selected?.capabilities.models || []).map((name) => (
+          <option key={name} value={name} />
+        ))}
+      </datalist>
+      <div className="flex items-center justify-between">
+        <span className="text-zinc-600 dark:text-zinc-400">
+          {error || message || (defaultName ? `Uploads use ${defaultName}` : '')}
+        </span>
+        <button
+          onClick={handleSave}
+          disabled={isSaving}
+          className="px-4 py-2 bg-zinc-900 text-white rounded-md hover:bg-zinc-800 dark:bg-zinc-50 dark:text-zinc-900 dark:hover:bg-zinc-200 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isSaving ? "Saving..." : "Save"}
+        </button>
+      </div>
+    </div>
+  );
+}
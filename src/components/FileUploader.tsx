@@ -1,35 +1,133 @@
 import React, { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
 import { PDFDocument } from 'pdf-lib';
+import { getConversion, getConversionJob, getConversionProviders } from '@/lib/api-service';
+import { readConversionEvents, resumeConversionEvents } from '@/lib/conversion-stream';
 
-// Create a global variable to store HTML until it can be used
-if (typeof window !== 'undefined') {
-  (window as any).__EMAIL_HTML_CONTENT__ = null;
-}
+// Design file types accepted by the conversion routes
+const ACCEPTED_FILE_TYPES = '.pdf,.png,.jpg,.jpeg,.svg,.zip';
 
 interface FileUploaderProps {
   onConversionComplete?: (html: string, metadata: any, conversionId: string) => void;
   onConversionError?: (error: string) => void;
   makeResponsive?: boolean;
   optimizeForEmail?: boolean;
-  targetPlatform?: 'sfmc' | 'generic';
+  targetPlatform?: 'sfmc' | 'generic' | 'amp';
+  provider?: string;
+}
+
+// Progress of a conversion event stream, kept across reconnects
+interface ConversionStreamState {
+  jobId: string | null;
+  lastEventId: number;
+  html: string;
+}
+
+// The job reported an error event, so there is nothing to reconnect to
+class ConversionFailedError extends Error {}
+
+interface ProviderOption {
+  id: string;
+  displayName: string;
 }
 
+type PageRole = 'desktop' | 'mobile' | 'dark' | 'ignore';
+
+// Provider and temperature of one candidate when several conversions are compared
+interface CandidateOption {
+  provider: string;
+  temperature: string; // Empty for the provider's default temperature
+}
+
+// Most conversions that can be compared at once
+const MAX_CANDIDATES = 4;
+
+const PAGE_ROLE_OPTIONS: { value: PageRole; label: string }[] = [
+  { value: 'desktop', label: 'Desktop' },
+  { value: 'mobile', label: 'Mobile' },
+  { value: 'dark', label: 'Dark mode variant' },
+  { value: 'ignore', label: 'Ignore' }
+];
+
+// Repair rounds requested when automatic QA fixing is enabled
+const AUTO_REPAIR_ROUNDS = 2;
+
+// Remembers the running conversion job so the page can reconnect to it after a reload
+const ACTIVE_JOB_STORAGE_KEY = 'activeConversionJob';
+
+// How often a running job is checked when there is no live stream
+const JOB_POLL_INTERVAL_MS = 2000;
+
+// How many times a dropped event stream is resumed before falling back to polling
+const MAX_STREAM_RESUMES = 3;
+
+// Status text and conversion progress shown for each job status
+const JOB_STATUS_PROGRESS: Record<string, { label: string; progress: number }> = {
+  queued: { label: 'Waiting for a free conversion slot...', progress: 5 },
+  rasterizing: { label: 'Preparing design pages...', progress: 15 },
+  generating: { label: 'Converting design to HTML...', progress: 50 },
+  'post-processing': { label: 'Cleaning up the generated HTML...', progress: 90 },
+  done: { label: 'Conversion completed', progress: 100 }
+};
+
+// Page 1 is usually the desktop design and page 2 the mobile design
+const getDefaultPageRoles = (pageCount: number): PageRole[] =>
+  Array.from({ length: pageCount }, (_, index) => (index === 1 ? 'mobile' : 'desktop'));
+
 const FileUploader: React.FC<FileUploaderProps> = ({
   onConversionComplete,
   onConversionError,
   makeResponsive = true,
   optimizeForEmail = true,
-  targetPlatform = 'sfmc'
+  targetPlatform = 'sfmc',
+  provider
 }) => {
   const [isDragging, setIsDragging] = useState(false);
   const [isUploading, setIsUploading] = useState(false);
   const [uploadProgress, setUploadProgress] = useState(0);
   const [conversionProgress, setConversionProgress] = useState(0);
   const [error, setError] = useState<string | null>(null);
+  const [providers, setProviders] = useState<ProviderOption[]>([]);
+  const [selectedProvider, setSelectedProvider] = useState<string>(provider || '');
+  const [selectedPlatform, setSelectedPlatform] = useState(targetPlatform);
+  const [pendingFile, setPendingFile] = useState<File | null>(null);
+  const [pageRoles, setPageRoles] = useState<PageRole[]>([]);
+  const [autoRepair, setAutoRepair] = useState(false);
+  const [reconvert, setReconvert] = useState(false);
+  const [darkMode, setDarkMode] = useState(false);
+  const [outlookFallbacks, setOutlookFallbacks] = useState(true);
+  const [mjml, setMjml] = useState(false);
+  const [compareCandidates, setCompareCandidates] = useState(false);
+  const [candidates, setCandidates] = useState<CandidateOption[]>([]);
+  const [statusMessage, setStatusMessage] = useState<string | null>(null);
   const fileInputRef = { current: null as HTMLInputElement | null };
   const router = useRouter();
 
+  // Load the available conversion providers and the workspace default
+  useEffect(() => {
+    getConversionProviders()
+      .then((data) => {
+        setProviders(data.providers || []);
+        if (!provider && data.defaultProvider) {
+          setSelectedProvider(data.defaultProvider);
+        }
+      })
+      .catch((error) => {
+        console.error('Error loading conversion providers:', error);
+      });
+  }, []);
+
+  // Reconnect to a conversion that was still running when the page was closed or reloaded
+  useEffect(() => {
+    const jobId = localStorage.getItem(ACTIVE_JOB_STORAGE_KEY);
+    if (jobId) {
+      setIsUploading(true);
+      setUploadProgress(100);
+      setStatusMessage('Reconnecting to your conversion...');
+      reconnectToJob(jobId, { jobId, lastEventId: 0, html: '' });
+    }
+  }, []);
+
   const handleDragOver = (e: any) => {
     e.preventDefault();
     e.stopPropagation();
@@ -75,7 +173,7 @@ const FileUploader: React.FC<FileUploaderProps> = ({
   // Handle streaming conversion
   const handleStreamingConversion = async (file: File, formData: FormData): Promise<void> => {
     try {
-      console.log('Using streaming conversion for multi-page PDF');
+      console.log('Using streaming conversion');
       
       // Update progress for upload
       setUploadProgress(50);
@@ -93,56 +191,152 @@ const FileUploader: React.FC<FileUploaderProps> = ({
       
       setUploadProgress(100);
       
-      // Process the streaming response
-      const reader = response.body?.getReader();
-      if (!reader) {
-        throw new Error('Response body is not readable');
+      const stream: ConversionStreamState = { jobId: null, lastEventId: 0, html: '' };
+      if (await followConversionEvents(response, stream)) {
+        return;
       }
       
-      let html = '';
-      let conversionId = `conv_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
-      
-      // Read chunks of the stream
+      // The stream ended before the job did, e.g. after a dropped connection
+      if (!stream.jobId) {
+        throw new Error('The conversion stream ended unexpectedly');
+      }
+      await reconnectToJob(stream.jobId, stream);
+    } catch (error) {
+      console.error('Streaming conversion error:', error);
+      setError(error instanceof Error ? error.message : 'Failed to convert file');
+      setIsUploading(false);
+    }
+  };
+
+  // Apply the events of a conversion stream until the job completes or fails
+  // Returns true once the conversion is opened, false if the stream ended early
+  const followConversionEvents = async (response: Response, stream: ConversionStreamState): Promise<boolean> => {
+    try {
+      for await (const { id, event } of readConversionEvents(response)) {
+        stream.lastEventId = id ?? stream.lastEventId;
+        
+        switch (event.status) {
+          case 'job':
+            // Remember the job until it finishes, so a reload can reconnect to it
+            if (event.jobStatus === 'queued') {
+              stream.jobId = event.jobId;
+              localStorage.setItem(ACTIVE_JOB_STORAGE_KEY, event.jobId);
+            }
+            setStatusMessage(event.message);
+            setConversionProgress(JOB_STATUS_PROGRESS[event.jobStatus]?.progress ?? 0);
+            break;
+          case 'page-progress':
+            setStatusMessage(event.message);
+            break;
+          case 'processing':
+            setConversionProgress(JOB_STATUS_PROGRESS.generating.progress);
+            break;
+          case 'chunk':
+            // Incremental content
+            stream.html += event.data;
+            setConversionProgress(progress => Math.min(85, progress + 1));
+            break;
+          case 'token-usage':
+            console.log(`Tokens used (${event.stage}): ${event.inputTokens} in, ${event.outputTokens} out`);
+            break;
+          case 'warning':
+            console.warn(`Conversion warning (${event.code}):`, event.message);
+            setStatusMessage(event.message);
+            break;
+          case 'qa':
+            // QA result for the initial conversion
+            setStatusMessage(event.passed ? 'QA passed' : `QA found ${event.failures.length} error(s)`);
+            break;
+          case 'repairing':
+            // A self-repair round has started
+            setStatusMessage(event.message);
+            break;
+          case 'repaired':
+            // Result of a self-repair round
+            stream.html = event.html || stream.html;
+            setStatusMessage(event.passed
+              ? `QA passed after ${event.round} repair round(s)`
+              : `${event.failures.length} QA error(s) remaining after round ${event.round}`);
+            break;
+          case 'repair-failed':
+            // Keep the HTML from the previous round
+            setStatusMessage(event.error);
+            break;
+          case 'complete':
+            // Final HTML and metadata; the conversion is already stored server-side
+            localStorage.removeItem(ACTIVE_JOB_STORAGE_KEY);
+            setConversionProgress(100);
+            openInEditor(event.html || stream.html, event.metadata, event.metadata.conversionId!);
+            return true;
+          case 'error':
+            localStorage.removeItem(ACTIVE_JOB_STORAGE_KEY);
+            throw new ConversionFailedError(event.error);
+        }
+      }
+    } catch (error) {
+      if (error instanceof ConversionFailedError) {
+        throw error;
+      }
+      // A dropped connection; the caller reconnects to the job
+      console.error('Conversion stream interrupted:', error);
+    }
+    
+    return false;
+  };
+
+  // Resume the event stream of a running job, falling back to polling its status
+  const reconnectToJob = async (jobId: string, stream: ConversionStreamState): Promise<void> => {
+    try {
+      for (let attempt = 0; attempt < MAX_STREAM_RESUMES; attempt++) {
+        const response = await resumeConversionEvents(jobId, stream.lastEventId);
+        if (!response) {
+          break;
+        }
+        
+        if (await followConversionEvents(response, stream)) {
+          return;
+        }
+      }
+    } catch (error) {
+      if (error instanceof ConversionFailedError) {
+        setError(error.message);
+        setIsUploading(false);
+        return;
+      }
+      console.error('Could not resume the conversion stream:', error);
+    }
+    
+    await waitForJob(jobId);
+  };
+
+  // Poll a conversion job until it finishes, then open the stored conversion
+  const waitForJob = async (jobId: string): Promise<void> => {
+    try {
       while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
+        const job = await getConversionJob(jobId);
         
-        // Convert chunk to text
-        const chunkText = new TextDecoder().decode(value);
+        if (job.status === 'failed') {
+          throw new Error(job.error || 'Conversion failed');
+        }
         
-        // Each line is a JSON object
-        const lines = chunkText.split('\n').filter(Boolean);
+        const stage = JOB_STATUS_PROGRESS[job.status];
+        if (stage) {
+          setStatusMessage(job.progress || stage.label);
+          setConversionProgress(stage.progress);
+        }
         
-        for (const line of lines) {
-          try {
-            const data = JSON.parse(line);
-            
-            if (data.status === 'processing') {
-              // Initial processing message
-              setConversionProgress(10);
-            } else if (data.status === 'chunk') {
-              // Incremental content
-              html += data.data;
-              setConversionProgress(Math.min(90, conversionProgress + 5));
-            } else if (data.status === 'complete') {
-              // Final HTML and metadata
-              html = data.html || html;
-              setConversionProgress(100);
-              
-              // Store the HTML and redirect
-              await storeHtmlAndRedirect(html, conversionId);
-              break;
-            } else if (data.status === 'error') {
-              // Error in processing
-              throw new Error(data.error || 'Error during conversion');
-            }
-          } catch (parseError) {
-            console.error('Error parsing streaming chunk:', parseError);
-          }
+        if (job.status === 'done') {
+          localStorage.removeItem(ACTIVE_JOB_STORAGE_KEY);
+          const conversion = await getConversion(job.conversionId);
+          openInEditor(conversion.html, conversion.metadata, conversion.id);
+          return;
         }
+        
+        await new Promise(resolve => setTimeout(resolve, JOB_POLL_INTERVAL_MS));
       }
     } catch (error) {
-      console.error('Streaming conversion error:', error);
+      console.error('Conversion job error:', error);
+      localStorage.removeItem(ACTIVE_JOB_STORAGE_KEY);
       setError(error instanceof Error ? error.message : 'Failed to convert file');
       setIsUploading(false);
     }
@@ -165,25 +359,12 @@ const FileUploader: React.FC<FileUploaderProps> = ({
         throw new Error(errorData.error || 'Failed to convert file');
       }
       
-      // Update progress
       setUploadProgress(100);
-      setConversionProgress(50);
       
-      // Process successful response
+      // The conversion runs as a background job; remember it and wait for it to finish
       const data = await response.json();
-      console.log('API Response SUCCESS, html length:', data.html?.length);
-      
-      setConversionProgress(100);
-      
-      if (data.html) {
-        // Generate a unique ID for this conversion
-        const conversionId = `conv_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
-        console.log('Generated conversion ID:', conversionId);
-        
-        await storeHtmlAndRedirect(data.html, conversionId);
-      } else {
-        throw new Error('No HTML content in the response');
-      }
+      localStorage.setItem(ACTIVE_JOB_STORAGE_KEY, data.jobId);
+      await waitForJob(data.jobId);
     } catch (error) {
       console.error('Regular conversion error:', error);
       setError(error instanceof Error ? error.message : 'Failed to convert file');
@@ -191,53 +372,113 @@ const FileUploader: React.FC<FileUploaderProps> = ({
     }
   };
 
-  // Helper to store HTML and redirect
-  const storeHtmlAndRedirect = async (html: string, conversionId: string): Promise<void> => {
+  // Queue one conversion per candidate, then pick between them side by side
+  const handleCandidateConversion = async (formData: FormData): Promise<void> => {
     try {
-      // MULTIPLE STORAGE APPROACH - using all available methods for redundancy
-      // 1. Store in sessionStorage with the conversion ID
-      sessionStorage.setItem(`html_${conversionId}`, html);
-      
-      // 2. Store in sessionStorage with a fixed key as fallback
-      sessionStorage.setItem('emailHtml', html);
-      
-      // 3. Set a cookie with the conversion ID
-      document.cookie = `emailConversionId=${conversionId}; path=/; max-age=300`;
-      
-      // 4. Store in localStorage through a transport object
-      const transport = {
-        html: html,
-        timestamp: Date.now(),
-        id: conversionId
-      };
-      localStorage.setItem('emailHtmlTransport', JSON.stringify(transport));
+      const response = await fetch('/api/convertEmail', {
+        method: 'POST',
+        body: formData,
+      });
       
-      // 5. Set global variable
-      if (typeof window !== 'undefined') {
-        (window as any).__EMAIL_HTML_CONTENT__ = html;
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to convert file');
       }
       
-      // DELAY 500ms to ensure storage is complete before navigation
-      await new Promise(resolve => setTimeout(resolve, 500));
+      setUploadProgress(100);
       
-      // Redirect to editor page with the conversion ID
-      console.log('Redirecting to editor page with ID:', conversionId);
-      router.push(`/editor?id=${conversionId}`);
-    } catch (storageError) {
-      console.error('Failed to store HTML:', storageError);
-      throw storageError;
+      const data = await response.json();
+      router.push(`/candidates?group=${data.candidateGroupId}`);
+    } catch (error) {
+      console.error('Candidate conversion error:', error);
+      setError(error instanceof Error ? error.message : 'Failed to convert file');
+      setIsUploading(false);
+    }
+  };
+
+  // Start comparing with two candidates: two providers, or one provider at two temperatures
+  const handleCompareCandidatesChange = (checked: boolean) => {
+    setCompareCandidates(checked);
+    if (checked && candidates.length === 0) {
+      const [first, second] = providers.map((option) => option.id);
+      const defaultProvider = selectedProvider || first || '';
+      setCandidates(second
+        ? [{ provider: defaultProvider, temperature: '' }, { provider: defaultProvider === first ? second : first, temperature: '' }]
+        : [{ provider: defaultProvider, temperature: '0' }, { provider: defaultProvider, temperature: '0.7' }]);
     }
   };
 
+  // Update the provider or temperature of a single candidate
+  const handleCandidateChange = (candidateIndex: number, change: Partial<CandidateOption>) => {
+    setCandidates((current) => current.map((candidate, index) => (index === candidateIndex ? { ...candidate, ...change } : candidate)));
+  };
+
+  // Hand the stored conversion to the parent, or open it in the editor by ID
+  const openInEditor = (html: string, metadata: any, conversionId: string): void => {
+    if (onConversionComplete) {
+      onConversionComplete(html, metadata, conversionId);
+      return;
+    }
+    
+    router.push(`/editor?id=${conversionId}`);
+  };
+
   const handleFileUpload = async (file: File): Promise<void> => {
     if (!file) {
       setError('Please select a file');
       return;
     }
     
+    const fileExt = '.' + file.name.split('.').pop()?.toLowerCase();
+    if (!ACCEPTED_FILE_TYPES.split(',').includes(fileExt)) {
+      setError('Unsupported file type. Please upload a PDF, PNG, JPG, SVG or ZIP file.');
+      return;
+    }
+    
+    setError(null);
+    
+    // Multi-page PDFs need a role for each page before they are converted;
+    // images and ZIP bundles are mapped on the server
+    if (fileExt === '.pdf') {
+      const pageCount = await checkPdfPageCount(file);
+      console.log(`PDF has ${pageCount} pages`);
+      
+      if (pageCount > 1) {
+        setPendingFile(file);
+        setPageRoles(getDefaultPageRoles(pageCount));
+        return;
+      }
+    }
+    
+    await startConversion(file);
+  };
+
+  // Update the role of a single page in the page role map
+  const handlePageRoleChange = (pageIndex: number, role: PageRole) => {
+    setPageRoles((roles) => roles.map((current, index) => (index === pageIndex ? role : current)));
+  };
+
+  // Convert the pending multi-page PDF with the chosen page roles
+  const handleConfirmPageRoles = async () => {
+    if (!pendingFile) {
+      return;
+    }
+    
+    if (pageRoles.every((role) => role === 'ignore')) {
+      setError('At least one page must be converted.');
+      return;
+    }
+    
+    const file = pendingFile;
+    setPendingFile(null);
+    await startConversion(file, pageRoles);
+  };
+
+  const startConversion = async (file: File, roles?: PageRole[]): Promise<void> => {
     try {
       setIsUploading(true);
       setError(null);
+      setStatusMessage(null);
       setUploadProgress(10);
       setConversionProgress(0);
       
@@ -246,18 +487,46 @@ const FileUploader: React.FC<FileUploaderProps> = ({
       formData.append('file', file);
       formData.append('makeResponsive', makeResponsive.toString());
       formData.append('optimizeForEmail', optimizeForEmail.toString());
-      formData.append('targetPlatform', targetPlatform);
+      formData.append('targetPlatform', selectedPlatform);
+      if (selectedProvider) {
+        formData.append('provider', selectedProvider);
+      }
+      if (autoRepair) {
+        formData.append('repairRounds', AUTO_REPAIR_ROUNDS.toString());
+      }
+      if (reconvert) {
+        formData.append('useCache', 'false');
+      }
+      if (darkMode) {
+        formData.append('darkMode', 'true');
+      }
+      if (!outlookFallbacks) {
+        formData.append('outlookFallbacks', 'false');
+      }
+      if (mjml) {
+        formData.append('mjml', 'true');
+      }
+      if (roles) {
+        // Page numbers are 1-based on the server
+        const roleMap = Object.fromEntries(roles.map((role, index) => [index + 1, role]));
+        formData.append('pageRoles', JSON.stringify(roleMap));
+      }
       
       // Log the request
       console.log('Processing file:', file.name, file.type, file.size);
-      
-      // Check if PDF has multiple pages
-      const pageCount = await checkPdfPageCount(file);
-      console.log(`PDF has ${pageCount} pages`);
       setUploadProgress(30);
       
+      if (compareCandidates) {
+        formData.append('candidates', JSON.stringify(candidates.map((candidate) => ({
+          provider: candidate.provider,
+          temperature: candidate.temperature === '' ? undefined : parseFloat(candidate.temperature)
+        }))));
+        await handleCandidateConversion(formData);
+        return;
+      }
+      
       // Always use streaming conversion
-      console.log(`Using streaming conversion for ${file.name} (${pageCount} pages)`);
+      console.log(`Using streaming conversion for ${file.name}`);
       await handleStreamingConversion(file, formData);
       
     } catch (error) {
@@ -315,6 +584,9 @@ const FileUploader: React.FC<FileUploaderProps> = ({
                 </div>
               </div>
             )}
+            {statusMessage && (
+              <p className="text-sm text-gray-600">{statusMessage}</p>
+            )}
           </div>
         ) : (
           <>
@@ -336,7 +608,7 @@ const FileUploader: React.FC<FileUploaderProps> = ({
               Drag & drop your design file
             </h3>
             <p className="mt-1 text-sm text-gray-500">
-              Supported formats: PDF
+              Supported formats: PDF, PNG, JPG, SVG, ZIP (Figma frame export)
             </p>
             <p className="mt-2 text-xs text-gray-400">
               or click to select a file
@@ -347,12 +619,57 @@ const FileUploader: React.FC<FileUploaderProps> = ({
           ref={(el) => { fileInputRef.current = el; }}
           type="file"
           className="hidden"
-          accept=".pdf"
+          accept={ACCEPTED_FILE_TYPES}
           onChange={handleFileChange}
           disabled={isUploading}
         />
       </div>
 
+      {pendingFile && !isUploading && (
+        <div className="mt-4 p-4 border rounded-md">
+          <h4 className="text-sm font-medium text-gray-700">
+            Page roles for {pendingFile.name}
+          </h4>
+          <p className="mt-1 text-xs text-gray-500">
+            Tell the converter what each page shows. Ignored pages are not converted.
+          </p>
+          <div className="mt-3 space-y-2">
+            {pageRoles.map((role, index) => (
+              <div key={index} className="flex items-center">
+                <span className="text-sm text-gray-700 w-20">Page {index + 1}</span>
+                <select
+                  value={role}
+                  onChange={(e: any) => handlePageRoleChange(index, e.target.value as PageRole)}
+                  className="text-sm border rounded p-1"
+                >
+                  {PAGE_ROLE_OPTIONS.map((option) => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            ))}
+          </div>
+          <div className="mt-4 flex gap-2">
+            <button
+              type="button"
+              onClick={handleConfirmPageRoles}
+              className="px-3 py-1.5 text-sm bg-blue-600 text-white rounded hover:bg-blue-700"
+            >
+              Convert
+            </button>
+            <button
+              type="button"
+              onClick={() => setPendingFile(null)}
+              className="px-3 py-1.5 text-sm border rounded hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
       {error && (
         <div className="mt-4 p-3 bg-red-100 text-red-700 rounded-md">
           {error}
@@ -385,14 +702,159 @@ const FileUploader: React.FC<FileUploaderProps> = ({
           <div className="flex items-center">
             <span className="text-sm text-gray-700 mr-2">Target platform:</span>
             <select
-              value={targetPlatform}
-              onChange={() => {}}
+              value={selectedPlatform}
+              onChange={(e: any) => setSelectedPlatform(e.target.value)}
+              disabled={isUploading}
               className="text-sm border rounded p-1"
             >
               <option value="sfmc">Salesforce Marketing Cloud</option>
               <option value="generic">Generic Email</option>
+              <option value="amp">AMP for Email (with HTML fallback)</option>
             </select>
           </div>
+          <label className="flex items-center">
+            <input
+              type="checkbox"
+              checked={autoRepair}
+              onChange={(e: any) => setAutoRepair(e.target.checked)}
+              disabled={isUploading}
+              className="rounded text-blue-600"
+            />
+            <span className="ml-2 text-sm text-gray-700">
+              Fix QA errors automatically (up to {AUTO_REPAIR_ROUNDS} rounds)
+            </span>
+          </label>
+          <label className="flex items-center">
+            <input
+              type="checkbox"
+              checked={reconvert}
+              onChange={(e: any) => setReconvert(e.target.checked)}
+              disabled={isUploading}
+              className="rounded text-blue-600"
+            />
+            <span className="ml-2 text-sm text-gray-700">
+              Convert again even if this design was converted before
+            </span>
+          </label>
+          <label className="flex items-center">
+            <input
+              type="checkbox"
+              checked={darkMode}
+              onChange={(e: any) => setDarkMode(e.target.checked)}
+              disabled={isUploading}
+              className="rounded text-blue-600"
+            />
+            <span className="ml-2 text-sm text-gray-700">
+              Add a dark mode variant from the brand colors
+            </span>
+          </label>
+          <label className="flex items-center">
+            <input
+              type="checkbox"
+              checked={outlookFallbacks}
+              onChange={(e: any) => setOutlookFallbacks(e.target.checked)}
+              disabled={isUploading}
+              className="rounded text-blue-600"
+            />
+            <span className="ml-2 text-sm text-gray-700">
+              Add Outlook fallbacks (ghost tables, VML buttons and backgrounds)
+            </span>
+          </label>
+          <label className="flex items-center">
+            <input
+              type="checkbox"
+              checked={mjml}
+              onChange={(e: any) => setMjml(e.target.checked)}
+              disabled={isUploading}
+              className="rounded text-blue-600"
+            />
+            <span className="ml-2 text-sm text-gray-700">
+              Also export the email as MJML
+            </span>
+          </label>
+          {providers.length > 0 && (
+            <label className="flex items-center">
+              <input
+                type="checkbox"
+                checked={compareCandidates}
+                onChange={(e: any) => handleCompareCandidatesChange(e.target.checked)}
+                disabled={isUploading}
+                className="rounded text-blue-600"
+              />
+              <span className="ml-2 text-sm text-gray-700">
+                Compare several conversions and pick the best
+              </span>
+            </label>
+          )}
+          {compareCandidates && (
+            <div className="ml-6 space-y-2">
+              {candidates.map((candidate, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <span className="text-sm text-gray-700 w-24">Candidate {index + 1}</span>
+                  <select
+                    value={candidate.provider}
+                    onChange={(e: any) => handleCandidateChange(index, { provider: e.target.value })}
+                    disabled={isUploading}
+                    className="text-sm border rounded p-1"
+                  >
+                    {providers.map((option) => (
+                      <option key={option.id} value={option.id}>
+                        {option.displayName}
+                      </option>
+                    ))}
+                  </select>
+                  <input
+                    type="number"
+                    min={0}
+                    max={1}
+                    step={0.1}
+                    value={candidate.temperature}
+                    placeholder="Temperature"
+                    onChange={(e: any) => handleCandidateChange(index, { temperature: e.target.value })}
+                    disabled={isUploading}
+                    className="text-sm border rounded p-1 w-28"
+                  />
+                  {candidates.length > 2 && (
+                    <button
+                      type="button"
+                      onClick={() => setCandidates((current) => current.filter((_, candidateIndex) => candidateIndex !== index))}
+                      disabled={isUploading}
+                      className="text-sm text-gray-500 hover:text-gray-700"
+                    >
+                      Remove
+                    </button>
+                  )}
+                </div>
+              ))}
+              {candidates.length < MAX_CANDIDATES && (
+                <button
+                  type="button"
+                  onClick={() => setCandidates((current) => [...current, { provider: current[0]?.provider || selectedProvider, temperature: '' }])}
+                  disabled={isUploading}
+                  className="text-sm text-blue-600 hover:text-blue-700"
+                >
+                  Add candidate
+                </button>
+              )}
+            </div>
+          )}
+          {providers.length > 0 && !compareCandidates && (
+            <div className="flex items-center">
+              <span className="text-sm text-gray-700 mr-2">Conversion provider:</span>
+              <select
+                value={selectedProvider}
+                onChange={(e: any) => setSelectedProvider(e.target.value)}
+                disabled={isUploading}
+                className="text-sm border rounded p-1"
+              >
+                {providers.map((option) => (
+                  <option key={option.id} value={option.id}>
+                    {option.displayName}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
         </div>
       </div>
     </div>
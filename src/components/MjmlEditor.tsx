@@ -0,0 +1,164 @@
+import React, { useState, useEffect } from 'react';
+import CodeMirror from '@uiw/react-codemirror';
+import { html } from '@codemirror/lang-html';
+import { oneDark } from '@codemirror/theme-one-dark';
+import { EditorView } from '@uiw/react-codemirror';
+import { compileMjml, convertHtmlToMjml } from '@/lib/api-service';
+
+// Wait for a pause in typing before compiling
+const COMPILE_DELAY_MS = 500;
+
+interface MjmlEditorProps {
+  mjml: string | null;
+  code: string; // The HTML in the editor, the source of generated MJML
+  isInSync: boolean; // The HTML is the one compiled from, or saved with, the MJML
+  isDarkMode: boolean;
+  height: string;
+  onSourceChange: (mjml: string) => void;
+  onCompiled: (html: string) => void;
+  onGenerated: (mjml: string) => void;
+}
+
+interface MjmlCompileError {
+  line: number;
+  message: string;
+}
+
+export default function MjmlEditor({ mjml, code, isInSync, isDarkMode, height, onSourceChange, onCompiled, onGenerated }: MjmlEditorProps) {
+  const [needsCompile, setNeedsCompile] = useState(false);
+  const [isCompiling, setIsCompiling] = useState(false);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [compileErrors, setCompileErrors] = useState<MjmlCompileError[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  // Compile the edited MJML into the HTML shown in the preview
+  useEffect(() => {
+    if (!needsCompile || !mjml?.trim()) {
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        setIsCompiling(true);
+        const result = await compileMjml(mjml);
+        if (!cancelled) {
+          setCompileErrors(result.errors);
+          setError(null);
+          setNeedsCompile(false);
+          onCompiled(result.html);
+        }
+      } catch (err) {
+        if (!cancelled) {
+          console.error('Error compiling MJML:', err);
+          setError(err instanceof Error ? err.message : 'Failed to compile MJML');
+        }
+      } finally {
+        if (!cancelled) {
+          setIsCompiling(false);
+        }
+      }
+    }, COMPILE_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [mjml, needsCompile]);
+
+  const handleChange = (value: string) => {
+    onSourceChange(value);
+    setNeedsCompile(true);
+  };
+
+  const handleGenerate = async () => {
+    if (mjml?.trim() && !window.confirm('Replace the MJML with MJML generated from the HTML?')) {
+      return;
+    }
+
+    try {
+      setIsGenerating(true);
+      setError(null);
+      const result = await convertHtmlToMjml(code);
+      setCompileErrors([]);
+      setNeedsCompile(false);
+      onGenerated(result.mjml);
+    } catch (err) {
+      console.error('Error converting HTML to MJML:', err);
+      setError(err instanceof Error ? err.message : 'Failed to convert the HTML to MJML');
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const handleImport = async (e: any) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) {
+      handleChange(await file.text());
+    }
+  };
+
+  return (
+    <div>
+      <div className="px-4 py-2 border-b flex items-center justify-between text-sm">
+        <span className="text-zinc-600 dark:text-zinc-400">
+          {isCompiling ? 'Compiling...' : mjml ? 'The preview shows the compiled HTML.' : 'This email has no MJML source yet.'}
+        </span>
+        <div className="flex items-center space-x-2">
+          <button
+            onClick={handleGenerate}
+            disabled={isGenerating}
+            className="px-2 py-1 text-xs border rounded hover:bg-zinc-50 dark:hover:bg-zinc-800 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isGenerating ? 'Generating...' : 'Generate from HTML'}
+          </button>
+          <label className="px-2 py-1 text-xs border rounded cursor-pointer hover:bg-zinc-50 dark:hover:bg-zinc-800">
+            Import .mjml
+            <input type="file" accept=".mjml,text/plain" onChange={handleImport} className="hidden" />
+          </label>
+          {mjml && (
+            <a
+              href={`data:text/plain;charset=utf-8,${encodeURIComponent(mjml)}`}
+              download="email.mjml"
+              className="px-2 py-1 text-xs border rounded hover:bg-zinc-50 dark:hover:bg-zinc-800"
+            >
+              Download .mjml
+            </a>
+          )}
+        </div>
+      </div>
+
+      {mjml !== null && !isInSync && !needsCompile && (
+        <div className="px-4 py-2 text-sm bg-amber-50 text-amber-800 dark:bg-amber-900/30 dark:text-amber-400">
+          The HTML was changed after it was compiled from this MJML. Editing the MJML replaces those changes, and drafts are saved without the MJML until then.
+        </div>
+      )}
+
+      {error && (
+        <div className="px-4 py-2 text-sm bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400">
+          {error}
+        </div>
+      )}
+
+      <CodeMirror
+        value={mjml ?? ''}
+        height={height}
+        extensions={[html(), EditorView.lineWrapping]}
+        onChange={handleChange}
+        theme={isDarkMode ? oneDark : undefined}
+        className="text-sm"
+      />
+
+      {compileErrors.length > 0 && (
+        <div className="border-t divide-y dark:divide-zinc-700 max-h-40 overflow-y-auto">
+          {compileErrors.map((compileError, index) => (
+            <p key={index} className="px-4 py-2 text-sm text-red-700 dark:text-red-400">
+              Line {compileError.line}: {compileError.message}
+            </p>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
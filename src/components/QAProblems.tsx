@@ -0,0 +1,79 @@
+import React from 'react';
+import type { QAFailure } from '@/lib/qa-diagnostics';
+
+interface QAProblemsProps {
+  failures: QAFailure[] | null; // null until QA has been run
+  isChecking: boolean;
+  onRun: () => void;
+  onSelect: (failure: QAFailure, locationIndex: number | null, position: { x: number; y: number }) => void;
+}
+
+const SEVERITY_STYLES: Record<QAFailure['severity'], string> = {
+  error: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200',
+  warning: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200',
+  info: 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200'
+};
+
+export default function QAProblems({ failures, isChecking, onRun, onSelect }: QAProblemsProps) {
+  const handleSelect = (failure: QAFailure, locationIndex: number | null) => (e: any) => {
+    onSelect(failure, locationIndex, { x: e.pageX, y: e.pageY + 12 });
+  };
+
+  return (
+    <div className="border rounded-lg overflow-hidden">
+      <div className="bg-zinc-100 dark:bg-zinc-800 px-4 py-2 border-b flex justify-between items-center">
+        <h2 className="font-medium">
+          QA Problems{failures && ` (${failures.length})`}
+        </h2>
+        <button
+          onClick={onRun}
+          disabled={isChecking}
+          className="px-3 py-1 text-sm border rounded-md hover:bg-zinc-50 dark:hover:bg-zinc-700 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isChecking ? 'Checking...' : failures ? 'Run QA Again' : 'Run QA'}
+        </button>
+      </div>
+
+      {failures === null ? (
+        <p className="px-4 py-3 text-sm text-zinc-600 dark:text-zinc-400">
+          Run QA to mark failing rules in the editor gutter.
+        </p>
+      ) : failures.length === 0 ? (
+        <p className="px-4 py-3 text-sm text-green-700 dark:text-green-400">All QA rules pass.</p>
+      ) : (
+        <ul className="divide-y dark:divide-zinc-700 max-h-64 overflow-y-auto">
+          {failures.map((failure) => (
+            <li key={failure.ruleId} className="px-4 py-3 text-sm">
+              <div className="flex items-center space-x-2">
+                <span className={`px-2 py-0.5 text-xs rounded-full ${SEVERITY_STYLES[failure.severity]}`}>
+                  {failure.severity}
+                </span>
+                <button onClick={handleSelect(failure, null)} className="font-medium hover:underline text-left">
+                  {failure.ruleName}
+                </button>
+              </div>
+              <p className="mt-1 text-zinc-600 dark:text-zinc-400">{failure.message}</p>
+              {failure.locations && failure.locations.length > 0 && (
+                <ul className="mt-2 space-y-1 text-xs">
+                  {failure.locations.map((location, index) => (
+                    <li key={location.offset}>
+                      <button
+                        onClick={handleSelect(failure, index)}
+                        className="flex items-baseline space-x-2 w-full text-left hover:bg-zinc-50 dark:hover:bg-zinc-800 rounded"
+                      >
+                        <span className="shrink-0 text-zinc-500 dark:text-zinc-400">
+                          Line {location.line}, column {location.column}
+                        </span>
+                        <code className="truncate bg-zinc-100 dark:bg-zinc-800 px-1 rounded">{location.snippet}</code>
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
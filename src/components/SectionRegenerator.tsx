@@ -0,0 +1,186 @@
+import React, { useState } from 'react';
+import { regenerateSection } from '@/lib/api-service';
+
+interface SectionRegeneratorProps {
+  conversionId: string;
+  code: string;
+  selection: { from: number; to: number }; // Current selection in the editor
+  pageCount?: number;
+  onApply: (htmlContent: string) => void;
+  onClose: () => void;
+}
+
+type SectionSource = 'selection' | 'design';
+
+interface RegeneratedSection {
+  html: string;
+  section: { id: string; html: string };
+}
+
+export default function SectionRegenerator({ conversionId, code, selection, pageCount, onApply, onClose }: SectionRegeneratorProps) {
+  const [source, setSource] = useState<SectionSource>('selection');
+  const [pageNumber, setPageNumber] = useState(1);
+  const [top, setTop] = useState(0);
+  const [bottom, setBottom] = useState(25);
+  const [instructions, setInstructions] = useState('');
+  const [isRegenerating, setIsRegenerating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<RegeneratedSection | null>(null);
+
+  const handleRegenerate = async () => {
+    try {
+      setIsRegenerating(true);
+      setError(null);
+      setResult(null);
+
+      // Design areas are sent as fractions of the page height
+      const target = source === 'selection'
+        ? { selection }
+        : { region: { pageNumber, top: top / 100, bottom: bottom / 100 } };
+
+      setResult(await regenerateSection(conversionId, code, target, instructions));
+    } catch (err) {
+      console.error('Error regenerating section:', err);
+      setError(err instanceof Error ? err.message : 'Failed to regenerate section');
+    } finally {
+      setIsRegenerating(false);
+    }
+  };
+
+  const handleApply = () => {
+    if (result) {
+      onApply(result.html);
+      onClose();
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white dark:bg-zinc-900 rounded-lg max-w-2xl w-full max-h-[80vh] flex flex-col">
+        <div className="p-4 border-b dark:border-zinc-700 flex justify-between items-center">
+          <h2 className="text-lg font-medium">Regenerate Section</h2>
+          <button
+            onClick={onClose}
+            className="text-zinc-500 hover:text-zinc-700 dark:hover:text-zinc-300"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
+              <path fillRule="evenodd" d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z" clipRule="evenodd" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="p-4 overflow-y-auto flex-grow space-y-4">
+          <div className="flex space-x-4 text-sm">
+            <label className="flex items-center space-x-2">
+              <input
+                type="radio"
+                checked={source === 'selection'}
+                onChange={() => setSource('selection')}
+              />
+              <span>Section selected in the editor</span>
+            </label>
+            <label className="flex items-center space-x-2">
+              <input
+                type="radio"
+                checked={source === 'design'}
+                onChange={() => setSource('design')}
+              />
+              <span>Area of the design</span>
+            </label>
+          </div>
+
+          {source === 'design' && (
+            <div className="grid grid-cols-3 gap-4 text-sm">
+              <label className="flex flex-col">
+                <span className="text-zinc-500 dark:text-zinc-400 mb-1">Page</span>
+                <input
+                  type="number"
+                  min={1}
+                  max={pageCount}
+                  value={pageNumber}
+                  onChange={(e) => setPageNumber(Math.max(1, parseInt(e.target.value, 10) || 1))}
+                  className="px-2 py-1 border rounded-md dark:bg-zinc-800 dark:border-zinc-700"
+                />
+              </label>
+              <label className="flex flex-col">
+                <span className="text-zinc-500 dark:text-zinc-400 mb-1">From (% of page height)</span>
+                <input
+                  type="number"
+                  min={0}
+                  max={99}
+                  value={top}
+                  onChange={(e) => setTop(Math.min(99, Math.max(0, parseInt(e.target.value, 10) || 0)))}
+                  className="px-2 py-1 border rounded-md dark:bg-zinc-800 dark:border-zinc-700"
+                />
+              </label>
+              <label className="flex flex-col">
+                <span className="text-zinc-500 dark:text-zinc-400 mb-1">To (% of page height)</span>
+                <input
+                  type="number"
+                  min={1}
+                  max={100}
+                  value={bottom}
+                  onChange={(e) => setBottom(Math.min(100, Math.max(1, parseInt(e.target.value, 10) || 100)))}
+                  className="px-2 py-1 border rounded-md dark:bg-zinc-800 dark:border-zinc-700"
+                />
+              </label>
+            </div>
+          )}
+
+          <label className="flex flex-col text-sm">
+            <span className="text-zinc-500 dark:text-zinc-400 mb-1">What should change? (optional)</span>
+            <textarea
+              value={instructions}
+              onChange={(e) => setInstructions(e.target.value)}
+              rows={3}
+              placeholder="e.g. The button should be full width on mobile"
+              className="px-2 py-1 border rounded-md dark:bg-zinc-800 dark:border-zinc-700"
+            />
+          </label>
+
+          {error && (
+            <div className="p-3 bg-red-100 text-red-700 rounded-md text-sm dark:bg-red-900/30 dark:text-red-400">
+              {error}
+            </div>
+          )}
+
+          {result && (
+            <div>
+              <h3 className="text-sm font-medium mb-1">New markup of {result.section.id}</h3>
+              <pre className="text-xs bg-zinc-100 dark:bg-zinc-800 p-3 rounded-md overflow-auto max-h-64 whitespace-pre-wrap">
+                {result.section.html}
+              </pre>
+            </div>
+          )}
+        </div>
+
+        <div className="p-4 border-t dark:border-zinc-700 flex justify-end space-x-2">
+          {result ? (
+            <>
+              <button
+                onClick={() => setResult(null)}
+                className="px-3 py-1 text-sm border rounded-md hover:bg-zinc-50 dark:hover:bg-zinc-800"
+              >
+                Discard
+              </button>
+              <button
+                onClick={handleApply}
+                className="px-3 py-1 text-sm bg-zinc-900 text-white rounded-md hover:bg-zinc-800 dark:bg-zinc-50 dark:text-zinc-900 dark:hover:bg-zinc-200"
+              >
+                Apply
+              </button>
+            </>
+          ) : (
+            <button
+              onClick={handleRegenerate}
+              disabled={isRegenerating || (source === 'design' && top >= bottom)}
+              className="px-3 py-1 text-sm bg-zinc-900 text-white rounded-md hover:bg-zinc-800 dark:bg-zinc-50 dark:text-zinc-900 dark:hover:bg-zinc-200 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isRegenerating ? 'Regenerating...' : 'Regenerate'}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -4,7 +4,7 @@ import { format } from 'date-fns';
 
 interface VersionHistoryProps {
   emailId: string;
-  onLoadVersion: (htmlContent: string) => void;
+  onLoadVersion: (htmlContent: string, mjmlContent: string | null) => void;
   onClose: () => void;
 }
 
@@ -13,6 +13,7 @@ interface EmailVersion {
   version: number;
   created_at: string;
   title: string;
+  mjml_content?: string | null;
   user?: {
     email: string;
   };
@@ -55,7 +56,7 @@ export default function VersionHistory({ emailId, onLoadVersion, onClose }: Vers
       const response = await getEmailVersion(emailId, versionNumber);
       
       if (response && response.version) {
-        onLoadVersion(response.version.html_content);
+        onLoadVersion(response.version.html_content, response.version.mjml_content ?? null);
         onClose();
       }
     } catch (err) {
@@ -111,7 +112,14 @@ export default function VersionHistory({ emailId, onLoadVersion, onClose }: Vers
                 >
                   <div className="flex justify-between items-start">
                     <div>
-                      <h3 className="font-medium">{version.title || `Version ${version.version}`}</h3>
+                      <h3 className="font-medium">
+                        {version.title || `Version ${version.version}`}
+                        {version.mjml_content && (
+                          <span className="ml-2 text-xs px-1.5 py-0.5 rounded bg-zinc-100 dark:bg-zinc-800 text-zinc-600 dark:text-zinc-400">
+                            MJML
+                          </span>
+                        )}
+                      </h3>
                       <p className="text-sm text-zinc-500 dark:text-zinc-400">
                         {formatDate(version.created_at)}
                       </p>
@@ -0,0 +1,150 @@
+import React, { useState, useEffect } from 'react';
+import { getVisualDiff, runVisualDiff } from '@/lib/api-service';
+
+interface VisualDiffViewerProps {
+  conversionId: string;
+  code: string;
+  onClose: () => void;
+}
+
+type Viewport = 'desktop' | 'mobile';
+
+interface ViewportDiff {
+  viewport: Viewport;
+  width: number;
+  pageNumber: number;
+  similarity: number;
+  heatmapPath: string | null;
+}
+
+interface VisualDiffData {
+  visualDiff: { similarity: number; viewports: ViewportDiff[]; createdAt: string } | null;
+  heatmaps: Partial<Record<Viewport, string>>;
+}
+
+const formatSimilarity = (similarity: number) => `${Math.round(similarity * 100)}%`;
+
+export default function VisualDiffViewer({ conversionId, code, onClose }: VisualDiffViewerProps) {
+  const [data, setData] = useState<VisualDiffData | null>(null);
+  const [viewport, setViewport] = useState<Viewport>('desktop');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isComparing, setIsComparing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    getVisualDiff(conversionId)
+      .then(setData)
+      .catch((err) => {
+        console.error('Error loading visual diff:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load visual diff');
+      })
+      .finally(() => setIsLoading(false));
+  }, [conversionId]);
+
+  // Compare the HTML in the editor, including unsaved edits
+  const handleCompare = async () => {
+    try {
+      setIsComparing(true);
+      setError(null);
+      setData(await runVisualDiff(conversionId, code));
+    } catch (err) {
+      console.error('Error comparing with design:', err);
+      setError(err instanceof Error ? err.message : 'Failed to compare the email with its design');
+    } finally {
+      setIsComparing(false);
+    }
+  };
+
+  const visualDiff = data?.visualDiff;
+  const viewportDiff = visualDiff?.viewports.find((diff) => diff.viewport === viewport);
+  const heatmap = data?.heatmaps[viewport];
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white dark:bg-zinc-900 rounded-lg max-w-3xl w-full max-h-[90vh] flex flex-col">
+        <div className="p-4 border-b dark:border-zinc-700 flex justify-between items-center">
+          <div>
+            <h2 className="text-lg font-medium">Visual Diff</h2>
+            {visualDiff && (
+              <p className="text-sm text-zinc-500 dark:text-zinc-400">
+                {formatSimilarity(visualDiff.similarity)} similar to the design · compared {new Date(visualDiff.createdAt).toLocaleString()}
+              </p>
+            )}
+          </div>
+          <button
+            onClick={onClose}
+            className="text-zinc-500 hover:text-zinc-700 dark:hover:text-zinc-300"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
+              <path fillRule="evenodd" d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z" clipRule="evenodd" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="p-4 overflow-y-auto flex-grow space-y-4">
+          {error && (
+            <div className="p-3 bg-red-100 text-red-700 rounded-md text-sm dark:bg-red-900/30 dark:text-red-400">
+              {error}
+            </div>
+          )}
+
+          {isLoading ? (
+            <div className="flex justify-center py-12">
+              <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-zinc-900 dark:border-zinc-100"></div>
+            </div>
+          ) : !visualDiff ? (
+            <p className="text-sm text-zinc-600 dark:text-zinc-400">
+              This conversion has not been compared with its design yet.
+            </p>
+          ) : (
+            <>
+              <div className="flex items-center space-x-2">
+                {visualDiff.viewports.map((diff) => (
+                  <button
+                    key={diff.viewport}
+                    onClick={() => setViewport(diff.viewport)}
+                    className={`px-2 py-1 text-xs rounded ${
+                      viewport === diff.viewport
+                        ? "bg-zinc-300 dark:bg-zinc-600 font-medium"
+                        : "bg-zinc-200 dark:bg-zinc-700"
+                    }`}
+                  >
+                    {diff.viewport === 'desktop' ? 'Desktop' : 'Mobile'} ({formatSimilarity(diff.similarity)})
+                  </button>
+                ))}
+              </div>
+
+              {viewportDiff ? (
+                <div>
+                  <p className="text-xs text-zinc-500 dark:text-zinc-400 mb-2">
+                    Rendered at {viewportDiff.width}px and compared with page {viewportDiff.pageNumber}. Red pixels differ from the design.
+                  </p>
+                  {heatmap ? (
+                    // eslint-disable-next-line @next/next/no-img-element
+                    <img src={heatmap} alt={`${viewport} heatmap`} className="mx-auto border dark:border-zinc-700" style={{ width: viewportDiff.width }} />
+                  ) : (
+                    <p className="text-sm text-zinc-600 dark:text-zinc-400">The heatmap could not be loaded.</p>
+                  )}
+                </div>
+              ) : (
+                <p className="text-sm text-zinc-600 dark:text-zinc-400">
+                  The design has no {viewport} page to compare with.
+                </p>
+              )}
+            </>
+          )}
+        </div>
+
+        <div className="p-4 border-t dark:border-zinc-700 flex justify-end">
+          <button
+            onClick={handleCompare}
+            disabled={isComparing}
+            className="px-3 py-1 text-sm bg-zinc-900 text-white rounded-md hover:bg-zinc-800 dark:bg-zinc-50 dark:text-zinc-900 dark:hover:bg-zinc-200 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isComparing ? 'Comparing...' : 'Compare Current HTML'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
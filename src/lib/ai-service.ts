@@ -22,15 +22,23 @@ export interface GenerateTextOptions {
   topP?: number;
 }
 
+// Tokens billed for a call, with its model and duration
+export interface GenerateTextUsage {
+  inputTokens: number;
+  outputTokens: number;
+  model: string;
+  latencyMs: number;
+}
+
 // Factory function for Anthropic model strings
 export function anthropic(model: string): string {
   return model;
 }
 
 /**
- * Generates text using the specified AI model
+ * Generates text using the specified AI model and reports the tokens it used
  */
-export async function generateText(options: GenerateTextOptions): Promise<{ text: string; reasoning?: string }> {
+export async function generateText(options: GenerateTextOptions): Promise<{ text: string; usage: GenerateTextUsage }> {
   const { model, messages, temperature = 0.5, maxTokens = 1000 } = options;
   
   try {
@@ -46,6 +54,7 @@ export async function generateText(options: GenerateTextOptions): Promise<{ text
       }));
     
     // Call the Anthropic API
+    const startedAt = Date.now();
     const response = await anthropicClient.messages.create({
       model,
       system: systemMessage?.content || undefined,
@@ -62,7 +71,12 @@ export async function generateText(options: GenerateTextOptions): Promise<{ text
         }
         return acc;
       }, ''),
-      reasoning: response.usage ? JSON.stringify(response.usage) : undefined
+      usage: {
+        inputTokens: response.usage.input_tokens,
+        outputTokens: response.usage.output_tokens,
+        model,
+        latencyMs: Date.now() - startedAt
+      }
     };
   } catch (error) {
     console.error('Error generating text:', error);
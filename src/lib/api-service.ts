@@ -18,9 +18,24 @@ const getAuthHeaders = (): Record<string, string> => {
 };
 
 // File conversion API
-export async function convertDesignFile(file: File) {
+// Queues a conversion job; poll getConversionJob with the returned jobId
+export async function convertDesignFile(
+  file: File,
+  provider?: string,
+  pageRoles?: Record<number, 'desktop' | 'mobile' | 'dark' | 'ignore'>,
+  useCache = true
+) {
   const formData = new FormData();
   formData.append('file', file);
+  if (provider) {
+    formData.append('provider', provider);
+  }
+  if (pageRoles) {
+    formData.append('pageRoles', JSON.stringify(pageRoles));
+  }
+  if (!useCache) {
+    formData.append('useCache', 'false');
+  }
   
   const response = await fetch('/api/convertEmail', {
     method: 'POST',
@@ -35,6 +50,389 @@ export async function convertDesignFile(file: File) {
   return response.json();
 }
 
+// Gets the candidates of a multi-candidate conversion with their job status and scores, best first
+export async function getConversionCandidates(groupId: string) {
+  const headers = getAuthHeaders();
+  
+  const response = await fetch(`/api/convertEmail/candidates/${groupId}`, {
+    headers,
+  });
+  
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || 'Failed to fetch conversion candidates');
+  }
+  
+  return response.json();
+}
+
+// Marks the candidate the user chose; its conversion ID opens it in the editor
+export async function promoteConversionCandidate(groupId: string, candidateId: string) {
+  const headers = getAuthHeaders();
+  
+  const response = await fetch(`/api/convertEmail/candidates/${groupId}`, {
+    method: 'POST',
+    headers,
+    body: JSON.stringify({ candidateId }),
+  });
+  
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || 'Failed to promote conversion candidate');
+  }
+  
+  return response.json();
+}
+
+export async function getConversionProviders() {
+  const headers = getAuthHeaders();
+  
+  const response = await fetch('/api/convertEmail/providers', {
+    headers,
+  });
+  
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || 'Failed to fetch conversion providers');
+  }
+  
+  return response.json();
+}
+
+// Sets the default conversion provider and model of the workspace; a null provider falls back to the server default (Administrators only)
+export async function updateWorkspaceConversionProvider(provider: string | null, model: string | null) {
+  const headers = getAuthHeaders();
+  
+  const response = await fetch('/api/convertEmail/providers', {
+    method: 'PUT',
+    headers,
+    body: JSON.stringify({ provider, model }),
+  });
+  
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || 'Failed to update the conversion provider');
+  }
+  
+  return response.json();
+}
+
+export async function getConversion(conversionId: string) {
+  const headers = getAuthHeaders();
+  
+  const response = await fetch(`/api/convertEmail/${conversionId}`, {
+    headers,
+  });
+  
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || 'Failed to fetch conversion');
+  }
+  
+  return response.json();
+}
+
+// Regenerates one section of a conversion, picked by ID, editor selection or design region
+// Returns the merged HTML and the new section; nothing is saved until a version is saved
+export async function regenerateSection(
+  conversionId: string,
+  html: string,
+  target: {
+    sectionId?: string;
+    selection?: { from: number; to: number };
+    region?: { pageNumber: number; top: number; bottom: number };
+  },
+  instructions?: string
+) {
+  const headers = getAuthHeaders();
+  
+  const response = await fetch(`/api/convertEmail/${conversionId}/sections`, {
+    method: 'POST',
+    headers,
+    body: JSON.stringify({ html, ...target, instructions }),
+  });
+  
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || 'Failed to regenerate section');
+  }
+  
+  return response.json();
+}
+
+// Gets the stored visual diff of a conversion, with its heatmaps as data URLs
+export async function getVisualDiff(conversionId: string) {
+  const headers = getAuthHeaders();
+  
+  const response = await fetch(`/api/convertEmail/${conversionId}/visual-diff`, {
+    headers,
+  });
+  
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || 'Failed to fetch visual diff');
+  }
+  
+  return response.json();
+}
+
+// Compares HTML with the design of its conversion and stores the result with the conversion
+export async function runVisualDiff(conversionId: string, html: string) {
+  const headers = getAuthHeaders();
+  
+  const response = await fetch(`/api/convertEmail/${conversionId}/visual-diff`, {
+    method: 'POST',
+    headers,
+    body: JSON.stringify({ html }),
+  });
+  
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || 'Failed to compare the email with its design');
+  }
+  
+  return response.json();
+}
+
+// Gets the AMP version of a conversion with its validation issues
+export async function getAmpVersion(conversionId: string) {
+  const headers = getAuthHeaders();
+  
+  const response = await fetch(`/api/convertEmail/${conversionId}/amp`, {
+    headers,
+  });
+  
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || 'Failed to fetch the AMP version');
+  }
+  
+  return response.json();
+}
+
+// Generates the AMP version of a conversion from its current HTML
+export async function generateAmpVersion(conversionId: string, html: string) {
+  const headers = getAuthHeaders();
+  
+  const response = await fetch(`/api/convertEmail/${conversionId}/amp`, {
+    method: 'POST',
+    headers,
+    body: JSON.stringify({ html }),
+  });
+  
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || 'Failed to generate the AMP version');
+  }
+  
+  return response.json();
+}
+
+// Saves an edited AMP version of a conversion
+export async function saveAmpVersion(conversionId: string, amp: string) {
+  const headers = getAuthHeaders();
+  
+  const response = await fetch(`/api/convertEmail/${conversionId}/amp`, {
+    method: 'PUT',
+    headers,
+    body: JSON.stringify({ amp }),
+  });
+  
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || 'Failed to save the AMP version');
+  }
+  
+  return response.json();
+}
+
+// Gets the workspace brand kit, or the brand kit extracted from a conversion
+export async function getBrandKit(emailId?: string) {
+  const headers = getAuthHeaders();
+  
+  const response = await fetch(emailId ? `/api/brandKit?emailId=${emailId}` : '/api/brandKit', {
+    headers,
+  });
+  
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || 'Failed to fetch brand kit');
+  }
+  
+  return response.json();
+}
+
+// Replaces the workspace brand kit with the kit of a conversion, or an edited kit
+export async function updateWorkspaceBrandKit(source: { emailId: string } | { brandKit: any }) {
+  const headers = getAuthHeaders();
+  
+  const response = await fetch('/api/brandKit', {
+    method: 'PUT',
+    headers,
+    body: JSON.stringify(source),
+  });
+  
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || 'Failed to update brand kit');
+  }
+  
+  return response.json();
+}
+
+// Adds dark mode styles to email HTML, with colors from the brand kit
+export async function generateDarkMode(html: string, emailId?: string) {
+  const headers = getAuthHeaders();
+  
+  const response = await fetch('/api/darkMode', {
+    method: 'POST',
+    headers,
+    body: JSON.stringify({ html, emailId }),
+  });
+  
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || 'Failed to generate dark mode styles');
+  }
+  
+  return response.json();
+}
+
+// Compiles MJML to email HTML; compile errors come back with the HTML rendered despite them
+export async function compileMjml(mjml: string) {
+  const headers = getAuthHeaders();
+  
+  const response = await fetch('/api/mjml', {
+    method: 'POST',
+    headers,
+    body: JSON.stringify({ mjml }),
+  });
+  
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || 'Failed to compile MJML');
+  }
+  
+  return response.json();
+}
+
+export async function convertHtmlToMjml(html: string) {
+  const headers = getAuthHeaders();
+  
+  const response = await fetch('/api/mjml', {
+    method: 'POST',
+    headers,
+    body: JSON.stringify({ html }),
+  });
+  
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || 'Failed to convert the HTML to MJML');
+  }
+  
+  return response.json();
+}
+
+// Deletes cached conversions, all of them or those of one design file (Administrators only)
+export async function purgeConversionCache(fileHash?: string) {
+  const headers = getAuthHeaders();
+  
+  const response = await fetch(fileHash ? `/api/convertEmail/cache?fileHash=${fileHash}` : '/api/convertEmail/cache', {
+    method: 'DELETE',
+    headers,
+  });
+  
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || 'Failed to purge conversion cache');
+  }
+  
+  return response.json();
+}
+
+// Gets the model usage of the workspace and the current user for a month (YYYY-MM, default current month)
+export async function getUsage(month?: string) {
+  const headers = getAuthHeaders();
+  
+  const response = await fetch(month ? `/api/usage?month=${month}` : '/api/usage', {
+    headers,
+  });
+  
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || 'Failed to fetch usage');
+  }
+  
+  return response.json();
+}
+
+// Lists the prompt template versions and the versions pinned for the workspace
+export async function getPromptTemplates(name?: string) {
+  const headers = getAuthHeaders();
+  
+  const response = await fetch(name ? `/api/promptTemplates?name=${name}` : '/api/promptTemplates', {
+    headers,
+  });
+  
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || 'Failed to fetch prompt templates');
+  }
+  
+  return response.json();
+}
+
+// Creates a new version of a prompt template (Administrators only)
+export async function createPromptTemplateVersion(name: string, body: string, description?: string) {
+  const headers = getAuthHeaders();
+  
+  const response = await fetch('/api/promptTemplates', {
+    method: 'POST',
+    headers,
+    body: JSON.stringify({ name, body, description }),
+  });
+  
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || 'Failed to create prompt template');
+  }
+  
+  return response.json();
+}
+
+// Pins the workspace to a prompt template version, or back to the latest with null (Administrators only)
+export async function selectPromptTemplateVersion(name: string, version: number | null) {
+  const headers = getAuthHeaders();
+  
+  const response = await fetch('/api/promptTemplates', {
+    method: 'PUT',
+    headers,
+    body: JSON.stringify({ name, version }),
+  });
+  
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || 'Failed to select prompt template');
+  }
+  
+  return response.json();
+}
+
+export async function getConversionJob(jobId: string) {
+  const headers = getAuthHeaders();
+  
+  const response = await fetch(`/api/convertEmail/jobs/${jobId}`, {
+    headers,
+  });
+  
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || 'Failed to fetch conversion job');
+  }
+  
+  return response.json();
+}
+
 // QA Validation API
 export async function validateEmail(html: string, ruleIds?: string[]) {
   const headers = getAuthHeaders();
@@ -64,7 +462,143 @@ export async function getQARules(activeOnly: boolean = true) {
     const error = await response.json();
     throw new Error(error.error || 'Failed to fetch QA rules');
   }
-  
+
+  return response.json();
+}
+
+// Fixes the failures of QA rules that declare a fix, all of them without ruleIds, and saves a new version
+export async function fixQAFailures(html: string, emailId: string, ruleIds?: string[]) {
+  const headers = getAuthHeaders();
+
+  const response = await fetch('/api/qaValidation/fix', {
+    method: 'POST',
+    headers,
+    body: JSON.stringify({ html, emailId, ruleIds }),
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || 'Failed to fix QA failures');
+  }
+
+  return response.json();
+}
+
+// Gets the built-in QA rules as the workspace uses them, and its overrides
+export async function getQARulePack() {
+  const headers = getAuthHeaders();
+
+  const response = await fetch('/api/qaValidation/rulePack', {
+    headers,
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || 'Failed to fetch the QA rule pack');
+  }
+
+  return response.json();
+}
+
+// Enables, disables or changes the severity of a built-in QA rule; null restores it (Administrators only)
+export async function updateQARuleOverride(
+  ruleId: string,
+  override: { enabled?: boolean; severity?: 'error' | 'warning' | 'info' } | null
+) {
+  const headers = getAuthHeaders();
+
+  const response = await fetch('/api/qaValidation/rulePack', {
+    method: 'PUT',
+    headers,
+    body: JSON.stringify({ ruleId, override }),
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || 'Failed to update the QA rule pack');
+  }
+
+  return response.json();
+}
+
+type QARuleFields = {
+  rule_name: string;
+  description?: string;
+  rule_type: string;
+  rule_pattern: string;
+  severity: 'error' | 'warning' | 'info';
+  is_active: boolean;
+  fix?: { type: string; attribute?: string; value?: string; description?: string } | null;
+};
+
+// Creates a QA rule (Administrators only)
+export async function createQARule(rule: QARuleFields) {
+  const headers = getAuthHeaders();
+
+  const response = await fetch('/api/qaValidation/rules', {
+    method: 'POST',
+    headers,
+    body: JSON.stringify(rule),
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || 'Failed to create QA rule');
+  }
+
+  return response.json();
+}
+
+// Replaces a QA rule (Administrators only)
+export async function updateQARule(id: string | number, rule: QARuleFields) {
+  const headers = getAuthHeaders();
+
+  const response = await fetch('/api/qaValidation/rules', {
+    method: 'PUT',
+    headers,
+    body: JSON.stringify({ id, ...rule }),
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || 'Failed to update QA rule');
+  }
+
+  return response.json();
+}
+
+// Deletes a QA rule (Administrators only)
+export async function deleteQARule(id: string | number) {
+  const headers = getAuthHeaders();
+
+  const response = await fetch(`/api/qaValidation/rules?id=${encodeURIComponent(id)}`, {
+    method: 'DELETE',
+    headers,
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || 'Failed to delete QA rule');
+  }
+
+  return response.json();
+}
+
+// Evaluates a draft QA rule against sample HTML without saving it (Administrators only)
+export async function testQARule(rule: Partial<QARuleFields>, html: string) {
+  const headers = getAuthHeaders();
+
+  const response = await fetch('/api/qaValidation/rules/test', {
+    method: 'POST',
+    headers,
+    body: JSON.stringify({ rule, html }),
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || 'Failed to test QA rule');
+  }
+
   return response.json();
 }
 
@@ -0,0 +1,99 @@
+/**
+ * Client-side reader for the conversion event stream
+ * The conversion routes send Server-Sent Events whose data is a ConversionEvent as JSON
+ */
+
+import type { ConversionEvent } from '@/backend/services/conversionEvents';
+
+export type { ConversionEvent };
+
+// A parsed SSE message: the job event ID and the event
+export interface ConversionStreamMessage {
+  id: number | null;
+  event: ConversionEvent;
+}
+
+// Parse one SSE message block; comments and messages without data are skipped
+function parseMessage(block: string): ConversionStreamMessage | null {
+  let id: number | null = null;
+  const dataLines: string[] = [];
+
+  for (const line of block.split('\n')) {
+    if (!line || line.startsWith(':')) {
+      continue;
+    }
+
+    const separator = line.indexOf(':');
+    const field = separator === -1 ? line : line.slice(0, separator);
+    const value = separator === -1 ? '' : line.slice(separator + 1).replace(/^ /, '');
+
+    if (field === 'id') {
+      id = parseInt(value, 10);
+    } else if (field === 'data') {
+      dataLines.push(value);
+    }
+  }
+
+  if (dataLines.length === 0) {
+    return null;
+  }
+
+  return {
+    id: Number.isNaN(id) ? null : id,
+    event: JSON.parse(dataLines.join('\n'))
+  };
+}
+
+// Read the events of a conversion stream in order, across network chunk boundaries
+export async function* readConversionEvents(response: Response): AsyncGenerator<ConversionStreamMessage> {
+  const reader = response.body?.getReader();
+  if (!reader) {
+    throw new Error('Response body is not readable');
+  }
+
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      buffer += (value ? decoder.decode(value, { stream: true }) : '').replace(/\r\n?/g, '\n');
+
+      // Messages end with a blank line; keep any incomplete message for the next chunk
+      let boundary = buffer.indexOf('\n\n');
+      while (boundary !== -1) {
+        const message = parseMessage(buffer.slice(0, boundary));
+        buffer = buffer.slice(boundary + 2);
+        if (message) {
+          yield message;
+        }
+        boundary = buffer.indexOf('\n\n');
+      }
+
+      if (done) {
+        break;
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+// Reopen the event stream of a running job after the events the client has already seen
+// Returns null when the job's events are no longer available, e.g. after a server restart
+export async function resumeConversionEvents(jobId: string, lastEventId: number = 0): Promise<Response | null> {
+  const response = await fetch(`/api/convertEmail/jobs/${jobId}/events`, {
+    headers: { 'Last-Event-ID': lastEventId.toString() },
+  });
+
+  if (response.status === 404 || response.status === 409) {
+    return null;
+  }
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || 'Failed to resume the conversion');
+  }
+
+  return response;
+}
@@ -0,0 +1,18 @@
+/**
+ * Preview helper for the editor's dark mode toggle
+ * The preview iframe follows the operating system's color scheme, so the email's
+ * dark mode media queries are rewritten to apply regardless of it
+ */
+
+// Matches the media query of dark mode styles, e.g. "@media (prefers-color-scheme: dark)"
+const DARK_SCHEME_MEDIA = /@media\s*\(\s*prefers-color-scheme\s*:\s*dark\s*\)/gi;
+
+// Matches the media query of light mode styles, which must not override the dark ones
+const LIGHT_SCHEME_MEDIA = /@media\s*\(\s*prefers-color-scheme\s*:\s*light\s*\)/gi;
+
+// Render email HTML as a dark mode client would
+export function forceDarkScheme(html: string): string {
+  return html
+    .replace(DARK_SCHEME_MEDIA, '@media all')
+    .replace(LIGHT_SCHEME_MEDIA, '@media not all');
+}
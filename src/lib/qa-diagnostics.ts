@@ -0,0 +1,68 @@
+/**
+ * Editor helpers for QA results: failures with source locations become CodeMirror
+ * lint diagnostics, shown in the gutter and kept in place as the HTML is edited
+ */
+import { Diagnostic, forEachDiagnostic } from '@codemirror/lint';
+import { EditorState } from '@codemirror/state';
+
+export type QASourceLocation = {
+  line: number;
+  column: number;
+  offset: number;
+  endLine: number;
+  endColumn: number;
+  endOffset: number;
+  snippet: string;
+};
+
+export type QAFailure = {
+  ruleId: string;
+  ruleName: string;
+  description: string;
+  severity: 'error' | 'warning' | 'info';
+  isPassing: boolean;
+  message: string;
+  snippet?: string;
+  locations?: QASourceLocation[];
+};
+
+// A diagnostic as it currently sits in the editor
+export type PlacedDiagnostic = {
+  diagnostic: Diagnostic;
+  from: number;
+  to: number;
+};
+
+// Turn every located failure into a diagnostic, clamped to the document
+export function toDiagnostics(failures: QAFailure[], docLength: number): Diagnostic[] {
+  const clamp = (position: number) => Math.max(0, Math.min(position, docLength));
+
+  return failures.flatMap(failure => (failure.locations || []).map(location => ({
+    from: clamp(location.offset),
+    to: clamp(location.endOffset),
+    severity: failure.severity,
+    source: failure.ruleName,
+    message: failure.message
+  })));
+}
+
+// Get the diagnostics in the editor, in document order
+export function getPlacedDiagnostics(state: EditorState): PlacedDiagnostic[] {
+  const placed: PlacedDiagnostic[] = [];
+  forEachDiagnostic(state, (diagnostic, from, to) => placed.push({ diagnostic, from, to }));
+  return placed;
+}
+
+// Find where a location of a failure is now; edits move diagnostics but keep their order
+export function findFailureRange(state: EditorState, failure: QAFailure, index: number): { from: number; to: number } | null {
+  const matching = getPlacedDiagnostics(state).filter(({ diagnostic }) =>
+    diagnostic.source === failure.ruleName && diagnostic.message === failure.message
+  );
+  return matching[index] || null;
+}
+
+// Get the diagnostics touching a line, e.g. the one of a clicked gutter marker
+export function getLineDiagnostics(state: EditorState, lineNumber: number): PlacedDiagnostic[] {
+  const line = state.doc.line(lineNumber);
+  return getPlacedDiagnostics(state).filter(({ from, to }) => from <= line.to && to >= line.from);
+}
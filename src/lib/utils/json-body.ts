@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+/**
+ * Reads the JSON object in a request body
+ * @param request The request
+ * @returns The body, or a response to send when it is not a JSON object
+ */
+export async function readJsonBody(request: NextRequest): Promise<Record<string, unknown> | NextResponse> {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch (error) {
+    return NextResponse.json(
+      { error: 'Invalid JSON body' },
+      { status: 400 }
+    );
+  }
+
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    return NextResponse.json(
+      { error: 'The request body must be a JSON object' },
+      { status: 400 }
+    );
+  }
+
+  return body as Record<string, unknown>;
+}
@@ -1,6 +1,7 @@
 declare module 'react' {
   export type FC<P = {}> = React.FunctionComponent<P>;
   export type ReactNode = React.ReactNode;
+  export type MouseEvent<T = Element> = React.MouseEvent<T>;
   export function useState<T>(initialState: T | (() => T)): [T, (newState: T | ((prevState: T) => T)) => void];
   export function useEffect(effect: () => void | (() => void), deps?: readonly any[]): void;
 } 
\ No newline at end of file
@@ -36,6 +36,7 @@ BEGIN
     -- Create email_versions table
     CREATE TABLE email_versions (
       id SERIAL PRIMARY KEY,
+      email_id TEXT, -- ID of the conversion the version belongs to
       user_id INTEGER REFERENCES users(id),
       title VARCHAR(255),
       html_content TEXT,
@@ -177,6 +178,7 @@ BEGIN
       file_name TEXT NOT NULL,
       storage_path TEXT NOT NULL,
       html_content TEXT NOT NULL,
+      metadata JSONB DEFAULT '{}'::jsonb,
       created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
       updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
     );
@@ -332,4 +334,253 @@ BEGIN
     CREATE INDEX idx_notifications_is_read ON notifications(is_read);
   END IF;
 END
-$$; 
\ No newline at end of file
+$$;
+
+-- Check if the workspace_settings table exists
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT FROM pg_tables WHERE schemaname = 'public' AND tablename = 'workspace_settings') THEN
+    -- Create workspace_settings table
+    CREATE TABLE workspace_settings (
+      workspace_id TEXT PRIMARY KEY,
+      conversion_provider TEXT, -- Possible values: 'gemini', 'claude', 'local'
+      conversion_model TEXT,
+      settings JSONB DEFAULT '{}'::jsonb,
+      updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+    );
+    
+    -- Enable RLS on workspace_settings table (accessed with the service role only)
+    ALTER TABLE workspace_settings ENABLE ROW LEVEL SECURITY;
+  END IF;
+END
+$$;
+
+-- Add the rule definition columns read by QA validation and self-repair to existing qa_rules tables
+ALTER TABLE qa_rules ADD COLUMN IF NOT EXISTS rule_type VARCHAR(50) DEFAULT 'regex';
+ALTER TABLE qa_rules ADD COLUMN IF NOT EXISTS rule_pattern TEXT;
+ALTER TABLE qa_rules ADD COLUMN IF NOT EXISTS severity VARCHAR(20) DEFAULT 'error';
+
+-- Let QA rules declare a fix of their failing elements
+ALTER TABLE qa_rules ADD COLUMN IF NOT EXISTS fix JSONB;
+
+-- Link versions to the conversion they were created from, and keep conversion metadata
+ALTER TABLE email_versions ADD COLUMN IF NOT EXISTS email_id TEXT;
+CREATE INDEX IF NOT EXISTS idx_email_versions_email_id ON email_versions(email_id);
+ALTER TABLE email_conversions ADD COLUMN IF NOT EXISTS metadata JSONB DEFAULT '{}'::jsonb;
+
+-- Store the MJML source of versions edited as MJML next to their compiled HTML
+ALTER TABLE email_versions ADD COLUMN IF NOT EXISTS mjml_content TEXT;
+
+-- Check if the conversion_jobs table exists
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT FROM pg_tables WHERE schemaname = 'public' AND tablename = 'conversion_jobs') THEN
+    -- Create conversion_jobs table (the job ID is also the ID of the conversion it produces)
+    CREATE TABLE conversion_jobs (
+      id UUID PRIMARY KEY,
+      user_id INTEGER REFERENCES users(id),
+      file_name TEXT NOT NULL,
+      storage_path TEXT NOT NULL,
+      status VARCHAR(30) NOT NULL DEFAULT 'queued', -- Possible values: 'queued', 'rasterizing', 'generating', 'post-processing', 'done', 'failed'
+      provider TEXT,
+      model TEXT,
+      options JSONB DEFAULT '{}'::jsonb,
+      error TEXT,
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+      updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+      completed_at TIMESTAMP WITH TIME ZONE
+    );
+    
+    -- Enable RLS on conversion_jobs table
+    ALTER TABLE conversion_jobs ENABLE ROW LEVEL SECURITY;
+    
+    -- Create policy for conversion_jobs table
+    CREATE POLICY "Users can view their own conversion jobs" 
+      ON conversion_jobs 
+      FOR SELECT 
+      USING (user_id IN (SELECT id FROM users WHERE clerk_id = auth.uid()::text));
+      
+    -- Create index for conversion_jobs table
+    CREATE INDEX idx_conversion_jobs_user_id ON conversion_jobs(user_id);
+  END IF;
+END
+$$;
+
+-- Keep the latest progress message of conversion jobs
+ALTER TABLE conversion_jobs ADD COLUMN IF NOT EXISTS progress TEXT;
+
+-- Check if the conversion_job_events table exists
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT FROM pg_tables WHERE schemaname = 'public' AND tablename = 'conversion_job_events') THEN
+    -- Create conversion_job_events table, so job streams can be resumed on any server instance
+    CREATE TABLE conversion_job_events (
+      job_id UUID NOT NULL REFERENCES conversion_jobs(id) ON DELETE CASCADE,
+      event_id INTEGER NOT NULL,
+      status VARCHAR(30) NOT NULL, -- The event status, e.g. 'job', 'chunk', 'complete' or 'error'
+      event JSONB NOT NULL,
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+      PRIMARY KEY (job_id, event_id)
+    );
+    
+    -- Enable RLS on conversion_job_events table
+    ALTER TABLE conversion_job_events ENABLE ROW LEVEL SECURITY;
+    
+    -- Create policy for conversion_job_events table
+    CREATE POLICY "Users can view the events of their own conversion jobs" 
+      ON conversion_job_events 
+      FOR SELECT 
+      USING (job_id IN (
+        SELECT id FROM conversion_jobs WHERE user_id IN (SELECT id FROM users WHERE clerk_id = auth.uid()::text)
+      ));
+  END IF;
+END
+$$;
+
+-- Check if the brand_kits table exists
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT FROM pg_tables WHERE schemaname = 'public' AND tablename = 'brand_kits') THEN
+    -- Create brand_kits table (conversion kits have the conversion ID as email_id, the workspace kit has none)
+    CREATE TABLE brand_kits (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      workspace_id TEXT NOT NULL,
+      email_id TEXT,
+      kit JSONB NOT NULL,
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+      updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+    );
+    
+    -- Enable RLS on brand_kits table (accessed with the service role only)
+    ALTER TABLE brand_kits ENABLE ROW LEVEL SECURITY;
+    
+    -- Create indexes for brand_kits table; each workspace has at most one workspace kit
+    CREATE INDEX idx_brand_kits_email_id ON brand_kits(email_id);
+    CREATE UNIQUE INDEX idx_brand_kits_workspace ON brand_kits(workspace_id) WHERE email_id IS NULL;
+  END IF;
+END
+$$;
+
+-- Check if the prompt_templates table exists
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT FROM pg_tables WHERE schemaname = 'public' AND tablename = 'prompt_templates') THEN
+    -- Create prompt_templates table (version 1 of every template is built into the app)
+    CREATE TABLE prompt_templates (
+      id SERIAL PRIMARY KEY,
+      name TEXT NOT NULL, -- Possible values: 'gemini-conversion', 'claude-conversion', 'claude-system', 'repair', 'code-assistant-chat', 'code-assistant-modify'
+      version INTEGER NOT NULL,
+      description TEXT,
+      body TEXT NOT NULL,
+      created_by INTEGER REFERENCES users(id),
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+      UNIQUE (name, version)
+    );
+    
+    -- Enable RLS on prompt_templates table (accessed with the service role only)
+    ALTER TABLE prompt_templates ENABLE ROW LEVEL SECURITY;
+  END IF;
+END
+$$;
+
+-- Check if the model_usage table exists
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT FROM pg_tables WHERE schemaname = 'public' AND tablename = 'model_usage') THEN
+    -- Create model_usage table for per-call token, latency and cost accounting
+    CREATE TABLE model_usage (
+    id SERIAL PRIMARY KEY,
+    workspace_id TEXT NOT NULL,
+    user_id INTEGER REFERENCES users(id),
+    email_id TEXT, -- The conversion the call belongs to, if any
+    operation TEXT NOT NULL, -- Possible values: 'conversion', 'repair', 'section-regeneration', 'code-assistant-chat', 'code-assistant-modify'
+    provider TEXT NOT NULL,
+    model TEXT NOT NULL,
+    input_tokens INTEGER NOT NULL DEFAULT 0,
+    output_tokens INTEGER NOT NULL DEFAULT 0,
+    latency_ms INTEGER NOT NULL DEFAULT 0,
+    estimated_cost NUMERIC(12, 6), -- US dollars; NULL when the model has no known price
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+    );
+    
+    -- Monthly rollups filter by workspace and date
+    CREATE INDEX idx_model_usage_workspace_created_at ON model_usage(workspace_id, created_at);
+    CREATE INDEX idx_model_usage_user_id ON model_usage(user_id);
+    
+    -- Enable RLS on model_usage table (accessed with the service role only)
+    ALTER TABLE model_usage ENABLE ROW LEVEL SECURITY;
+  END IF;
+END
+$$;
+
+-- Check if the conversion_cache table exists
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT FROM pg_tables WHERE schemaname = 'public' AND tablename = 'conversion_cache') THEN
+    -- Create conversion_cache table for reusing conversions of the same design and settings
+    CREATE TABLE conversion_cache (
+    cache_key TEXT PRIMARY KEY, -- SHA-256 of the workspace, file hash, provider, model, prompt versions, options and brand kit
+    workspace_id TEXT NOT NULL,
+    file_hash TEXT NOT NULL,
+    provider TEXT NOT NULL,
+    model TEXT NOT NULL,
+    html TEXT NOT NULL,
+    metadata JSONB DEFAULT '{}'::jsonb,
+    brand_kit JSONB,
+    hit_count INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    last_hit_at TIMESTAMP WITH TIME ZONE
+    );
+    
+    -- Purges can target a single design file
+    CREATE INDEX idx_conversion_cache_file_hash ON conversion_cache(file_hash);
+    
+    -- Enable RLS on conversion_cache table (accessed with the service role only)
+    ALTER TABLE conversion_cache ENABLE ROW LEVEL SECURITY;
+  END IF;
+END
+$$;
+
+-- Scope cached conversions to a workspace; entries cached before that are shared across workspaces and are dropped
+ALTER TABLE conversion_cache ADD COLUMN IF NOT EXISTS workspace_id TEXT;
+DELETE FROM conversion_cache WHERE workspace_id IS NULL;
+ALTER TABLE conversion_cache ALTER COLUMN workspace_id SET NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_conversion_cache_workspace_id ON conversion_cache(workspace_id);
+
+-- Check if the conversion_candidates table exists
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT FROM pg_tables WHERE schemaname = 'public' AND tablename = 'conversion_candidates') THEN
+    -- Create conversion_candidates table for comparing several conversions of one upload
+    CREATE TABLE conversion_candidates (
+    id UUID PRIMARY KEY REFERENCES conversion_jobs(id) ON DELETE CASCADE,
+    group_id UUID NOT NULL,
+    user_id INTEGER REFERENCES users(id),
+    provider TEXT NOT NULL,
+    model TEXT,
+    temperature REAL,
+    qa_pass_rate REAL, -- Share of QA rules passed, NULL when no rules were active
+    visual_similarity REAL, -- Similarity to the design from 0 to 1, NULL when the design could not be compared
+    score REAL,
+    promoted BOOLEAN NOT NULL DEFAULT FALSE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    scored_at TIMESTAMP WITH TIME ZONE
+    );
+    
+    -- The picker loads the candidates of one upload
+    CREATE INDEX idx_conversion_candidates_group_id ON conversion_candidates(group_id);
+    
+    -- Enable RLS on conversion_candidates table
+    ALTER TABLE conversion_candidates ENABLE ROW LEVEL SECURITY;
+    
+    -- Create policy for conversion_candidates table
+    CREATE POLICY "Users can view their own conversion candidates" 
+      ON conversion_candidates 
+      FOR SELECT 
+      USING (user_id IN (SELECT id FROM users WHERE clerk_id = auth.uid()::text));
+  END IF;
+END
+$$;
+
+-- Allow one promoted candidate per upload, so concurrent promotions cannot both succeed
+CREATE UNIQUE INDEX IF NOT EXISTS idx_conversion_candidates_promoted ON conversion_candidates(group_id) WHERE promoted;
@@ -13,9 +13,11 @@ CREATE TABLE IF NOT EXISTS users (
 -- Table for storing email version details
 CREATE TABLE IF NOT EXISTS email_versions (
   id SERIAL PRIMARY KEY,
+  email_id TEXT, -- ID of the conversion the version belongs to
   user_id INTEGER REFERENCES users(id),
   title VARCHAR(255),
   html_content TEXT,
+  mjml_content TEXT, -- MJML source of the HTML, for emails edited as MJML
   version INTEGER,
   created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
 );
@@ -25,6 +27,10 @@ CREATE TABLE IF NOT EXISTS qa_rules (
   id SERIAL PRIMARY KEY,
   rule_name VARCHAR(255) NOT NULL,
   description TEXT,
+  rule_type VARCHAR(50) DEFAULT 'regex', -- Possible values: 'regex', 'attribute', 'tag', 'brand-colors', 'brand-fonts', 'dark-mode', 'outlook-fallbacks', 'amp', 'dom', 'max-width', 'inline-styles', 'max-size', 'font-fallbacks'
+  rule_pattern TEXT,
+  severity VARCHAR(20) DEFAULT 'error', -- Possible values: 'error', 'warning', 'info'
+  fix JSONB, -- Optional fix of the failing elements, e.g. {"type": "set-attribute", "attribute": "alt", "value": ""}
   is_active BOOLEAN DEFAULT TRUE,
   created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
 );
@@ -46,6 +52,7 @@ CREATE TABLE IF NOT EXISTS email_conversions (
   file_name TEXT NOT NULL,
   storage_path TEXT NOT NULL,
   html_content TEXT NOT NULL,
+  metadata JSONB DEFAULT '{}'::jsonb,
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
   updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
@@ -83,6 +90,114 @@ CREATE TABLE IF NOT EXISTS notifications (
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
+-- Table for storing per-workspace settings (workspace = Clerk organization or personal user workspace)
+CREATE TABLE IF NOT EXISTS workspace_settings (
+  workspace_id TEXT PRIMARY KEY,
+  conversion_provider TEXT, -- Possible values: 'gemini', 'claude', 'local'
+  conversion_model TEXT,
+  settings JSONB DEFAULT '{}'::jsonb,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Table for tracking conversion jobs (the job ID is also the ID of the conversion it produces)
+CREATE TABLE IF NOT EXISTS conversion_jobs (
+  id UUID PRIMARY KEY,
+  user_id INTEGER REFERENCES users(id),
+  file_name TEXT NOT NULL,
+  storage_path TEXT NOT NULL,
+  status VARCHAR(30) NOT NULL DEFAULT 'queued', -- Possible values: 'queued', 'rasterizing', 'generating', 'post-processing', 'done', 'failed'
+  provider TEXT,
+  model TEXT,
+  options JSONB DEFAULT '{}'::jsonb,
+  error TEXT,
+  progress TEXT, -- Message of the latest progress event
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  completed_at TIMESTAMP WITH TIME ZONE
+);
+
+-- Table for the events of conversion jobs, so their streams can be resumed on any server instance;
+-- the model output (chunk events) of a job is removed once the job has ended
+CREATE TABLE IF NOT EXISTS conversion_job_events (
+  job_id UUID NOT NULL REFERENCES conversion_jobs(id) ON DELETE CASCADE,
+  event_id INTEGER NOT NULL,
+  status VARCHAR(30) NOT NULL, -- The event status, e.g. 'job', 'chunk', 'complete' or 'error'
+  event JSONB NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (job_id, event_id)
+);
+
+-- Table for storing brand kits; kits extracted from a conversion have its ID as email_id,
+-- the approved workspace brand kit has no email_id
+CREATE TABLE IF NOT EXISTS brand_kits (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  workspace_id TEXT NOT NULL,
+  email_id TEXT,
+  kit JSONB NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Table for storing prompt template versions; version 1 of every template is built into the app
+CREATE TABLE IF NOT EXISTS prompt_templates (
+  id SERIAL PRIMARY KEY,
+  name TEXT NOT NULL, -- Possible values: 'gemini-conversion', 'claude-conversion', 'claude-system', 'repair', 'code-assistant-chat', 'code-assistant-modify'
+  version INTEGER NOT NULL,
+  description TEXT,
+  body TEXT NOT NULL,
+  created_by INTEGER REFERENCES users(id),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (name, version)
+);
+
+-- Table for logging the tokens, latency and estimated cost of every model call
+CREATE TABLE IF NOT EXISTS model_usage (
+  id SERIAL PRIMARY KEY,
+  workspace_id TEXT NOT NULL,
+  user_id INTEGER REFERENCES users(id),
+  email_id TEXT, -- The conversion the call belongs to, if any
+  operation TEXT NOT NULL, -- Possible values: 'conversion', 'repair', 'section-regeneration', 'code-assistant-chat', 'code-assistant-modify'
+  provider TEXT NOT NULL,
+  model TEXT NOT NULL,
+  input_tokens INTEGER NOT NULL DEFAULT 0,
+  output_tokens INTEGER NOT NULL DEFAULT 0,
+  latency_ms INTEGER NOT NULL DEFAULT 0,
+  estimated_cost NUMERIC(12, 6), -- US dollars; NULL when the model has no known price
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Table for caching conversion results by design file and conversion settings
+CREATE TABLE IF NOT EXISTS conversion_cache (
+  cache_key TEXT PRIMARY KEY, -- SHA-256 of the workspace, file hash, provider, model, prompt versions, options and brand kit
+  workspace_id TEXT NOT NULL,
+  file_hash TEXT NOT NULL,
+  provider TEXT NOT NULL,
+  model TEXT NOT NULL,
+  html TEXT NOT NULL,
+  metadata JSONB DEFAULT '{}'::jsonb,
+  brand_kit JSONB,
+  hit_count INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  last_hit_at TIMESTAMP WITH TIME ZONE
+);
+
+-- Table for storing the candidates of a multi-candidate conversion; each candidate is
+-- a conversion job, and candidates converted from the same upload share a group_id
+CREATE TABLE IF NOT EXISTS conversion_candidates (
+  id UUID PRIMARY KEY REFERENCES conversion_jobs(id) ON DELETE CASCADE,
+  group_id UUID NOT NULL,
+  user_id INTEGER REFERENCES users(id),
+  provider TEXT NOT NULL,
+  model TEXT,
+  temperature REAL,
+  qa_pass_rate REAL, -- Share of QA rules passed, NULL when no rules were active
+  visual_similarity REAL, -- Similarity to the design from 0 to 1, NULL when the design could not be compared
+  score REAL,
+  promoted BOOLEAN NOT NULL DEFAULT FALSE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  scored_at TIMESTAMP WITH TIME ZONE
+);
+
 -- Create Row Level Security (RLS) policies
 
 -- Enable RLS on all tables
@@ -94,6 +209,14 @@ ALTER TABLE email_conversions ENABLE ROW LEVEL SECURITY;
 ALTER TABLE qa_validation_results ENABLE ROW LEVEL SECURITY;
 ALTER TABLE email_deployments ENABLE ROW LEVEL SECURITY;
 ALTER TABLE notifications ENABLE ROW LEVEL SECURITY;
+ALTER TABLE workspace_settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE conversion_jobs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE conversion_job_events ENABLE ROW LEVEL SECURITY;
+ALTER TABLE brand_kits ENABLE ROW LEVEL SECURITY;
+ALTER TABLE prompt_templates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE model_usage ENABLE ROW LEVEL SECURITY;
+ALTER TABLE conversion_cache ENABLE ROW LEVEL SECURITY;
+ALTER TABLE conversion_candidates ENABLE ROW LEVEL SECURITY;
 
 -- Policy for users table
 CREATE POLICY "Users can view their own data" 
@@ -150,6 +273,26 @@ CREATE POLICY "Users can insert their own conversions"
   FOR INSERT 
   WITH CHECK (user_id IN (SELECT id FROM users WHERE clerk_id = auth.uid()::text));
 
+-- Policy for conversion_jobs table
+CREATE POLICY "Users can view their own conversion jobs" 
+  ON conversion_jobs 
+  FOR SELECT 
+  USING (user_id IN (SELECT id FROM users WHERE clerk_id = auth.uid()::text));
+
+-- Policy for conversion_job_events table
+CREATE POLICY "Users can view the events of their own conversion jobs" 
+  ON conversion_job_events 
+  FOR SELECT 
+  USING (job_id IN (
+    SELECT id FROM conversion_jobs WHERE user_id IN (SELECT id FROM users WHERE clerk_id = auth.uid()::text)
+  ));
+
+-- Policy for conversion_candidates table
+CREATE POLICY "Users can view their own conversion candidates" 
+  ON conversion_candidates 
+  FOR SELECT 
+  USING (user_id IN (SELECT id FROM users WHERE clerk_id = auth.uid()::text));
+
 -- Policy for qa_validation_results table
 CREATE POLICY "Users can view their own validation results" 
   ON qa_validation_results 
@@ -182,9 +325,19 @@ CREATE POLICY "Users can view their own notifications"
 CREATE INDEX IF NOT EXISTS idx_users_clerk_id ON users(clerk_id);
 CREATE INDEX IF NOT EXISTS idx_email_versions_user_id ON email_versions(user_id);
 CREATE INDEX IF NOT EXISTS idx_email_versions_created_at ON email_versions(created_at);
+CREATE INDEX IF NOT EXISTS idx_email_versions_email_id ON email_versions(email_id);
 CREATE INDEX IF NOT EXISTS idx_qa_rules_is_active ON qa_rules(is_active);
 CREATE INDEX IF NOT EXISTS idx_change_logs_email_version_id ON change_logs(email_version_id);
 CREATE INDEX IF NOT EXISTS idx_email_conversions_user_id ON email_conversions(user_id);
+CREATE INDEX IF NOT EXISTS idx_conversion_jobs_user_id ON conversion_jobs(user_id);
+CREATE INDEX IF NOT EXISTS idx_brand_kits_email_id ON brand_kits(email_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_brand_kits_workspace ON brand_kits(workspace_id) WHERE email_id IS NULL;
+CREATE INDEX IF NOT EXISTS idx_model_usage_workspace_created_at ON model_usage(workspace_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_model_usage_user_id ON model_usage(user_id);
+CREATE INDEX IF NOT EXISTS idx_conversion_cache_file_hash ON conversion_cache(file_hash);
+CREATE INDEX IF NOT EXISTS idx_conversion_cache_workspace_id ON conversion_cache(workspace_id);
+CREATE INDEX IF NOT EXISTS idx_conversion_candidates_group_id ON conversion_candidates(group_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_conversion_candidates_promoted ON conversion_candidates(group_id) WHERE promoted;
 CREATE INDEX IF NOT EXISTS idx_qa_validation_results_user_id ON qa_validation_results(user_id);
 CREATE INDEX IF NOT EXISTS idx_email_deployments_user_id ON email_deployments(user_id);
 CREATE INDEX IF NOT EXISTS idx_notifications_user_id ON notifications(user_id);